@@ -0,0 +1,55 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+
+// One-off data migration for clubs created before affiliation records
+// existed. Run it after applying the schema change that adds affiliations:
+//
+//   npx prisma migrate dev
+//   npm run migrate:affiliations
+//
+// Clubs without an affiliation would be shut out of competitions straight
+// away, so each one gets a fee-free affiliation running from today to the end
+// of the current season, or for a year when there is no current season.
+// Administrators then record real renewals from the club list.
+
+async function main() {
+  const clubs = await prisma.club.findMany({
+    where: { affiliations: { none: {} } },
+    select: { id: true },
+  });
+
+  if (clubs.length === 0) {
+    console.log('Every club already has an affiliation.');
+    return;
+  }
+
+  const now = new Date();
+  const startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const season = await prisma.season.findFirst({ where: { isCurrent: true } });
+  const expiryDate =
+    season && season.endDate > now
+      ? season.endDate
+      : new Date(startDate.getFullYear() + 1, startDate.getMonth(), startDate.getDate() - 1, 23, 59, 59, 999);
+
+  console.log(`Affiliating ${clubs.length} clubs until ${expiryDate.toLocaleDateString()}...`);
+  const result = await prisma.clubAffiliation.createMany({
+    data: clubs.map((club) => ({
+      clubId: club.id,
+      startDate,
+      expiryDate,
+      fee: 0,
+      status: 'active',
+    })),
+  });
+
+  console.log(`${result.count} affiliations created.`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error affiliating clubs:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
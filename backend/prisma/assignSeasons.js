@@ -0,0 +1,100 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+
+// One-off data migration for competitions and groups created before seasons
+// existed. Run it after applying the schema change that adds seasons:
+//
+//   npx prisma migrate dev
+//   npm run migrate:seasons
+//
+// Every calendar year a competition starts in becomes a season running from
+// 1 January to 31 December, and each competition joins the season it starts
+// in. Groups have no dates of their own, so they join the season of the
+// competitions that use them, or the latest season when no competition does.
+// The season containing today, or else the latest one, is made current.
+
+const seasonFor = (year) => ({
+  seasonName: `${year}`,
+  startDate: new Date(year, 0, 1),
+  endDate: new Date(year, 11, 31, 23, 59, 59, 999),
+});
+
+async function main() {
+  const competitions = await prisma.competition.findMany({
+    where: { seasonId: null },
+    select: { id: true, startDate: true, groups: { select: { id: true } } },
+  });
+  const groups = await prisma.group.findMany({
+    where: { seasonId: null },
+    select: { id: true },
+  });
+
+  if (competitions.length === 0 && groups.length === 0) {
+    console.log('Every competition and group already has a season.');
+    return;
+  }
+
+  const years = [...new Set(competitions.map((competition) => competition.startDate.getFullYear()))];
+  if (years.length === 0) {
+    years.push(new Date().getFullYear());
+  }
+
+  console.log(`Creating seasons for ${years.sort().join(', ')}...`);
+  const seasons = new Map();
+  for (const year of years) {
+    const data = seasonFor(year);
+    const season = await prisma.season.upsert({
+      where: { seasonName: data.seasonName },
+      update: {},
+      create: data,
+    });
+    seasons.set(year, season);
+  }
+
+  console.log(`Assigning ${competitions.length} competitions...`);
+  const groupSeasons = new Map();
+  for (const competition of competitions) {
+    const season = seasons.get(competition.startDate.getFullYear());
+    await prisma.competition.update({
+      where: { id: competition.id },
+      data: { seasonId: season.id },
+    });
+    // A group used across several years stays with the latest of them
+    competition.groups.forEach(({ id }) => {
+      const current = groupSeasons.get(id);
+      if (!current || current.startDate < season.startDate) {
+        groupSeasons.set(id, season);
+      }
+    });
+  }
+
+  const latest = [...seasons.values()].sort((a, b) => b.startDate - a.startDate)[0];
+
+  console.log(`Assigning ${groups.length} groups...`);
+  for (const group of groups) {
+    const season = groupSeasons.get(group.id) || latest;
+    await prisma.group.update({
+      where: { id: group.id },
+      data: { seasonId: season.id },
+    });
+  }
+
+  if (!(await prisma.season.findFirst({ where: { isCurrent: true } }))) {
+    const now = new Date();
+    const current =
+      [...seasons.values()].find((season) => season.startDate <= now && season.endDate >= now) || latest;
+    await prisma.season.update({ where: { id: current.id }, data: { isCurrent: true } });
+    console.log(`Season ${current.seasonName} is now the current season.`);
+  }
+
+  console.log('Seasons assigned.');
+}
+
+main()
+  .catch((e) => {
+    console.error('Error assigning seasons:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
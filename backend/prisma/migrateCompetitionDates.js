@@ -0,0 +1,102 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+
+// One-off data migration for competitions created while `date` and
+// `lastEntryDate` were free-text columns. Run it against the old schema,
+// before applying the schema change that makes them DateTime columns:
+//
+//   npm run migrate:competition-dates
+//   npx prisma migrate dev
+//
+// The legacy `date` becomes a single-day startDate/endDate range, and entries
+// keep closing at the end of the legacy last entry date. Values that cannot be
+// parsed fall back to the day the competition was created.
+
+const columnExists = async (column) => {
+  const rows = await prisma.$queryRaw`
+    SELECT COUNT(*) AS count
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = 'Competition'
+      AND COLUMN_NAME = ${column}`;
+  return Number(rows[0].count) > 0;
+};
+
+const parseDay = (value) => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+const startOfDay = (date) => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+const endOfDay = (date) => {
+  const result = new Date(date);
+  result.setHours(23, 59, 59, 999);
+  return result;
+};
+
+async function main() {
+  if (!(await columnExists('date'))) {
+    console.log('Competition dates are already migrated.');
+    return;
+  }
+
+  console.log('Adding date columns...');
+  await prisma.$executeRawUnsafe(`
+    ALTER TABLE \`Competition\`
+      ADD COLUMN \`startDate\` DATETIME(3) NULL,
+      ADD COLUMN \`endDate\` DATETIME(3) NULL,
+      ADD COLUMN \`entryDeadline\` DATETIME(3) NULL`);
+
+  const competitions = await prisma.$queryRaw`
+    SELECT id, \`date\`, lastEntryDate, createdAt FROM \`Competition\``;
+
+  console.log(`Converting ${competitions.length} competitions...`);
+  let fallbacks = 0;
+
+  for (const competition of competitions) {
+    const day = parseDay(competition.date);
+    const lastEntryDay = parseDay(competition.lastEntryDate);
+    if (!day || !lastEntryDay) {
+      fallbacks += 1;
+      console.warn(
+        `Competition ${competition.id}: could not parse "${competition.date}" / "${competition.lastEntryDate}", using its creation date`
+      );
+    }
+    const createdAt = new Date(competition.createdAt);
+
+    await prisma.$executeRaw`
+      UPDATE \`Competition\`
+      SET startDate = ${startOfDay(day || createdAt)},
+          endDate = ${endOfDay(day || createdAt)},
+          entryDeadline = ${endOfDay(lastEntryDay || createdAt)}
+      WHERE id = ${competition.id}`;
+  }
+
+  console.log('Replacing the text columns...');
+  await prisma.$executeRawUnsafe(`
+    ALTER TABLE \`Competition\`
+      DROP COLUMN \`date\`,
+      DROP COLUMN \`lastEntryDate\`,
+      MODIFY \`startDate\` DATETIME(3) NOT NULL,
+      MODIFY \`endDate\` DATETIME(3) NOT NULL,
+      RENAME COLUMN \`entryDeadline\` TO \`lastEntryDate\``);
+  await prisma.$executeRawUnsafe(`
+    ALTER TABLE \`Competition\`
+      MODIFY \`lastEntryDate\` DATETIME(3) NOT NULL`);
+
+  console.log(`Competition dates migrated (${fallbacks} fell back to the creation date).`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error migrating competition dates:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
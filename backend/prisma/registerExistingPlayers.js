@@ -0,0 +1,55 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+
+// One-off data migration for players created before annual registrations
+// existed. Run it after applying the schema change that adds registrations,
+// and after seasons have been assigned:
+//
+//   npx prisma migrate dev
+//   npm run migrate:registrations
+//
+// Every player without a registration for the current season gets an active,
+// fee-free one, so existing rosters stay eligible for this season's
+// competitions. Later seasons are renewed from the player list as usual.
+
+async function main() {
+  const season = await prisma.season.findFirst({ where: { isCurrent: true } });
+  if (!season) {
+    console.log('There is no current season. Run npm run migrate:seasons first.');
+    return;
+  }
+
+  const players = await prisma.player.findMany({
+    where: { registrations: { none: { seasonId: season.id } } },
+    select: { id: true },
+  });
+
+  if (players.length === 0) {
+    console.log(`Every player is already registered for ${season.seasonName}.`);
+    return;
+  }
+
+  console.log(`Registering ${players.length} players for ${season.seasonName}...`);
+  const now = new Date();
+  const result = await prisma.playerRegistration.createMany({
+    data: players.map((player) => ({
+      playerId: player.id,
+      seasonId: season.id,
+      status: 'active',
+      fee: 0,
+      activatedAt: now,
+    })),
+    skipDuplicates: true,
+  });
+
+  console.log(`${result.count} registrations created.`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error registering players:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,7 +1,13 @@
 const app = require('./src/app');
+const { startSuspensionJob } = require('./src/jobs/suspensionJob');
+const { startRegistrationJob } = require('./src/jobs/registrationJob');
+const { startAffiliationJob } = require('./src/jobs/affiliationJob');
 
 const port = process.env.PORT || 3000;
 
 app.listen(port, () => {
   console.log(`Server is running on port ${port}`);
+  startSuspensionJob();
+  startRegistrationJob();
+  startAffiliationJob();
 });
@@ -13,6 +13,14 @@ const groupRoutes = require("./routes/group");
 const competitionRoutes = require("./routes/competition");
 const playerRoutes = require("./routes/player");
 const authRoutes = require("./routes/auth");
+const matchRoutes = require("./routes/match");
+const leaderboardRoutes = require("./routes/leaderboard");
+const venueRoutes = require("./routes/venue");
+const seasonRoutes = require("./routes/season");
+const registrationRoutes = require("./routes/registration");
+const transferRoutes = require("./routes/transfer");
+const officialRoutes = require("./routes/official");
+const verifyRoutes = require("./routes/verify");
 const swaggerRouter = require("./swagger");
 
 const app = express();
@@ -53,7 +61,8 @@ const corsOptions = {
     'Content-Type',
     'Accept',
     'Authorization',
-    'Cache-Control'
+    'Cache-Control',
+    'X-Season-Id'
   ],
   exposedHeaders: ['X-Total-Count'],
   maxAge: 86400 // Cache preflight for 24 hours
@@ -80,6 +89,14 @@ const uploadsPath =
     : path.resolve(__dirname, "..", "uploads");
 
 console.log(`Serving uploads from: ${uploadsPath}`);
+// Aadhar documents are personal data: of the player uploads only photos are
+// public, and documents are sent by GET /api/players/:id/aadhar-image
+app.use("/uploads/players", (req, res, next) => {
+  if (req.path.startsWith("/profileImage/")) {
+    return next();
+  }
+  res.status(404).end();
+});
 app.use("/uploads", express.static(uploadsPath));
 
 // Health check endpoint
@@ -94,6 +111,14 @@ app.use("/api/clubs", clubRoutes);
 app.use("/api/groups", groupRoutes);
 app.use("/api/competitions", competitionRoutes);
 app.use("/api/players", playerRoutes);
+app.use("/api/matches", matchRoutes);
+app.use("/api/leaderboards", leaderboardRoutes);
+app.use("/api/venues", venueRoutes);
+app.use("/api/seasons", seasonRoutes);
+app.use("/api/registrations", registrationRoutes);
+app.use("/api/transfers", transferRoutes);
+app.use("/api/officials", officialRoutes);
+app.use("/api/verify", verifyRoutes);
  
 app.use(swaggerRouter);
 
@@ -1,37 +1,109 @@
-// module.exports = {
-//   // User management
-//   "users.read": ["admin"],
-//   "users.write": ["admin"],
-//   "users.update": ["admin"],
-//   "users.delete": ["admin"],
-  
-//   // Club management
-//   "clubs.read": ["admin", "clubadmin"],
-//   "clubs.write": ["admin"],
-//   "clubs.update": ["admin", "clubadmin"],
-//   "clubs.delete": ["admin"],
-  
-//   // Group management
-//   "groups.read": ["admin", "clubadmin"],
-//   "groups.write": ["admin", "clubadmin"],
-//   "groups.update": ["admin", "clubadmin"],
-//   "groups.delete": ["admin", "clubadmin"],
-  
-//   // Competition management
-//   "competitions.read": ["admin", "clubadmin"],
-//   "competitions.write": ["admin", "clubadmin"],
-//   "competitions.update": ["admin", "clubadmin"],
-//   "competitions.delete": ["admin"],
-  
-//   // Site settings
-//   "sitesettings.read": ["admin"],
-//   "sitesettings.write": ["admin"],
-  
-//   // Authentication
-//   "auth.login": ["admin", "clubadmin", "member"],
-//   "auth.register": ["admin"],
-//   "auth.resetPassword": ["admin", "clubadmin", "member"],
-  
-//   // Roles
-//   "roles.read": ["admin"],
-// };
\ No newline at end of file
+// Permission catalog: every permission checked by the acl middleware, with the
+// roles that hold it until an administrator changes the matrix from the
+// Roles & Permissions screen. Stored overrides live in the role_permissions table.
+module.exports = {
+  // User management
+  "users.read": { description: "View users", roles: ["admin"] },
+  "users.write": { description: "Create users", roles: ["admin"] },
+  "users.update": { description: "Edit users, status and passwords", roles: ["admin"] },
+  "users.delete": { description: "Delete users", roles: ["admin"] },
+  "users.export": { description: "Export users to Excel", roles: ["admin"] },
+
+  // Club management
+  "clubs.read": { description: "View clubs", roles: ["admin", "clubadmin"] },
+  "clubs.write": { description: "Create clubs", roles: ["admin"] },
+  "clubs.update": { description: "Edit clubs", roles: ["admin"] },
+  "clubs.delete": { description: "Delete clubs", roles: ["admin"] },
+  "clubs.profile": { description: "Manage own club profile", roles: ["clubadmin"] },
+
+  // Club affiliations
+  "affiliations.read": { description: "View club affiliations", roles: ["admin", "clubadmin"] },
+  "affiliations.write": { description: "Record club affiliations", roles: ["admin"] },
+  "affiliations.update": { description: "Edit and revoke club affiliations", roles: ["admin"] },
+  "affiliations.delete": { description: "Delete club affiliations", roles: ["admin"] },
+
+  // Club officials (coaches, managers and support staff)
+  "clubOfficials.read": { description: "View club officials", roles: ["admin", "clubadmin"] },
+  "clubOfficials.write": { description: "Add club officials", roles: ["admin", "clubadmin"] },
+  "clubOfficials.update": { description: "Edit club officials", roles: ["admin", "clubadmin"] },
+  "clubOfficials.delete": { description: "Remove club officials", roles: ["admin", "clubadmin"] },
+
+  // Season management
+  "seasons.read": { description: "View seasons", roles: ["admin", "clubadmin"] },
+  "seasons.write": { description: "Create seasons", roles: ["admin"] },
+  "seasons.update": { description: "Edit seasons and choose the current season", roles: ["admin"] },
+  "seasons.rollover": { description: "Roll a season over into a new one", roles: ["admin"] },
+  "seasons.delete": { description: "Delete seasons", roles: ["admin"] },
+
+  // Player registrations
+  "registrations.read": { description: "View player registrations", roles: ["admin", "clubadmin"] },
+  "registrations.renew": { description: "Register and renew players for a season", roles: ["admin", "clubadmin"] },
+  "registrations.update": { description: "Approve, lapse and adjust registrations", roles: ["admin"] },
+
+  // Player transfers
+  "transfers.read": { description: "View player transfers", roles: ["admin", "clubadmin"] },
+  "transfers.request": { description: "Request and withdraw player transfers", roles: ["admin", "clubadmin"] },
+  "transfers.noc": { description: "Issue or deny transfer NOCs", roles: ["admin", "clubadmin"] },
+  "transfers.approve": { description: "Approve and reject player transfers", roles: ["admin"] },
+
+  // Venue management
+  "venues.read": { description: "View venues and courts", roles: ["admin", "clubadmin"] },
+  "venues.write": { description: "Create venues", roles: ["admin"] },
+  "venues.update": { description: "Edit venues, courts and availability", roles: ["admin"] },
+  "venues.delete": { description: "Delete venues", roles: ["admin"] },
+
+  // Group management
+  "groups.read": { description: "View groups", roles: ["admin", "clubadmin"] },
+  "groups.write": { description: "Create groups", roles: ["admin"] },
+  "groups.update": { description: "Edit groups", roles: ["admin"] },
+  "groups.delete": { description: "Delete groups", roles: ["admin"] },
+
+  // Competition management
+  "competitions.read": { description: "View competitions", roles: ["admin", "clubadmin"] },
+  "competitions.write": { description: "Create competitions", roles: ["admin"] },
+  "competitions.update": { description: "Edit competitions", roles: ["admin"] },
+  "competitions.status": { description: "Open, close, start, complete or cancel competitions", roles: ["admin"] },
+  "competitions.delete": { description: "Delete competitions", roles: ["admin"] },
+
+  // Competition entries
+  "entries.read": { description: "View competition entries", roles: ["admin", "clubadmin"] },
+  "entries.write": { description: "Submit, edit and withdraw entries", roles: ["admin", "clubadmin"] },
+  "entries.review": { description: "Approve or reject entries", roles: ["admin"] },
+
+  // Fixtures
+  "fixtures.read": { description: "View fixtures", roles: ["admin", "clubadmin"] },
+  "fixtures.manage": { description: "Draw, edit and publish fixtures", roles: ["admin"] },
+
+  // Matches
+  "matches.read": { description: "View matches and results", roles: ["admin", "clubadmin"] },
+  "matches.manage": { description: "Schedule matches", roles: ["admin"] },
+  "matches.score": { description: "Record and correct match results", roles: ["admin"] },
+  "matches.officials": { description: "Assign officials to matches", roles: ["admin"] },
+
+  // Officials
+  "officials.read": { description: "View referees and technical officials", roles: ["admin"] },
+  "officials.write": { description: "Register officials", roles: ["admin"] },
+  "officials.update": { description: "Edit officials", roles: ["admin"] },
+  "officials.delete": { description: "Delete officials", roles: ["admin"] },
+
+  // Standings
+  "standings.read": { description: "View league tables", roles: ["admin", "clubadmin"] },
+  "standings.manage": { description: "Set points rules and tie-breakers", roles: ["admin"] },
+
+  // Leaderboards
+  "leaderboards.read": { description: "View player leaderboards", roles: ["admin", "clubadmin"] },
+
+  // Player management
+  "players.read": { description: "View players", roles: ["admin", "clubadmin"] },
+  "players.write": { description: "Register players", roles: ["admin", "clubadmin"] },
+  "players.update": { description: "Edit players", roles: ["admin", "clubadmin"] },
+  "players.suspend": { description: "Suspend or reinstate players", roles: ["admin"] },
+  "players.verify": { description: "Verify Aadhar details", roles: ["admin"] },
+  "players.export": { description: "Export players to Excel", roles: ["admin", "clubadmin"] },
+  "players.import": { description: "Bulk import players from Excel or CSV", roles: ["admin", "clubadmin"] },
+  "players.idcards": { description: "Print player ID cards", roles: ["admin", "clubadmin"] },
+
+  // Roles
+  "roles.read": { description: "View roles and permissions", roles: ["admin"] },
+  "roles.update": { description: "Change role permissions", roles: ["admin"] },
+};
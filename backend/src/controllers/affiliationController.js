@@ -0,0 +1,207 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { getClubScope } = require("../services/clubScopeService");
+const {
+  AFFILIATION_STATUS,
+  checkAffiliationExpiry,
+} = require("../services/affiliationService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., record not found)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2025") {
+        return res.status(404).json({ errors: { message: "Affiliation not found" } });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const dateSchema = (label) =>
+  z.coerce.date({
+    errorMap: () => ({ message: `${label} must be a valid date` }),
+  });
+
+const affiliationSchema = z
+  .object({
+    startDate: dateSchema("Start date"),
+    expiryDate: dateSchema("Expiry date"),
+    fee: z.coerce
+      .number({ invalid_type_error: "Fee must be a number" })
+      .min(0, "Fee cannot be negative"),
+    receiptNumber: z.string().trim().max(255).optional().nullable(),
+  })
+  .refine((data) => data.expiryDate > data.startDate, {
+    message: "Expiry date must be after the start date",
+    path: ["expiryDate"],
+  });
+
+// Expired follows the dates; revoking is the only status set by hand
+const statusFor = (expiryDate, revoked, now = new Date()) => {
+  if (revoked) return AFFILIATION_STATUS.REVOKED;
+  return expiryDate < now ? AFFILIATION_STATUS.EXPIRED : AFFILIATION_STATUS.ACTIVE;
+};
+
+const findClub = async (req) => {
+  const clubId = parseInt(req.params.id);
+  if (!clubId) throw createError(400, "Invalid club ID");
+
+  // Club-scoped callers can only ever reach their own club
+  const clubScope = await getClubScope(req.user);
+  if (clubScope !== undefined && clubId !== clubScope) {
+    throw createError(404, "Club not found");
+  }
+
+  const club = await prisma.club.findUnique({
+    where: { id: clubId },
+    select: { id: true, clubName: true, affiliationNumber: true },
+  });
+  if (!club) throw createError(404, "Club not found");
+  return club;
+};
+
+const findAffiliation = async (req, clubId) => {
+  const id = parseInt(req.params.affiliationId);
+  if (!id) throw createError(400, "Invalid affiliation ID");
+
+  const affiliation = await prisma.clubAffiliation.findFirst({ where: { id, clubId } });
+  if (!affiliation) throw createError(404, "Affiliation not found");
+  return affiliation;
+};
+
+/**
+ * Refuse an affiliation period that overlaps another live one of the same club
+ * @param {number} clubId
+ * @param {{ startDate?: Date, expiryDate?: Date }} period
+ * @param {number} [ignoreId] - Affiliation being updated
+ */
+const assertNoOverlap = async (clubId, { startDate, expiryDate }, ignoreId) => {
+  const overlapping = await prisma.clubAffiliation.findFirst({
+    where: {
+      clubId,
+      id: ignoreId ? { not: ignoreId } : undefined,
+      status: { not: AFFILIATION_STATUS.REVOKED },
+      startDate: { lte: expiryDate },
+      expiryDate: { gte: startDate },
+    },
+  });
+  if (overlapping) {
+    const message = `This period overlaps the affiliation running from ${overlapping.startDate.toLocaleDateString()} to ${overlapping.expiryDate.toLocaleDateString()}.`;
+    throw createError(400, message, {
+      errors: { startDate: { type: "validation", message } },
+    });
+  }
+};
+
+const getAffiliations = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+
+  const [affiliations, current] = await Promise.all([
+    prisma.clubAffiliation.findMany({
+      where: { clubId: club.id },
+      orderBy: { startDate: "desc" },
+    }),
+    checkAffiliationExpiry(club.id),
+  ]);
+
+  res.json({ club, affiliations, ...current });
+});
+
+const createAffiliation = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const validatedData = await affiliationSchema.parseAsync(req.body);
+
+  await assertNoOverlap(club.id, validatedData);
+
+  const affiliation = await prisma.clubAffiliation.create({
+    data: {
+      clubId: club.id,
+      startDate: validatedData.startDate,
+      expiryDate: validatedData.expiryDate,
+      fee: validatedData.fee,
+      receiptNumber: validatedData.receiptNumber || null,
+      status: statusFor(validatedData.expiryDate, false),
+    },
+  });
+
+  res.status(201).json(affiliation);
+});
+
+const updateAffiliation = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const affiliation = await findAffiliation(req, club.id);
+
+  const schema = affiliationSchema.and(
+    z.object({ revoked: z.boolean().optional() })
+  );
+  const validatedData = await schema.parseAsync(req.body);
+  const revoked = validatedData.revoked ?? affiliation.status === AFFILIATION_STATUS.REVOKED;
+
+  if (!revoked) {
+    await assertNoOverlap(club.id, validatedData, affiliation.id);
+  }
+
+  // Moving the expiry date means the club is reminded again before the new date
+  const expiryChanged = validatedData.expiryDate.getTime() !== affiliation.expiryDate.getTime();
+
+  const updated = await prisma.clubAffiliation.update({
+    where: { id: affiliation.id },
+    data: {
+      startDate: validatedData.startDate,
+      expiryDate: validatedData.expiryDate,
+      fee: validatedData.fee,
+      receiptNumber: validatedData.receiptNumber || null,
+      status: statusFor(validatedData.expiryDate, revoked),
+      reminderSentAt: expiryChanged ? null : undefined,
+    },
+  });
+
+  res.json(updated);
+});
+
+const deleteAffiliation = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const affiliation = await findAffiliation(req, club.id);
+
+  await prisma.clubAffiliation.delete({ where: { id: affiliation.id } });
+  res.json({ message: "Affiliation deleted successfully" });
+});
+
+module.exports = {
+  getAffiliations,
+  createAffiliation,
+  updateAffiliation,
+  deleteAffiliation,
+};
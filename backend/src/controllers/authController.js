@@ -8,7 +8,8 @@ const validateRequest = require("../utils/validateRequest");
 const config = require("../config/config");
 const createError = require("http-errors");
 const jwtConfig = require("../config/jwt");
-const { SUPER_ADMIN } = require("../config/roles");
+const { SUPER_ADMIN, CLUBADMIN } = require("../config/roles");
+const { buildClubPrincipal } = require("../services/clubScopeService");
 
 // Register a new user
 const register = async (req, res, next) => {
@@ -91,6 +92,7 @@ const login = async (req, res, next) => {
         role: true,
         active: true,
         lastLogin: true,
+        clubId: true,
       },
     });
 
@@ -98,27 +100,11 @@ const login = async (req, res, next) => {
     
     // If not found in users, check clubs
     if (!user) {
-      const club = await prisma.club.findFirst({
-        where: { email },
-        select: {
-          id: true,
-          clubName: true,
-          email: true,
-          password: true,
-        },
-      });
+      const club = await prisma.club.findFirst({ where: { email } });
       
       if (club) {
-        // Transform club data to match user structure
-        user = {
-          id: club.id,
-          name: club.clubName,
-          email: club.email,
-          password: club.password,
-          role: "CLUB",
-          active: true,
-          lastLogin: null,
-        };
+        // Clubs are their own principal with the club admin role
+        user = { ...buildClubPrincipal(club), password: club.password };
         isClub = true;
       }
     }
@@ -142,12 +128,20 @@ const login = async (req, res, next) => {
         .json({ errors: { message: "Account is inactive" } });
     }
 
-    const token = jwt.sign({ userId: user.id, isClub }, jwtConfig.secret, {
+    const payload = isClub
+      ? { clubId: user.clubId, isClub }
+      : { userId: user.id, isClub };
+    const token = jwt.sign(payload, jwtConfig.secret, {
       expiresIn: jwtConfig.expiresIn,
     });
 
-    // Update lastLogin timestamp only for users
-    if (!isClub) {
+    // Update lastLogin timestamp on the signed-in account
+    if (isClub) {
+      await prisma.club.update({
+        where: { id: user.clubId },
+        data: { lastLogin: new Date() },
+      });
+    } else {
       await prisma.user.update({
         where: { id: user.id },
         data: { lastLogin: new Date() },
@@ -179,23 +173,27 @@ const forgotPassword = async (req, res, next) => {
     const validationErrors = await validateRequest(schema, req.body, res);
     const { email, resetUrl } = req.body;
     const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
+    // Clubs without a user account reset the password stored on the club
+    const club = user ? null : await prisma.club.findFirst({ where: { email } });
+    if (!user && !club) {
       return setTimeout(() => {
         res.status(404).json({ errors: { message: "User not found" } });
       }, 3000);
     }
 
     const resetToken = uuidv4();
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        resetToken,
-        resetTokenExpires: new Date(Date.now() + 3600000), // Token expires in 1 hour
-      },
-    });
+    const resetData = {
+      resetToken,
+      resetTokenExpires: new Date(Date.now() + 3600000), // Token expires in 1 hour
+    };
+    if (user) {
+      await prisma.user.update({ where: { id: user.id }, data: resetData });
+    } else {
+      await prisma.club.update({ where: { id: club.id }, data: resetData });
+    }
     const resetLink = `${resetUrl}/${resetToken}`; // Replace with your actual domain
     const templateData = {
-      name: user.name,
+      name: user ? user.name : club.clubName,
       resetLink,
       appName: config.appName,
     };
@@ -222,29 +220,57 @@ const resetPassword = async (req, res, next) => {
     // Use the reusable validation function
     const validationErrors = await validateRequest(schema, req.body, res);
     const { password } = req.body;
-    const { token } = req.body;
+    // The reset link carries the token in the URL
+    const token = req.params.token || req.body.token;
+    if (!token) {
+      return res
+        .status(400)
+        .json({ errors: { message: "Invalid or expired token" } });
+    }
 
-    const user = await prisma.user.findFirst({
-      where: {
-        resetToken: token,
-        resetTokenExpires: { gt: new Date() }, // Check if the token is not expired
-      },
-    });
+    const tokenFilter = {
+      resetToken: token,
+      resetTokenExpires: { gt: new Date() }, // Check if the token is not expired
+    };
+    const user = await prisma.user.findFirst({ where: tokenFilter });
+    const club = user ? null : await prisma.club.findFirst({ where: tokenFilter });
 
-    if (!user) {
+    if (!user && !club) {
       return res
         .status(400)
         .json({ errors: { message: "Invalid or expired token" } });
     }
     const hashedPassword = await bcrypt.hash(password, 10);
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        password: hashedPassword,
-        resetToken: null, // Clear the token after use
-        resetTokenExpires: null,
-      },
-    });
+    const clearToken = {
+      resetToken: null, // Clear the token after use
+      resetTokenExpires: null,
+    };
+
+    // A club and its club admin accounts share one password, as kept in sync by updateClub
+    const clubId = club ? club.id : user.role === CLUBADMIN ? user.clubId : null;
+    const updates = [];
+    if (user) {
+      updates.push(
+        prisma.user.update({
+          where: { id: user.id },
+          data: { password: hashedPassword, ...clearToken },
+        })
+      );
+    }
+    if (clubId) {
+      updates.push(
+        prisma.club.update({
+          where: { id: clubId },
+          data: club ? { password: hashedPassword, ...clearToken } : { password: hashedPassword },
+        }),
+        prisma.user.updateMany({
+          where: { clubId, role: CLUBADMIN },
+          data: { password: hashedPassword },
+        })
+      );
+    }
+    await prisma.$transaction(updates);
+
     res.json({ message: "Password reset successful" });
   } catch (error) {
     next(error);
@@ -3,6 +3,12 @@ const prisma = new PrismaClient();
 const { z } = require("zod");
 const createError = require("http-errors");
 const bcrypt = require("bcryptjs");
+const { CLUBADMIN } = require("../config/roles");
+const { getClubScope } = require("../services/clubScopeService");
+const {
+  AFFILIATION_STATUS,
+  affiliationStateWhere,
+} = require("../services/affiliationService");
 
 /**
  * Wrap async route handlers and funnel errors through Express error middleware.
@@ -10,10 +16,10 @@ const bcrypt = require("bcryptjs");
  */
 const asyncHandler = (fn) => (req, res, next) => {
   Promise.resolve(fn(req, res, next)).catch((err) => {
-    // Zod or manual user errors forwarded by validateRequest
-    if (err.status === 400 && err.expose) {
+    // Zod or manual user errors forwarded by validateRequest, and other http-errors (403, 404)
+    if (err.status && err.expose) {
       return res
-        .status(400)
+        .status(err.status)
         .json({ errors: err.errors || { message: err.message } });
     }
     // Prisma validation errors
@@ -40,6 +46,24 @@ const asyncHandler = (fn) => (req, res, next) => {
   });
 };
 
+const clubSelect = {
+  id: true,
+  clubName: true,
+  affiliationNumber: true,
+  city: true,
+  address: true,
+  mobile: true,
+  email: true,
+  createdAt: true,
+  updatedAt: true,
+  // Latest affiliation period, for the expiry shown alongside the club
+  affiliations: {
+    where: { status: { not: AFFILIATION_STATUS.REVOKED } },
+    orderBy: { expiryDate: "desc" },
+    take: 1,
+    select: { id: true, startDate: true, expiryDate: true, status: true },
+  },
+};
 
 const getClubs = asyncHandler(async (req, res) => {
   const page = Math.max(1, parseInt(req.query.page) || 1);
@@ -51,16 +75,23 @@ const getClubs = asyncHandler(async (req, res) => {
   // Map frontend sort field "name" to database column "clubName"
   const mappedSortBy = sortBy === "name" ? "clubName" : sortBy;
 
-  const where = search
-    ? {
-        OR: [
-          { clubName: { contains: search } },
-          { city: { contains: search } },
-          { address: { contains: search } },
-          { affiliationNumber: { contains: search } },
-        ],
-      }
-    : {};
+  const where = {
+    AND: [
+      search
+        ? {
+            OR: [
+              { clubName: { contains: search } },
+              { city: { contains: search } },
+              { address: { contains: search } },
+              { affiliationNumber: { contains: search } },
+            ],
+          }
+        : {},
+      affiliationStateWhere(req.query.affiliation) || {},
+    ],
+    // Club admins only ever see their own club
+    id: await getClubScope(req.user),
+  };
 
   const [clubs, total] = await Promise.all([
     prisma.club.findMany({
@@ -68,17 +99,7 @@ const getClubs = asyncHandler(async (req, res) => {
       skip,
       take: limit,
       orderBy: { [mappedSortBy]: sortOrder },
-      select: {
-        id: true,
-        clubName: true,
-        affiliationNumber: true,
-        city: true,
-        address: true,
-        mobile: true,
-        email: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select: clubSelect,
     }),
     prisma.club.count({ where }),
   ]);
@@ -97,23 +118,93 @@ const getClub = asyncHandler(async (req, res) => {
   const id = parseInt(req.params.id);
   if (!id) throw createError(400, "Invalid club ID");
 
+  const clubScope = await getClubScope(req.user);
   const club = await prisma.club.findUnique({
     where: { id },
+    select: clubSelect,
+  });
+  if (!club || (clubScope !== undefined && club.id !== clubScope)) {
+    throw createError(404, "Club not found");
+  }
+
+  res.json(club);
+});
+
+const getMyClub = asyncHandler(async (req, res) => {
+  const clubId = await getClubScope(req.user);
+  if (!clubId) throw createError(403, "Only club accounts have a club profile");
+
+  const club = await prisma.club.findUnique({
+    where: { id: clubId },
     select: {
-      id: true,
-      clubName: true,
-      affiliationNumber: true,
-      city: true,
-      address: true,
-      mobile: true,
-      email: true,
-      createdAt: true,
-      updatedAt: true,
+      ...clubSelect,
+      _count: { select: { players: true } },
     },
   });
   if (!club) throw createError(404, "Club not found");
 
-  res.json(club);
+  const entryCounts = await prisma.competitionEntry.groupBy({
+    by: ["status"],
+    where: { clubId },
+    _count: { _all: true },
+  });
+
+  const { _count, ...profile } = club;
+  res.json({
+    ...profile,
+    stats: {
+      players: _count.players,
+      entries: Object.fromEntries(
+        entryCounts.map((row) => [row.status, row._count._all])
+      ),
+    },
+  });
+});
+
+const updateMyClub = asyncHandler(async (req, res) => {
+  const clubId = await getClubScope(req.user);
+  if (!clubId) throw createError(403, "Only club accounts have a club profile");
+
+  // Name, affiliation number and login email stay under administrator control
+  const schema = z
+    .object({
+      city: z.string().min(1, "City is required").max(255).optional(),
+      address: z.string().min(1, "Address is required").max(500).optional(),
+      mobile: z.string().min(1, "Mobile number is required").max(20).optional(),
+      password: z.string().min(6, "Password must be at least 6 characters").max(255).optional().or(z.literal('')),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field is required",
+    });
+
+  const validatedData = await schema.parseAsync(req.body);
+
+  const dataToUpdate = { ...validatedData };
+  if (!dataToUpdate.password) {
+    delete dataToUpdate.password;
+  } else {
+    dataToUpdate.password = await bcrypt.hash(dataToUpdate.password, 10);
+  }
+
+  const updated = await prisma.$transaction(async (prisma) => {
+    const club = await prisma.club.update({
+      where: { id: clubId },
+      data: dataToUpdate,
+      select: clubSelect,
+    });
+
+    // Keep the club's admin accounts on the same password
+    if (dataToUpdate.password) {
+      await prisma.user.updateMany({
+        where: { clubId, role: CLUBADMIN },
+        data: { password: dataToUpdate.password },
+      });
+    }
+
+    return club;
+  });
+
+  res.json(updated);
 });
 
 const createClub = asyncHandler(async (req, res) => {
@@ -160,7 +251,8 @@ const createClub = asyncHandler(async (req, res) => {
         email: validatedData.email,
         password: hashedPassword,
         role: "clubadmin", // Set role as clubadmin
-        active: true
+        active: true,
+        clubId: club.id
       }
     });
     
@@ -176,6 +268,12 @@ const updateClub = asyncHandler(async (req, res) => {
   const id = parseInt(req.params.id);
   if (!id) throw createError(400, "Invalid club ID");
 
+  // Club-scoped callers can only ever reach their own club
+  const clubScope = await getClubScope(req.user);
+  if (clubScope !== undefined && id !== clubScope) {
+    throw createError(404, "Club not found");
+  }
+
   const schema = z
     .object({
       clubName: z.string().min(1).max(255).optional(),
@@ -263,6 +361,12 @@ const deleteClub = asyncHandler(async (req, res) => {
   const id = parseInt(req.params.id);
   if (!id) throw createError(400, "Invalid club ID");
 
+  // Club-scoped callers can only ever reach their own club
+  const clubScope = await getClubScope(req.user);
+  if (clubScope !== undefined && id !== clubScope) {
+    throw createError(404, "Club not found");
+  }
+
   const existing = await prisma.club.findUnique({ where: { id } });
   if (!existing) throw createError(404, "Club not found");
 
@@ -274,6 +378,8 @@ module.exports = {
   getClubs,
   createClub,
   getClub,
+  getMyClub,
+  updateMyClub,
   updateClub,
   deleteClub,
 };
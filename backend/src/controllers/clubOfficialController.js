@@ -0,0 +1,245 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const path = require("path");
+const fs = require("fs").promises;
+const prisma = require("../config/db");
+const validateUpload = require("../utils/validateUpload");
+const { getClubScope } = require("../services/clubScopeService");
+const { CLUB_OFFICIAL_ROLE } = require("../services/clubOfficialService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ * Photos uploaded with a failed request are discarded.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch(async (err) => {
+    if (req.cleanupUpload) {
+      await req.cleanupUpload(req);
+    }
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., record not found)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2025") {
+        return res.status(404).json({ errors: { message: "Club official not found" } });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const UPLOAD_DIR = "uploads";
+
+// Path of the photo uploaded with this request, relative to /uploads
+// (e.g. "/clubOfficials/photo/<uuid>/photo.jpg")
+const getUploadedPhoto = (req) => {
+  const file = req.files && req.files.photo && req.files.photo[0];
+  return file ? "/" + path.relative(UPLOAD_DIR, file.path).split(path.sep).join("/") : undefined;
+};
+
+// Remove a previously stored photo along with its upload directory
+const removeStoredPhoto = async (storedPath) => {
+  if (!storedPath) return;
+  try {
+    await fs.rm(path.dirname(path.join(UPLOAD_DIR, storedPath)), {
+      recursive: true,
+      force: true,
+    });
+  } catch (error) {
+    console.error(`Failed to remove upload ${storedPath}:`, error);
+  }
+};
+
+// Multipart forms send every value as a string
+const optionalText = (max) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => value || null);
+
+const clubOfficialSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required").max(255),
+  lastName: z.string().trim().min(1, "Last name is required").max(255),
+  role: z.enum(
+    [
+      CLUB_OFFICIAL_ROLE.COACH,
+      CLUB_OFFICIAL_ROLE.ASSISTANT_COACH,
+      CLUB_OFFICIAL_ROLE.MANAGER,
+      CLUB_OFFICIAL_ROLE.PHYSIO,
+    ],
+    {
+      errorMap: () => ({ message: "Select a valid role" }),
+    }
+  ),
+  mobile: z
+    .string()
+    .trim()
+    .min(10, "Mobile number must be at least 10 digits")
+    .max(15, "Mobile number must not exceed 15 digits")
+    .regex(/^\d+$/, "Mobile number can only contain digits"),
+  email: z
+    .string()
+    .trim()
+    .email("Valid email is required")
+    .max(255)
+    .optional()
+    .nullable()
+    .or(z.literal(""))
+    .transform((value) => value || null),
+  certification: optionalText(255),
+  active: z
+    .union([z.boolean(), z.enum(["true", "false"]).transform((value) => value === "true")])
+    .optional(),
+});
+
+const findClub = async (req) => {
+  const clubId = parseInt(req.params.id);
+  if (!clubId) throw createError(400, "Invalid club ID");
+
+  // Club-scoped callers can only ever reach their own club
+  const clubScope = await getClubScope(req.user);
+  if (clubScope !== undefined && clubId !== clubScope) {
+    throw createError(404, "Club not found");
+  }
+
+  const club = await prisma.club.findUnique({
+    where: { id: clubId },
+    select: { id: true, clubName: true },
+  });
+  if (!club) throw createError(404, "Club not found");
+  return club;
+};
+
+const findClubOfficial = async (req, clubId) => {
+  const id = parseInt(req.params.officialId);
+  if (!id) throw createError(400, "Invalid official ID");
+
+  const official = await prisma.clubOfficial.findFirst({ where: { id, clubId } });
+  if (!official) throw createError(404, "Club official not found");
+  return official;
+};
+
+/**
+ * Validate the body together with any upload errors, raising them as field errors
+ * @returns {Promise<z.output<typeof clubOfficialSchema>>} Validated official fields
+ */
+const parseClubOfficial = async (req) => {
+  const validation = await validateUpload(clubOfficialSchema, req.body, req.uploadErrors);
+  if (validation.success === false) {
+    throw createError(400, "Validation failed", { errors: validation.errors });
+  }
+  return /** @type {z.output<typeof clubOfficialSchema>} */ (validation.data);
+};
+
+const getClubOfficials = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const activeOnly = req.query.active === "true";
+
+  const officials = await prisma.clubOfficial.findMany({
+    where: { clubId: club.id, active: activeOnly ? true : undefined },
+    orderBy: [{ active: "desc" }, { role: "asc" }, { firstName: "asc" }],
+    include: {
+      _count: { select: { coachedEntries: true, managedEntries: true } },
+    },
+  });
+
+  res.json({ club, officials });
+});
+
+const createClubOfficial = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const validatedData = await parseClubOfficial(req);
+
+  const official = await prisma.clubOfficial.create({
+    data: {
+      clubId: club.id,
+      firstName: validatedData.firstName,
+      lastName: validatedData.lastName,
+      role: validatedData.role,
+      mobile: validatedData.mobile,
+      email: validatedData.email,
+      certification: validatedData.certification,
+      active: validatedData.active,
+      photo: getUploadedPhoto(req) || null,
+    },
+  });
+
+  res.status(201).json(official);
+});
+
+const updateClubOfficial = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const official = await findClubOfficial(req, club.id);
+  const validatedData = await parseClubOfficial(req);
+
+  // A newly uploaded photo replaces the stored one
+  const photo = getUploadedPhoto(req);
+
+  const updated = await prisma.clubOfficial.update({
+    where: { id: official.id },
+    data: { ...validatedData, photo },
+  });
+
+  // Only drop the old photo once the new one is saved on the official
+  if (photo) {
+    await removeStoredPhoto(official.photo);
+  }
+
+  res.json(updated);
+});
+
+const deleteClubOfficial = asyncHandler(async (req, res) => {
+  const club = await findClub(req);
+  const official = await findClubOfficial(req, club.id);
+
+  // Team sheets keep naming the officials of past entries
+  const namedEntries = await prisma.competitionEntry.count({
+    where: { OR: [{ coachId: official.id }, { managerId: official.id }] },
+  });
+  if (namedEntries > 0) {
+    throw createError(
+      400,
+      "This official is named on team entries. Mark them inactive instead."
+    );
+  }
+
+  await prisma.clubOfficial.delete({ where: { id: official.id } });
+  await removeStoredPhoto(official.photo);
+
+  res.json({ message: "Club official removed successfully" });
+});
+
+module.exports = {
+  getClubOfficials,
+  createClubOfficial,
+  updateClubOfficial,
+  deleteClubOfficial,
+};
@@ -2,6 +2,13 @@ const { PrismaClient, Prisma } = require("@prisma/client");
 const prisma = new PrismaClient();
 const { z } = require("zod");
 const createError = require("http-errors");
+const {
+  COMPETITION_STATUS,
+  getAllowedTransitions,
+  getTransitionBlocker,
+  getLockedFieldChanges,
+} = require("../services/competitionStatusService");
+const { getSeasonScope, resolveSeasonId } = require("../services/seasonService");
 
 /**
  * Wrap async route handlers and funnel errors through Express error middleware.
@@ -39,6 +46,74 @@ const asyncHandler = (fn) => (req, res, next) => {
   });
 };
 
+// Competitions can only be assigned to a venue that exists
+const assertVenueExists = async (venueId) => {
+  if (!venueId) return;
+  const venue = await prisma.venue.findUnique({ where: { id: venueId }, select: { id: true } });
+  if (!venue) {
+    throw createError(400, "Venue not found", {
+      errors: { venueId: { type: "validation", message: "Venue not found" } },
+    });
+  }
+};
+
+// A competition can only be played by groups defined for its season
+const assertGroupsInSeason = async (groupIds, seasonId) => {
+  if (!seasonId) return;
+  const season = await prisma.season.findUnique({ where: { id: seasonId }, select: { id: true } });
+  if (!season) {
+    throw createError(400, "Season not found", {
+      errors: { seasonId: { type: "validation", message: "Season not found" } },
+    });
+  }
+  const outside = await prisma.group.count({
+    where: { id: { in: groupIds.map((id) => parseInt(id)) }, seasonId: { not: seasonId } },
+  });
+  if (outside > 0) {
+    const message = "Every group must belong to the competition's season";
+    throw createError(400, message, {
+      errors: { groups: { type: "validation", message } },
+    });
+  }
+};
+
+const dateSchema = (label) =>
+  z.coerce.date({
+    errorMap: () => ({ message: `${label} must be a valid date` }),
+  });
+
+// Parse an optional date-range query parameter
+const parseDateQuery = (value, field) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw createError(400, `Invalid ${field} date`, {
+      errors: { [field]: { type: "validation", message: `Invalid ${field} date` } },
+    });
+  }
+  return date;
+};
+
+/**
+ * A competition ends after it starts, and entries close before it starts
+ * @param {{ startDate?: Date, endDate?: Date, lastEntryDate?: Date }} dates
+ */
+const assertDateOrder = ({ startDate, endDate, lastEntryDate }) => {
+  const errors = {};
+  if (endDate < startDate) {
+    errors.endDate = { type: "validation", message: "End date must be on or after the start date" };
+  }
+  if (lastEntryDate > startDate) {
+    errors.lastEntryDate = {
+      type: "validation",
+      message: "Last entry date must be on or before the start date",
+    };
+  }
+  if (Object.keys(errors).length > 0) {
+    throw createError(400, Object.values(errors)[0].message, { errors });
+  }
+};
+
 const getCompetitions = asyncHandler(async (req, res) => {
   const page = Math.max(1, parseInt(req.query.page) || 1);
   const limit = Math.max(1, parseInt(req.query.limit) || 10);
@@ -46,17 +121,30 @@ const getCompetitions = asyncHandler(async (req, res) => {
 
   const { search = "", sortBy = "competitionName", sortOrder = "asc" } = req.query;
 
-  // Map frontend sort field "name" to database column "competitionName"
-  const mappedSortBy = sortBy === "name" ? "competitionName" : sortBy;
+  // Map frontend sort fields "name" and "date" to their database columns
+  const mappedSortBy =
+    sortBy === "name" ? "competitionName" : sortBy === "date" ? "startDate" : sortBy;
+
+  // Competitions running at any point between from and to
+  const from = parseDateQuery(req.query.from, "from");
+  const to = parseDateQuery(req.query.to, "to");
+
+  const status = Object.values(COMPETITION_STATUS).includes(req.query.status)
+    ? req.query.status
+    : undefined;
 
-  const where = search
-    ? {
-        OR: [
+  const where = {
+    status,
+    seasonId: getSeasonScope(req),
+    startDate: to ? { lte: to } : undefined,
+    endDate: from ? { gte: from } : undefined,
+    OR: search
+      ? [
           { competitionName: { contains: search } },
           { age: { contains: search } },
-        ],
-      }
-    : {};
+        ]
+      : undefined,
+  };
 
   const [competitions, total] = await Promise.all([
     prisma.competition.findMany({
@@ -73,6 +161,8 @@ const getCompetitions = asyncHandler(async (req, res) => {
             age: true,
           },
         },
+        venue: { select: { id: true, venueName: true } },
+        season: { select: { id: true, seasonName: true } },
       },
     }),
     prisma.competition.count({ where }),
@@ -87,9 +177,17 @@ const getCompetitions = asyncHandler(async (req, res) => {
       id: comp.id,
       competitionName: comp.competitionName,
       maxPlayers: comp.maxPlayers,
-      date: comp.date,
+      startDate: comp.startDate,
+      endDate: comp.endDate,
       age: comp.age,
       lastEntryDate: comp.lastEntryDate,
+      status: comp.status,
+      statusChangedAt: comp.statusChangedAt,
+      allowedTransitions: getAllowedTransitions(comp),
+      venueId: comp.venueId,
+      venue: comp.venue,
+      seasonId: comp.seasonId,
+      season: comp.season,
       createdAt: comp.createdAt,
       updatedAt: comp.updatedAt,
       groups: groupIds
@@ -121,6 +219,8 @@ const getCompetition = asyncHandler(async (req, res) => {
           age: true,
         },
       },
+      venue: { select: { id: true, venueName: true } },
+      season: { select: { id: true, seasonName: true } },
     },
   });
   
@@ -131,9 +231,17 @@ const getCompetition = asyncHandler(async (req, res) => {
     id: competition.id,
     competitionName: competition.competitionName,
     maxPlayers: competition.maxPlayers,
-    date: competition.date,
+    startDate: competition.startDate,
+    endDate: competition.endDate,
     age: competition.age,
     lastEntryDate: competition.lastEntryDate,
+    status: competition.status,
+    statusChangedAt: competition.statusChangedAt,
+    allowedTransitions: getAllowedTransitions(competition),
+    venueId: competition.venueId,
+    venue: competition.venue,
+    seasonId: competition.seasonId,
+    season: competition.season,
     createdAt: competition.createdAt,
     updatedAt: competition.updatedAt,
     groups: competition.groups.map(group => group.id.toString())
@@ -146,13 +254,22 @@ const createCompetition = asyncHandler(async (req, res) => {
   const schema = z.object({
     competitionName: z.string().min(1, "Competition name is required").max(255),
     maxPlayers: z.number().min(1, "Max players must be at least 1").max(1000, "Max players cannot exceed 1000"),
-    date: z.string().min(1, "Date is required").max(255),
+    startDate: dateSchema("Start date"),
+    endDate: dateSchema("End date"),
     groups: z.array(z.string()).min(1, "At least one group must be selected"),
-    lastEntryDate: z.string().min(1, "Last entry date is required").max(255),
+    lastEntryDate: dateSchema("Last entry date"),
+    venueId: z.coerce.number().int().positive().optional().nullable(),
+    seasonId: z.coerce.number().int().positive().optional(),
   });
 
   // Will throw Zod errors caught by asyncHandler
   const validatedData = await schema.parseAsync(req.body);
+  assertDateOrder(validatedData);
+  await assertVenueExists(validatedData.venueId);
+
+  // Competitions belong to a season; default to the season being viewed
+  const seasonId = await resolveSeasonId(req, validatedData.seasonId);
+  await assertGroupsInSeason(validatedData.groups, seasonId);
 
   // Extract groups for separate handling
   const { groups, ...competitionData } = validatedData;
@@ -179,6 +296,7 @@ const createCompetition = asyncHandler(async (req, res) => {
   const competition = await prisma.competition.create({ 
     data: {
       ...competitionData,
+      seasonId,
       age: age,
       groups: {
         connect: groups.map(groupId => ({ id: parseInt(groupId) }))
@@ -200,15 +318,19 @@ const updateCompetition = asyncHandler(async (req, res) => {
     .object({
       competitionName: z.string().min(1).max(255).optional(),
       maxPlayers: z.number().min(1, "Max players must be at least 1").max(1000, "Max players cannot exceed 1000").optional(),
-      date: z.string().min(1).max(255).optional(),
+      startDate: dateSchema("Start date").optional(),
+      endDate: dateSchema("End date").optional(),
       groups: z.array(z.string()).min(1, "At least one group must be selected").optional(),
-      lastEntryDate: z.string().min(1).max(255).optional(),
+      lastEntryDate: dateSchema("Last entry date").optional(),
+      venueId: z.coerce.number().int().positive().optional().nullable(),
+      seasonId: z.coerce.number().int().positive().optional(),
     })
     .refine((data) => Object.keys(data).length > 0, {
       message: "At least one field is required",
     });
 
   const validatedData = await schema.parseAsync(req.body);
+  await assertVenueExists(validatedData.venueId);
 
   const existing = await prisma.competition.findUnique({ 
     where: { id },
@@ -217,6 +339,30 @@ const updateCompetition = asyncHandler(async (req, res) => {
   
   if (!existing) throw createError(404, "Competition not found");
 
+  assertDateOrder({
+    startDate: validatedData.startDate || existing.startDate,
+    endDate: validatedData.endDate || existing.endDate,
+    lastEntryDate: validatedData.lastEntryDate || existing.lastEntryDate,
+  });
+
+  // Moving seasons or groups must keep every group inside the competition's season
+  if (validatedData.seasonId || validatedData.groups) {
+    await assertGroupsInSeason(
+      validatedData.groups || existing.groups.map((group) => group.id.toString()),
+      validatedData.seasonId || existing.seasonId
+    );
+  }
+
+  const lockedChanges = getLockedFieldChanges(existing, validatedData);
+  if (lockedChanges.length > 0) {
+    const message = "This cannot be changed once the competition has started";
+    throw createError(400, message, {
+      errors: Object.fromEntries(
+        lockedChanges.map((field) => [field, { type: "validation", message }])
+      ),
+    });
+  }
+
   // Extract groups for separate handling if present
   const { groups, ...competitionData } = validatedData;
   
@@ -263,6 +409,50 @@ const updateCompetition = asyncHandler(async (req, res) => {
   res.json(updated);
 });
 
+const updateCompetitionStatus = asyncHandler(async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid competition ID");
+
+  const schema = z.object({
+    status: z.enum(
+      [
+        COMPETITION_STATUS.DRAFT,
+        COMPETITION_STATUS.OPEN_FOR_ENTRIES,
+        COMPETITION_STATUS.ENTRIES_CLOSED,
+        COMPETITION_STATUS.IN_PROGRESS,
+        COMPETITION_STATUS.COMPLETED,
+        COMPETITION_STATUS.CANCELLED,
+      ],
+      {
+        errorMap: () => ({ message: "Select a valid status" }),
+      }
+    ),
+    // Close entries before the last entry date
+    force: z.boolean().optional(),
+  });
+
+  const validatedData = await schema.parseAsync(req.body);
+
+  const existing = await prisma.competition.findUnique({ where: { id } });
+  if (!existing) throw createError(404, "Competition not found");
+
+  const blocker = await getTransitionBlocker(existing, validatedData.status, {
+    force: validatedData.force,
+  });
+  if (blocker) {
+    throw createError(400, blocker, {
+      errors: { status: { type: "validation", message: blocker } },
+    });
+  }
+
+  const updated = await prisma.competition.update({
+    where: { id },
+    data: { status: validatedData.status, statusChangedAt: new Date() },
+  });
+
+  res.json({ ...updated, allowedTransitions: getAllowedTransitions(updated) });
+});
+
 const deleteCompetition = asyncHandler(async (req, res) => {
   const id = parseInt(req.params.id);
   if (!id) throw createError(400, "Invalid competition ID");
@@ -279,5 +469,6 @@ module.exports = {
   createCompetition,
   getCompetition,
   updateCompetition,
+  updateCompetitionStatus,
   deleteCompetition,
 };
\ No newline at end of file
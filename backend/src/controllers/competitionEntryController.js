@@ -0,0 +1,461 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { getClubScope, isClubAdmin } = require("../services/clubScopeService");
+const {
+  ENTRY_STATUS,
+  getEntryDeadline,
+  isEntryWindowOpen,
+  getClubPlayersWithEligibility,
+  validateEntryPlayers,
+} = require("../services/competitionEntryService");
+const { COMPETITION_STATUS } = require("../services/competitionStatusService");
+const { getAffiliationProblem } = require("../services/affiliationService");
+const { validateEntryOfficials } = require("../services/clubOfficialService");
+const { writeTeamSheet } = require("../services/teamSheetService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(400).json({
+          errors: { message: "This club has already entered a team in this group." },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const entryInclude = {
+  group: {
+    select: { id: true, groupName: true, gender: true, age: true },
+  },
+  club: {
+    select: { id: true, clubName: true },
+  },
+  reviewedBy: {
+    select: { id: true, name: true },
+  },
+  coach: {
+    select: { id: true, firstName: true, lastName: true, role: true, mobile: true, certification: true },
+  },
+  manager: {
+    select: { id: true, firstName: true, lastName: true, role: true, mobile: true, certification: true },
+  },
+  players: {
+    select: {
+      id: true,
+      uniqueIdNumber: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      gender: true,
+      position: true,
+      isSuspended: true,
+    },
+  },
+};
+
+// Load the competition from the route and fail with 404 if it does not exist
+const findCompetition = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid competition ID");
+
+  const competition = await prisma.competition.findUnique({
+    where: { id },
+    include: {
+      groups: {
+        select: {
+          id: true,
+          groupName: true,
+          gender: true,
+          age: true,
+          maxAge: true,
+          ageCutoffDate: true,
+        },
+      },
+    },
+  });
+  if (!competition) throw createError(404, "Competition not found");
+
+  return competition;
+};
+
+// Load an entry of the competition, hiding other clubs' entries from club admins
+const findEntry = async (req, competitionId) => {
+  const entryId = parseInt(req.params.entryId);
+  if (!entryId) throw createError(400, "Invalid entry ID");
+
+  const clubScope = await getClubScope(req.user);
+  const entry = await prisma.competitionEntry.findFirst({
+    where: { id: entryId, competitionId, clubId: clubScope },
+    include: entryInclude,
+  });
+  if (!entry) throw createError(404, "Entry not found");
+
+  return entry;
+};
+
+// Entries are taken while the competition is open and its last entry date has not passed
+const acceptsEntries = (competition) =>
+  competition.status === COMPETITION_STATUS.OPEN_FOR_ENTRIES && isEntryWindowOpen(competition);
+
+const assertEntriesOpen = (competition) => {
+  if (competition.status !== COMPETITION_STATUS.OPEN_FOR_ENTRIES) {
+    throw createError(400, "This competition is not accepting entries.");
+  }
+  if (!isEntryWindowOpen(competition)) {
+    const deadline = getEntryDeadline(competition.lastEntryDate);
+    throw createError(400, `Entries for this competition closed on ${deadline.toLocaleString()}.`);
+  }
+};
+
+const summarizeCompetition = (competition) => {
+  const deadline = getEntryDeadline(competition.lastEntryDate);
+  return {
+    id: competition.id,
+    competitionName: competition.competitionName,
+    maxPlayers: competition.maxPlayers,
+    startDate: competition.startDate,
+    endDate: competition.endDate,
+    lastEntryDate: competition.lastEntryDate,
+    entryDeadline: deadline,
+    status: competition.status,
+    entriesOpen: acceptsEntries(competition),
+    groups: competition.groups,
+  };
+};
+
+// Raise a problem with the named coach or manager as an error on that field
+const assertEntryOfficials = async (clubId, officials, prefix = "") => {
+  const problem = await validateEntryOfficials(clubId, officials);
+  if (problem) {
+    const message = `${prefix}${problem.message}`;
+    throw createError(400, message, {
+      errors: { [problem.field]: { type: "validation", message } },
+    });
+  }
+};
+
+const getEntries = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const limit = Math.max(1, parseInt(req.query.limit) || 10);
+  const skip = (page - 1) * limit;
+  const { status } = req.query;
+  const groupId = req.query.groupId ? parseInt(req.query.groupId) : undefined;
+
+  // Club admins only ever see their own entries; admins may filter by club
+  const clubScope = await getClubScope(req.user);
+  const clubId = clubScope !== undefined ? clubScope :
+                 req.query.clubId ? parseInt(req.query.clubId) : undefined;
+
+  const where = {
+    competitionId: competition.id,
+    status: status || undefined,
+    groupId,
+    clubId,
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.competitionEntry.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+      include: entryInclude,
+    }),
+    prisma.competitionEntry.count({ where }),
+  ]);
+
+  res.json({
+    competition: summarizeCompetition(competition),
+    entries,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalEntries: total,
+  });
+});
+
+const getEntry = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const entry = await findEntry(req, competition.id);
+
+  res.json(entry);
+});
+
+const getEligiblePlayers = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const schema = z.object({
+    groupId: z.coerce.number().int().positive("Group is required"),
+    clubId: z.coerce.number().int().positive().optional(),
+  });
+  const query = await schema.parseAsync(req.query);
+
+  if (!competition.groups.some((group) => group.id === query.groupId)) {
+    throw createError(400, "The selected group is not part of this competition");
+  }
+
+  const clubScope = await getClubScope(req.user);
+  const clubId = clubScope !== undefined ? clubScope : query.clubId;
+  if (!clubId) throw createError(400, "Club is required");
+
+  const players = await getClubPlayersWithEligibility(competition, { groupId: query.groupId, clubId });
+
+  res.json({ players, maxPlayers: competition.maxPlayers });
+});
+
+const createEntry = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const schema = z.object({
+    groupId: z.coerce.number().int().positive("Group is required"),
+    clubId: z.coerce.number().int().positive().optional(),
+    playerIds: z.array(z.coerce.number().int()).min(1, "Select at least one player"),
+    coachId: z.coerce.number({ invalid_type_error: "Select the team's coach" }).int().positive("Select the team's coach"),
+    managerId: z.coerce.number({ invalid_type_error: "Select the team's manager" }).int().positive("Select the team's manager"),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  assertEntriesOpen(competition);
+
+  if (!competition.groups.some((group) => group.id === validatedData.groupId)) {
+    throw createError(400, "The selected group is not part of this competition");
+  }
+
+  // Club admins always submit for their own club
+  const clubScope = await getClubScope(req.user);
+  const clubId = clubScope !== undefined ? clubScope : validatedData.clubId;
+  if (!clubId) throw createError(400, "Club is required");
+
+  const club = await prisma.club.findUnique({ where: { id: clubId } });
+  if (!club) throw createError(400, "Club not found");
+
+  // Only clubs with an affiliation in force can enter
+  const affiliationProblem = await getAffiliationProblem(clubId);
+  if (affiliationProblem) throw createError(400, affiliationProblem);
+
+  const existing = await prisma.competitionEntry.findUnique({
+    where: {
+      competitionId_groupId_clubId: {
+        competitionId: competition.id,
+        groupId: validatedData.groupId,
+        clubId,
+      },
+    },
+  });
+  if (existing) throw createError(400, "This club has already entered a team in this group.");
+
+  const playerError = await validateEntryPlayers(competition, {
+    groupId: validatedData.groupId,
+    clubId,
+    playerIds: validatedData.playerIds,
+  });
+  if (playerError) throw createError(400, playerError);
+
+  await assertEntryOfficials(clubId, validatedData);
+
+  const entry = await prisma.competitionEntry.create({
+    data: {
+      competition: { connect: { id: competition.id } },
+      group: { connect: { id: validatedData.groupId } },
+      club: { connect: { id: clubId } },
+      coach: { connect: { id: validatedData.coachId } },
+      manager: { connect: { id: validatedData.managerId } },
+      players: {
+        connect: [...new Set(validatedData.playerIds)].map((id) => ({ id })),
+      },
+    },
+    include: entryInclude,
+  });
+
+  res.status(201).json(entry);
+});
+
+const updateEntry = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const entry = await findEntry(req, competition.id);
+
+  const schema = z.object({
+    playerIds: z.array(z.coerce.number().int()).min(1, "Select at least one player"),
+    coachId: z.coerce.number({ invalid_type_error: "Select the team's coach" }).int().positive("Select the team's coach"),
+    managerId: z.coerce.number({ invalid_type_error: "Select the team's manager" }).int().positive("Select the team's manager"),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  assertEntriesOpen(competition);
+
+  if (entry.status === ENTRY_STATUS.APPROVED) {
+    throw createError(400, "An approved entry can no longer be changed.");
+  }
+
+  const affiliationProblem = await getAffiliationProblem(entry.clubId);
+  if (affiliationProblem) throw createError(400, affiliationProblem);
+
+  const playerError = await validateEntryPlayers(competition, {
+    groupId: entry.groupId,
+    clubId: entry.clubId,
+    playerIds: validatedData.playerIds,
+  });
+  if (playerError) throw createError(400, playerError);
+
+  await assertEntryOfficials(entry.clubId, validatedData);
+
+  // A changed team goes back into the review queue
+  const updated = await prisma.competitionEntry.update({
+    where: { id: entry.id },
+    data: {
+      status: ENTRY_STATUS.PENDING,
+      remarks: null,
+      reviewedBy: { disconnect: true },
+      reviewedAt: null,
+      coach: { connect: { id: validatedData.coachId } },
+      manager: { connect: { id: validatedData.managerId } },
+      players: {
+        set: [...new Set(validatedData.playerIds)].map((id) => ({ id })),
+      },
+    },
+    include: entryInclude,
+  });
+
+  res.json(updated);
+});
+
+const reviewEntry = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const entry = await findEntry(req, competition.id);
+
+  const schema = z
+    .object({
+      status: z.enum([ENTRY_STATUS.APPROVED, ENTRY_STATUS.REJECTED], {
+        errorMap: () => ({ message: "Status must be approved or rejected" }),
+      }),
+      remarks: z.string().max(500).optional().nullable(),
+    })
+    .refine((data) => data.status !== ENTRY_STATUS.REJECTED || !!data.remarks?.trim(), {
+      message: "A reason is required when rejecting an entry",
+      path: ["remarks"],
+    });
+  const validatedData = await schema.parseAsync(req.body);
+
+  // The club's affiliation may have expired since the team was submitted
+  if (validatedData.status === ENTRY_STATUS.APPROVED) {
+    const affiliationProblem = await getAffiliationProblem(entry.clubId);
+    if (affiliationProblem) {
+      throw createError(400, `Cannot approve this entry. ${affiliationProblem}`);
+    }
+  }
+
+  // Entries from before the officials roster may not name a coach and manager,
+  // and named officials may have left the club since
+  if (validatedData.status === ENTRY_STATUS.APPROVED) {
+    await assertEntryOfficials(
+      entry.clubId,
+      { coachId: entry.coachId, managerId: entry.managerId },
+      "Cannot approve this entry. "
+    );
+  }
+
+  // Players may have been suspended, lapsed, transferred or aged out since the
+  // team was submitted; approve only what would still be accepted as an entry
+  if (validatedData.status === ENTRY_STATUS.APPROVED) {
+    const playerError = await validateEntryPlayers(competition, {
+      groupId: entry.groupId,
+      clubId: entry.clubId,
+      playerIds: entry.players.map((player) => player.id),
+    });
+    if (playerError) throw createError(400, `Cannot approve this entry. ${playerError}`);
+  }
+
+  const updated = await prisma.competitionEntry.update({
+    where: { id: entry.id },
+    data: {
+      status: validatedData.status,
+      remarks: validatedData.remarks || null,
+      reviewedBy: { connect: { id: req.user.id } },
+      reviewedAt: new Date(),
+    },
+    include: entryInclude,
+  });
+
+  res.json(updated);
+});
+
+const getTeamSheet = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const entry = await findEntry(req, competition.id);
+
+  // Support staff on the club's roster are listed after the named coach and manager
+  const officials = await prisma.clubOfficial.findMany({
+    where: { clubId: entry.clubId, active: true },
+    orderBy: [{ role: "asc" }, { firstName: "asc" }],
+  });
+
+  const fileName = `team-sheet-${entry.club.clubName}-${entry.group.groupName}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-");
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename=${fileName}.pdf`);
+  await writeTeamSheet({ competition, entry, officials }, res);
+});
+
+const deleteEntry = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const entry = await findEntry(req, competition.id);
+
+  // Clubs may withdraw their own team until it is approved and entries close
+  if (isClubAdmin(req.user)) {
+    if (entry.status === ENTRY_STATUS.APPROVED) {
+      throw createError(400, "An approved entry can only be withdrawn by an administrator.");
+    }
+    assertEntriesOpen(competition);
+  }
+
+  await prisma.competitionEntry.delete({ where: { id: entry.id } });
+  res.json({ message: "Entry withdrawn successfully" });
+});
+
+module.exports = {
+  getEntries,
+  getEntry,
+  getEligiblePlayers,
+  createEntry,
+  updateEntry,
+  reviewEntry,
+  getTeamSheet,
+  deleteEntry,
+};
@@ -0,0 +1,234 @@
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { isClubAdmin } = require("../services/clubScopeService");
+const {
+  FIXTURE_FORMAT,
+  FIXTURE_SLOT,
+  getApprovedEntryIds,
+  generateFixtures,
+  planSwap,
+  applySwap,
+} = require("../services/fixtureService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and Prisma validation errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const teamSelect = {
+  select: {
+    id: true,
+    club: { select: { id: true, clubName: true } },
+  },
+};
+
+const fixtureInclude = {
+  group: { select: { id: true, groupName: true } },
+  homeEntry: teamSelect,
+  awayEntry: teamSelect,
+  match: {
+    select: {
+      id: true,
+      status: true,
+      startTime: true,
+      endTime: true,
+      venueId: true,
+      courtId: true,
+      venue: { select: { id: true, venueName: true } },
+      homeScore: true,
+      awayScore: true,
+    },
+  },
+};
+
+// Load the competition from the route and fail with 404 if it does not exist
+const findCompetition = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid competition ID");
+
+  const competition = await prisma.competition.findUnique({
+    where: { id },
+    include: { groups: { select: { id: true, groupName: true } } },
+  });
+  if (!competition) throw createError(404, "Competition not found");
+
+  return competition;
+};
+
+const assertCompetitionGroup = (competition, groupId) => {
+  if (!competition.groups.some((group) => group.id === groupId)) {
+    throw createError(400, "The selected group is not part of this competition");
+  }
+};
+
+// Fixtures can only be redrawn or edited until they are published
+const assertNotPublished = async (competitionId, groupId) => {
+  const published = await prisma.fixture.count({
+    where: { competitionId, groupId, published: true },
+  });
+  if (published > 0) {
+    throw createError(400, "Fixtures for this group have already been published.");
+  }
+};
+
+const groupIdSchema = z.coerce.number().int().positive("Group is required");
+
+const getFixtures = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const groupId = req.query.groupId ? parseInt(req.query.groupId) : undefined;
+
+  // Clubs only see the draw once it has been published
+  const published = isClubAdmin(req.user) ? true : undefined;
+
+  const fixtures = await prisma.fixture.findMany({
+    where: { competitionId: competition.id, groupId, published },
+    include: fixtureInclude,
+    orderBy: [{ groupId: "asc" }, { round: "asc" }, { matchNumber: "asc" }],
+  });
+
+  // Draw status of each group, for the group picker
+  const groups = competition.groups.map((group) => {
+    const groupFixtures = fixtures.filter((fixture) => fixture.groupId === group.id);
+    return {
+      ...group,
+      format: groupFixtures.length ? groupFixtures[0].format : null,
+      published: groupFixtures.some((fixture) => fixture.published),
+      fixtureCount: groupFixtures.length,
+    };
+  });
+
+  res.json({
+    competition: { id: competition.id, competitionName: competition.competitionName },
+    groups,
+    fixtures,
+  });
+});
+
+const generateGroupFixtures = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const schema = z.object({
+    groupId: groupIdSchema,
+    format: z.enum([FIXTURE_FORMAT.KNOCKOUT, FIXTURE_FORMAT.LEAGUE], {
+      errorMap: () => ({ message: "Format must be knockout or league" }),
+    }),
+    seedEntryIds: z.array(z.coerce.number().int()).optional(),
+    doubleRoundRobin: z.boolean().optional(),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  assertCompetitionGroup(competition, validatedData.groupId);
+  await assertNotPublished(competition.id, validatedData.groupId);
+
+  const entryIds = await getApprovedEntryIds(competition.id, validatedData.groupId);
+  if (entryIds.length < 2) {
+    throw createError(400, "At least two approved teams are needed to draw fixtures.");
+  }
+  const unknownSeeds = (validatedData.seedEntryIds || []).filter((id) => !entryIds.includes(id));
+  if (unknownSeeds.length > 0) {
+    throw createError(400, "Only approved teams in this group can be seeded.");
+  }
+
+  await generateFixtures({
+    competitionId: competition.id,
+    groupId: validatedData.groupId,
+    format: validatedData.format,
+    entryIds,
+    seedEntryIds: validatedData.seedEntryIds,
+    doubleRoundRobin: validatedData.doubleRoundRobin,
+  });
+
+  const fixtures = await prisma.fixture.findMany({
+    where: { competitionId: competition.id, groupId: validatedData.groupId },
+    include: fixtureInclude,
+    orderBy: [{ round: "asc" }, { matchNumber: "asc" }],
+  });
+
+  res.status(201).json({ fixtures });
+});
+
+const swapFixtureTeams = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const slotSchema = z.enum([FIXTURE_SLOT.HOME, FIXTURE_SLOT.AWAY], {
+    errorMap: () => ({ message: "Slot must be home or away" }),
+  });
+  const schema = z.object({
+    groupId: groupIdSchema,
+    fixtureId: z.coerce.number().int().positive(),
+    slot: slotSchema,
+    withFixtureId: z.coerce.number().int().positive(),
+    withSlot: slotSchema,
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  assertCompetitionGroup(competition, validatedData.groupId);
+  await assertNotPublished(competition.id, validatedData.groupId);
+
+  const fixtures = await prisma.fixture.findMany({
+    where: { competitionId: competition.id, groupId: validatedData.groupId },
+  });
+  const { error, updates } = planSwap(fixtures, validatedData);
+  if (error) throw createError(400, error);
+
+  await applySwap(updates);
+
+  res.json({ message: "Teams swapped successfully" });
+});
+
+const publishFixtures = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const schema = z.object({ groupId: groupIdSchema });
+  const validatedData = await schema.parseAsync(req.body);
+
+  assertCompetitionGroup(competition, validatedData.groupId);
+
+  const { count } = await prisma.fixture.updateMany({
+    where: { competitionId: competition.id, groupId: validatedData.groupId, published: false },
+    data: { published: true },
+  });
+  if (count === 0) {
+    throw createError(400, "There are no draft fixtures to publish for this group.");
+  }
+
+  res.json({ message: "Fixtures published successfully" });
+});
+
+module.exports = {
+  getFixtures,
+  generateGroupFixtures,
+  swapFixtureTeams,
+  publishFixtures,
+};
@@ -2,6 +2,7 @@ const { PrismaClient, Prisma } = require("@prisma/client");
 const prisma = new PrismaClient();
 const { z } = require("zod");
 const createError = require("http-errors");
+const { getSeasonScope, resolveSeasonId } = require("../services/seasonService");
 
 /**
  * Wrap async route handlers and funnel errors through Express error middleware.
@@ -39,6 +40,41 @@ const asyncHandler = (fn) => (req, res, next) => {
   });
 };
 
+// Structured age rule: maximum age in completed years, measured on the cut-off date
+const ageRuleFields = {
+  maxAge: z
+    .number({ invalid_type_error: "Maximum age must be a number" })
+    .int("Maximum age must be a whole number")
+    .min(1, "Maximum age must be at least 1")
+    .max(100, "Maximum age must not exceed 100")
+    .nullable()
+    .optional(),
+  ageCutoffDate: z
+    .string()
+    .refine((val) => !isNaN(new Date(val).getTime()), {
+      message: "Invalid cut-off date",
+    })
+    .nullable()
+    .optional(),
+};
+
+const seasonIdField = z.coerce
+  .number({ invalid_type_error: "Season must be a number" })
+  .int()
+  .positive("Season is required")
+  .optional();
+
+// Convert the cut-off date string into a Date for Prisma
+const toGroupData = (data) => ({
+  ...data,
+  ageCutoffDate:
+    data.ageCutoffDate === undefined
+      ? undefined
+      : data.ageCutoffDate
+      ? new Date(data.ageCutoffDate)
+      : null,
+});
+
 const getGroups = asyncHandler(async (req, res) => {
   const page = Math.max(1, parseInt(req.query.page) || 1);
   const limit = Math.max(1, parseInt(req.query.limit) || 10);
@@ -49,15 +85,18 @@ const getGroups = asyncHandler(async (req, res) => {
   // Map frontend sort field "name" to database column "groupName"
   const mappedSortBy = sortBy === "name" ? "groupName" : sortBy;
 
-  const where = search
-    ? {
-        OR: [
-          { groupName: { contains: search } },
-          { gender: { contains: search } },
-          { age: { contains: search } },
-        ],
-      }
-    : {};
+  const where = {
+    seasonId: getSeasonScope(req),
+    ...(search
+      ? {
+          OR: [
+            { groupName: { contains: search } },
+            { gender: { contains: search } },
+            { age: { contains: search } },
+          ],
+        }
+      : {}),
+  };
 
   // Try to access the model using lowercase 'group' as Prisma might have generated it that way
 const prismaModel = prisma.group || prisma.Group;
@@ -78,6 +117,10 @@ const [groups, total] = await Promise.all([
       groupName: true,
       gender: true,
       age: true,
+      maxAge: true,
+      ageCutoffDate: true,
+      seasonId: true,
+      season: { select: { id: true, seasonName: true } },
       createdAt: true,
       updatedAt: true,
     },
@@ -111,6 +154,10 @@ const getGroup = asyncHandler(async (req, res) => {
       groupName: true,
       gender: true,
       age: true,
+      maxAge: true,
+      ageCutoffDate: true,
+      seasonId: true,
+      season: { select: { id: true, seasonName: true } },
       createdAt: true,
       updatedAt: true,
     },
@@ -127,6 +174,8 @@ const createGroup = asyncHandler(async (req, res) => {
       errorMap: () => ({ message: "Gender must be Male, Female, or Mix" }),
     }),
     age: z.string().min(1, "Age limit is required").max(50),
+    ...ageRuleFields,
+    seasonId: seasonIdField,
   });
 
   // Will throw Zod errors caught by asyncHandler
@@ -137,7 +186,11 @@ const createGroup = asyncHandler(async (req, res) => {
     throw new Error('Group model not found in Prisma client');
   }
 
-  const group = await prismaModel.create({ data: validatedData });
+  // Groups are defined per season; default to the season being viewed
+  const seasonId = await resolveSeasonId(req, validatedData.seasonId);
+  const group = await prismaModel.create({
+    data: { ...toGroupData(validatedData), seasonId },
+  });
 
   res.status(201).json(group);
 });
@@ -153,6 +206,7 @@ const updateGroup = asyncHandler(async (req, res) => {
         errorMap: () => ({ message: "Gender must be Male, Female, or Mix" }),
       }).optional(),
       age: z.string().min(1).max(50).optional(),
+      ...ageRuleFields,
     })
     .refine((data) => Object.keys(data).length > 0, {
       message: "At least one field is required",
@@ -170,7 +224,7 @@ const updateGroup = asyncHandler(async (req, res) => {
 
   const updated = await prismaModel.update({
     where: { id },
-    data: validatedData,
+    data: toGroupData(validatedData),
   });
 
   res.json(updated);
@@ -0,0 +1,24 @@
+const {
+  parseStatsFilters,
+  getLeaderboards: loadLeaderboards,
+} = require("../services/playerStatsService");
+const { getSeasonScope } = require("../services/seasonService");
+
+// Top raiders and defenders of the season being viewed
+const getLeaderboards = async (req, res, next) => {
+  try {
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 10));
+    const leaderboards = await loadLeaderboards(
+      { ...parseStatsFilters(req.query), seasonId: getSeasonScope(req) },
+      limit
+    );
+
+    res.json(leaderboards);
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = {
+  getLeaderboards,
+};
@@ -0,0 +1,397 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const {
+  MATCH_STATUS,
+  SCORE_CATEGORIES,
+  isFinished,
+  recordResult,
+  isNextRoundStarted,
+} = require("../services/matchService");
+const { FIXTURE_FORMAT } = require("../services/fixtureService");
+const { recomputeStandings } = require("../services/standingsService");
+const {
+  getBookingEnd,
+  isWithinAvailability,
+  findScheduleClash,
+} = require("../services/venueService");
+const { getSeasonScope } = require("../services/seasonService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(400).json({
+          errors: { message: "A match has already been scheduled for this fixture." },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const teamSelect = {
+  select: {
+    id: true,
+    club: { select: { id: true, clubName: true } },
+  },
+};
+
+const matchInclude = {
+  competition: { select: { id: true, competitionName: true } },
+  fixture: {
+    select: {
+      id: true,
+      format: true,
+      round: true,
+      matchNumber: true,
+      nextFixtureId: true,
+      nextSlot: true,
+      group: { select: { id: true, groupName: true } },
+    },
+  },
+  homeEntry: teamSelect,
+  awayEntry: teamSelect,
+  resultRecordedBy: { select: { id: true, name: true } },
+  venue: { select: { id: true, venueName: true } },
+  court: { select: { id: true, courtName: true } },
+};
+
+const findMatch = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid match ID");
+
+  const match = await prisma.match.findUnique({ where: { id }, include: matchInclude });
+  if (!match) throw createError(404, "Match not found");
+
+  return match;
+};
+
+const dateSchema = (label) =>
+  z
+    .string()
+    .refine((value) => !isNaN(new Date(value).getTime()), `${label} must be a valid date`)
+    .optional()
+    .nullable();
+
+const scheduleSchema = z.object({
+  venueId: z.coerce.number().int().positive().optional().nullable(),
+  courtId: z.coerce.number().int().positive().optional().nullable(),
+  startTime: dateSchema("Start time"),
+  endTime: dateSchema("End time"),
+});
+
+const scheduleError = (field, message) =>
+  createError(400, message, { errors: { [field]: { type: "validation", message } } });
+
+/**
+ * Work out a match's venue, court and booking from the requested changes and
+ * refuse it if the venue is closed, the court is taken or a team is already
+ * playing at that time.
+ * @param {Object} validatedData - Parsed scheduleSchema body
+ * @param {Object} current - Current venueId, courtId, startTime and endTime
+ * @param {Object} teams - homeEntryId and awayEntryId of the match
+ * @param {number} [matchId] - Match being rescheduled
+ * @returns {Promise<Object>} venueId, courtId, startTime and endTime to save
+ */
+const resolveSchedule = async (validatedData, current, teams, matchId) => {
+  let venueId = validatedData.venueId !== undefined ? validatedData.venueId : current.venueId;
+  let courtId = validatedData.courtId !== undefined ? validatedData.courtId : current.courtId;
+  // Moving to another venue releases the court at the old one
+  if (validatedData.courtId === undefined && venueId !== current.venueId) {
+    courtId = null;
+  }
+
+  if (courtId) {
+    const court = await prisma.court.findUnique({ where: { id: courtId } });
+    if (!court) throw scheduleError("courtId", "Court not found");
+    if (venueId && court.venueId !== venueId) {
+      throw scheduleError("courtId", "The court is not at the selected venue");
+    }
+    venueId = court.venueId;
+  }
+
+  const venue = venueId
+    ? await prisma.venue.findUnique({ where: { id: venueId }, include: { availability: true } })
+    : null;
+  if (venueId && !venue) throw scheduleError("venueId", "Venue not found");
+
+  const timesChanged = validatedData.startTime !== undefined || validatedData.endTime !== undefined;
+  const start = validatedData.startTime !== undefined ? validatedData.startTime : current.startTime;
+  const end = timesChanged ? validatedData.endTime : current.endTime;
+  const startTime = start ? new Date(start) : null;
+  const endTime = startTime ? getBookingEnd(startTime, end ? new Date(end) : null) : null;
+
+  if (startTime) {
+    if (endTime <= startTime) {
+      throw scheduleError("endTime", "End time must be after the start time");
+    }
+    if (venue && !isWithinAvailability(venue.availability, startTime, endTime)) {
+      throw scheduleError("startTime", `${venue.venueName} is not available at this time`);
+    }
+
+    const clash = await findScheduleClash({
+      matchId,
+      courtId,
+      entryIds: [teams.homeEntryId, teams.awayEntryId],
+      startTime,
+      endTime,
+    });
+    if (clash?.reason === "court") {
+      throw scheduleError("courtId", "This court is already booked for another match at that time");
+    }
+    if (clash?.reason === "official") {
+      throw scheduleError("startTime", "An assigned official is already officiating another match at that time");
+    }
+    if (clash) {
+      throw scheduleError("startTime", "One of the teams is already playing another match at that time");
+    }
+  }
+
+  return { venueId: venueId || null, courtId: courtId || null, startTime, endTime };
+};
+
+const getMatches = asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const limit = Math.max(1, parseInt(req.query.limit) || 10);
+  const skip = (page - 1) * limit;
+  const competitionId = req.query.competitionId ? parseInt(req.query.competitionId) : undefined;
+  const groupId = req.query.groupId ? parseInt(req.query.groupId) : undefined;
+  const status = Object.values(MATCH_STATUS).includes(req.query.status)
+    ? req.query.status
+    : undefined;
+
+  const seasonId = getSeasonScope(req);
+
+  const where = {
+    competitionId,
+    status,
+    fixture: groupId ? { groupId } : undefined,
+    competition: seasonId ? { seasonId } : undefined,
+  };
+
+  const [matches, total] = await Promise.all([
+    prisma.match.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ startTime: "asc" }, { id: "asc" }],
+      include: matchInclude,
+    }),
+    prisma.match.count({ where }),
+  ]);
+
+  res.json({
+    matches,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalMatches: total,
+  });
+});
+
+const getMatch = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  res.json(match);
+});
+
+const createMatch = asyncHandler(async (req, res) => {
+  const schema = scheduleSchema.extend({
+    fixtureId: z.coerce.number().int().positive("Fixture is required"),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  const fixture = await prisma.fixture.findUnique({
+    where: { id: validatedData.fixtureId },
+    include: { competition: { select: { venueId: true } } },
+  });
+  if (!fixture) throw createError(404, "Fixture not found");
+  if (!fixture.published) {
+    throw createError(400, "Matches can only be scheduled once the fixtures are published.");
+  }
+  if (fixture.isBye || !fixture.homeEntryId || !fixture.awayEntryId) {
+    throw createError(400, "Both teams must be known before the match can be scheduled.");
+  }
+
+  // Matches are played at the competition's venue unless another is chosen
+  const schedule = await resolveSchedule(
+    validatedData,
+    { venueId: fixture.competition.venueId, courtId: null, startTime: null, endTime: null },
+    fixture
+  );
+
+  const match = await prisma.match.create({
+    data: {
+      fixtureId: fixture.id,
+      competitionId: fixture.competitionId,
+      homeEntryId: fixture.homeEntryId,
+      awayEntryId: fixture.awayEntryId,
+      ...schedule,
+    },
+    include: matchInclude,
+  });
+
+  res.status(201).json(match);
+});
+
+const updateMatch = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  const validatedData = await scheduleSchema.parseAsync(req.body);
+
+  if (isFinished(match)) {
+    throw createError(400, "A finished match can no longer be rescheduled.");
+  }
+
+  const schedule = await resolveSchedule(validatedData, match, match, match.id);
+
+  const updated = await prisma.match.update({
+    where: { id: match.id },
+    data: schedule,
+    include: matchInclude,
+  });
+
+  res.json(updated);
+});
+
+// Start a match so it shows as live; results are recorded separately
+const startMatch = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+
+  if (match.status !== MATCH_STATUS.SCHEDULED) {
+    throw createError(400, "Only a scheduled match can be started.");
+  }
+
+  const updated = await prisma.match.update({
+    where: { id: match.id },
+    data: { status: MATCH_STATUS.LIVE },
+    include: matchInclude,
+  });
+
+  res.json(updated);
+});
+
+const recordMatchResult = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+
+  const pointsSchema = z.coerce
+    .number({ invalid_type_error: "Points must be a number" })
+    .int("Points must be a whole number")
+    .min(0, "Points cannot be negative")
+    .default(0);
+  const breakdownSchema = z.object(
+    Object.fromEntries(SCORE_CATEGORIES.map((category) => [category, pointsSchema]))
+  );
+  const schema = z.object({
+    status: z.enum([MATCH_STATUS.COMPLETED, MATCH_STATUS.WALKOVER], {
+      errorMap: () => ({ message: "Status must be completed or walkover" }),
+    }),
+    home: breakdownSchema,
+    away: breakdownSchema,
+    winnerEntryId: z.coerce.number().int().positive().optional().nullable(),
+    resultNote: z.string().max(500, "Note must not exceed 500 characters").optional().nullable(),
+    correctionReason: z
+      .string()
+      .max(500, "Reason must not exceed 500 characters")
+      .optional()
+      .nullable(),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  const total = (breakdown) =>
+    SCORE_CATEGORIES.reduce((sum, category) => sum + (breakdown[category] || 0), 0);
+  const homeScore = total(validatedData.home);
+  const awayScore = total(validatedData.away);
+  const isKnockout = match.fixture.format === FIXTURE_FORMAT.KNOCKOUT;
+
+  // The higher score wins; a walkover or a level knockout needs the winner named
+  let winnerEntryId =
+    homeScore > awayScore ? match.homeEntryId : awayScore > homeScore ? match.awayEntryId : null;
+  if (validatedData.status === MATCH_STATUS.WALKOVER || (isKnockout && !winnerEntryId)) {
+    winnerEntryId = validatedData.winnerEntryId || null;
+    if (!winnerEntryId) {
+      throw createError(400, "Select the winning team", {
+        errors: { winnerEntryId: { type: "validation", message: "Select the winning team" } },
+      });
+    }
+  }
+  if (winnerEntryId && ![match.homeEntryId, match.awayEntryId].includes(winnerEntryId)) {
+    throw createError(400, "The winner must be one of the two teams");
+  }
+  if (validatedData.status === MATCH_STATUS.WALKOVER && !validatedData.resultNote?.trim()) {
+    throw createError(400, "A reason is required for a walkover", {
+      errors: { resultNote: { type: "validation", message: "A reason is required for a walkover" } },
+    });
+  }
+
+  // Corrections are audited and cannot undo a team's progress once they have played on
+  if (isFinished(match)) {
+    if (!validatedData.correctionReason?.trim()) {
+      throw createError(400, "A reason is required to correct a result", {
+        errors: {
+          correctionReason: { type: "validation", message: "A reason is required to correct a result" },
+        },
+      });
+    }
+    if (winnerEntryId !== match.winnerEntryId && (await isNextRoundStarted(match))) {
+      throw createError(400, "The winner cannot change after the next-round match has started.");
+    }
+  }
+
+  await recordResult(
+    match,
+    {
+      status: validatedData.status,
+      home: validatedData.home,
+      away: validatedData.away,
+      winnerEntryId,
+      resultNote: validatedData.resultNote,
+      correctionReason: validatedData.correctionReason,
+    },
+    req.user.id
+  );
+  if (match.fixture.format === FIXTURE_FORMAT.LEAGUE) {
+    await recomputeStandings(match.competitionId, match.fixture.group.id);
+  }
+
+  const updated = await prisma.match.findUnique({ where: { id: match.id }, include: matchInclude });
+  res.json(updated);
+});
+
+module.exports = {
+  getMatches,
+  getMatch,
+  createMatch,
+  updateMatch,
+  startMatch,
+  recordMatchResult,
+};
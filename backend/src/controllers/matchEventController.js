@@ -0,0 +1,273 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { MATCH_STATUS } = require("../services/matchService");
+const {
+  EVENT_TYPE,
+  RAID_OUTCOME,
+  MATCH_SIDE,
+  ALL_OUT_POINTS,
+  otherSide,
+  getActiveRaids,
+  tallyEvents,
+  appendEvent,
+} = require("../services/matchEventService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Two scorers logging at the same moment collide on the event sequence
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(409).json({
+          errors: { message: "The raid log changed while saving. Refresh and try again." },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const playerSelect = {
+  select: { id: true, firstName: true, lastName: true, uniqueIdNumber: true, position: true },
+};
+
+const squadSelect = {
+  select: {
+    id: true,
+    club: { select: { id: true, clubName: true } },
+    players: { ...playerSelect, orderBy: { firstName: "asc" } },
+  },
+};
+
+const eventInclude = {
+  raider: playerSelect,
+  defenders: playerSelect,
+  recordedBy: { select: { id: true, name: true } },
+};
+
+const findMatch = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid match ID");
+
+  const match = await prisma.match.findUnique({
+    where: { id },
+    include: { homeEntry: squadSelect, awayEntry: squadSelect },
+  });
+  if (!match) throw createError(404, "Match not found");
+
+  return match;
+};
+
+// Raids can only be logged while the match is being played
+const assertLive = (match) => {
+  if (match.status !== MATCH_STATUS.LIVE) {
+    throw createError(400, "Raids can only be logged while the match is live.");
+  }
+};
+
+// Event log together with the running score derived from it
+const buildLog = async (matchId) => {
+  const events = await prisma.matchEvent.findMany({
+    where: { matchId },
+    include: eventInclude,
+    orderBy: { sequence: "asc" },
+  });
+  const activeRaids = getActiveRaids(events);
+  const lastRaid = activeRaids[activeRaids.length - 1];
+
+  return {
+    events,
+    undoneEventIds: events
+      .filter((event) => event.type === EVENT_TYPE.UNDO)
+      .map((event) => event.undoesEventId),
+    score: tallyEvents(events),
+    // Teams take turns to raid
+    nextAttackingSide: lastRaid ? otherSide(lastRaid.attackingSide) : null,
+  };
+};
+
+const sideSchema = z.enum([MATCH_SIDE.HOME, MATCH_SIDE.AWAY], {
+  errorMap: () => ({ message: "Side must be home or away" }),
+});
+
+const pointsSchema = (max) =>
+  z.coerce
+    .number({ invalid_type_error: "Points must be a number" })
+    .int("Points must be a whole number")
+    .min(0, "Points cannot be negative")
+    .max(max, `Points cannot exceed ${max}`)
+    .default(0);
+
+const raidSchema = z
+  .object({
+    attackingSide: sideSchema,
+    raiderId: z.coerce.number().int().positive("Raider is required"),
+    defenderIds: z
+      .array(z.coerce.number().int().positive())
+      .max(7, "A team has at most seven defenders on the mat")
+      .default([]),
+    outcome: z.enum([RAID_OUTCOME.SUCCESSFUL, RAID_OUTCOME.UNSUCCESSFUL, RAID_OUTCOME.EMPTY], {
+      errorMap: () => ({ message: "Outcome must be successful, unsuccessful or empty" }),
+    }),
+    raidPoints: pointsSchema(7),
+    bonusPoints: pointsSchema(1),
+    tacklePoints: pointsSchema(2),
+    allOutSide: sideSchema.optional().nullable(),
+    extraSide: sideSchema.optional().nullable(),
+    extraPoints: pointsSchema(10),
+    isSuperRaid: z.boolean().default(false),
+    isSuperTackle: z.boolean().default(false),
+    note: z.string().max(255, "Note must not exceed 255 characters").optional().nullable(),
+  })
+  .superRefine((data, ctx) => {
+    const issue = (path, message) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    if (new Set(data.defenderIds).size !== data.defenderIds.length) {
+      issue("defenderIds", "A defender can only be listed once");
+    }
+    if (data.outcome === RAID_OUTCOME.SUCCESSFUL && data.raidPoints + data.bonusPoints === 0) {
+      issue("raidPoints", "A successful raid must score at least one point");
+    }
+    if (data.outcome !== RAID_OUTCOME.UNSUCCESSFUL && data.tacklePoints > 0) {
+      issue("tacklePoints", "Tackle points are only given when the raider is out");
+    }
+    if (data.outcome === RAID_OUTCOME.UNSUCCESSFUL && data.raidPoints > 0) {
+      issue("raidPoints", "A raider who is out cannot score touch points");
+    }
+    if (data.outcome === RAID_OUTCOME.UNSUCCESSFUL && data.tacklePoints !== (data.isSuperTackle ? 2 : 1)) {
+      issue("tacklePoints", data.isSuperTackle ? "A super tackle is worth two points" : "A tackle is worth one point");
+    }
+    if (data.outcome === RAID_OUTCOME.EMPTY && data.raidPoints + data.bonusPoints > 0) {
+      issue("outcome", "An empty raid cannot score points");
+    }
+    if (data.isSuperRaid && data.raidPoints + data.bonusPoints < 3) {
+      issue("isSuperRaid", "A super raid needs at least three points");
+    }
+    if (data.isSuperTackle && data.outcome !== RAID_OUTCOME.UNSUCCESSFUL) {
+      issue("isSuperTackle", "A super tackle needs the raider to be out");
+    }
+    if (data.extraPoints > 0 && !data.extraSide) {
+      issue("extraSide", "Select the team the extra points go to");
+    }
+  });
+
+const getMatchEvents = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  const log = await buildLog(match.id);
+
+  res.json({
+    ...log,
+    status: match.status,
+    squads: { home: match.homeEntry, away: match.awayEntry },
+  });
+});
+
+const createMatchEvent = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  assertLive(match);
+  const validatedData = await raidSchema.parseAsync(req.body);
+
+  // The raider comes from the raiding team and the defenders from the other one
+  const squads = { home: match.homeEntry.players, away: match.awayEntry.players };
+  const isInSquad = (side, playerId) => squads[side].some((player) => player.id === playerId);
+  if (!isInSquad(validatedData.attackingSide, validatedData.raiderId)) {
+    throw createError(400, "The raider is not in the raiding team's squad", {
+      errors: { raiderId: { type: "validation", message: "The raider is not in the raiding team's squad" } },
+    });
+  }
+  const defendingSide = otherSide(validatedData.attackingSide);
+  if (validatedData.defenderIds.some((playerId) => !isInSquad(defendingSide, playerId))) {
+    throw createError(400, "Defenders must be in the defending team's squad", {
+      errors: { defenderIds: { type: "validation", message: "Defenders must be in the defending team's squad" } },
+    });
+  }
+
+  const { event } = await appendEvent(
+    match.id,
+    {
+      type: EVENT_TYPE.RAID,
+      attackingSide: validatedData.attackingSide,
+      raiderId: validatedData.raiderId,
+      defenderIds: validatedData.defenderIds,
+      outcome: validatedData.outcome,
+      raidPoints: validatedData.raidPoints,
+      bonusPoints: validatedData.bonusPoints,
+      tacklePoints: validatedData.tacklePoints,
+      allOutSide: validatedData.allOutSide || null,
+      allOutPoints: validatedData.allOutSide ? ALL_OUT_POINTS : 0,
+      extraSide: validatedData.extraPoints > 0 ? validatedData.extraSide : null,
+      extraPoints: validatedData.extraPoints,
+      isSuperRaid: validatedData.isSuperRaid,
+      isSuperTackle: validatedData.isSuperTackle,
+      note: validatedData.note || null,
+    },
+    req.user.id
+  );
+
+  res.status(201).json({ eventId: event.id, ...(await buildLog(match.id)) });
+});
+
+// Cancel the latest raid that still counts by appending an undo event
+const undoMatchEvent = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  assertLive(match);
+
+  const schema = z.object({
+    note: z.string().max(255, "Note must not exceed 255 characters").optional().nullable(),
+  });
+  const validatedData = await schema.parseAsync(req.body || {});
+
+  const events = await prisma.matchEvent.findMany({ where: { matchId: match.id } });
+  const activeRaids = getActiveRaids(events);
+  if (activeRaids.length === 0) {
+    throw createError(400, "There is no raid to undo.");
+  }
+
+  const { event } = await appendEvent(
+    match.id,
+    {
+      type: EVENT_TYPE.UNDO,
+      undoesEventId: activeRaids[activeRaids.length - 1].id,
+      note: validatedData.note || null,
+    },
+    req.user.id
+  );
+
+  res.status(201).json({ eventId: event.id, ...(await buildLog(match.id)) });
+});
+
+module.exports = {
+  getMatchEvents,
+  createMatchEvent,
+  undoMatchEvent,
+};
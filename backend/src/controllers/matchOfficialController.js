@@ -0,0 +1,193 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { isFinished } = require("../services/matchService");
+const {
+  OFFICIAL_ROLE,
+  findAssignmentConflict,
+  sendAssignmentSheet,
+} = require("../services/officialService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(400).json({
+          errors: { message: "This official is already assigned to the match." },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const teamSelect = {
+  select: { id: true, club: { select: { id: true, clubName: true } } },
+};
+
+const assignmentInclude = {
+  official: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      role: true,
+      certificationLevel: true,
+      mobile: true,
+      email: true,
+    },
+  },
+  assignedBy: { select: { id: true, name: true } },
+};
+
+const findMatch = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid match ID");
+
+  const match = await prisma.match.findUnique({
+    where: { id },
+    include: { homeEntry: teamSelect, awayEntry: teamSelect },
+  });
+  if (!match) throw createError(404, "Match not found");
+
+  return match;
+};
+
+const findAssignment = async (req, match) => {
+  const assignmentId = parseInt(req.params.assignmentId);
+  if (!assignmentId) throw createError(400, "Invalid assignment ID");
+
+  const assignment = await prisma.matchOfficial.findUnique({ where: { id: assignmentId } });
+  if (!assignment || assignment.matchId !== match.id) {
+    throw createError(404, "Assignment not found");
+  }
+
+  return assignment;
+};
+
+const listAssignments = (matchId) =>
+  prisma.matchOfficial.findMany({
+    where: { matchId },
+    include: assignmentInclude,
+    orderBy: { id: "asc" },
+  });
+
+const getMatchOfficials = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  res.json({ officials: await listAssignments(match.id) });
+});
+
+const assignMatchOfficial = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+
+  const schema = z.object({
+    officialId: z.coerce.number().int().positive("Official is required"),
+    role: z.enum(
+      [
+        OFFICIAL_ROLE.REFEREE,
+        OFFICIAL_ROLE.UMPIRE,
+        OFFICIAL_ROLE.SCORER,
+        OFFICIAL_ROLE.TECHNICAL_DELEGATE,
+      ],
+      {
+        errorMap: () => ({ message: "Select a valid role" }),
+      }
+    ),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  if (isFinished(match)) {
+    throw createError(400, "Officials cannot be assigned to a finished match.");
+  }
+  if (!match.startTime) {
+    throw createError(400, "Schedule the match before assigning officials.");
+  }
+
+  const official = await prisma.official.findUnique({ where: { id: validatedData.officialId } });
+  if (!official) throw createError(404, "Official not found");
+  if (!official.active) {
+    throw createError(400, "Inactive officials cannot be assigned.");
+  }
+
+  const conflict = await findAssignmentConflict(official, match);
+  if (conflict) {
+    throw createError(400, conflict, {
+      errors: { officialId: { type: "validation", message: conflict } },
+    });
+  }
+
+  const assignment = await prisma.matchOfficial.create({
+    data: {
+      matchId: match.id,
+      officialId: official.id,
+      role: validatedData.role,
+      assignedById: req.user.id,
+    },
+  });
+  const notified = await sendAssignmentSheet(assignment.id);
+
+  res.status(201).json({ notified, officials: await listAssignments(match.id) });
+});
+
+// Send the assignment sheet again, e.g. after the match has been rescheduled
+const notifyMatchOfficial = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  const assignment = await findAssignment(req, match);
+
+  const notified = await sendAssignmentSheet(assignment.id);
+  if (!notified) {
+    throw createError(502, "The assignment sheet could not be emailed. Try again later.");
+  }
+
+  res.json({ notified, officials: await listAssignments(match.id) });
+});
+
+const removeMatchOfficial = asyncHandler(async (req, res) => {
+  const match = await findMatch(req);
+  const assignment = await findAssignment(req, match);
+
+  if (isFinished(match)) {
+    throw createError(400, "Officials cannot be changed once the match has finished.");
+  }
+
+  await prisma.matchOfficial.delete({ where: { id: assignment.id } });
+  res.json({ officials: await listAssignments(match.id) });
+});
+
+module.exports = {
+  getMatchOfficials,
+  assignMatchOfficial,
+  notifyMatchOfficial,
+  removeMatchOfficial,
+};
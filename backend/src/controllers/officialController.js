@@ -0,0 +1,190 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { MATCH_STATUS } = require("../services/matchService");
+const { OFFICIAL_ROLE } = require("../services/officialService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        const message = "An official with this email already exists.";
+        return res.status(400).json({ errors: { email: { type: "unique", message } } });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const officialInclude = {
+  club: { select: { id: true, clubName: true } },
+};
+
+const officialSchema = z.object({
+  firstName: z.string().min(1, "First name is required").max(255),
+  lastName: z.string().min(1, "Last name is required").max(255),
+  role: z.enum(
+    [
+      OFFICIAL_ROLE.REFEREE,
+      OFFICIAL_ROLE.UMPIRE,
+      OFFICIAL_ROLE.SCORER,
+      OFFICIAL_ROLE.TECHNICAL_DELEGATE,
+    ],
+    {
+      errorMap: () => ({ message: "Select a valid role" }),
+    }
+  ),
+  certificationLevel: z.string().min(1, "Certification level is required").max(100),
+  mobile: z.string().min(1, "Mobile number is required").max(20),
+  email: z.string().email("Valid email is required").max(255),
+  clubId: z.coerce.number().int().positive().optional().nullable(),
+  active: z.boolean().optional(),
+});
+
+const findOfficial = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid official ID");
+
+  const official = await prisma.official.findUnique({ where: { id }, include: officialInclude });
+  if (!official) throw createError(404, "Official not found");
+
+  return official;
+};
+
+const getOfficials = asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const limit = Math.max(1, parseInt(req.query.limit) || 10);
+  const skip = (page - 1) * limit;
+
+  const { search = "", sortBy = "lastName", sortOrder = "asc" } = req.query;
+  const role = Object.values(OFFICIAL_ROLE).includes(req.query.role) ? req.query.role : undefined;
+  const active =
+    req.query.active === "true" ? true : req.query.active === "false" ? false : undefined;
+
+  const where = {
+    role,
+    active,
+    OR: search
+      ? [
+          { firstName: { contains: search } },
+          { lastName: { contains: search } },
+          { email: { contains: search } },
+          { mobile: { contains: search } },
+          { certificationLevel: { contains: search } },
+        ]
+      : undefined,
+  };
+
+  const [officials, total] = await Promise.all([
+    prisma.official.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { [sortBy]: sortOrder },
+      include: officialInclude,
+    }),
+    prisma.official.count({ where }),
+  ]);
+
+  res.json({
+    officials,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalOfficials: total,
+  });
+});
+
+const getOfficial = asyncHandler(async (req, res) => {
+  const official = await findOfficial(req);
+  res.json(official);
+});
+
+const createOfficial = asyncHandler(async (req, res) => {
+  const validatedData = await officialSchema.parseAsync(req.body);
+
+  const official = await prisma.official.create({
+    data: {
+      firstName: validatedData.firstName,
+      lastName: validatedData.lastName,
+      role: validatedData.role,
+      certificationLevel: validatedData.certificationLevel,
+      mobile: validatedData.mobile,
+      email: validatedData.email,
+      clubId: validatedData.clubId || null,
+      active: validatedData.active ?? true,
+    },
+    include: officialInclude,
+  });
+
+  res.status(201).json(official);
+});
+
+const updateOfficial = asyncHandler(async (req, res) => {
+  const official = await findOfficial(req);
+  const validatedData = await officialSchema.parseAsync(req.body);
+
+  const updated = await prisma.official.update({
+    where: { id: official.id },
+    data: { ...validatedData, clubId: validatedData.clubId || null },
+    include: officialInclude,
+  });
+
+  res.json(updated);
+});
+
+const deleteOfficial = asyncHandler(async (req, res) => {
+  const official = await findOfficial(req);
+
+  // Keep officials with matches still to play so their assignments are not lost
+  const upcoming = await prisma.matchOfficial.count({
+    where: {
+      officialId: official.id,
+      match: { status: { in: [MATCH_STATUS.SCHEDULED, MATCH_STATUS.LIVE] } },
+    },
+  });
+  if (upcoming > 0) {
+    throw createError(400, "This official has upcoming match assignments. Remove them or mark the official inactive.");
+  }
+
+  await prisma.official.delete({ where: { id: official.id } });
+  res.json({ message: "Official deleted successfully" });
+});
+
+module.exports = {
+  getOfficials,
+  getOfficial,
+  createOfficial,
+  updateOfficial,
+  deleteOfficial,
+};
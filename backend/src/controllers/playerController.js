@@ -1,12 +1,43 @@
 const createError = require("http-errors");
 const ExcelJS = require("exceljs");
+const path = require("path");
+const fs = require("fs").promises;
 const prisma = require("../config/db");
-const validateRequest = require("../utils/validateRequest");
+const validateUpload = require("../utils/validateUpload");
 const aclService = require("../services/aclService");
+const { getClubScope } = require("../services/clubScopeService");
+const { getSeasonScope, getCurrentSeason, resolveSeasonId } = require("../services/seasonService");
+const { REGISTRATION_STATUS } = require("../services/registrationService");
+const { validatePlayerGroups } = require("../services/ageEligibilityService");
+const {
+  AADHAR_STATUS,
+  recordAadharDecision,
+  getAadharResetFields,
+  getAadharHistory,
+} = require("../services/aadharVerificationService");
+const {
+  activeSuspensionInclude,
+  suspendPlayer,
+  liftSuspension,
+} = require("../services/suspensionService");
+const { idCardPlayerSelect, writeIdCards } = require("../services/idCardService");
+const { parseStatsFilters, getPlayerStats: loadPlayerStats } = require("../services/playerStatsService");
+const {
+  IMPORT_EXTENSIONS,
+  MAX_IMPORT_ROWS,
+  writeImportTemplate,
+  readImportRows,
+  validateImportRows,
+} = require("../services/playerImportService");
 const { z } = require("zod");
 
-// Generate a unique ID number for players
-const generateUniqueIdNumber = async () => {
+/**
+ * Generate a unique ID number for players
+ * @param {import("@prisma/client").Prisma.TransactionClient} [client] - Transaction client when
+ *   creating several players at once, so each number follows the ones created before it
+ * @returns {Promise<string>} The next PLAYER-YYYYMMDD-XXXX number
+ */
+const generateUniqueIdNumber = async (client = prisma) => {
   // Format: PLAYER-YYYYMMDD-XXXX where XXXX is a sequential number
   const today = new Date();
   const dateStr = today.toISOString().slice(0, 10).replace(/-/g, "");
@@ -15,7 +46,7 @@ const generateUniqueIdNumber = async () => {
   const todayStart = new Date(today.setHours(0, 0, 0, 0));
   const todayEnd = new Date(today.setHours(23, 59, 59, 999));
   
-  const todayPlayersCount = await prisma.player.count({
+  const todayPlayersCount = await client.player.count({
     where: {
       createdAt: {
         gte: todayStart,
@@ -29,6 +60,44 @@ const generateUniqueIdNumber = async () => {
   return `PLAYER-${dateStr}-${sequentialNumber}`;
 };
 
+// File fields accepted by the player upload middleware
+const UPLOAD_FIELDS = ["profileImage", "aadharImage"];
+const UPLOAD_DIR = "uploads";
+
+// Paths of files uploaded with this request, relative to /uploads
+// (e.g. "/players/profileImage/<uuid>/photo.jpg")
+const getUploadedPaths = (req) => {
+  /** @type {Record<string, string>} */
+  const paths = {};
+  UPLOAD_FIELDS.forEach((field) => {
+    const file = req.files && req.files[field] && req.files[field][0];
+    if (file) {
+      paths[field] = "/" + path.relative(UPLOAD_DIR, file.path).split(path.sep).join("/");
+    }
+  });
+  return paths;
+};
+
+// Remove files uploaded with a request that was rejected
+const discardUploads = async (req) => {
+  if (req.cleanupUpload) {
+    await req.cleanupUpload(req);
+  }
+};
+
+// Remove a previously stored file along with its upload directory
+const removeStoredUpload = async (storedPath) => {
+  if (!storedPath) return;
+  try {
+    await fs.rm(path.dirname(path.join(UPLOAD_DIR, storedPath)), {
+      recursive: true,
+      force: true,
+    });
+  } catch (error) {
+    console.error(`Failed to remove upload ${storedPath}:`, error);
+  }
+};
+
 // Get all players with filtering, pagination, and optional export
 const getPlayers = async (req, res, next) => {
   const page = parseInt(req.query.page) || 1;
@@ -39,12 +108,21 @@ const getPlayers = async (req, res, next) => {
                      req.query.isSuspended === "false" ? false : undefined;
   const aadharVerified = req.query.aadharVerified === "true" ? true : 
                         req.query.aadharVerified === "false" ? false : undefined;
+  const aadharStatus = Object.values(AADHAR_STATUS).includes(req.query.aadharStatus)
+    ? req.query.aadharStatus
+    : undefined;
+  const registrationStatus = Object.values(REGISTRATION_STATUS).includes(req.query.registrationStatus)
+    ? req.query.registrationStatus
+    : undefined;
   const sortBy = req.query.sortBy || "id";
   const sortOrder = req.query.sortOrder === "desc" ? "desc" : "asc";
   const exportToExcel = req.query.export === "true";
 
+  const clubId = req.query.clubId ? parseInt(req.query.clubId) : undefined;
+  const seasonId = getSeasonScope(req);
+
   // Check if the user has the 'players.export' permission using ACL service
-  if (exportToExcel && !aclService.hasPermission(req.user, "players.export")) {
+  if (exportToExcel && !(await aclService.hasPermission(req.user, "players.export"))) {
     return res.status(403).json({
       errors: { message: "You do not have permission to export players" },
     });
@@ -62,14 +140,48 @@ const getPlayers = async (req, res, next) => {
       },
       isSuspended !== undefined ? { isSuspended } : {},
       aadharVerified !== undefined ? { aadharVerified } : {},
+      aadharStatus !== undefined ? { aadharStatus } : {},
+      clubId !== undefined ? { clubId } : {},
+      // Players registered for the season or in one of its groups, plus those in neither
+      seasonId !== undefined
+        ? {
+            OR: [
+              { registrations: { some: { seasonId } } },
+              { groups: { some: { seasonId } } },
+              { AND: [{ registrations: { none: {} } }, { groups: { none: {} } }] },
+            ],
+          }
+        : {},
     ],
   };
 
   try {
+    // Registration status is reported for the selected season, or the current one
+    const registrationSeasonId = seasonId ?? (await getCurrentSeason())?.id;
+    if (registrationStatus !== undefined) {
+      whereClause.AND.push({
+        registrations: { some: { seasonId: registrationSeasonId, status: registrationStatus } },
+      });
+    }
+
+    // Club admins only ever see their own roster
+    const clubScope = await getClubScope(req.user);
+    if (clubScope !== undefined) {
+      whereClause.AND.push({ clubId: clubScope });
+    }
+
     const players = await prisma.player.findMany({
       where: whereClause,
       include: {
         groups: true,
+        club: {
+          select: { id: true, clubName: true },
+        },
+        suspensions: activeSuspensionInclude(),
+        registrations: {
+          where: { seasonId: registrationSeasonId },
+          include: { season: { select: { id: true, seasonName: true } } },
+        },
       },
       skip: exportToExcel ? undefined : skip,
       take: exportToExcel ? undefined : limit,
@@ -89,13 +201,16 @@ const getPlayers = async (req, res, next) => {
         { header: "Middle Name", key: "middleName", width: 20 },
         { header: "Last Name", key: "lastName", width: 20 },
         { header: "Date of Birth", key: "dateOfBirth", width: 15 },
+        { header: "Gender", key: "gender", width: 10 },
         { header: "Position", key: "position", width: 15 },
         { header: "Address", key: "address", width: 30 },
         { header: "Mobile", key: "mobile", width: 15 },
         { header: "Aadhar Number", key: "aadharNumber", width: 20 },
         { header: "Aadhar Verified", key: "aadharVerified", width: 15 },
         { header: "Suspended", key: "isSuspended", width: 15 },
+        { header: "Club", key: "club", width: 30 },
         { header: "Groups", key: "groups", width: 30 },
+        { header: "Registration", key: "registration", width: 15 },
       ];
 
       // Add rows
@@ -107,13 +222,16 @@ const getPlayers = async (req, res, next) => {
           middleName: player.middleName || "",
           lastName: player.lastName,
           dateOfBirth: player.dateOfBirth.toISOString().split('T')[0],
+          gender: player.gender || "",
           position: player.position || "",
           address: player.address,
           mobile: player.mobile,
           aadharNumber: player.aadharNumber,
           aadharVerified: player.aadharVerified ? "Yes" : "No",
           isSuspended: player.isSuspended ? "Yes" : "No",
-          groups: player.groups.map(g => g.groupName).join(", ")
+          club: player.club ? player.club.clubName : "",
+          groups: player.groups.map(g => g.groupName).join(", "),
+          registration: player.registrations[0]?.status || "unregistered"
         });
       });
 
@@ -148,14 +266,19 @@ const getPlayers = async (req, res, next) => {
 // Get a player by ID
 const getPlayerById = async (req, res, next) => {
   try {
+    const clubScope = await getClubScope(req.user);
     const player = await prisma.player.findUnique({
       where: { id: parseInt(req.params.id) },
       include: {
         groups: true,
+        club: {
+          select: { id: true, clubName: true },
+        },
+        suspensions: activeSuspensionInclude(),
       },
     });
     
-    if (!player) {
+    if (!player || (clubScope !== undefined && player.clubId !== clubScope)) {
       return res.status(404).json({
         errors: { message: "Player not found." },
       });
@@ -167,107 +290,126 @@ const getPlayerById = async (req, res, next) => {
   }
 };
 
-// Create a new player
-const createPlayer = async (req, res, next) => {
-  // Define Zod schema for player creation
-  const schema = z.object({
-    firstName: z
-      .string()
-      .min(1, "First name cannot be left blank.")
-      .max(100, "First name must not exceed 100 characters.")
-      .refine((val) => /^[A-Za-z\s\u0900-\u097F]+$/.test(val), {
-        message: "First name can only contain letters.",
-      }),
-    middleName: z
-      .string()
-      .max(100, "Middle name must not exceed 100 characters.")
-      .refine((val) => !val || /^[A-Za-z\s\u0900-\u097F]+$/.test(val), {
-        message: "Middle name can only contain letters.",
-      })
-      .optional()
-      .nullable(),
-    lastName: z
-      .string()
-      .min(1, "Last name cannot be left blank.")
-      .max(100, "Last name must not exceed 100 characters.")
-      .refine((val) => /^[A-Za-z\s\u0900-\u097F]+$/.test(val), {
-        message: "Last name can only contain letters.",
-      }),
-    dateOfBirth: z.string().refine(
-      (val) => {
-        const date = new Date(val);
-        return !isNaN(date.getTime());
+// Fields accepted when registering a player, shared by the form and bulk import
+const createPlayerSchema = z.object({
+  firstName: z
+    .string()
+    .min(1, "First name cannot be left blank.")
+    .max(100, "First name must not exceed 100 characters.")
+    .refine((val) => /^[A-Za-z\s\u0900-\u097F]+$/.test(val), {
+      message: "First name can only contain letters.",
+    }),
+  middleName: z
+    .string()
+    .max(100, "Middle name must not exceed 100 characters.")
+    .refine((val) => !val || /^[A-Za-z\s\u0900-\u097F]+$/.test(val), {
+      message: "Middle name can only contain letters.",
+    })
+    .optional()
+    .nullable(),
+  lastName: z
+    .string()
+    .min(1, "Last name cannot be left blank.")
+    .max(100, "Last name must not exceed 100 characters.")
+    .refine((val) => /^[A-Za-z\s\u0900-\u097F]+$/.test(val), {
+      message: "Last name can only contain letters.",
+    }),
+  dateOfBirth: z.string().refine(
+    (val) => {
+      const date = new Date(val);
+      return !isNaN(date.getTime());
+    },
+    {
+      message: "Invalid date of birth.",
+    }
+  ),
+  gender: z.enum(["Male", "Female"], {
+    errorMap: () => ({ message: "Gender must be Male or Female." }),
+  }),
+  position: z.string().optional().nullable(),
+  address: z.string().min(1, "Address cannot be left blank."),
+  mobile: z
+    .string()
+    .min(10, "Mobile number must be at least 10 digits.")
+    .max(15, "Mobile number must not exceed 15 digits.")
+    .refine((val) => /^[0-9]+$/.test(val), {
+      message: "Mobile number can only contain digits.",
+    })
+    .refine((val) => {
+      // Indian mobile numbers should start with 6, 7, 8, or 9 (not 0)
+      if (val.length === 10 && val.startsWith('0')) {
+        return false;
+      }
+      return true;
+    }, {
+      message: "Invalid mobile number format. Indian mobile numbers should not start with 0.",
+    }),
+  aadharNumber: z
+    .string()
+    .length(12, "Aadhar number must be exactly 12 digits.")
+    .refine((val) => /^\d+$/.test(val), {
+      message: "Aadhar number can only contain digits.",
+    })
+    .refine(
+      async (aadharNumber) => {
+        const existing = await prisma.player.findFirst({
+          where: { aadharNumber },
+        });
+        return !existing;
       },
       {
-        message: "Invalid date of birth.",
+        message: "A player with this Aadhar number already exists.",
       }
     ),
-    position: z.string().optional().nullable(),
-    address: z.string().min(1, "Address cannot be left blank."),
-    mobile: z
-      .string()
-      .min(10, "Mobile number must be at least 10 digits.")
-      .max(15, "Mobile number must not exceed 15 digits.")
-      .refine((val) => /^[0-9]+$/.test(val), {
-        message: "Mobile number can only contain digits.",
-      })
-      .refine((val) => {
-        // Indian mobile numbers should start with 6, 7, 8, or 9 (not 0)
-        if (val.length === 10 && val.startsWith('0')) {
-          return false;
-        }
-        return true;
-      }, {
-        message: "Invalid mobile number format. Indian mobile numbers should not start with 0.",
-      }),
-    aadharNumber: z
-      .string()
-      .length(12, "Aadhar number must be exactly 12 digits.")
-      .refine((val) => /^\d+$/.test(val), {
-        message: "Aadhar number can only contain digits.",
-      })
-      .refine(
-        async (aadharNumber) => {
-          const existing = await prisma.player.findFirst({
-            where: { aadharNumber },
-          });
-          return !existing;
-        },
-        {
-          message: "A player with this Aadhar number already exists.",
-        }
-      ),
-    groupIds: z.union([
-      z.array(z.number()),
-      z.string().transform(val => {
-        try {
-          return JSON.parse(val);
-        } catch (e) {
-          return [];
-        }
-      })
-    ]).optional(),
-  });
+  clubId: z.coerce
+    .number()
+    .int()
+    .positive("Club is required.")
+    .refine(
+      async (id) => {
+        const club = await prisma.club.findUnique({ where: { id } });
+        return !!club;
+      },
+      {
+        message: "Selected club does not exist.",
+      }
+    )
+    .optional()
+    .nullable(),
+  groupIds: z.union([
+    z.array(z.number()),
+    z.string().transform(val => {
+      try {
+        return JSON.parse(val);
+      } catch (e) {
+        return [];
+      }
+    })
+  ]).optional(),
+});
 
-  // Validate the request body using Zod
+// Create a new player
+const createPlayer = async (req, res, next) => {
+  // Validate the request body and uploaded files
   console.log("Request body for player creation:", req.body);
+  const validation = await validateUpload(createPlayerSchema, req.body, req.uploadErrors);
+  if (validation.success === false) {
+    await discardUploads(req);
+    return res.status(400).json({ errors: validation.errors });
+  }
+
   try {
-    await schema.parseAsync(req.body);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const errors = {};
-      error.errors.forEach((err) => {
-        errors[err.path[0]] = {
-          type: "validation",
-          message: err.message,
-        };
+    // Club admins always register players into their own club
+    const clubScope = await getClubScope(req.user);
+    if (clubScope === -1) {
+      await discardUploads(req);
+      return res.status(403).json({
+        errors: { message: "Your account is not linked to a club" },
       });
-      return res.status(400).json({ errors });
     }
-    throw error;
-  }
+    const clubId = clubScope !== undefined ? clubScope :
+                   req.body.clubId ? parseInt(req.body.clubId) : null;
 
-  try {
     // Generate unique ID number
     const uniqueIdNumber = await generateUniqueIdNumber();
 
@@ -278,10 +420,12 @@ const createPlayer = async (req, res, next) => {
       middleName: req.body.middleName || null,
       lastName: req.body.lastName,
       dateOfBirth: new Date(req.body.dateOfBirth),
+      gender: req.body.gender,
       position: req.body.position || null,
       address: req.body.address,
       mobile: req.body.mobile,
       aadharNumber: req.body.aadharNumber,
+      clubId,
       groupIds: req.body.groupIds
     });
     
@@ -294,30 +438,226 @@ const createPlayer = async (req, res, next) => {
         console.error("Error parsing groupIds:", e);
       }
     }
+
+    // The player must meet the gender and age rule of every group joined
+    const groupError = await validatePlayerGroups(
+      { dateOfBirth: req.body.dateOfBirth, gender: req.body.gender },
+      groupIds
+    );
+    if (groupError) {
+      await discardUploads(req);
+      return res.status(400).json({
+        errors: { groupIds: { type: "validation", message: groupError } },
+      });
+    }
     
+    // New players start with a pending registration for the current season
+    const currentSeason = await getCurrentSeason();
+
     const player = await prisma.player.create({
       data: {
         uniqueIdNumber,
         firstName: req.body.firstName,
         middleName: req.body.middleName || null,
         lastName: req.body.lastName,
+        ...getUploadedPaths(req),
         dateOfBirth: new Date(req.body.dateOfBirth),
+        gender: req.body.gender,
         position: req.body.position || null,
         address: req.body.address,
         mobile: req.body.mobile,
         aadharNumber: req.body.aadharNumber,
+        club: clubId ? { connect: { id: clubId } } : undefined,
         groups: groupIds && groupIds.length > 0 ? {
           connect: groupIds.map(id => ({ id: parseInt(id) }))
+        } : undefined,
+        registrations: currentSeason ? {
+          create: {
+            seasonId: currentSeason.id,
+            status: REGISTRATION_STATUS.PENDING,
+            fee: currentSeason.registrationFee,
+          }
         } : undefined
       },
       include: {
         groups: true,
+        club: {
+          select: { id: true, clubName: true },
+        },
       },
     });
 
     res.status(201).json(player);
   } catch (error) {
+    await discardUploads(req);
+    next(error);
+  }
+};
+
+// Download the workbook players are bulk imported from
+const getImportTemplate = async (req, res, next) => {
+  try {
+    // Club admins only ever import into their own club
+    const clubScope = await getClubScope(req.user);
+    // Group names repeat across seasons, so list the selected (or current) season's
+    const seasonId = await resolveSeasonId(req);
+    const [clubs, groups] = await Promise.all([
+      prisma.club.findMany({
+        where: clubScope !== undefined ? { id: clubScope } : undefined,
+        select: { clubName: true },
+        orderBy: { clubName: "asc" },
+      }),
+      prisma.group.findMany({
+        where: { seasonId: seasonId || undefined },
+        select: { groupName: true },
+        orderBy: { groupName: "asc" },
+      }),
+    ]);
+
+    res.setHeader(
+      "Content-Type",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    res.setHeader("Content-Disposition", "attachment; filename=player-import-template.xlsx");
+    await writeImportTemplate({ clubs, groups }, res);
+    res.end();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Read and validate the uploaded roster; `error` explains a file that cannot be imported at all
+const loadImportRows = async (req) => {
+  const uploadError = req.uploadErrors?.file?.[0]?.message;
+  if (uploadError) return { error: uploadError };
+
+  const file = req.files?.file?.[0];
+  if (!file) return { error: "Select an .xlsx or .csv file to import." };
+  if (!IMPORT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+    return { error: "Only .xlsx and .csv files can be imported." };
+  }
+
+  let parsed;
+  try {
+    parsed = await readImportRows(file.path, file.originalname);
+  } catch (error) {
+    console.error("Failed to read player import:", error);
+    return { error: "The file could not be read. Save it as .xlsx or .csv and try again." };
+  }
+  if (parsed.missingHeaders.length > 0) {
+    return { error: `Missing columns: ${parsed.missingHeaders.join(", ")}. Use the import template.` };
+  }
+  if (parsed.rows.length === 0) return { error: "The file has no players in it." };
+  if (parsed.rows.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} players can be imported at once.` };
+  }
+
+  const clubScope = await getClubScope(req.user);
+  const seasonId = await resolveSeasonId(req);
+  return {
+    rows: await validateImportRows(parsed.rows, { schema: createPlayerSchema, clubScope, seasonId }),
+  };
+};
+
+const summarizeImport = (rows) => {
+  const invalid = rows.filter((row) => Object.keys(row.errors).length > 0).length;
+  return {
+    rows: rows.map(({ row, values, errors }) => ({ row, values, errors })),
+    total: rows.length,
+    valid: rows.length - invalid,
+    invalid,
+  };
+};
+
+// Validate an uploaded roster without creating anything
+const previewPlayerImport = async (req, res, next) => {
+  try {
+    const result = await loadImportRows(req);
+    if (result.error) {
+      return res.status(400).json({
+        errors: { file: { type: "validation", message: result.error } },
+      });
+    }
+
+    res.json(summarizeImport(result.rows));
+  } catch (error) {
+    next(error);
+  } finally {
+    await discardUploads(req);
+  }
+};
+
+// Create every player in an uploaded roster, or none if any row is invalid
+const importPlayers = async (req, res, next) => {
+  try {
+    const result = await loadImportRows(req);
+    if (result.error) {
+      return res.status(400).json({
+        errors: { file: { type: "validation", message: result.error } },
+      });
+    }
+
+    const summary = summarizeImport(result.rows);
+    if (summary.invalid > 0) {
+      return res.status(400).json({
+        errors: {
+          message: `${summary.invalid} of ${summary.total} rows have errors. No players were imported.`,
+        },
+        ...summary,
+      });
+    }
+
+    // New players start with a pending registration for the current season
+    const currentSeason = await getCurrentSeason();
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const { data } of result.rows) {
+          await tx.player.create({
+            data: {
+              uniqueIdNumber: await generateUniqueIdNumber(tx),
+              firstName: data.firstName,
+              middleName: data.middleName,
+              lastName: data.lastName,
+              dateOfBirth: new Date(data.dateOfBirth),
+              gender: data.gender,
+              position: data.position,
+              address: data.address,
+              mobile: data.mobile,
+              aadharNumber: data.aadharNumber,
+              club: data.clubId ? { connect: { id: data.clubId } } : undefined,
+              groups: data.groupIds.length > 0 ? {
+                connect: data.groupIds.map((id) => ({ id }))
+              } : undefined,
+              registrations: currentSeason ? {
+                create: {
+                  seasonId: currentSeason.id,
+                  status: REGISTRATION_STATUS.PENDING,
+                  fee: currentSeason.registrationFee,
+                }
+              } : undefined
+            },
+          });
+        }
+      },
+      // Large rosters take longer than the default five seconds
+      { timeout: 60000 }
+    );
+
+    res.status(201).json({
+      message: `${summary.total} players imported successfully.`,
+      created: summary.total,
+    });
+  } catch (error) {
+    // Another player took one of the Aadhar numbers after validation
+    if (error.code === "P2002") {
+      return res.status(400).json({
+        errors: { message: "A player in this file was registered in the meantime. Preview the file again." },
+      });
+    }
     next(error);
+  } finally {
+    await discardUploads(req);
   }
 };
 
@@ -360,6 +700,9 @@ const updatePlayer = async (req, res, next) => {
         message: "Invalid date of birth.",
       }
     ).optional(),
+    gender: z.enum(["Male", "Female"], {
+      errorMap: () => ({ message: "Gender must be Male or Female." }),
+    }).optional(),
     position: z.string().optional().nullable(),
     address: z.string().min(1, "Address cannot be left blank.").optional(),
     mobile: z
@@ -395,7 +738,21 @@ const updatePlayer = async (req, res, next) => {
         }
         return true;
       }),
-    aadharVerified: z.boolean().optional(),
+    clubId: z.coerce
+      .number()
+      .int()
+      .positive("Club is required.")
+      .refine(
+        async (id) => {
+          const club = await prisma.club.findUnique({ where: { id } });
+          return !!club;
+        },
+        {
+          message: "Selected club does not exist.",
+        }
+      )
+      .optional()
+      .nullable(),
     groupIds: z.union([
       z.array(z.number()),
       z.string().transform(val => {
@@ -408,48 +765,70 @@ const updatePlayer = async (req, res, next) => {
     ]).optional(),
   });
 
-  // Validate the request body using Zod
-  try {
-    await schema.parseAsync(req.body);
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const errors = {};
-      error.errors.forEach((err) => {
-        errors[err.path[0]] = {
-          type: "validation",
-          message: err.message,
-        };
-      });
-      return res.status(400).json({ errors });
-    }
-    throw error;
+  // Validate the request body and uploaded files
+  const validation = await validateUpload(schema, req.body, req.uploadErrors);
+  if (validation.success === false) {
+    await discardUploads(req);
+    return res.status(400).json({ errors: validation.errors });
   }
 
   try {
+    const clubScope = await getClubScope(req.user);
+
     // Get the existing player to check if it exists
     const existingPlayer = await prisma.player.findUnique({
       where: { id: playerId },
       include: { groups: true }
     });
 
-    if (!existingPlayer) {
+    if (!existingPlayer || (clubScope !== undefined && existingPlayer.clubId !== clubScope)) {
+      await discardUploads(req);
       return res.status(404).json({
         errors: { message: "Player not found." },
       });
     }
 
+    // Newly uploaded files replace the stored ones
+    const uploadedPaths = getUploadedPaths(req);
+
     // Prepare update data
     const updateData = {
       firstName: req.body.firstName,
       middleName: req.body.middleName,
       lastName: req.body.lastName,
       dateOfBirth: req.body.dateOfBirth ? new Date(req.body.dateOfBirth) : undefined,
+      gender: req.body.gender,
       position: req.body.position,
       address: req.body.address,
       mobile: req.body.mobile,
       aadharNumber: req.body.aadharNumber,
-      aadharVerified: req.body.aadharVerified,
     };
+    Object.assign(updateData, uploadedPaths);
+
+    // A new Aadhar number or document has to be reviewed again
+    Object.assign(
+      updateData,
+      getAadharResetFields(existingPlayer, {
+        aadharNumber: req.body.aadharNumber,
+        aadharImage: uploadedPaths.aadharImage,
+      })
+    );
+
+    // Players change clubs through a transfer, so the move is approved and recorded
+    if (req.body.clubId !== undefined) {
+      const clubId = parseInt(req.body.clubId) || null;
+      if (clubId !== existingPlayer.clubId) {
+        await discardUploads(req);
+        return res.status(400).json({
+          errors: {
+            clubId: {
+              type: "validation",
+              message: "A player's club can only be changed through a transfer.",
+            },
+          },
+        });
+      }
+    }
 
     // Remove undefined values
     Object.keys(updateData).forEach(key => 
@@ -471,6 +850,22 @@ const updatePlayer = async (req, res, next) => {
         console.error("Error parsing groupIds:", e);
       }
     }
+
+    // Re-check the resulting groups, since a changed birth date or gender
+    // can make the player ineligible for groups they already belong to
+    const groupError = await validatePlayerGroups(
+      {
+        dateOfBirth: updateData.dateOfBirth || existingPlayer.dateOfBirth,
+        gender: updateData.gender || existingPlayer.gender,
+      },
+      groupIds && groupIds.length > 0 ? groupIds : existingPlayer.groups.map((group) => group.id)
+    );
+    if (groupError) {
+      await discardUploads(req);
+      return res.status(400).json({
+        errors: { groupIds: { type: "validation", message: groupError } },
+      });
+    }
     
     const player = await prisma.player.update({
       where: { id: playerId },
@@ -483,85 +878,364 @@ const updatePlayer = async (req, res, next) => {
       },
       include: {
         groups: true,
+        club: {
+          select: { id: true, clubName: true },
+        },
       },
     });
 
+    // Only drop the old files once the new ones are saved on the player
+    await Promise.all(
+      Object.keys(uploadedPaths).map((field) => removeStoredUpload(existingPlayer[field]))
+    );
+
     res.json(player);
   } catch (error) {
+    await discardUploads(req);
     next(error);
   }
 };
 
-// Toggle player suspension status
-const toggleSuspension = async (req, res, next) => {
-  const schema = z.object({
-    isSuspended: z.boolean({
-      required_error: "Suspension status is required.",
-      invalid_type_error: "Suspension status must be a boolean.",
-    }),
+// Find a player the caller may manage, or null
+const findScopedPlayer = async (req) => {
+  const clubScope = await getClubScope(req.user);
+  const player = await prisma.player.findUnique({
+    where: { id: parseInt(req.params.id) },
   });
-
-  // Validate the request body using Zod
-  const validationResult = await validateRequest(schema, req.body);
-  // Check if the result contains validation errors (objects with type and message properties)
-  if (validationResult && typeof validationResult === 'object' && 
-      Object.values(validationResult).some(val => val && typeof val === 'object' && val.type && val.message)) {
-    return res.status(400).json({ errors: validationResult });
+  if (!player || (clubScope !== undefined && player.clubId !== clubScope)) {
+    return null;
   }
+  return player;
+};
 
+// Get the suspension history of a player
+const getSuspensions = async (req, res, next) => {
   try {
-    const updatedPlayer = await prisma.player.update({
-      where: { id: parseInt(req.params.id) },
-      data: { isSuspended: req.body.isSuspended },
+    const player = await findScopedPlayer(req);
+    if (!player) {
+      return res.status(404).json({
+        errors: { message: "Player not found" },
+      });
+    }
+
+    const suspensions = await prisma.playerSuspension.findMany({
+      where: { playerId: player.id },
       include: {
-        groups: true,
+        recordedBy: { select: { id: true, name: true } },
+        liftedBy: { select: { id: true, name: true } },
       },
+      orderBy: { startDate: "desc" },
     });
-    
-    res.json(updatedPlayer);
+
+    res.json({ suspensions });
   } catch (error) {
-    if (error.code === "P2025") {
+    next(error);
+  }
+};
+
+// Suspend a player for a period, or indefinitely when no end date is given
+const createSuspension = async (req, res, next) => {
+  const isValidDate = (val) => !isNaN(new Date(val).getTime());
+  const schema = z
+    .object({
+      reason: z
+        .string()
+        .min(1, "Reason cannot be left blank.")
+        .max(500, "Reason must not exceed 500 characters."),
+      issuedBy: z
+        .string()
+        .min(1, "Issuing official cannot be left blank.")
+        .max(255, "Issuing official must not exceed 255 characters."),
+      startDate: z.string().refine(isValidDate, {
+        message: "Invalid start date.",
+      }),
+      endDate: z
+        .string()
+        .refine(isValidDate, {
+          message: "Invalid end date.",
+        })
+        .optional()
+        .nullable(),
+    })
+    .refine((data) => !data.endDate || new Date(data.endDate) > new Date(data.startDate), {
+      message: "End date must be after the start date.",
+      path: ["endDate"],
+    });
+
+  const result = await schema.safeParseAsync(req.body);
+  if (!result.success) {
+    const errors = {};
+    result.error.errors.forEach((err) => {
+      errors[err.path[0] || "message"] = {
+        type: "validation",
+        message: err.message,
+      };
+    });
+    return res.status(400).json({ errors });
+  }
+
+  try {
+    const player = await findScopedPlayer(req);
+    if (!player) {
       return res.status(404).json({
         errors: { message: "Player not found" },
       });
     }
+
+    const suspension = await suspendPlayer(
+      player.id,
+      {
+        reason: result.data.reason,
+        issuedBy: result.data.issuedBy,
+        startDate: new Date(result.data.startDate),
+        endDate: result.data.endDate ? new Date(result.data.endDate) : null,
+      },
+      req.user.id
+    );
+
+    res.status(201).json(suspension);
+  } catch (error) {
     next(error);
   }
 };
 
-// Toggle aadhar verification status
-const toggleAadharVerification = async (req, res, next) => {
+// Lift a suspension before it ends
+const liftPlayerSuspension = async (req, res, next) => {
   const schema = z.object({
-    aadharVerified: z.boolean({
-      required_error: "Aadhar verification status is required.",
-      invalid_type_error: "Aadhar verification status must be a boolean.",
-    }),
+    reason: z.string().max(500, "Reason must not exceed 500 characters.").optional().nullable(),
   });
 
-  // Validate the request body using Zod
-  const validationResult = await validateRequest(schema, req.body);
-  // Check if the result contains validation errors (objects with type and message properties)
-  if (validationResult && typeof validationResult === 'object' && 
-      Object.values(validationResult).some(val => val && typeof val === 'object' && val.type && val.message)) {
-    return res.status(400).json({ errors: validationResult });
+  const result = await schema.safeParseAsync(req.body || {});
+  if (!result.success) {
+    return res.status(400).json({
+      errors: { reason: { type: "validation", message: result.error.errors[0].message } },
+    });
+  }
+
+  try {
+    const player = await findScopedPlayer(req);
+    const suspension = player
+      ? await prisma.playerSuspension.findFirst({
+          where: { id: parseInt(req.params.suspensionId), playerId: player.id },
+        })
+      : null;
+
+    if (!suspension) {
+      return res.status(404).json({
+        errors: { message: "Suspension not found" },
+      });
+    }
+    if (suspension.liftedAt) {
+      return res.status(400).json({
+        errors: { message: "This suspension has already been lifted." },
+      });
+    }
+
+    const lifted = await liftSuspension(suspension, result.data.reason?.trim(), req.user.id);
+    res.json(lifted);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Approve or reject a player's Aadhar details after reviewing the uploaded document
+const reviewAadharVerification = async (req, res, next) => {
+  const schema = z
+    .object({
+      status: z.enum([AADHAR_STATUS.APPROVED, AADHAR_STATUS.REJECTED], {
+        errorMap: () => ({ message: "Status must be approved or rejected." }),
+      }),
+      reason: z.string().max(500, "Reason must not exceed 500 characters.").optional().nullable(),
+    })
+    .refine((data) => data.status !== AADHAR_STATUS.REJECTED || !!data.reason?.trim(), {
+      message: "A reason is required when rejecting Aadhar details.",
+      path: ["reason"],
+    });
+
+  const result = await schema.safeParseAsync(req.body);
+  if (!result.success) {
+    const errors = {};
+    result.error.errors.forEach((err) => {
+      errors[err.path[0] || "message"] = {
+        type: "validation",
+        message: err.message,
+      };
+    });
+    return res.status(400).json({ errors });
   }
 
   try {
-    const updatedPlayer = await prisma.player.update({
+    // Club admins can only touch players on their own roster
+    const clubScope = await getClubScope(req.user);
+    const player = await prisma.player.findUnique({
       where: { id: parseInt(req.params.id) },
-      data: { aadharVerified: req.body.aadharVerified },
-      include: {
-        groups: true,
-      },
     });
-    
+
+    if (!player || (clubScope !== undefined && player.clubId !== clubScope)) {
+      return res.status(404).json({
+        errors: { message: "Player not found" },
+      });
+    }
+
+    // Approval has to be made against an uploaded document
+    if (result.data.status === AADHAR_STATUS.APPROVED && !player.aadharImage) {
+      return res.status(400).json({
+        errors: { message: "Upload the Aadhar document before approving it." },
+      });
+    }
+
+    const updatedPlayer = await recordAadharDecision(player, {
+      status: result.data.status,
+      reason: result.data.reason?.trim(),
+      reviewerId: req.user.id,
+    });
+
     res.json(updatedPlayer);
   } catch (error) {
-    if (error.code === "P2025") {
+    next(error);
+  }
+};
+
+// Get the Aadhar verification history of a player
+const getAadharVerifications = async (req, res, next) => {
+  try {
+    const clubScope = await getClubScope(req.user);
+    const player = await prisma.player.findUnique({
+      where: { id: parseInt(req.params.id) },
+      select: { id: true, clubId: true },
+    });
+
+    if (!player || (clubScope !== undefined && player.clubId !== clubScope)) {
+      return res.status(404).json({
+        errors: { message: "Player not found" },
+      });
+    }
+
+    const verifications = await getAadharHistory(player.id);
+    res.json({ verifications });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Send a player's Aadhar document. It is kept off the public /uploads path,
+// so only staff who can see the player may open it.
+const getAadharImage = async (req, res, next) => {
+  try {
+    const clubScope = await getClubScope(req.user);
+    const player = await prisma.player.findUnique({
+      where: { id: parseInt(req.params.id) },
+      select: { clubId: true, aadharImage: true },
+    });
+
+    if (!player || (clubScope !== undefined && player.clubId !== clubScope)) {
+      return res.status(404).json({
+        errors: { message: "Player not found" },
+      });
+    }
+    if (!player.aadharImage) {
+      return res.status(404).json({
+        errors: { message: "No Aadhar document has been uploaded for this player" },
+      });
+    }
+
+    res.setHeader("Cache-Control", "private, no-store");
+    res.sendFile(path.resolve(path.join(UPLOAD_DIR, player.aadharImage)), (error) => {
+      if (!error) return;
+      if (error.code === "ENOENT" && !res.headersSent) {
+        return res.status(404).json({
+          errors: { message: "The Aadhar document could not be found" },
+        });
+      }
+      next(error);
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Download a player's ID card as a card-sized PDF
+const getPlayerIdCard = async (req, res, next) => {
+  try {
+    const clubScope = await getClubScope(req.user);
+    const player = await prisma.player.findUnique({
+      where: { id: parseInt(req.params.id) },
+      select: { ...idCardPlayerSelect, clubId: true },
+    });
+
+    if (!player || (clubScope !== undefined && player.clubId !== clubScope)) {
+      return res.status(404).json({
+        errors: { message: "Player not found" },
+      });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename=id-card-${player.uniqueIdNumber}.pdf`
+    );
+    await writeIdCards([player], res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Download ID cards for every player in a group and/or club as A4 sheets
+const getPlayerIdCards = async (req, res, next) => {
+  const groupId = req.query.groupId ? parseInt(req.query.groupId) : undefined;
+  let clubId = req.query.clubId ? parseInt(req.query.clubId) : undefined;
+
+  try {
+    // Club admins can only print cards for their own club
+    const clubScope = await getClubScope(req.user);
+    if (clubScope !== undefined) {
+      clubId = clubScope;
+    }
+
+    if (groupId === undefined && clubId === undefined) {
+      return res.status(400).json({
+        errors: { message: "Select a group or club to print ID cards for" },
+      });
+    }
+
+    const players = await prisma.player.findMany({
+      where: {
+        AND: [
+          groupId !== undefined ? { groups: { some: { id: groupId } } } : {},
+          clubId !== undefined ? { clubId } : {},
+        ],
+      },
+      select: idCardPlayerSelect,
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    });
+
+    if (players.length === 0) {
+      return res.status(404).json({
+        errors: { message: "No players found for the selected group or club" },
+      });
+    }
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", "attachment; filename=player-id-cards.pdf");
+    await writeIdCards(players, res, "sheet");
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Career statistics from the raid logs of completed matches
+const getPlayerStats = async (req, res, next) => {
+  try {
+    const player = await findScopedPlayer(req);
+    if (!player) {
       return res.status(404).json({
         errors: { message: "Player not found" },
       });
     }
+
+    const stats = await loadPlayerStats(player.id, parseStatsFilters(req.query));
+    res.json(stats);
+  } catch (error) {
     next(error);
   }
 };
@@ -570,7 +1244,17 @@ module.exports = {
   getPlayers,
   getPlayerById,
   createPlayer,
+  getImportTemplate,
+  previewPlayerImport,
+  importPlayers,
   updatePlayer,
-  toggleSuspension,
-  toggleAadharVerification,
+  getSuspensions,
+  createSuspension,
+  liftPlayerSuspension,
+  reviewAadharVerification,
+  getAadharVerifications,
+  getAadharImage,
+  getPlayerIdCard,
+  getPlayerIdCards,
+  getPlayerStats,
 };
\ No newline at end of file
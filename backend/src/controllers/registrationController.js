@@ -0,0 +1,217 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { getClubScope } = require("../services/clubScopeService");
+const { getSeasonScope } = require("../services/seasonService");
+const {
+  REGISTRATION_STATUS,
+  renewRegistrations,
+} = require("../services/registrationService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(400).json({
+          errors: { message: "The player is already registered for this season." },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const registrationInclude = {
+  player: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      uniqueIdNumber: true,
+      club: { select: { id: true, clubName: true } },
+    },
+  },
+  season: { select: { id: true, seasonName: true, startDate: true, endDate: true } },
+};
+
+const statusSchema = z.enum(
+  [REGISTRATION_STATUS.PENDING, REGISTRATION_STATUS.ACTIVE, REGISTRATION_STATUS.LAPSED],
+  { errorMap: () => ({ message: "Status must be pending, active or lapsed" }) }
+);
+
+const getRegistrations = asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const limit = Math.max(1, parseInt(req.query.limit) || 10);
+  const skip = (page - 1) * limit;
+
+  const status = Object.values(REGISTRATION_STATUS).includes(req.query.status)
+    ? req.query.status
+    : undefined;
+  const playerId = req.query.playerId ? parseInt(req.query.playerId) : undefined;
+
+  // Club admins only ever see their own players' registrations
+  const clubScope = await getClubScope(req.user);
+
+  const where = {
+    status,
+    playerId,
+    // A player's history covers every season; other lists follow the season switcher
+    seasonId: playerId ? undefined : getSeasonScope(req),
+    player: clubScope !== undefined ? { clubId: clubScope } : undefined,
+  };
+
+  const [registrations, total] = await Promise.all([
+    prisma.playerRegistration.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ season: { startDate: "desc" } }, { player: { firstName: "asc" } }],
+      include: registrationInclude,
+    }),
+    prisma.playerRegistration.count({ where }),
+  ]);
+
+  res.json({
+    registrations,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalRegistrations: total,
+  });
+});
+
+const renew = asyncHandler(async (req, res) => {
+  const schema = z.object({
+    seasonId: z.coerce.number().int().positive("Season is required"),
+    playerIds: z
+      .array(z.coerce.number().int().positive())
+      .min(1, "Select at least one player"),
+    status: z
+      .enum([REGISTRATION_STATUS.PENDING, REGISTRATION_STATUS.ACTIVE], {
+        errorMap: () => ({ message: "Status must be pending or active" }),
+      })
+      .optional(),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+  const playerIds = [...new Set(validatedData.playerIds)];
+
+  const season = await prisma.season.findUnique({ where: { id: validatedData.seasonId } });
+  if (!season) {
+    throw createError(400, "Season not found", {
+      errors: { seasonId: { type: "validation", message: "Season not found" } },
+    });
+  }
+  if (season.endDate < new Date()) {
+    throw createError(400, `The ${season.seasonName} season has ended.`, {
+      errors: {
+        seasonId: { type: "validation", message: `The ${season.seasonName} season has ended.` },
+      },
+    });
+  }
+
+  // Clubs can only renew their own roster, and their renewals wait for approval
+  const clubScope = await getClubScope(req.user);
+  const status =
+    clubScope !== undefined
+      ? REGISTRATION_STATUS.PENDING
+      : validatedData.status || REGISTRATION_STATUS.PENDING;
+
+  const players = await prisma.player.findMany({
+    where: {
+      id: { in: playerIds },
+      clubId: clubScope !== undefined ? clubScope : undefined,
+    },
+    select: { id: true },
+  });
+  if (players.length !== playerIds.length) {
+    throw createError(400, "One or more selected players do not exist or belong to another club.");
+  }
+
+  const result = await renewRegistrations(season, playerIds, status);
+  res.json({ ...result, season: { id: season.id, seasonName: season.seasonName } });
+});
+
+const updateRegistration = asyncHandler(async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid registration ID");
+
+  const schema = z
+    .object({
+      status: statusSchema.optional(),
+      fee: z.coerce
+        .number({ invalid_type_error: "Fee must be a number" })
+        .min(0, "Fee cannot be negative")
+        .optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: "At least one field is required",
+    });
+  const validatedData = await schema.parseAsync(req.body);
+
+  const registration = await prisma.playerRegistration.findUnique({
+    where: { id },
+    include: { season: true },
+  });
+  if (!registration) throw createError(404, "Registration not found");
+
+  // Registrations of a season that has ended stay lapsed
+  if (
+    validatedData.status &&
+    validatedData.status !== REGISTRATION_STATUS.LAPSED &&
+    registration.season.endDate < new Date()
+  ) {
+    throw createError(400, `The ${registration.season.seasonName} season has ended.`);
+  }
+
+  const activating =
+    validatedData.status === REGISTRATION_STATUS.ACTIVE &&
+    registration.status !== REGISTRATION_STATUS.ACTIVE;
+
+  const updated = await prisma.playerRegistration.update({
+    where: { id },
+    data: {
+      status: validatedData.status,
+      fee: validatedData.fee,
+      activatedAt: activating ? new Date() : undefined,
+    },
+    include: registrationInclude,
+  });
+
+  res.json(updated);
+});
+
+module.exports = {
+  getRegistrations,
+  renew,
+  updateRegistration,
+};
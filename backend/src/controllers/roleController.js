@@ -1,4 +1,7 @@
+const { z } = require("zod");
 const roles = require("../config/roles");
+const permissions = require("../config/permissions");
+const aclService = require("../services/aclService");
 const createError = require("http-errors");
 
 const getRoles = async (req, res, next) => {
@@ -10,6 +13,64 @@ const getRoles = async (req, res, next) => {
   }
 };
 
+const getPermissions = async (req, res, next) => {
+  try {
+    const roleNames = Object.values(roles);
+    const matrix = await aclService.getMatrix(roleNames);
+
+    res.json({
+      roles: roleNames,
+      lockedRoles: [roles.ADMIN],
+      permissions: Object.entries(permissions).map(([key, { description }]) => ({
+        key,
+        description,
+      })),
+      matrix,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const updateRolePermissions = async (req, res, next) => {
+  const { role } = req.params;
+
+  if (!Object.values(roles).includes(role)) {
+    return next(createError(404, "Role not found"));
+  }
+  if (role === roles.ADMIN) {
+    return res.status(400).json({
+      errors: { message: "Administrator permissions cannot be changed" },
+    });
+  }
+
+  const schema = z.object({
+    permissions: z.array(
+      z.string().refine((key) => !!permissions[key], {
+        message: "Unknown permission",
+      })
+    ),
+  });
+
+  const result = await schema.safeParseAsync(req.body);
+  if (!result.success) {
+    return res.status(400).json({
+      errors: { permissions: { type: "validation", message: result.error.errors[0].message } },
+    });
+  }
+
+  try {
+    await aclService.setRolePermissions(role, result.data.permissions);
+    const matrix = await aclService.getMatrix([role]);
+
+    res.json({ role, permissions: matrix[role] });
+  } catch (error) {
+    next(error);
+  }
+};
+
 module.exports = {
   getRoles,
+  getPermissions,
+  updateRolePermissions,
 };
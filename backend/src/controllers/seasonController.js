@@ -0,0 +1,214 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { getCurrentSeason, rollOverSeason } = require("../services/seasonService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(400).json({
+          errors: { seasonName: { type: "unique", message: "A season with that name already exists." } },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const dateSchema = (label) =>
+  z.coerce.date({
+    errorMap: () => ({ message: `${label} must be a valid date` }),
+  });
+
+const seasonSchema = z
+  .object({
+    seasonName: z.string().trim().min(1, "Season name is required").max(255),
+    startDate: dateSchema("Start date"),
+    endDate: dateSchema("End date"),
+    registrationFee: z.coerce
+      .number({ invalid_type_error: "Registration fee must be a number" })
+      .min(0, "Registration fee cannot be negative")
+      .optional(),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "End date must be after the start date",
+    path: ["endDate"],
+  });
+
+// Explicit fields for Prisma, from the validated request body
+const toSeasonData = (data) => ({
+  seasonName: data.seasonName,
+  startDate: data.startDate,
+  endDate: data.endDate,
+  registrationFee: data.registrationFee,
+});
+
+const seasonInclude = {
+  _count: { select: { groups: true, competitions: true, registrations: true } },
+};
+
+const findSeason = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid season ID");
+
+  const season = await prisma.season.findUnique({ where: { id }, include: seasonInclude });
+  if (!season) throw createError(404, "Season not found");
+
+  return season;
+};
+
+/**
+ * Seasons may not overlap, so every date belongs to exactly one of them
+ * @param {{ startDate?: Date, endDate?: Date }} dates
+ * @param {number} [ignoreId] - Season being updated
+ */
+const assertNoOverlap = async ({ startDate, endDate }, ignoreId) => {
+  const overlapping = await prisma.season.findFirst({
+    where: {
+      id: ignoreId ? { not: ignoreId } : undefined,
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+  });
+  if (overlapping) {
+    throw createError(400, `The dates overlap the ${overlapping.seasonName} season.`, {
+      errors: {
+        startDate: {
+          type: "validation",
+          message: `The dates overlap the ${overlapping.seasonName} season.`,
+        },
+      },
+    });
+  }
+};
+
+const getSeasons = asyncHandler(async (req, res) => {
+  const seasons = await prisma.season.findMany({
+    orderBy: { startDate: "desc" },
+    include: seasonInclude,
+  });
+  const current = await getCurrentSeason();
+
+  res.json({ seasons, currentSeasonId: current ? current.id : null });
+});
+
+const getSeason = asyncHandler(async (req, res) => {
+  const season = await findSeason(req);
+  res.json(season);
+});
+
+const createSeason = asyncHandler(async (req, res) => {
+  const data = toSeasonData(await seasonSchema.parseAsync(req.body));
+  await assertNoOverlap(data);
+
+  const season = await prisma.season.create({ data, include: seasonInclude });
+  res.status(201).json(season);
+});
+
+const updateSeason = asyncHandler(async (req, res) => {
+  const season = await findSeason(req);
+  const data = toSeasonData(await seasonSchema.parseAsync(req.body));
+  await assertNoOverlap(data, season.id);
+
+  const updated = await prisma.season.update({
+    where: { id: season.id },
+    data,
+    include: seasonInclude,
+  });
+  res.json(updated);
+});
+
+const setCurrentSeason = asyncHandler(async (req, res) => {
+  const season = await findSeason(req);
+
+  const [, updated] = await prisma.$transaction([
+    prisma.season.updateMany({ where: { isCurrent: true }, data: { isCurrent: false } }),
+    prisma.season.update({
+      where: { id: season.id },
+      data: { isCurrent: true },
+      include: seasonInclude,
+    }),
+  ]);
+  res.json(updated);
+});
+
+const rollOver = asyncHandler(async (req, res) => {
+  const season = await findSeason(req);
+  const { makeCurrent } = await z.object({ makeCurrent: z.boolean().optional() }).parseAsync(req.body);
+  const data = toSeasonData(await seasonSchema.parseAsync(req.body));
+
+  if (data.startDate <= season.startDate) {
+    throw createError(400, "The new season must start after the season it rolls over.", {
+      errors: {
+        startDate: {
+          type: "validation",
+          message: "The new season must start after the season it rolls over.",
+        },
+      },
+    });
+  }
+  await assertNoOverlap(data);
+
+  const result = await rollOverSeason(season, { ...data, makeCurrent });
+  res.status(201).json(result);
+});
+
+const deleteSeason = asyncHandler(async (req, res) => {
+  const season = await findSeason(req);
+
+  if (
+    season._count.groups > 0 ||
+    season._count.competitions > 0 ||
+    season._count.registrations > 0
+  ) {
+    throw createError(
+      400,
+      "This season still has groups, competitions or player registrations. Remove them before deleting the season."
+    );
+  }
+
+  await prisma.season.delete({ where: { id: season.id } });
+  res.json({ message: "Season deleted successfully" });
+});
+
+module.exports = {
+  getSeasons,
+  getSeason,
+  createSeason,
+  updateSeason,
+  setCurrentSeason,
+  rollOver,
+  deleteSeason,
+};
@@ -0,0 +1,137 @@
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { FIXTURE_FORMAT } = require("../services/fixtureService");
+const {
+  TIE_BREAKER,
+  parseTieBreakers,
+  recomputeCompetitionStandings,
+} = require("../services/standingsService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and Prisma validation errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+// Points rules as exposed to the client
+const toRules = (competition) => ({
+  pointsForWin: competition.pointsForWin,
+  pointsForTie: competition.pointsForTie,
+  pointsForLoss: competition.pointsForLoss,
+  pointsForCloseLoss: competition.pointsForCloseLoss,
+  closeLossMargin: competition.closeLossMargin,
+  tieBreakers: parseTieBreakers(competition.tieBreakers),
+});
+
+const findCompetition = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid competition ID");
+
+  const competition = await prisma.competition.findUnique({
+    where: { id },
+    include: { groups: { select: { id: true, groupName: true } } },
+  });
+  if (!competition) throw createError(404, "Competition not found");
+
+  return competition;
+};
+
+const getStandings = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+  const groupId = req.query.groupId ? parseInt(req.query.groupId) : undefined;
+
+  // Only groups played as a league have a table, and clubs only once the draw is public
+  const leagueFixtures = await prisma.fixture.findMany({
+    where: { competitionId: competition.id, groupId, format: FIXTURE_FORMAT.LEAGUE, published: true },
+    distinct: ["groupId"],
+    select: { groupId: true },
+  });
+  const leagueGroupIds = leagueFixtures.map((fixture) => fixture.groupId);
+
+  const standings = await prisma.standing.findMany({
+    where: { competitionId: competition.id, groupId: { in: leagueGroupIds } },
+    include: {
+      entry: { select: { id: true, club: { select: { id: true, clubName: true } } } },
+    },
+    orderBy: [{ position: "asc" }, { entryId: "asc" }],
+  });
+
+  res.json({
+    competition: { id: competition.id, competitionName: competition.competitionName },
+    rules: toRules(competition),
+    groups: competition.groups
+      .filter((group) => leagueGroupIds.includes(group.id))
+      .map((group) => ({
+        ...group,
+        standings: standings.filter((standing) => standing.groupId === group.id),
+      })),
+  });
+});
+
+const updateStandingRules = asyncHandler(async (req, res) => {
+  const competition = await findCompetition(req);
+
+  const pointsSchema = z.coerce
+    .number({ invalid_type_error: "Points must be a number" })
+    .int("Points must be a whole number")
+    .min(0, "Points cannot be negative")
+    .max(100, "Points cannot exceed 100");
+  const schema = z.object({
+    pointsForWin: pointsSchema,
+    pointsForTie: pointsSchema,
+    pointsForLoss: pointsSchema,
+    pointsForCloseLoss: pointsSchema,
+    closeLossMargin: pointsSchema,
+    tieBreakers: z
+      .array(
+        z.enum([TIE_BREAKER.HEAD_TO_HEAD, TIE_BREAKER.SCORE_DIFFERENCE, TIE_BREAKER.SCORE_FOR], {
+          errorMap: () => ({ message: "Unknown tie-breaker" }),
+        })
+      )
+      .refine((rules) => new Set(rules).size === rules.length, "Each tie-breaker can only be used once"),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  const updated = await prisma.competition.update({
+    where: { id: competition.id },
+    data: { ...validatedData, tieBreakers: validatedData.tieBreakers.join(",") },
+  });
+  await recomputeCompetitionStandings(competition.id);
+
+  res.json(toRules(updated));
+});
+
+module.exports = {
+  getStandings,
+  updateStandingRules,
+};
@@ -0,0 +1,335 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { getClubScope } = require("../services/clubScopeService");
+const { COMPETITION_STATUS } = require("../services/competitionStatusService");
+const { ENTRY_STATUS } = require("../services/competitionEntryService");
+const {
+  TRANSFER_STATUS,
+  OPEN_TRANSFER_STATUSES,
+  completeTransfer,
+} = require("../services/transferService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., record not found)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2025") {
+        return res.status(404).json({ errors: { message: "Transfer not found" } });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const transferInclude = {
+  player: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      uniqueIdNumber: true,
+      profileImage: true,
+    },
+  },
+  fromClub: { select: { id: true, clubName: true } },
+  toClub: { select: { id: true, clubName: true } },
+  requestedBy: { select: { id: true, name: true } },
+  nocDecidedBy: { select: { id: true, name: true } },
+  decidedBy: { select: { id: true, name: true } },
+};
+
+const fieldError = (field, message) =>
+  createError(400, message, { errors: { [field]: { type: "validation", message } } });
+
+const findTransfer = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid transfer ID");
+
+  const transfer = await prisma.playerTransfer.findUnique({ where: { id } });
+  if (!transfer) throw createError(404, "Transfer not found");
+  return transfer;
+};
+
+const getTransfers = asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const limit = Math.max(1, parseInt(req.query.limit) || 10);
+  const skip = (page - 1) * limit;
+
+  const status = Object.values(TRANSFER_STATUS).includes(req.query.status)
+    ? req.query.status
+    : undefined;
+  const playerId = req.query.playerId ? parseInt(req.query.playerId) : undefined;
+  const pending = req.query.pending === "true";
+
+  // Club admins see transfers into and out of their club. A player's full
+  // history is open to the club the player is currently registered with.
+  const clubScope = await getClubScope(req.user);
+  let clubFilter;
+  if (clubScope !== undefined) {
+    const ownPlayer =
+      playerId &&
+      (await prisma.player.findFirst({ where: { id: playerId, clubId: clubScope } }));
+    clubFilter = ownPlayer
+      ? undefined
+      : [{ fromClubId: clubScope }, { toClubId: clubScope }];
+  }
+
+  const where = {
+    status: status || (pending ? { in: OPEN_TRANSFER_STATUSES } : undefined),
+    playerId,
+    OR: clubFilter,
+  };
+
+  const [transfers, total] = await Promise.all([
+    prisma.playerTransfer.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+      include: transferInclude,
+    }),
+    prisma.playerTransfer.count({ where }),
+  ]);
+
+  res.json({
+    transfers,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalTransfers: total,
+  });
+});
+
+const requestTransfer = asyncHandler(async (req, res) => {
+  const schema = z.object({
+    uniqueIdNumber: z.string().trim().min(1, "Player ID is required"),
+    toClubId: z.coerce.number().int().positive("Club is required").optional(),
+    reason: z.string().trim().max(500).optional().nullable(),
+  });
+  const validatedData = await schema.parseAsync(req.body);
+
+  // Clubs can only request players for themselves
+  const clubScope = await getClubScope(req.user);
+  const toClubId = clubScope !== undefined ? clubScope : validatedData.toClubId;
+  if (!toClubId) {
+    throw fieldError("toClubId", "Club is required");
+  }
+
+  const [player, toClub] = await Promise.all([
+    prisma.player.findUnique({
+      where: { uniqueIdNumber: validatedData.uniqueIdNumber },
+      include: { club: { select: { id: true, clubName: true } } },
+    }),
+    prisma.club.findUnique({ where: { id: toClubId }, select: { id: true } }),
+  ]);
+  if (!player) {
+    throw fieldError("uniqueIdNumber", "No player found with this ID");
+  }
+  if (!toClub) {
+    throw fieldError("toClubId", "Club not found");
+  }
+  if (player.clubId === toClubId) {
+    throw fieldError("uniqueIdNumber", "The player is already registered with this club");
+  }
+
+  const openTransfer = await prisma.playerTransfer.findFirst({
+    where: { playerId: player.id, status: { in: OPEN_TRANSFER_STATUSES } },
+  });
+  if (openTransfer) {
+    throw fieldError("uniqueIdNumber", "The player already has a transfer in progress");
+  }
+
+  // Players without a club need no objection certificate
+  const transfer = await prisma.playerTransfer.create({
+    data: {
+      playerId: player.id,
+      fromClubId: player.clubId,
+      toClubId,
+      status: player.clubId ? TRANSFER_STATUS.REQUESTED : TRANSFER_STATUS.NOC_ISSUED,
+      reason: validatedData.reason || null,
+      requestedById: req.user.id,
+    },
+    include: transferInclude,
+  });
+
+  res.status(201).json(transfer);
+});
+
+const decideNoc = asyncHandler(async (req, res) => {
+  const transfer = await findTransfer(req);
+
+  const schema = z
+    .object({
+      decision: z.enum(["issued", "denied"], {
+        errorMap: () => ({ message: "Decision must be issued or denied" }),
+      }),
+      remarks: z.string().max(500).optional().nullable(),
+    })
+    .refine((data) => data.decision !== "denied" || !!data.remarks?.trim(), {
+      message: "A reason is required when denying a NOC",
+      path: ["remarks"],
+    });
+  const validatedData = await schema.parseAsync(req.body);
+
+  // Only the releasing club (or the association) decides on the NOC
+  const clubScope = await getClubScope(req.user);
+  if (clubScope !== undefined && transfer.fromClubId !== clubScope) {
+    throw createError(404, "Transfer not found");
+  }
+  if (transfer.status !== TRANSFER_STATUS.REQUESTED) {
+    throw createError(400, "A NOC has already been decided for this transfer.");
+  }
+
+  const updated = await prisma.playerTransfer.update({
+    where: { id: transfer.id },
+    data: {
+      status:
+        validatedData.decision === "issued"
+          ? TRANSFER_STATUS.NOC_ISSUED
+          : TRANSFER_STATUS.NOC_DENIED,
+      nocRemarks: validatedData.remarks?.trim() || null,
+      nocDecidedAt: new Date(),
+      nocDecidedById: req.user.id,
+    },
+    include: transferInclude,
+  });
+
+  res.json(updated);
+});
+
+const decideTransfer = asyncHandler(async (req, res) => {
+  const transfer = await findTransfer(req);
+
+  const schema = z
+    .object({
+      status: z.enum([TRANSFER_STATUS.APPROVED, TRANSFER_STATUS.REJECTED], {
+        errorMap: () => ({ message: "Status must be approved or rejected" }),
+      }),
+      remarks: z.string().max(500).optional().nullable(),
+    })
+    .refine((data) => data.status !== TRANSFER_STATUS.REJECTED || !!data.remarks?.trim(), {
+      message: "A reason is required when rejecting a transfer",
+      path: ["remarks"],
+    });
+  const validatedData = await schema.parseAsync(req.body);
+
+  if (transfer.status !== TRANSFER_STATUS.NOC_ISSUED) {
+    throw createError(
+      400,
+      transfer.status === TRANSFER_STATUS.REQUESTED
+        ? "The releasing club has not issued a NOC yet."
+        : "This transfer has already been decided."
+    );
+  }
+
+  if (validatedData.status === TRANSFER_STATUS.REJECTED) {
+    const updated = await prisma.playerTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: TRANSFER_STATUS.REJECTED,
+        remarks: validatedData.remarks.trim(),
+        decidedAt: new Date(),
+        decidedById: req.user.id,
+      },
+      include: transferInclude,
+    });
+    return res.json(updated);
+  }
+
+  if (!transfer.toClubId) {
+    throw createError(400, "The destination club no longer exists.");
+  }
+
+  // A player cannot leave mid-competition while named in the releasing club's team
+  if (transfer.fromClubId) {
+    const activeEntries = await prisma.competitionEntry.findMany({
+      where: {
+        clubId: transfer.fromClubId,
+        status: { not: ENTRY_STATUS.REJECTED },
+        players: { some: { id: transfer.playerId } },
+        competition: {
+          status: { notIn: [COMPETITION_STATUS.COMPLETED, COMPETITION_STATUS.CANCELLED] },
+        },
+      },
+      select: { competition: { select: { competitionName: true } } },
+    });
+    if (activeEntries.length > 0) {
+      throw createError(
+        400,
+        `The player is named in the releasing club's team for: ${activeEntries
+          .map((entry) => entry.competition.competitionName)
+          .join(", ")}`
+      );
+    }
+  }
+
+  const approved = await completeTransfer(transfer, {
+    decidedById: req.user.id,
+    remarks: validatedData.remarks?.trim(),
+  });
+  const updated = await prisma.playerTransfer.findUnique({
+    where: { id: approved.id },
+    include: transferInclude,
+  });
+
+  res.json(updated);
+});
+
+const cancelTransfer = asyncHandler(async (req, res) => {
+  const transfer = await findTransfer(req);
+
+  // Only the requesting club (or the association) can withdraw a request
+  const clubScope = await getClubScope(req.user);
+  if (clubScope !== undefined && transfer.toClubId !== clubScope) {
+    throw createError(404, "Transfer not found");
+  }
+  if (!OPEN_TRANSFER_STATUSES.includes(transfer.status)) {
+    throw createError(400, "Only transfers in progress can be cancelled.");
+  }
+
+  const updated = await prisma.playerTransfer.update({
+    where: { id: transfer.id },
+    data: { status: TRANSFER_STATUS.CANCELLED },
+    include: transferInclude,
+  });
+
+  res.json(updated);
+});
+
+module.exports = {
+  getTransfers,
+  requestTransfer,
+  decideNoc,
+  decideTransfer,
+  cancelTransfer,
+};
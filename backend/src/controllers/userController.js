@@ -24,7 +24,7 @@ const getUsers = async (req, res, next) => {
   const exportToExcel = req.query.export === "true"; // Check if export is requested
 
   // Check if the user has the 'users.export' permission using ACL service
-  if (exportToExcel && !aclService.hasPermission(req.user, "users.export")) {
+  if (exportToExcel && !(await aclService.hasPermission(req.user, "users.export"))) {
     return res.status(403).json({
       errors: { message: "You do not have permission to export users" },
     });
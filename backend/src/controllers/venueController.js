@@ -0,0 +1,250 @@
+const { Prisma } = require("@prisma/client");
+const { z } = require("zod");
+const createError = require("http-errors");
+const prisma = require("../config/db");
+const { MATCH_STATUS } = require("../services/matchService");
+
+/**
+ * Wrap async route handlers and funnel errors through Express error middleware.
+ * Converts Zod errors, HTTP errors and known Prisma errors into structured responses.
+ */
+const asyncHandler = (fn) => (req, res, next) => {
+  Promise.resolve(fn(req, res, next)).catch((err) => {
+    // Zod validation errors
+    if (err instanceof z.ZodError) {
+      const errors = {};
+      err.errors.forEach((e) => {
+        const name = e.path.length ? e.path.join(".") : "message";
+        if (!errors[name]) {
+          errors[name] = { type: "validation", message: e.message };
+        }
+      });
+      return res.status(400).json({ errors });
+    }
+    // Errors raised with http-errors (400, 403, 404, ...)
+    if (err.status && err.expose) {
+      return res
+        .status(err.status)
+        .json({ errors: err.errors || { message: err.message } });
+    }
+    // Prisma validation errors
+    if (err.name === "PrismaClientValidationError") {
+      return res.status(400).json({ errors: { message: err.message } });
+    }
+    // Prisma known request errors (e.g., unique constraint)
+    if (err instanceof Prisma.PrismaClientKnownRequestError) {
+      if (err.code === "P2002") {
+        return res.status(400).json({
+          errors: { message: "Each court at a venue needs a different name." },
+        });
+      }
+    }
+    // Fallback for unexpected errors
+    console.error(err);
+    return res
+      .status(500)
+      .json({ errors: { message: "Internal Server Error" } });
+  });
+};
+
+const venueInclude = {
+  courts: { select: { id: true, courtName: true }, orderBy: { courtName: "asc" } },
+  availability: {
+    select: { id: true, startTime: true, endTime: true },
+    orderBy: { startTime: "asc" },
+  },
+};
+
+// Matches that still need their court, as opposed to ones already played
+const upcomingMatchWhere = {
+  status: { in: [MATCH_STATUS.SCHEDULED, MATCH_STATUS.LIVE] },
+};
+
+const dateSchema = (label) =>
+  z
+    .string()
+    .min(1, `${label} is required`)
+    .refine((value) => !isNaN(new Date(value).getTime()), `${label} must be a valid date`);
+
+const venueSchema = z.object({
+  venueName: z.string().min(1, "Venue name is required").max(255),
+  address: z.string().min(1, "Address is required").max(500),
+  city: z.string().min(1, "City is required").max(255),
+  capacity: z.coerce
+    .number({ invalid_type_error: "Capacity must be a number" })
+    .int("Capacity must be a whole number")
+    .min(0, "Capacity cannot be negative")
+    .optional()
+    .nullable(),
+  courts: z
+    .array(
+      z.object({
+        id: z.coerce.number().int().positive().optional(),
+        courtName: z.string().trim().min(1, "Court name is required").max(255),
+      })
+    )
+    .min(1, "Add at least one court")
+    .superRefine((courts, ctx) => {
+      const names = courts.map((court) => court.courtName.toLowerCase());
+      if (new Set(names).size !== names.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Court names must be different" });
+      }
+    }),
+  availability: z
+    .array(
+      z
+        .object({ startTime: dateSchema("Start time"), endTime: dateSchema("End time") })
+        .refine((window) => new Date(window.endTime) > new Date(window.startTime), {
+          message: "End time must be after the start time",
+          path: ["endTime"],
+        })
+    )
+    .default([]),
+});
+
+const findVenue = async (req) => {
+  const id = parseInt(req.params.id);
+  if (!id) throw createError(400, "Invalid venue ID");
+
+  const venue = await prisma.venue.findUnique({ where: { id }, include: venueInclude });
+  if (!venue) throw createError(404, "Venue not found");
+
+  return venue;
+};
+
+const getVenues = asyncHandler(async (req, res) => {
+  const page = Math.max(1, parseInt(req.query.page) || 1);
+  const limit = Math.max(1, parseInt(req.query.limit) || 10);
+  const skip = (page - 1) * limit;
+
+  const { search = "", sortBy = "venueName", sortOrder = "asc" } = req.query;
+
+  const where = search
+    ? {
+        OR: [
+          { venueName: { contains: search } },
+          { city: { contains: search } },
+          { address: { contains: search } },
+        ],
+      }
+    : {};
+
+  const [venues, total] = await Promise.all([
+    prisma.venue.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { [sortBy]: sortOrder },
+      include: venueInclude,
+    }),
+    prisma.venue.count({ where }),
+  ]);
+
+  res.json({
+    venues,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totalVenues: total,
+  });
+});
+
+const getVenue = asyncHandler(async (req, res) => {
+  const venue = await findVenue(req);
+  res.json(venue);
+});
+
+const createVenue = asyncHandler(async (req, res) => {
+  const { courts, availability, ...venueData } = await venueSchema.parseAsync(req.body);
+
+  const venue = await prisma.venue.create({
+    data: {
+      venueName: venueData.venueName,
+      address: venueData.address,
+      city: venueData.city,
+      capacity: venueData.capacity,
+      courts: { create: courts.map((court) => ({ courtName: court.courtName })) },
+      availability: {
+        create: availability.map((window) => ({
+          startTime: new Date(window.startTime),
+          endTime: new Date(window.endTime),
+        })),
+      },
+    },
+    include: venueInclude,
+  });
+
+  res.status(201).json(venue);
+});
+
+const updateVenue = asyncHandler(async (req, res) => {
+  const venue = await findVenue(req);
+  const { courts, availability, ...venueData } = await venueSchema.parseAsync(req.body);
+
+  const keptIds = courts.filter((court) => court.id).map((court) => court.id);
+  const unknown = keptIds.filter((id) => !venue.courts.some((court) => court.id === id));
+  if (unknown.length > 0) {
+    throw createError(400, "Only courts at this venue can be renamed");
+  }
+
+  // A court with matches still to play cannot be removed
+  const removedIds = venue.courts
+    .filter((court) => !keptIds.includes(court.id))
+    .map((court) => court.id);
+  if (removedIds.length > 0) {
+    const booked = await prisma.match.count({
+      where: { ...upcomingMatchWhere, courtId: { in: removedIds } },
+    });
+    if (booked > 0) {
+      throw createError(400, "A court with upcoming matches cannot be removed. Move the matches first.");
+    }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.court.deleteMany({ where: { id: { in: removedIds } } });
+    for (const court of courts.filter((court) => court.id)) {
+      await tx.court.update({ where: { id: court.id }, data: { courtName: court.courtName } });
+    }
+    await tx.venueAvailability.deleteMany({ where: { venueId: venue.id } });
+
+    return tx.venue.update({
+      where: { id: venue.id },
+      data: {
+        ...venueData,
+        courts: {
+          create: courts
+            .filter((court) => !court.id)
+            .map((court) => ({ courtName: court.courtName })),
+        },
+        availability: {
+          create: availability.map((window) => ({
+            startTime: new Date(window.startTime),
+            endTime: new Date(window.endTime),
+          })),
+        },
+      },
+      include: venueInclude,
+    });
+  });
+
+  res.json(updated);
+});
+
+const deleteVenue = asyncHandler(async (req, res) => {
+  const venue = await findVenue(req);
+
+  const booked = await prisma.match.count({ where: { ...upcomingMatchWhere, venueId: venue.id } });
+  if (booked > 0) {
+    throw createError(400, "This venue has upcoming matches. Move them before deleting the venue.");
+  }
+
+  await prisma.venue.delete({ where: { id: venue.id } });
+  res.json({ message: "Venue deleted successfully" });
+});
+
+module.exports = {
+  getVenues,
+  getVenue,
+  createVenue,
+  updateVenue,
+  deleteVenue,
+};
@@ -0,0 +1,72 @@
+const prisma = require("../config/db");
+const { getCurrentSeason } = require("../services/seasonService");
+const { hasLegacySuspension } = require("../services/suspensionService");
+const {
+  getPlayerStatusProblems,
+  playerStatusInclude,
+} = require("../services/competitionEntryService");
+
+// Public status card for a scanned ID card. Only what a match official needs
+// to let a player on court is returned; contact and Aadhar details stay private.
+const verifyPlayer = async (req, res, next) => {
+  try {
+    // Eligibility is judged as for a competition entry in the current season
+    const season = await getCurrentSeason();
+    const player = await prisma.player.findUnique({
+      where: { uniqueIdNumber: req.params.uniqueIdNumber },
+      select: {
+        uniqueIdNumber: true,
+        firstName: true,
+        middleName: true,
+        lastName: true,
+        profileImage: true,
+        aadharVerified: true,
+        isSuspended: true,
+        clubId: true,
+        club: { select: { clubName: true } },
+        ...playerStatusInclude(season?.id),
+      },
+    });
+
+    if (!player) {
+      return res.status(404).json({
+        errors: { message: "No player is registered with this ID" },
+      });
+    }
+
+    // Read the suspension record itself; the isSuspended flag is only refreshed
+    // hourly and only stands alone for players suspended before records existed
+    const suspension = player.suspensions[0];
+    const reasons = [];
+    if (!player.aadharVerified) {
+      reasons.push("Aadhar not verified");
+    }
+    reasons.push(
+      ...getPlayerStatusProblems(player, { clubId: player.clubId, seasonId: season?.id })
+    );
+
+    res.json({
+      uniqueIdNumber: player.uniqueIdNumber,
+      name: [player.firstName, player.middleName, player.lastName].filter(Boolean).join(" "),
+      profileImage: player.profileImage,
+      club: player.club ? player.club.clubName : null,
+      eligibility: {
+        eligible: reasons.length === 0,
+        aadharVerified: player.aadharVerified,
+        reasons,
+      },
+      suspension: {
+        isSuspended: !!suspension || hasLegacySuspension(player),
+        startDate: suspension ? suspension.startDate : null,
+        endDate: suspension ? suspension.endDate : null,
+      },
+      checkedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+module.exports = {
+  verifyPlayer,
+};
@@ -0,0 +1,17 @@
+const { expireAffiliations, sendExpiryReminders } = require("../services/affiliationService");
+const { scheduleHourly } = require("./scheduler");
+
+const runAffiliationJob = async () => {
+  const expired = await expireAffiliations();
+  const reminded = await sendExpiryReminders();
+  if (expired > 0 || reminded > 0) {
+    console.log(
+      `[Affiliation Job] Expired ${expired} affiliation(s), sent ${reminded} renewal reminder(s).`
+    );
+  }
+};
+
+// Expire affiliations and send renewal reminders; override the interval with AFFILIATION_JOB_INTERVAL_MINUTES
+const startAffiliationJob = () => scheduleHourly("Affiliation", runAffiliationJob);
+
+module.exports = { runAffiliationJob, startAffiliationJob };
@@ -0,0 +1,14 @@
+const { lapseEndedRegistrations } = require("../services/registrationService");
+const { scheduleHourly } = require("./scheduler");
+
+const runRegistrationJob = async () => {
+  const lapsed = await lapseEndedRegistrations();
+  if (lapsed > 0) {
+    console.log(`[Registration Job] Lapsed ${lapsed} registration(s) of ended seasons.`);
+  }
+};
+
+// Lapse registrations of ended seasons; override the interval with REGISTRATION_JOB_INTERVAL_MINUTES
+const startRegistrationJob = () => scheduleHourly("Registration", runRegistrationJob);
+
+module.exports = { runRegistrationJob, startRegistrationJob };
@@ -0,0 +1,30 @@
+// How often a job runs unless <NAME>_JOB_INTERVAL_MINUTES overrides it
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Run a background job once on start-up and then hourly. Failures are logged
+ * so one bad run does not stop later ones.
+ * @param {string} name - Job name used in log lines, e.g. "Suspension"; the
+ *   interval can be overridden with SUSPENSION_JOB_INTERVAL_MINUTES
+ * @param {() => Promise<void>} fn - The job's work
+ * @returns {NodeJS.Timeout} Interval handle
+ */
+const scheduleHourly = (name, fn) => {
+  const minutes =
+    parseInt(process.env[`${name.toUpperCase()}_JOB_INTERVAL_MINUTES`]) || DEFAULT_INTERVAL_MINUTES;
+
+  const run = async () => {
+    try {
+      await fn();
+    } catch (error) {
+      console.error(`[${name} Job] Failed:`, error);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, minutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
+
+module.exports = { scheduleHourly };
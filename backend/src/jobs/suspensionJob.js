@@ -0,0 +1,16 @@
+const { liftExpiredSuspensions } = require("../services/suspensionService");
+const { scheduleHourly } = require("./scheduler");
+
+const runSuspensionJob = async () => {
+  const { lifted, updatedPlayers } = await liftExpiredSuspensions();
+  if (lifted > 0 || updatedPlayers > 0) {
+    console.log(
+      `[Suspension Job] Lifted ${lifted} expired suspension(s), updated ${updatedPlayers} player(s).`
+    );
+  }
+};
+
+// Lift expired suspensions; override the interval with SUSPENSION_JOB_INTERVAL_MINUTES
+const startSuspensionJob = () => scheduleHourly("Suspension", runSuspensionJob);
+
+module.exports = { runSuspensionJob, startSuspensionJob };
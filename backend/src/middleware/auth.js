@@ -3,6 +3,7 @@ const createError = require("http-errors");
 const { secret } = require("../config/jwt");
 const prisma = require("../config/db");
 const { checkMembershipExpiry } = require("../services/membershipService");
+const { buildClubPrincipal } = require("../services/clubScopeService");
 
 module.exports = async (req, res, next) => {
   const token = req.headers.authorization?.split(" ")[1];
@@ -11,6 +12,20 @@ module.exports = async (req, res, next) => {
   }
   try {
     const decoded = jwt.verify(token, secret);
+
+    // Clubs sign in with their own credentials and are never looked up as users
+    if (decoded.isClub) {
+      const club = await prisma.club.findUnique({
+        where: { id: decoded.clubId || decoded.userId },
+      });
+      if (!club) {
+        return next(createError(401, "Unauthorized"));
+      }
+
+      req.user = buildClubPrincipal(club);
+      return next();
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
     });
@@ -29,8 +29,8 @@ const createUploadMiddleware = (moduleName, fields, uploadDir = "uploads") => {
     destination: (req, file, cb) => {
       // Get the field name (e.g., profilePicture1)
       const fieldName = file.fieldname;
-      // Generate a UUID for this upload
-      const uuid = uuidv4();
+      // Use the request's UUID so cleanupRequestUploads finds the same directory
+      const uuid = req.uploadUUID || uuidv4();
       // Store the UUID on the request for later use
       req.fileUUID = req.fileUUID || {};
       req.fileUUID[fieldName] = uuid;
@@ -42,8 +42,8 @@ const createUploadMiddleware = (moduleName, fields, uploadDir = "uploads") => {
       cb(null, fullPath);
     },
     filename: (req, file, cb) => {
-      // Use the original filename
-      const filename = file.originalname;
+      // Use the original filename, stripped of any directory components
+      const filename = path.basename(file.originalname);
       cb(null, filename);
     },
   });
@@ -46,7 +46,8 @@ router.post("/register", authController.register);
  * @swagger
  * /auth/login:
  *   post:
- *     summary: Login a user
+ *     summary: Login a user or a club account
+ *     description: Clubs without a user account sign in with the club's own email and password and receive the clubadmin role.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -87,6 +88,12 @@ router.post("/register", authController.register);
  *                       type: boolean
  *                     lastLogin:
  *                       type: string
+ *                     clubId:
+ *                       type: integer
+ *                       description: Club the account is tied to (club admins and clubs)
+ *                     isClub:
+ *                       type: boolean
+ *                       description: True when signed in with club credentials
  *       400:
  *         description: Bad request
  *       401:
@@ -101,6 +108,7 @@ router.post("/login", authController.login);
  * /auth/forgot-password:
  *   post:
  *     summary: Request a password reset link
+ *     description: Works for user accounts and for club accounts.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -1,6 +1,19 @@
 const express = require("express");
 const clubController = require("../controllers/clubController");
+const affiliationController = require("../controllers/affiliationController");
+const clubOfficialController = require("../controllers/clubOfficialController");
 const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+const createUploadMiddleware = require("../middleware/uploadMiddleware");
+
+// Club official photos, stored under uploads/clubOfficials/photo/<uuid>/
+const clubOfficialUploads = createUploadMiddleware("clubOfficials", [
+  {
+    name: "photo",
+    allowedTypes: ["image/jpeg", "image/png", "image/webp"],
+    maxSize: 2 * 1024 * 1024,
+  },
+]);
 
 const router = express.Router();
 
@@ -19,11 +32,70 @@ const router = express.Router();
  *     tags: [Clubs]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: affiliation
+ *         schema:
+ *           type: string
+ *           enum: [active, expiring, expired]
+ *         description: >
+ *           Filter by affiliation state. Expiring clubs are affiliated but have not
+ *           renewed beyond the reminder window; expired clubs have no affiliation in force.
  *     responses:
  *       200:
  *         description: List of all clubs
  */
-router.get("/", auth, clubController.getClubs);
+router.get("/", auth, acl("clubs.read"), clubController.getClubs);
+
+/**
+ * @swagger
+ * /clubs/me:
+ *   get:
+ *     summary: Get the signed-in club's profile with roster and entry counts
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Club profile and stats
+ *       403:
+ *         description: Caller is not a club account
+ */
+router.get("/me", auth, acl("clubs.profile"), clubController.getMyClub);
+
+/**
+ * @swagger
+ * /clubs/me:
+ *   put:
+ *     summary: Update the signed-in club's contact details or password
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               city:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               mobile:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 description: New password (leave empty to keep the current one)
+ *     responses:
+ *       200:
+ *         description: Club profile updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Caller is not a club account
+ */
+router.put("/me", auth, acl("clubs.profile"), clubController.updateMyClub);
 
 /**
  * @swagger
@@ -46,7 +118,7 @@ router.get("/", auth, clubController.getClubs);
  *       404:
  *         description: Club not found
  */
-router.get("/:id", auth, clubController.getClub);
+router.get("/:id", auth, acl("clubs.read"), clubController.getClub);
 
 /**
  * @swagger
@@ -66,7 +138,7 @@ router.get("/:id", auth, clubController.getClub);
  *       201:
  *         description: Club created
  */
-router.post("/", auth, clubController.createClub);
+router.post("/", auth, acl("clubs.write"), clubController.createClub);
 
 /**
  * @swagger
@@ -95,7 +167,7 @@ router.post("/", auth, clubController.createClub);
  *       404:
  *         description: Club not found
  */
-router.put("/:id", auth, clubController.updateClub);
+router.put("/:id", auth, acl("clubs.update"), clubController.updateClub);
 
 /**
  * @swagger
@@ -118,6 +190,348 @@ router.put("/:id", auth, clubController.updateClub);
  *       404:
  *         description: Club not found
  */
-router.delete("/:id", auth, clubController.deleteClub);
+router.delete("/:id", auth, acl("clubs.delete"), clubController.deleteClub);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ClubAffiliation:
+ *       type: object
+ *       required:
+ *         - startDate
+ *         - expiryDate
+ *         - fee
+ *       properties:
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         expiryDate:
+ *           type: string
+ *           format: date-time
+ *         fee:
+ *           type: number
+ *           example: 2500
+ *         receiptNumber:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /clubs/{id}/affiliations:
+ *   get:
+ *     summary: Get a club's affiliation history
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *     responses:
+ *       200:
+ *         description: Affiliations, newest first, with whether the club is affiliated today
+ *       404:
+ *         description: Club not found
+ */
+router.get("/:id/affiliations", auth, acl("affiliations.read"), affiliationController.getAffiliations);
+
+/**
+ * @swagger
+ * /clubs/{id}/affiliations:
+ *   post:
+ *     summary: Record an affiliation period for a club
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClubAffiliation'
+ *     responses:
+ *       201:
+ *         description: Affiliation recorded
+ *       400:
+ *         description: Validation error or the period overlaps another affiliation
+ *       404:
+ *         description: Club not found
+ */
+router.post("/:id/affiliations", auth, acl("affiliations.write"), affiliationController.createAffiliation);
+
+/**
+ * @swagger
+ * /clubs/{id}/affiliations/{affiliationId}:
+ *   put:
+ *     summary: Update or revoke a club affiliation
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *       - in: path
+ *         name: affiliationId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Affiliation ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ClubAffiliation'
+ *               - type: object
+ *                 properties:
+ *                   revoked:
+ *                     type: boolean
+ *     responses:
+ *       200:
+ *         description: Affiliation updated
+ *       400:
+ *         description: Validation error or the period overlaps another affiliation
+ *       404:
+ *         description: Club or affiliation not found
+ */
+router.put(
+  "/:id/affiliations/:affiliationId",
+  auth,
+  acl("affiliations.update"),
+  affiliationController.updateAffiliation
+);
+
+/**
+ * @swagger
+ * /clubs/{id}/affiliations/{affiliationId}:
+ *   delete:
+ *     summary: Delete a club affiliation recorded in error
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *       - in: path
+ *         name: affiliationId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Affiliation ID
+ *     responses:
+ *       200:
+ *         description: Affiliation deleted
+ *       404:
+ *         description: Club or affiliation not found
+ */
+router.delete(
+  "/:id/affiliations/:affiliationId",
+  auth,
+  acl("affiliations.delete"),
+  affiliationController.deleteAffiliation
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ClubOfficial:
+ *       type: object
+ *       required:
+ *         - firstName
+ *         - lastName
+ *         - role
+ *         - mobile
+ *       properties:
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [coach, assistant_coach, manager, physio]
+ *         mobile:
+ *           type: string
+ *         email:
+ *           type: string
+ *           nullable: true
+ *         certification:
+ *           type: string
+ *           nullable: true
+ *           description: Coaching or medical certification held
+ *         active:
+ *           type: boolean
+ *           description: Inactive officials stay on past team sheets but cannot be named on new entries
+ *         photo:
+ *           type: string
+ *           format: binary
+ *           description: JPEG, PNG or WebP image up to 2 MB; stored path is returned relative to /uploads
+ */
+
+/**
+ * @swagger
+ * /clubs/{id}/officials:
+ *   get:
+ *     summary: Get a club's roster of officials
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *         description: Only return active officials
+ *     responses:
+ *       200:
+ *         description: Club officials with the number of entries naming them
+ *       404:
+ *         description: Club not found
+ */
+router.get("/:id/officials", auth, acl("clubOfficials.read"), clubOfficialController.getClubOfficials);
+
+/**
+ * @swagger
+ * /clubs/{id}/officials:
+ *   post:
+ *     summary: Add an official to a club's roster
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             $ref: '#/components/schemas/ClubOfficial'
+ *     responses:
+ *       201:
+ *         description: Club official added
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Club not found
+ */
+router.post(
+  "/:id/officials",
+  auth,
+  acl("clubOfficials.write"),
+  ...clubOfficialUploads,
+  clubOfficialController.createClubOfficial
+);
+
+/**
+ * @swagger
+ * /clubs/{id}/officials/{officialId}:
+ *   put:
+ *     summary: Update a club official
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *       - in: path
+ *         name: officialId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club official ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             $ref: '#/components/schemas/ClubOfficial'
+ *     responses:
+ *       200:
+ *         description: Club official updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Club or official not found
+ */
+router.put(
+  "/:id/officials/:officialId",
+  auth,
+  acl("clubOfficials.update"),
+  ...clubOfficialUploads,
+  clubOfficialController.updateClubOfficial
+);
+
+/**
+ * @swagger
+ * /clubs/{id}/officials/{officialId}:
+ *   delete:
+ *     summary: Remove an official from a club's roster
+ *     description: Officials named on team entries cannot be removed; mark them inactive instead.
+ *     tags: [Clubs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club ID
+ *       - in: path
+ *         name: officialId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Club official ID
+ *     responses:
+ *       200:
+ *         description: Club official removed
+ *       400:
+ *         description: Official is named on team entries
+ *       404:
+ *         description: Club or official not found
+ */
+router.delete(
+  "/:id/officials/:officialId",
+  auth,
+  acl("clubOfficials.delete"),
+  clubOfficialController.deleteClubOfficial
+);
 
 module.exports = router;
@@ -1,6 +1,10 @@
 const express = require("express");
 const competitionController = require("../controllers/competitionController");
+const competitionEntryController = require("../controllers/competitionEntryController");
+const fixtureController = require("../controllers/fixtureController");
+const standingsController = require("../controllers/standingsController");
 const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
 
 const router = express.Router();
 
@@ -36,6 +40,29 @@ const router = express.Router();
  *           type: string
  *         description: Search term for competition name or age
  *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, open_for_entries, entries_closed, in_progress, completed, cancelled]
+ *         description: Only competitions in this lifecycle status
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only competitions still running at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only competitions starting at or before this time
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Only competitions of this season (also read from the X-Season-Id header)
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -65,7 +92,7 @@ const router = express.Router();
  *                 totalCompetitions:
  *                   type: integer
  */
-router.get("/", auth, competitionController.getCompetitions);
+router.get("/", auth, acl("competitions.read"), competitionController.getCompetitions);
 
 /**
  * @swagger
@@ -92,7 +119,7 @@ router.get("/", auth, competitionController.getCompetitions);
  *       404:
  *         description: Competition not found
  */
-router.get("/:id", auth, competitionController.getCompetition);
+router.get("/:id", auth, acl("competitions.read"), competitionController.getCompetition);
 
 /**
  * @swagger
@@ -110,7 +137,8 @@ router.get("/:id", auth, competitionController.getCompetition);
  *             type: object
  *             required:
  *               - competitionName
- *               - date
+ *               - startDate
+ *               - endDate
  *               - age
  *               - lastEntryDate
  *             properties:
@@ -118,18 +146,31 @@ router.get("/:id", auth, competitionController.getCompetition);
  *                 type: string
  *                 description: Name of the competition
  *                 example: "Summer Championship"
- *               date:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the competition starts
+ *                 example: "2025-08-15T09:00:00.000Z"
+ *               endDate:
  *                 type: string
- *                 description: Date of the competition
- *                 example: "2025-08-15"
+ *                 format: date-time
+ *                 description: When the competition ends
+ *                 example: "2025-08-17T18:00:00.000Z"
  *               age:
  *                 type: string
  *                 description: Age category for the competition
  *                 example: "16-18"
  *               lastEntryDate:
  *                 type: string
- *                 description: Last date for entries
- *                 example: "2025-07-31"
+ *                 format: date-time
+ *                 description: Entries close at this moment; on or before the start date
+ *                 example: "2025-07-31T23:59:59.999Z"
+ *               venueId:
+ *                 type: integer
+ *                 description: Venue the competition is played at
+ *               seasonId:
+ *                 type: integer
+ *                 description: Season the competition belongs to (defaults to the season being viewed, then the current season); every group must belong to it
  *     responses:
  *       201:
  *         description: Competition created successfully
@@ -140,7 +181,7 @@ router.get("/:id", auth, competitionController.getCompetition);
  *       400:
  *         description: Validation error
  */
-router.post("/", auth, competitionController.createCompetition);
+router.post("/", auth, acl("competitions.write"), competitionController.createCompetition);
 
 /**
  * @swagger
@@ -167,15 +208,28 @@ router.post("/", auth, competitionController.createCompetition);
  *               competitionName:
  *                 type: string
  *                 description: Name of the competition
- *               date:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the competition starts
+ *               endDate:
  *                 type: string
- *                 description: Date of the competition
+ *                 format: date-time
+ *                 description: When the competition ends
  *               age:
  *                 type: string
  *                 description: Age category for the competition
  *               lastEntryDate:
  *                 type: string
- *                 description: Last date for entries
+ *                 format: date-time
+ *                 description: Entries close at this moment
+ *               venueId:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Venue the competition is played at
+ *               seasonId:
+ *                 type: integer
+ *                 description: Season the competition belongs to; locked once the competition has started
  *     responses:
  *       200:
  *         description: Competition updated successfully
@@ -186,9 +240,54 @@ router.post("/", auth, competitionController.createCompetition);
  *       404:
  *         description: Competition not found
  *       400:
- *         description: Validation error
+ *         description: Validation error, or a locked field changed after the competition started
  */
-router.put("/:id", auth, competitionController.updateCompetition);
+router.put("/:id", auth, acl("competitions.update"), competitionController.updateCompetition);
+
+/**
+ * @swagger
+ * /competitions/{id}/status:
+ *   patch:
+ *     summary: Move a competition to another lifecycle status
+ *     description: |
+ *       Allowed transitions: draft → open_for_entries; open_for_entries → draft or entries_closed;
+ *       entries_closed → open_for_entries or in_progress; in_progress → completed. Any competition
+ *       that is not completed can be cancelled. Entries close early only when forced, a competition
+ *       starts once every entry is reviewed, and it completes once every match has been played.
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [draft, open_for_entries, entries_closed, in_progress, completed, cancelled]
+ *               force:
+ *                 type: boolean
+ *                 description: Close entries before the last entry date
+ *     responses:
+ *       200:
+ *         description: Status changed
+ *       400:
+ *         description: Transition not allowed or a guard failed
+ *       404:
+ *         description: Competition not found
+ */
+router.patch("/:id/status", auth, acl("competitions.status"), competitionController.updateCompetitionStatus);
 
 /**
  * @swagger
@@ -219,6 +318,617 @@ router.put("/:id", auth, competitionController.updateCompetition);
  *       404:
  *         description: Competition not found
  */
-router.delete("/:id", auth, competitionController.deleteCompetition);
+router.delete("/:id", auth, acl("competitions.delete"), competitionController.deleteCompetition);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries:
+ *   get:
+ *     summary: Get team entries for a competition
+ *     description: Club admins only see their own club's entries.
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         description: Filter by entry status
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Filter by competition group
+ *       - in: query
+ *         name: clubId
+ *         schema:
+ *           type: integer
+ *         description: Filter by club (admins only)
+ *     responses:
+ *       200:
+ *         description: Competition summary with its entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 competition:
+ *                   type: object
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 page:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *                 totalEntries:
+ *                   type: integer
+ *       404:
+ *         description: Competition not found
+ */
+router.get("/:id/entries", auth, acl("entries.read"), competitionEntryController.getEntries);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries/eligible-players:
+ *   get:
+ *     summary: Get a club's players with their eligibility for a competition group
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition group
+ *       - in: query
+ *         name: clubId
+ *         schema:
+ *           type: integer
+ *         description: Club (admins only; club admins always get their own club)
+ *     responses:
+ *       200:
+ *         description: Players annotated with `eligible` and `reasons`
+ *       400:
+ *         description: Group is not part of the competition
+ *       404:
+ *         description: Competition not found
+ */
+router.get("/:id/entries/eligible-players", auth, acl("entries.write"), competitionEntryController.getEligiblePlayers);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries/{entryId}:
+ *   get:
+ *     summary: Get a team entry by ID
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: path
+ *         name: entryId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Entry ID
+ *     responses:
+ *       200:
+ *         description: Entry data
+ *       404:
+ *         description: Entry not found
+ */
+router.get("/:id/entries/:entryId", auth, acl("entries.read"), competitionEntryController.getEntry);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries:
+ *   post:
+ *     summary: Submit a team for a competition group
+ *     description: >
+ *       Rejected after the competition's last entry date, when more than maxPlayers are picked,
+ *       when the club has no affiliation in force, or when the coach or manager is not an active
+ *       official of the club in that role.
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groupId
+ *               - playerIds
+ *               - coachId
+ *               - managerId
+ *             properties:
+ *               groupId:
+ *                 type: integer
+ *               clubId:
+ *                 type: integer
+ *                 description: Club submitting the team (admins only)
+ *               playerIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               coachId:
+ *                 type: integer
+ *                 description: Active coach or assistant coach from the club's officials roster
+ *               managerId:
+ *                 type: integer
+ *                 description: Active manager from the club's officials roster
+ *     responses:
+ *       201:
+ *         description: Entry submitted
+ *       400:
+ *         description: Validation error, entries closed, club not affiliated or ineligible players
+ *       404:
+ *         description: Competition not found
+ */
+router.post("/:id/entries", auth, acl("entries.write"), competitionEntryController.createEntry);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries/{entryId}:
+ *   put:
+ *     summary: Change the players and officials of a team entry
+ *     description: Resets the entry to pending. Approved entries cannot be changed.
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: path
+ *         name: entryId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Entry ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - playerIds
+ *               - coachId
+ *               - managerId
+ *             properties:
+ *               playerIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               coachId:
+ *                 type: integer
+ *               managerId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Entry updated
+ *       400:
+ *         description: Validation error or entries closed
+ *       404:
+ *         description: Entry not found
+ */
+router.put("/:id/entries/:entryId", auth, acl("entries.write"), competitionEntryController.updateEntry);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries/{entryId}/status:
+ *   patch:
+ *     summary: Approve or reject a team entry
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: path
+ *         name: entryId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Entry ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [approved, rejected]
+ *               remarks:
+ *                 type: string
+ *                 description: Required when rejecting
+ *     responses:
+ *       200:
+ *         description: Entry reviewed
+ *       403:
+ *         description: Only administrators can review entries
+ *       404:
+ *         description: Entry not found
+ */
+router.patch("/:id/entries/:entryId/status", auth, acl("entries.review"), competitionEntryController.reviewEntry);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries/{entryId}/team-sheet:
+ *   get:
+ *     summary: Download the team sheet of an entry as a PDF
+ *     description: Lists the squad, the named coach and manager and the club's other active officials.
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: path
+ *         name: entryId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Entry ID
+ *     responses:
+ *       200:
+ *         description: PDF team sheet
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Entry not found
+ */
+router.get("/:id/entries/:entryId/team-sheet", auth, acl("entries.read"), competitionEntryController.getTeamSheet);
+
+/**
+ * @swagger
+ * /competitions/{id}/entries/{entryId}:
+ *   delete:
+ *     summary: Withdraw a team entry
+ *     tags: [Competition Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: path
+ *         name: entryId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Entry ID
+ *     responses:
+ *       200:
+ *         description: Entry withdrawn
+ *       404:
+ *         description: Entry not found
+ */
+router.delete("/:id/entries/:entryId", auth, acl("entries.write"), competitionEntryController.deleteEntry);
+
+/**
+ * @swagger
+ * /competitions/{id}/fixtures:
+ *   get:
+ *     summary: Get the fixtures of a competition
+ *     description: Club admins only see published fixtures.
+ *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Filter by group
+ *     responses:
+ *       200:
+ *         description: Fixtures ordered by group, round and match number, with the draw status of each group
+ *       404:
+ *         description: Competition not found
+ */
+router.get("/:id/fixtures", auth, acl("fixtures.read"), fixtureController.getFixtures);
+
+/**
+ * @swagger
+ * /competitions/{id}/fixtures/generate:
+ *   post:
+ *     summary: Draw fixtures for a competition group
+ *     description: Replaces the group's draft fixtures with a seeded knockout bracket or a round-robin league drawn from its approved entries. Unseeded teams are drawn at random.
+ *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groupId
+ *               - format
+ *             properties:
+ *               groupId:
+ *                 type: integer
+ *               format:
+ *                 type: string
+ *                 enum: [knockout, league]
+ *               seedEntryIds:
+ *                 type: array
+ *                 description: Entries to seed, strongest first
+ *                 items:
+ *                   type: integer
+ *               doubleRoundRobin:
+ *                 type: boolean
+ *                 description: League only, play every pairing home and away
+ *     responses:
+ *       201:
+ *         description: Fixtures drawn
+ *       400:
+ *         description: Validation error, too few approved teams or fixtures already published
+ *       404:
+ *         description: Competition not found
+ */
+router.post("/:id/fixtures/generate", auth, acl("fixtures.manage"), fixtureController.generateGroupFixtures);
+
+/**
+ * @swagger
+ * /competitions/{id}/fixtures/swap:
+ *   patch:
+ *     summary: Swap two teams in a draft draw
+ *     description: Knockout swaps are limited to the first round; league swaps to a single round.
+ *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groupId
+ *               - fixtureId
+ *               - slot
+ *               - withFixtureId
+ *               - withSlot
+ *             properties:
+ *               groupId:
+ *                 type: integer
+ *               fixtureId:
+ *                 type: integer
+ *               slot:
+ *                 type: string
+ *                 enum: [home, away]
+ *               withFixtureId:
+ *                 type: integer
+ *               withSlot:
+ *                 type: string
+ *                 enum: [home, away]
+ *     responses:
+ *       200:
+ *         description: Teams swapped
+ *       400:
+ *         description: Swap not allowed or fixtures already published
+ */
+router.patch("/:id/fixtures/swap", auth, acl("fixtures.manage"), fixtureController.swapFixtureTeams);
+
+/**
+ * @swagger
+ * /competitions/{id}/fixtures/publish:
+ *   post:
+ *     summary: Publish the fixtures of a competition group
+ *     description: Published fixtures become visible to clubs and can no longer be redrawn.
+ *     tags: [Fixtures]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groupId
+ *             properties:
+ *               groupId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Fixtures published
+ *       400:
+ *         description: No draft fixtures to publish
+ */
+router.post("/:id/fixtures/publish", auth, acl("fixtures.manage"), fixtureController.publishFixtures);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StandingRules:
+ *       type: object
+ *       properties:
+ *         pointsForWin:
+ *           type: integer
+ *         pointsForTie:
+ *           type: integer
+ *         pointsForLoss:
+ *           type: integer
+ *         pointsForCloseLoss:
+ *           type: integer
+ *           description: Points for losing by no more than closeLossMargin
+ *         closeLossMargin:
+ *           type: integer
+ *         tieBreakers:
+ *           type: array
+ *           description: Applied in order when teams are level on points
+ *           items:
+ *             type: string
+ *             enum: [headToHead, scoreDifference, scoreFor]
+ */
+
+/**
+ * @swagger
+ * /competitions/{id}/standings:
+ *   get:
+ *     summary: Get the league tables of a competition
+ *     description: Tables are kept for groups with published league fixtures and rebuilt whenever a result is saved.
+ *     tags: [Standings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Filter by group
+ *     responses:
+ *       200:
+ *         description: Points rules and a table per league group
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 rules:
+ *                   $ref: '#/components/schemas/StandingRules'
+ *                 groups:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       404:
+ *         description: Competition not found
+ */
+router.get("/:id/standings", auth, acl("standings.read"), standingsController.getStandings);
+
+/**
+ * @swagger
+ * /competitions/{id}/standings/rules:
+ *   put:
+ *     summary: Change the points rules and tie-breakers of a competition
+ *     description: All league tables of the competition are rebuilt with the new rules.
+ *     tags: [Standings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Competition ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/StandingRules'
+ *     responses:
+ *       200:
+ *         description: Rules saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StandingRules'
+ *       400:
+ *         description: Validation error
+ */
+router.put("/:id/standings/rules", auth, acl("standings.manage"), standingsController.updateStandingRules);
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
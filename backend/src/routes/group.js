@@ -1,6 +1,7 @@
 const express = require("express");
 const groupController = require("../controllers/groupController");
 const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
 
 const router = express.Router();
 
@@ -36,6 +37,11 @@ const router = express.Router();
  *           type: string
  *         description: Search term for group name, gender, or age
  *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Only groups of this season (also read from the X-Season-Id header)
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -65,7 +71,7 @@ const router = express.Router();
  *                 totalGroups:
  *                   type: integer
  */
-router.get("/", auth, groupController.getGroups);
+router.get("/", auth, acl("groups.read"), groupController.getGroups);
 
 /**
  * @swagger
@@ -92,7 +98,7 @@ router.get("/", auth, groupController.getGroups);
  *       404:
  *         description: Group not found
  */
-router.get("/:id", auth, groupController.getGroup);
+router.get("/:id", auth, acl("groups.read"), groupController.getGroup);
 
 /**
  * @swagger
@@ -126,6 +132,20 @@ router.get("/:id", auth, groupController.getGroup);
  *                 type: string
  *                 description: Age limit or range for the group
  *                 example: "16-18"
+ *               maxAge:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Maximum age in completed years on the cut-off date
+ *                 example: 13
+ *               ageCutoffDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 description: Date the maximum age is measured on (defaults to today)
+ *                 example: "2025-01-01"
+ *               seasonId:
+ *                 type: integer
+ *                 description: Season the group belongs to (defaults to the season being viewed, then the current season)
  *     responses:
  *       201:
  *         description: Group created successfully
@@ -136,7 +156,7 @@ router.get("/:id", auth, groupController.getGroup);
  *       400:
  *         description: Validation error
  */
-router.post("/", auth, groupController.createGroup);
+router.post("/", auth, acl("groups.write"), groupController.createGroup);
 
 /**
  * @swagger
@@ -170,6 +190,15 @@ router.post("/", auth, groupController.createGroup);
  *               age:
  *                 type: string
  *                 description: Age limit or range for the group
+ *               maxAge:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Maximum age in completed years on the cut-off date
+ *               ageCutoffDate:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 description: Date the maximum age is measured on (defaults to today)
  *     responses:
  *       200:
  *         description: Group updated successfully
@@ -182,7 +211,7 @@ router.post("/", auth, groupController.createGroup);
  *       400:
  *         description: Validation error
  */
-router.put("/:id", auth, groupController.updateGroup);
+router.put("/:id", auth, acl("groups.update"), groupController.updateGroup);
 
 /**
  * @swagger
@@ -213,6 +242,6 @@ router.put("/:id", auth, groupController.updateGroup);
  *       404:
  *         description: Group not found
  */
-router.delete("/:id", auth, groupController.deleteGroup);
+router.delete("/:id", auth, acl("groups.delete"), groupController.deleteGroup);
 
 module.exports = router;
\ No newline at end of file
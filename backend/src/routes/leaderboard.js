@@ -0,0 +1,64 @@
+const express = require("express");
+const leaderboardController = require("../controllers/leaderboardController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Leaderboards
+ *   description: Player rankings from match raid logs
+ */
+
+/**
+ * @swagger
+ * /leaderboards:
+ *   get:
+ *     summary: Get the top raiders and top defenders
+ *     description: Ranked by raid points and tackle points from the raid logs of completed matches.
+ *     tags: [Leaderboards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: competitionId
+ *         schema:
+ *           type: integer
+ *         description: Filter by competition
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Filter by group
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Filter by season (also read from the X-Season-Id header)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Players per leaderboard (default 10)
+ *     responses:
+ *       200:
+ *         description: Leaderboards
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 topRaiders:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PlayerStats'
+ *                 topDefenders:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PlayerStats'
+ */
+router.get("/", auth, acl("leaderboards.read"), leaderboardController.getLeaderboards);
+
+module.exports = router;
@@ -0,0 +1,667 @@
+const express = require("express");
+const matchController = require("../controllers/matchController");
+const matchEventController = require("../controllers/matchEventController");
+const matchOfficialController = require("../controllers/matchOfficialController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Matches
+ *   description: Match scheduling and kabaddi results
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ScoreBreakdown:
+ *       type: object
+ *       properties:
+ *         raidPoints:
+ *           type: integer
+ *         tacklePoints:
+ *           type: integer
+ *         bonusPoints:
+ *           type: integer
+ *         allOutPoints:
+ *           type: integer
+ *         extraPoints:
+ *           type: integer
+ *     Match:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         fixtureId:
+ *           type: integer
+ *         competitionId:
+ *           type: integer
+ *         homeEntryId:
+ *           type: integer
+ *         awayEntryId:
+ *           type: integer
+ *         venueId:
+ *           type: integer
+ *           nullable: true
+ *         courtId:
+ *           type: integer
+ *           nullable: true
+ *         startTime:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endTime:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [scheduled, live, completed, walkover]
+ *         homeRaidPoints:
+ *           type: integer
+ *         homeTacklePoints:
+ *           type: integer
+ *         homeBonusPoints:
+ *           type: integer
+ *         homeAllOutPoints:
+ *           type: integer
+ *         homeExtraPoints:
+ *           type: integer
+ *         homeScore:
+ *           type: integer
+ *         awayRaidPoints:
+ *           type: integer
+ *         awayTacklePoints:
+ *           type: integer
+ *         awayBonusPoints:
+ *           type: integer
+ *         awayAllOutPoints:
+ *           type: integer
+ *         awayExtraPoints:
+ *           type: integer
+ *         awayScore:
+ *           type: integer
+ *         winnerEntryId:
+ *           type: integer
+ *           nullable: true
+ *         resultNote:
+ *           type: string
+ *           nullable: true
+ *         resultRecordedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         correctionReason:
+ *           type: string
+ *           nullable: true
+ *         correctedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /matches:
+ *   get:
+ *     summary: Get matches
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *         description: Page number for pagination
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *         description: Number of items per page
+ *       - in: query
+ *         name: competitionId
+ *         schema:
+ *           type: integer
+ *         description: Filter by competition
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Filter by group
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, live, completed, walkover]
+ *         description: Filter by status
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Only matches of competitions in this season (also read from the X-Season-Id header)
+ *     responses:
+ *       200:
+ *         description: Matches ordered by start time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 matches:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Match'
+ *                 page:
+ *                   type: integer
+ *                 totalPages:
+ *                   type: integer
+ *                 totalMatches:
+ *                   type: integer
+ */
+router.get("/", auth, acl("matches.read"), matchController.getMatches);
+
+/**
+ * @swagger
+ * /matches:
+ *   post:
+ *     summary: Schedule a match for a published fixture
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fixtureId
+ *             properties:
+ *               fixtureId:
+ *                 type: integer
+ *               venueId:
+ *                 type: integer
+ *                 description: Defaults to the competition's venue
+ *               courtId:
+ *                 type: integer
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to one hour after the start
+ *     responses:
+ *       201:
+ *         description: Match scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Fixture not published, teams not known yet, match already scheduled, venue closed, court already booked or a team already playing
+ *       404:
+ *         description: Fixture not found
+ */
+router.post("/", auth, acl("matches.manage"), matchController.createMatch);
+
+/**
+ * @swagger
+ * /matches/{id}:
+ *   get:
+ *     summary: Get a match
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     responses:
+ *       200:
+ *         description: Match with teams, fixture and score breakdown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Match'
+ *       404:
+ *         description: Match not found
+ */
+router.get("/:id", auth, acl("matches.read"), matchController.getMatch);
+
+/**
+ * @swagger
+ * /matches/{id}:
+ *   put:
+ *     summary: Change a match's venue, court or time
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               venueId:
+ *                 type: integer
+ *               courtId:
+ *                 type: integer
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to one hour after the start
+ *     responses:
+ *       200:
+ *         description: Match updated
+ *       400:
+ *         description: Match already finished, venue closed, court already booked or a team already playing
+ *       404:
+ *         description: Match not found
+ */
+router.put("/:id", auth, acl("matches.manage"), matchController.updateMatch);
+
+/**
+ * @swagger
+ * /matches/{id}/start:
+ *   patch:
+ *     summary: Mark a scheduled match as live
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     responses:
+ *       200:
+ *         description: Match is live
+ *       400:
+ *         description: Match is not scheduled
+ */
+router.patch("/:id/start", auth, acl("matches.score"), matchController.startMatch);
+
+/**
+ * @swagger
+ * /matches/{id}/result:
+ *   put:
+ *     summary: Record or correct a match result
+ *     description: >
+ *       Totals are the sum of the breakdown. A walkover, or a level knockout
+ *       match, needs the winner named. Correcting a finished match needs a reason,
+ *       and a knockout winner cannot change once the next-round match has started.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *               - home
+ *               - away
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [completed, walkover]
+ *               home:
+ *                 $ref: '#/components/schemas/ScoreBreakdown'
+ *               away:
+ *                 $ref: '#/components/schemas/ScoreBreakdown'
+ *               winnerEntryId:
+ *                 type: integer
+ *               resultNote:
+ *                 type: string
+ *               correctionReason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Result recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Match'
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Match not found
+ */
+router.put("/:id/result", auth, acl("matches.score"), matchController.recordMatchResult);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MatchEventLog:
+ *       type: object
+ *       properties:
+ *         events:
+ *           type: array
+ *           description: Raid and undo events in the order they were logged
+ *           items:
+ *             type: object
+ *         undoneEventIds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *         score:
+ *           type: object
+ *           properties:
+ *             home:
+ *               $ref: '#/components/schemas/ScoreBreakdown'
+ *             away:
+ *               $ref: '#/components/schemas/ScoreBreakdown'
+ *         nextAttackingSide:
+ *           type: string
+ *           enum: [home, away]
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /matches/{id}/events:
+ *   get:
+ *     summary: Get a match's raid log and the score derived from it
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     responses:
+ *       200:
+ *         description: Raid log with the running score and both squads
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchEventLog'
+ *       404:
+ *         description: Match not found
+ */
+router.get("/:id/events", auth, acl("matches.read"), matchEventController.getMatchEvents);
+
+/**
+ * @swagger
+ * /matches/{id}/events:
+ *   post:
+ *     summary: Log a raid
+ *     description: >
+ *       Appends a raid to the log of a live match and updates the match score.
+ *       Raid and bonus points go to the raiding team, tackle points to the defending team.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - attackingSide
+ *               - raiderId
+ *               - outcome
+ *             properties:
+ *               attackingSide:
+ *                 type: string
+ *                 enum: [home, away]
+ *               raiderId:
+ *                 type: integer
+ *               defenderIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               outcome:
+ *                 type: string
+ *                 enum: [successful, unsuccessful, empty]
+ *               raidPoints:
+ *                 type: integer
+ *               bonusPoints:
+ *                 type: integer
+ *               tacklePoints:
+ *                 type: integer
+ *               allOutSide:
+ *                 type: string
+ *                 enum: [home, away]
+ *                 description: Team that inflicted an all-out
+ *               extraSide:
+ *                 type: string
+ *                 enum: [home, away]
+ *               extraPoints:
+ *                 type: integer
+ *               isSuperRaid:
+ *                 type: boolean
+ *               isSuperTackle:
+ *                 type: boolean
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Raid logged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchEventLog'
+ *       400:
+ *         description: Validation error or match not live
+ *       409:
+ *         description: Another event was logged at the same time
+ */
+router.post("/:id/events", auth, acl("matches.score"), matchEventController.createMatchEvent);
+
+/**
+ * @swagger
+ * /matches/{id}/events/undo:
+ *   post:
+ *     summary: Undo the latest raid
+ *     description: Appends an undo event that cancels the latest raid still counting; the log itself is never edited.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Raid undone
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MatchEventLog'
+ *       400:
+ *         description: No raid to undo or match not live
+ */
+router.post("/:id/events/undo", auth, acl("matches.score"), matchEventController.undoMatchEvent);
+
+/**
+ * @swagger
+ * /matches/{id}/officials:
+ *   get:
+ *     summary: Get the officials assigned to a match
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     responses:
+ *       200:
+ *         description: Assigned officials with their match role
+ *       404:
+ *         description: Match not found
+ */
+router.get("/:id/officials", auth, acl("matches.read"), matchOfficialController.getMatchOfficials);
+
+/**
+ * @swagger
+ * /matches/{id}/officials:
+ *   post:
+ *     summary: Assign an official to a match and email them the assignment sheet
+ *     description: The official must not belong to either team's club and must not be officiating another match at the same time.
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - officialId
+ *               - role
+ *             properties:
+ *               officialId:
+ *                 type: integer
+ *               role:
+ *                 type: string
+ *                 enum: [referee, umpire, scorer, technical_delegate]
+ *     responses:
+ *       201:
+ *         description: Official assigned; notified tells whether the email was sent
+ *       400:
+ *         description: Match not scheduled or finished, official inactive, from a playing club or double-booked
+ *       404:
+ *         description: Match or official not found
+ */
+router.post("/:id/officials", auth, acl("matches.officials"), matchOfficialController.assignMatchOfficial);
+
+/**
+ * @swagger
+ * /matches/{id}/officials/{assignmentId}/notify:
+ *   post:
+ *     summary: Email the assignment sheet to an official again
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *       - in: path
+ *         name: assignmentId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match official assignment ID
+ *     responses:
+ *       200:
+ *         description: Assignment sheet sent
+ *       404:
+ *         description: Match or assignment not found
+ *       502:
+ *         description: The email could not be sent
+ */
+router.post(
+  "/:id/officials/:assignmentId/notify",
+  auth,
+  acl("matches.officials"),
+  matchOfficialController.notifyMatchOfficial
+);
+
+/**
+ * @swagger
+ * /matches/{id}/officials/{assignmentId}:
+ *   delete:
+ *     summary: Remove an official from a match
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match ID
+ *       - in: path
+ *         name: assignmentId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Match official assignment ID
+ *     responses:
+ *       200:
+ *         description: Official removed
+ *       400:
+ *         description: Match already finished
+ *       404:
+ *         description: Match or assignment not found
+ */
+router.delete(
+  "/:id/officials/:assignmentId",
+  auth,
+  acl("matches.officials"),
+  matchOfficialController.removeMatchOfficial
+);
+
+module.exports = router;
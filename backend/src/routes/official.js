@@ -0,0 +1,187 @@
+const express = require("express");
+const officialController = require("../controllers/officialController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Officials
+ *   description: Registry of referees, umpires, scorers and technical delegates
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Official:
+ *       type: object
+ *       required:
+ *         - firstName
+ *         - lastName
+ *         - role
+ *         - certificationLevel
+ *         - mobile
+ *         - email
+ *       properties:
+ *         firstName:
+ *           type: string
+ *         lastName:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [referee, umpire, scorer, technical_delegate]
+ *         certificationLevel:
+ *           type: string
+ *           example: "State Level"
+ *         mobile:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         clubId:
+ *           type: integer
+ *           nullable: true
+ *           description: Club the official is affiliated with; they cannot officiate its matches
+ *         active:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /officials:
+ *   get:
+ *     summary: Get officials
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [referee, umpire, scorer, technical_delegate]
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated list of officials
+ */
+router.get("/", auth, acl("officials.read"), officialController.getOfficials);
+
+/**
+ * @swagger
+ * /officials/{id}:
+ *   get:
+ *     summary: Get an official by ID
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Official ID
+ *     responses:
+ *       200:
+ *         description: Official data
+ *       404:
+ *         description: Official not found
+ */
+router.get("/:id", auth, acl("officials.read"), officialController.getOfficial);
+
+/**
+ * @swagger
+ * /officials:
+ *   post:
+ *     summary: Register an official
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Official'
+ *     responses:
+ *       201:
+ *         description: Official created
+ *       400:
+ *         description: Validation error or email already registered
+ */
+router.post("/", auth, acl("officials.write"), officialController.createOfficial);
+
+/**
+ * @swagger
+ * /officials/{id}:
+ *   put:
+ *     summary: Update an official
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Official ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Official'
+ *     responses:
+ *       200:
+ *         description: Official updated
+ *       404:
+ *         description: Official not found
+ */
+router.put("/:id", auth, acl("officials.update"), officialController.updateOfficial);
+
+/**
+ * @swagger
+ * /officials/{id}:
+ *   delete:
+ *     summary: Delete an official
+ *     tags: [Officials]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Official ID
+ *     responses:
+ *       200:
+ *         description: Official deleted
+ *       400:
+ *         description: Official has upcoming match assignments
+ *       404:
+ *         description: Official not found
+ */
+router.delete("/:id", auth, acl("officials.delete"), officialController.deleteOfficial);
+
+module.exports = router;
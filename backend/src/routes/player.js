@@ -3,6 +3,36 @@ const router = express.Router();
 const playerController = require("../controllers/playerController");
 const auth = require("../middleware/auth");
 const acl = require("../middleware/acl");
+const createUploadMiddleware = require("../middleware/uploadMiddleware");
+
+// Roster spreadsheet for bulk import; removed once the request is handled
+const importUploads = createUploadMiddleware("playerImports", [
+  {
+    name: "file",
+    allowedTypes: [
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "text/csv",
+      "application/csv",
+      "application/vnd.ms-excel",
+    ],
+    maxSize: 5 * 1024 * 1024,
+  },
+]);
+
+// Player photo and Aadhar document, stored under uploads/players/<field>/<uuid>/.
+// Only photos are served from /uploads; see GET /:id/aadhar-image
+const playerUploads = createUploadMiddleware("players", [
+  {
+    name: "profileImage",
+    allowedTypes: ["image/jpeg", "image/png", "image/webp"],
+    maxSize: 2 * 1024 * 1024,
+  },
+  {
+    name: "aadharImage",
+    allowedTypes: ["image/jpeg", "image/png", "image/webp", "application/pdf"],
+    maxSize: 5 * 1024 * 1024,
+  },
+]);
 
 /**
  * @swagger
@@ -35,11 +65,15 @@ const acl = require("../middleware/acl");
  *           description: Player's last name
  *         profileImage:
  *           type: string
- *           description: Path to player's profile image
+ *           description: Path to player's profile image, relative to /uploads (e.g. /players/profileImage/<uuid>/photo.jpg)
  *         dateOfBirth:
  *           type: string
  *           format: date
  *           description: Player's date of birth
+ *         gender:
+ *           type: string
+ *           enum: [Male, Female]
+ *           description: Player's gender, checked against group gender rules
  *         position:
  *           type: string
  *           description: Player's position
@@ -54,13 +88,33 @@ const acl = require("../middleware/acl");
  *           description: Player's Aadhar number
  *         aadharImage:
  *           type: string
- *           description: Path to player's Aadhar image
+ *           description: Stored path of the player's Aadhar document; download it from /players/{id}/aadhar-image
+ *         aadharStatus:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *           description: Outcome of the latest Aadhar review; reset to pending when the number or document changes
  *         aadharVerified:
  *           type: boolean
- *           description: Whether the Aadhar is verified
+ *           description: Whether the Aadhar is verified (aadharStatus is approved)
  *         isSuspended:
  *           type: boolean
- *           description: Whether the player is suspended
+ *           description: Whether the player has a suspension in force
+ *         suspensions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PlayerSuspension'
+ *           description: The suspension currently in force, if any (list and detail responses)
+ *         clubId:
+ *           type: integer
+ *           description: ID of the club the player is registered with
+ *         club:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: integer
+ *             clubName:
+ *               type: string
+ *           description: Club the player is registered with
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -74,6 +128,19 @@ const acl = require("../middleware/acl");
  *           items:
  *             $ref: '#/components/schemas/Group'
  *           description: Groups the player belongs to
+ *         registrations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               seasonId:
+ *                 type: integer
+ *               status:
+ *                 type: string
+ *                 enum: [pending, active, lapsed]
+ *               fee:
+ *                 type: number
+ *           description: In the player list, the registration for the selected or current season
  */
 
 /**
@@ -103,6 +170,17 @@ const acl = require("../middleware/acl");
  *           type: string
  *         description: Search term for player name, ID, or Aadhar
  *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Only players registered for this season or in one of its groups, plus players in neither (also read from the X-Season-Id header)
+ *       - in: query
+ *         name: registrationStatus
+ *         schema:
+ *           type: string
+ *           enum: [pending, active, lapsed]
+ *         description: Filter by registration status for the selected season, or the current season when none is selected
+ *       - in: query
  *         name: isSuspended
  *         schema:
  *           type: boolean
@@ -113,6 +191,17 @@ const acl = require("../middleware/acl");
  *           type: boolean
  *         description: Filter by Aadhar verification status
  *       - in: query
+ *         name: aadharStatus
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         description: Filter by Aadhar review status (pending lists the verification queue)
+ *       - in: query
+ *         name: clubId
+ *         schema:
+ *           type: integer
+ *         description: Filter by club (ignored for club admins, who only see their own club)
+ *       - in: query
  *         name: sortBy
  *         schema:
  *           type: string
@@ -153,7 +242,78 @@ const acl = require("../middleware/acl");
  *       403:
  *         description: Forbidden
  */
-router.get("/", auth, playerController.getPlayers);
+router.get("/", auth, acl("players.read"), playerController.getPlayers);
+
+/**
+ * @swagger
+ * /players/id-cards.pdf:
+ *   get:
+ *     summary: Download ID cards for a group or club
+ *     description: Cards are laid out ten to an A4 page. Club admins always receive their own club's players.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Print cards for players in this group
+ *       - in: query
+ *         name: clubId
+ *         schema:
+ *           type: integer
+ *         description: Print cards for players in this club
+ *     responses:
+ *       200:
+ *         description: PDF of player ID cards
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Neither a group nor a club was selected
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: No players found
+ */
+router.get("/id-cards.pdf", auth, acl("players.idcards"), playerController.getPlayerIdCards);
+
+/**
+ * @swagger
+ * /players/import/template:
+ *   get:
+ *     summary: Download the player import template
+ *     description: >
+ *       Workbook with the Players sheet to fill in, column notes and the names
+ *       of the clubs and groups that can be used.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Season whose groups are listed; defaults to the X-Season-Id header, then the current season
+ *     responses:
+ *       200:
+ *         description: Excel template
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get("/import/template", auth, acl("players.import"), playerController.getImportTemplate);
 
 /**
  * @swagger
@@ -184,7 +344,7 @@ router.get("/", auth, playerController.getPlayers);
  *       404:
  *         description: Player not found
  */
-router.get("/:id", auth, playerController.getPlayerById);
+router.get("/:id", auth, acl("players.read"), playerController.getPlayerById);
 
 /**
  * @swagger
@@ -210,6 +370,9 @@ router.get("/:id", auth, playerController.getPlayerById);
  *               dateOfBirth:
  *                 type: string
  *                 format: date
+ *               gender:
+ *                 type: string
+ *                 enum: [Male, Female]
  *               position:
  *                 type: string
  *               address:
@@ -221,13 +384,19 @@ router.get("/:id", auth, playerController.getPlayerById);
  *               profileImage:
  *                 type: string
  *                 format: binary
+ *                 description: Player photo (JPEG, PNG or WebP, max 2 MB)
  *               aadharImage:
  *                 type: string
  *                 format: binary
+ *                 description: Aadhar document (JPEG, PNG, WebP or PDF, max 5 MB)
+ *               clubId:
+ *                 type: integer
+ *                 description: Club ID (forced to the caller's own club for club admins)
  *               groupIds:
  *                 type: array
  *                 items:
  *                   type: integer
+ *                 description: Groups to join; the player must meet each group's gender and age rule
  *             required:
  *               - firstName
  *               - lastName
@@ -249,7 +418,89 @@ router.get("/:id", auth, playerController.getPlayerById);
  *       403:
  *         description: Forbidden
  */
-router.post("/", auth, playerController.createPlayer);
+router.post("/", auth, acl("players.write"), ...playerUploads, playerController.createPlayer);
+
+/**
+ * @swagger
+ * /players/import/preview:
+ *   post:
+ *     summary: Validate a player roster before importing it
+ *     description: >
+ *       Checks every row of an .xlsx or .csv roster against the same rules as
+ *       creating a single player, including Aadhar uniqueness, and reports the
+ *       errors of each row. Nothing is created.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Season whose groups the Groups column refers to; defaults to the X-Season-Id header, then the current season
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Roster in the template's format (.xlsx or .csv, max 5 MB, 500 rows)
+ *     responses:
+ *       200:
+ *         description: Rows with their values and errors keyed by column, and valid/invalid counts
+ *       400:
+ *         description: The file is missing, unreadable or lacks required columns
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post("/import/preview", auth, acl("players.import"), ...importUploads, playerController.previewPlayerImport);
+
+/**
+ * @swagger
+ * /players/import:
+ *   post:
+ *     summary: Import a player roster
+ *     description: >
+ *       Validates the roster again and creates every player in a single
+ *       transaction. If any row has errors no players are created and the
+ *       response lists the rows as the preview does. Club admins always import
+ *       into their own club.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Season whose groups the Groups column refers to; defaults to the X-Season-Id header, then the current season
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Number of players created
+ *       400:
+ *         description: The file is unusable or one or more rows have errors
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post("/import", auth, acl("players.import"), ...importUploads, playerController.importPlayers);
 
 /**
  * @swagger
@@ -282,6 +533,9 @@ router.post("/", auth, playerController.createPlayer);
  *               dateOfBirth:
  *                 type: string
  *                 format: date
+ *               gender:
+ *                 type: string
+ *                 enum: [Male, Female]
  *               position:
  *                 type: string
  *               address:
@@ -290,18 +544,22 @@ router.post("/", auth, playerController.createPlayer);
  *                 type: string
  *               aadharNumber:
  *                 type: string
- *               aadharVerified:
- *                 type: boolean
  *               profileImage:
  *                 type: string
  *                 format: binary
+ *                 description: Player photo (JPEG, PNG or WebP, max 2 MB)
  *               aadharImage:
  *                 type: string
  *                 format: binary
+ *                 description: Aadhar document (JPEG, PNG, WebP or PDF, max 5 MB)
+ *               clubId:
+ *                 type: integer
+ *                 description: Must match the player's current club; players change clubs through a transfer
  *               groupIds:
  *                 type: array
  *                 items:
  *                   type: integer
+ *                 description: Groups to join; the player must meet each group's gender and age rule
  *     responses:
  *       200:
  *         description: Player updated successfully
@@ -318,13 +576,85 @@ router.post("/", auth, playerController.createPlayer);
  *       404:
  *         description: Player not found
  */
-router.put("/:id", auth, playerController.updatePlayer);
+router.put("/:id", auth, acl("players.update"), ...playerUploads, playerController.updatePlayer);
 
 /**
  * @swagger
- * /players/{id}/suspension:
- *   patch:
- *     summary: Toggle player suspension status
+ * components:
+ *   schemas:
+ *     PlayerSuspension:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         playerId:
+ *           type: integer
+ *         reason:
+ *           type: string
+ *         issuedBy:
+ *           type: string
+ *           description: Official who issued the suspension
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *           description: End of the suspension; null for an indefinite suspension
+ *         liftedAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the suspension was lifted early or closed by the scheduled job
+ *         liftReason:
+ *           type: string
+ *         recordedById:
+ *           type: integer
+ *         liftedById:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /players/{id}/suspensions:
+ *   get:
+ *     summary: Get a player's suspension history
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Player ID
+ *     responses:
+ *       200:
+ *         description: Suspensions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 suspensions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PlayerSuspension'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Player not found
+ *   post:
+ *     summary: Suspend a player
+ *     description: Suspended players cannot be picked for competition entries. Suspensions with an end date are lifted automatically once it passes.
  *     tags: [Players]
  *     security:
  *       - bearerAuth: []
@@ -342,18 +672,29 @@ router.put("/:id", auth, playerController.updatePlayer);
  *           schema:
  *             type: object
  *             properties:
- *               isSuspended:
- *                 type: boolean
- *                 description: New suspension status
+ *               reason:
+ *                 type: string
+ *               issuedBy:
+ *                 type: string
+ *                 description: Official who issued the suspension
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Leave empty for an indefinite suspension
  *             required:
- *               - isSuspended
+ *               - reason
+ *               - issuedBy
+ *               - startDate
  *     responses:
- *       200:
- *         description: Player suspension status updated
+ *       201:
+ *         description: Suspension recorded
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Player'
+ *               $ref: '#/components/schemas/PlayerSuspension'
  *       400:
  *         description: Bad request
  *       401:
@@ -363,13 +704,98 @@ router.put("/:id", auth, playerController.updatePlayer);
  *       404:
  *         description: Player not found
  */
-router.patch("/:id/suspension", auth, playerController.toggleSuspension);
+router.get("/:id/suspensions", auth, acl("players.read"), playerController.getSuspensions);
+router.post("/:id/suspensions", auth, acl("players.suspend"), playerController.createSuspension);
+
+/**
+ * @swagger
+ * /players/{id}/suspensions/{suspensionId}/lift:
+ *   patch:
+ *     summary: Lift a suspension early
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Player ID
+ *       - in: path
+ *         name: suspensionId
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Suspension ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Suspension lifted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlayerSuspension'
+ *       400:
+ *         description: Suspension already lifted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Suspension not found
+ */
+router.patch("/:id/suspensions/:suspensionId/lift", auth, acl("players.suspend"), playerController.liftPlayerSuspension);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AadharVerification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         playerId:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [approved, rejected]
+ *         aadharNumber:
+ *           type: string
+ *           description: Aadhar number at the time of the review
+ *         aadharImage:
+ *           type: string
+ *           description: Stored path of the Aadhar document reviewed
+ *         reason:
+ *           type: string
+ *         reviewedById:
+ *           type: integer
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *         reviewedBy:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: integer
+ *             name:
+ *               type: string
+ */
 
 /**
  * @swagger
  * /players/{id}/aadhar-verification:
  *   patch:
- *     summary: Toggle player Aadhar verification status
+ *     summary: Approve or reject a player's Aadhar details
+ *     description: Records the decision with the reviewer and time. Approval requires an uploaded Aadhar document.
  *     tags: [Players]
  *     security:
  *       - bearerAuth: []
@@ -387,14 +813,17 @@ router.patch("/:id/suspension", auth, playerController.toggleSuspension);
  *           schema:
  *             type: object
  *             properties:
- *               aadharVerified:
- *                 type: boolean
- *                 description: New Aadhar verification status
+ *               status:
+ *                 type: string
+ *                 enum: [approved, rejected]
+ *               reason:
+ *                 type: string
+ *                 description: Required when rejecting
  *             required:
- *               - aadharVerified
+ *               - status
  *     responses:
  *       200:
- *         description: Player Aadhar verification status updated
+ *         description: Decision recorded
  *         content:
  *           application/json:
  *             schema:
@@ -408,6 +837,197 @@ router.patch("/:id/suspension", auth, playerController.toggleSuspension);
  *       404:
  *         description: Player not found
  */
-router.patch("/:id/aadhar-verification", auth, playerController.toggleAadharVerification);
+router.patch("/:id/aadhar-verification", auth, acl("players.verify"), playerController.reviewAadharVerification);
+
+/**
+ * @swagger
+ * /players/{id}/aadhar-verifications:
+ *   get:
+ *     summary: Get a player's Aadhar verification history
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Player ID
+ *     responses:
+ *       200:
+ *         description: Verification decisions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 verifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AadharVerification'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Player not found
+ */
+router.get("/:id/aadhar-verifications", auth, acl("players.read"), playerController.getAadharVerifications);
+
+/**
+ * @swagger
+ * /players/{id}/aadhar-image:
+ *   get:
+ *     summary: Download a player's Aadhar document
+ *     description: >
+ *       Aadhar documents are not served from /uploads. Club admins can only open
+ *       documents of their own players.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Player ID
+ *     responses:
+ *       200:
+ *         description: The uploaded image or PDF
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Player not found or no document uploaded
+ */
+router.get("/:id/aadhar-image", auth, acl("players.read"), playerController.getAadharImage);
+
+/**
+ * @swagger
+ * /players/{id}/id-card.pdf:
+ *   get:
+ *     summary: Download a player's ID card
+ *     description: Card-sized PDF with the player's photo, details and a QR code linking to the verification page.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Player ID
+ *     responses:
+ *       200:
+ *         description: PDF of the player's ID card
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Player not found
+ */
+router.get("/:id/id-card.pdf", auth, acl("players.idcards"), playerController.getPlayerIdCard);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PlayerStats:
+ *       type: object
+ *       properties:
+ *         playerId:
+ *           type: integer
+ *         matchesPlayed:
+ *           type: integer
+ *         totalRaids:
+ *           type: integer
+ *         successfulRaids:
+ *           type: integer
+ *         raidPoints:
+ *           type: integer
+ *           description: Touch and bonus points
+ *         tacklePoints:
+ *           type: integer
+ *         superRaids:
+ *           type: integer
+ *         superTackles:
+ *           type: integer
+ *         high5s:
+ *           type: integer
+ *         super10s:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /players/{id}/stats:
+ *   get:
+ *     summary: Get a player's career statistics
+ *     description: >
+ *       Totals from the raid logs of completed matches, overall and split by
+ *       competition and season. A high-5 is five or more tackle points in a match,
+ *       a super-10 ten or more raid points.
+ *     tags: [Players]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Player ID
+ *       - in: query
+ *         name: competitionId
+ *         schema:
+ *           type: integer
+ *         description: Filter by competition
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *         description: Filter by group
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *         description: Filter by season
+ *     responses:
+ *       200:
+ *         description: Career, per-competition and per-season statistics
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 career:
+ *                   $ref: '#/components/schemas/PlayerStats'
+ *                 competitions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PlayerStats'
+ *                 seasons:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PlayerStats'
+ *       404:
+ *         description: Player not found
+ */
+router.get("/:id/stats", auth, acl("players.read"), playerController.getPlayerStats);
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
@@ -0,0 +1,136 @@
+const express = require("express");
+const registrationController = require("../controllers/registrationController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Registrations
+ *   description: Annual player registrations and renewals
+ */
+
+/**
+ * @swagger
+ * /registrations:
+ *   get:
+ *     summary: Get player registrations
+ *     description: >
+ *       Lists registrations of the selected season (see the X-Season-Id header),
+ *       or every season of one player when playerId is given. Club admins only
+ *       see their own players.
+ *     tags: [Registrations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, active, lapsed]
+ *       - in: query
+ *         name: playerId
+ *         schema:
+ *           type: integer
+ *         description: Registration history of a single player
+ *       - in: query
+ *         name: seasonId
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated list of registrations
+ */
+router.get("/", auth, acl("registrations.read"), registrationController.getRegistrations);
+
+/**
+ * @swagger
+ * /registrations/renew:
+ *   post:
+ *     summary: Register or renew players for a season
+ *     description: >
+ *       Creates a registration, charged at the season's registration fee, for
+ *       each selected player not yet registered for the season. Registrations
+ *       made by club admins are always pending until an administrator approves
+ *       them; administrators may register players as active straight away.
+ *     tags: [Registrations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - seasonId
+ *               - playerIds
+ *             properties:
+ *               seasonId:
+ *                 type: integer
+ *               playerIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               status:
+ *                 type: string
+ *                 enum: [pending, active]
+ *                 default: pending
+ *     responses:
+ *       200:
+ *         description: Number of registrations created, activated and left unchanged
+ *       400:
+ *         description: Validation error, the season has ended or a player belongs to another club
+ */
+router.post("/renew", auth, acl("registrations.renew"), registrationController.renew);
+
+/**
+ * @swagger
+ * /registrations/{id}:
+ *   patch:
+ *     summary: Approve, lapse or change the fee of a registration
+ *     tags: [Registrations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Registration ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, active, lapsed]
+ *               fee:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Registration updated
+ *       400:
+ *         description: Validation error or the season has ended
+ *       404:
+ *         description: Registration not found
+ */
+router.patch("/:id", auth, acl("registrations.update"), registrationController.updateRegistration);
+
+module.exports = router;
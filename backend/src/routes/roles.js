@@ -32,4 +32,87 @@ const router = express.Router();
  */
 router.get("/", auth, acl("roles.read"), roleController.getRoles);
 
+/**
+ * @swagger
+ * /roles/permissions:
+ *   get:
+ *     summary: Get the role-to-permission matrix
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles, permission catalog and the permissions each role holds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 roles:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 lockedRoles:
+ *                   type: array
+ *                   description: Roles that always hold every permission
+ *                   items:
+ *                     type: string
+ *                 permissions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       key:
+ *                         type: string
+ *                       description:
+ *                         type: string
+ *                 matrix:
+ *                   type: object
+ *                   additionalProperties:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *       403:
+ *         description: Forbidden
+ */
+router.get("/permissions", auth, acl("roles.read"), roleController.getPermissions);
+
+/**
+ * @swagger
+ * /roles/{role}/permissions:
+ *   put:
+ *     summary: Replace the permissions held by a role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: role
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Role name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - permissions
+ *             properties:
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Updated permissions for the role
+ *       400:
+ *         description: Validation error or locked role
+ *       404:
+ *         description: Role not found
+ */
+router.put("/:role/permissions", auth, acl("roles.update"), roleController.updateRolePermissions);
+
 module.exports = router;
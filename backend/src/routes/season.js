@@ -0,0 +1,220 @@
+const express = require("express");
+const seasonController = require("../controllers/seasonController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Seasons
+ *   description: Seasons that competitions, groups and registrations belong to
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Season:
+ *       type: object
+ *       required:
+ *         - seasonName
+ *         - startDate
+ *         - endDate
+ *       properties:
+ *         seasonName:
+ *           type: string
+ *           example: "2025-26"
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         registrationFee:
+ *           type: number
+ *           example: 500
+ *           description: Fee charged for each player registration in the season
+ */
+
+/**
+ * @swagger
+ * /seasons:
+ *   get:
+ *     summary: Get all seasons, newest first
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Seasons and the id of the current season
+ */
+router.get("/", auth, acl("seasons.read"), seasonController.getSeasons);
+
+/**
+ * @swagger
+ * /seasons/{id}:
+ *   get:
+ *     summary: Get a season by ID
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Season ID
+ *     responses:
+ *       200:
+ *         description: Season with its group and competition counts
+ *       404:
+ *         description: Season not found
+ */
+router.get("/:id", auth, acl("seasons.read"), seasonController.getSeason);
+
+/**
+ * @swagger
+ * /seasons:
+ *   post:
+ *     summary: Create a season
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Season'
+ *     responses:
+ *       201:
+ *         description: Season created
+ *       400:
+ *         description: Validation error or the dates overlap another season
+ */
+router.post("/", auth, acl("seasons.write"), seasonController.createSeason);
+
+/**
+ * @swagger
+ * /seasons/{id}:
+ *   put:
+ *     summary: Update a season
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Season ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Season'
+ *     responses:
+ *       200:
+ *         description: Season updated
+ *       400:
+ *         description: Validation error or the dates overlap another season
+ *       404:
+ *         description: Season not found
+ */
+router.put("/:id", auth, acl("seasons.update"), seasonController.updateSeason);
+
+/**
+ * @swagger
+ * /seasons/{id}/current:
+ *   patch:
+ *     summary: Make a season the current one
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Season ID
+ *     responses:
+ *       200:
+ *         description: Season is now current
+ *       404:
+ *         description: Season not found
+ */
+router.patch("/:id/current", auth, acl("seasons.update"), seasonController.setCurrentSeason);
+
+/**
+ * @swagger
+ * /seasons/{id}/rollover:
+ *   post:
+ *     summary: Roll a season over into a new one
+ *     description: >
+ *       Creates the new season, clones every group of this season with its age
+ *       cut-off moved forward, and carries over the players who are still
+ *       eligible for each group.
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Season to roll over
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/Season'
+ *               - type: object
+ *                 properties:
+ *                   makeCurrent:
+ *                     type: boolean
+ *                     default: true
+ *     responses:
+ *       201:
+ *         description: New season with, per cloned group, the players carried over and dropped
+ *       400:
+ *         description: Validation error or the dates overlap another season
+ *       404:
+ *         description: Season not found
+ */
+router.post("/:id/rollover", auth, acl("seasons.rollover"), seasonController.rollOver);
+
+/**
+ * @swagger
+ * /seasons/{id}:
+ *   delete:
+ *     summary: Delete an empty season
+ *     tags: [Seasons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Season ID
+ *     responses:
+ *       200:
+ *         description: Season deleted
+ *       400:
+ *         description: Season still has groups or competitions
+ *       404:
+ *         description: Season not found
+ */
+router.delete("/:id", auth, acl("seasons.delete"), seasonController.deleteSeason);
+
+module.exports = router;
@@ -0,0 +1,204 @@
+const express = require("express");
+const transferController = require("../controllers/transferController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Transfers
+ *   description: Player transfers between clubs
+ */
+
+/**
+ * @swagger
+ * /transfers:
+ *   get:
+ *     summary: Get player transfers
+ *     description: >
+ *       Club admins see transfers into and out of their club, and the full
+ *       transfer history of players currently registered with them.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [requested, noc_issued, noc_denied, approved, rejected, cancelled]
+ *       - in: query
+ *         name: pending
+ *         schema:
+ *           type: boolean
+ *         description: Only transfers awaiting a NOC or the association's decision
+ *       - in: query
+ *         name: playerId
+ *         schema:
+ *           type: integer
+ *         description: Transfer history of a single player
+ *     responses:
+ *       200:
+ *         description: Paginated list of transfers
+ */
+router.get("/", auth, acl("transfers.read"), transferController.getTransfers);
+
+/**
+ * @swagger
+ * /transfers:
+ *   post:
+ *     summary: Request a player transfer
+ *     description: >
+ *       Raised by the destination club. Club admins always request players for
+ *       their own club; administrators name the destination club. Players
+ *       without a club skip the NOC step.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - uniqueIdNumber
+ *             properties:
+ *               uniqueIdNumber:
+ *                 type: string
+ *               toClubId:
+ *                 type: integer
+ *                 description: Destination club (administrators only)
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Transfer requested
+ *       400:
+ *         description: Validation error, the player is already with the club or has a transfer in progress
+ */
+router.post("/", auth, acl("transfers.request"), transferController.requestTransfer);
+
+/**
+ * @swagger
+ * /transfers/{id}/noc:
+ *   patch:
+ *     summary: Issue or deny a No-Objection Certificate
+ *     description: Decided by the releasing club while the transfer is requested.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Transfer ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [issued, denied]
+ *               remarks:
+ *                 type: string
+ *                 description: Required when denying
+ *     responses:
+ *       200:
+ *         description: NOC decided
+ *       400:
+ *         description: Validation error or the NOC was already decided
+ *       404:
+ *         description: Transfer not found
+ */
+router.patch("/:id/noc", auth, acl("transfers.noc"), transferController.decideNoc);
+
+/**
+ * @swagger
+ * /transfers/{id}/decision:
+ *   patch:
+ *     summary: Approve or reject a transfer
+ *     description: >
+ *       Approving moves the player to the new club and starts the cooling-off
+ *       period (TRANSFER_COOLING_OFF_DAYS, 30 days by default) during which the
+ *       player cannot be entered in competitions for the new club.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Transfer ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [approved, rejected]
+ *               remarks:
+ *                 type: string
+ *                 description: Required when rejecting
+ *     responses:
+ *       200:
+ *         description: Transfer decided
+ *       400:
+ *         description: Validation error, no NOC issued or the player is in a running competition
+ *       404:
+ *         description: Transfer not found
+ */
+router.patch("/:id/decision", auth, acl("transfers.approve"), transferController.decideTransfer);
+
+/**
+ * @swagger
+ * /transfers/{id}/cancel:
+ *   patch:
+ *     summary: Withdraw a transfer request
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Transfer ID
+ *     responses:
+ *       200:
+ *         description: Transfer cancelled
+ *       400:
+ *         description: The transfer is no longer in progress
+ *       404:
+ *         description: Transfer not found
+ */
+router.patch("/:id/cancel", auth, acl("transfers.request"), transferController.cancelTransfer);
+
+module.exports = router;
@@ -0,0 +1,189 @@
+const express = require("express");
+const venueController = require("../controllers/venueController");
+const auth = require("../middleware/auth");
+const acl = require("../middleware/acl");
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Venues
+ *   description: Venues, their courts and when they can be booked
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Venue:
+ *       type: object
+ *       required:
+ *         - venueName
+ *         - address
+ *         - city
+ *         - courts
+ *       properties:
+ *         venueName:
+ *           type: string
+ *         address:
+ *           type: string
+ *         city:
+ *           type: string
+ *         capacity:
+ *           type: integer
+ *           nullable: true
+ *           description: Spectator capacity
+ *         courts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *                 description: Existing court to keep; omit to add a court
+ *               courtName:
+ *                 type: string
+ *         availability:
+ *           type: array
+ *           description: Windows the venue can be booked in; none means always available
+ *           items:
+ *             type: object
+ *             properties:
+ *               startTime:
+ *                 type: string
+ *                 format: date-time
+ *               endTime:
+ *                 type: string
+ *                 format: date-time
+ */
+
+/**
+ * @swagger
+ * /venues:
+ *   get:
+ *     summary: Get venues with their courts and availability
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated list of venues
+ */
+router.get("/", auth, acl("venues.read"), venueController.getVenues);
+
+/**
+ * @swagger
+ * /venues/{id}:
+ *   get:
+ *     summary: Get a venue by ID
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Venue ID
+ *     responses:
+ *       200:
+ *         description: Venue with courts and availability
+ *       404:
+ *         description: Venue not found
+ */
+router.get("/:id", auth, acl("venues.read"), venueController.getVenue);
+
+/**
+ * @swagger
+ * /venues:
+ *   post:
+ *     summary: Create a venue
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Venue'
+ *     responses:
+ *       201:
+ *         description: Venue created
+ *       400:
+ *         description: Validation error
+ */
+router.post("/", auth, acl("venues.write"), venueController.createVenue);
+
+/**
+ * @swagger
+ * /venues/{id}:
+ *   put:
+ *     summary: Update a venue, its courts and availability
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Venue ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Venue'
+ *     responses:
+ *       200:
+ *         description: Venue updated
+ *       400:
+ *         description: Validation error or a removed court still has upcoming matches
+ *       404:
+ *         description: Venue not found
+ */
+router.put("/:id", auth, acl("venues.update"), venueController.updateVenue);
+
+/**
+ * @swagger
+ * /venues/{id}:
+ *   delete:
+ *     summary: Delete a venue
+ *     tags: [Venues]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         schema:
+ *           type: integer
+ *         required: true
+ *         description: Venue ID
+ *     responses:
+ *       200:
+ *         description: Venue deleted
+ *       400:
+ *         description: Venue has upcoming matches
+ *       404:
+ *         description: Venue not found
+ */
+router.delete("/:id", auth, acl("venues.delete"), venueController.deleteVenue);
+
+module.exports = router;
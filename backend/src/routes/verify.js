@@ -0,0 +1,97 @@
+const express = require("express");
+const { rateLimit } = require("express-rate-limit");
+const verifyController = require("../controllers/verifyController");
+
+const router = express.Router();
+
+// Lookups are public, so each client is limited to stop the unique IDs being
+// enumerated; override with VERIFY_RATE_LIMIT_PER_MINUTE
+const verifyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  limit: parseInt(process.env.VERIFY_RATE_LIMIT_PER_MINUTE) || 30,
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  message: {
+    errors: { message: "Too many verification requests. Please wait a minute and try again." },
+  },
+});
+
+/**
+ * @swagger
+ * tags:
+ *   name: Verify
+ *   description: Public player verification for match officials
+ */
+
+/**
+ * @swagger
+ * /verify/{uniqueIdNumber}:
+ *   get:
+ *     summary: Verify a player from their ID card
+ *     description: >
+ *       Public and rate limited. Returns the minimal status a match official needs
+ *       to admit a player. Eligibility applies the competition entry checks for the
+ *       current season: Aadhar verification, season registration, active suspensions
+ *       and a transfer cooling-off.
+ *     tags: [Verify]
+ *     parameters:
+ *       - in: path
+ *         name: uniqueIdNumber
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Unique ID printed on the player's ID card
+ *     responses:
+ *       200:
+ *         description: Player status card
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 uniqueIdNumber:
+ *                   type: string
+ *                 name:
+ *                   type: string
+ *                 profileImage:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Path under /uploads
+ *                 club:
+ *                   type: string
+ *                   nullable: true
+ *                 eligibility:
+ *                   type: object
+ *                   properties:
+ *                     eligible:
+ *                       type: boolean
+ *                     aadharVerified:
+ *                       type: boolean
+ *                     reasons:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                 suspension:
+ *                   type: object
+ *                   properties:
+ *                     isSuspended:
+ *                       type: boolean
+ *                     startDate:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                     endDate:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                 checkedAt:
+ *                   type: string
+ *                   format: date-time
+ *       404:
+ *         description: No player with this ID
+ *       429:
+ *         description: Too many requests
+ */
+router.get("/:uniqueIdNumber", verifyLimiter, verifyController.verifyPlayer);
+
+module.exports = router;
@@ -0,0 +1,83 @@
+const prisma = require("../config/db");
+
+const AADHAR_STATUS = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+};
+
+/**
+ * Record a reviewer's decision on a player's Aadhar details.
+ * The number and document that were reviewed are copied onto the record,
+ * so the audit trail still shows what was checked after the player is edited.
+ * @param {Object} player - Player being reviewed (needs id, aadharNumber, aadharImage)
+ * @param {Object} decision
+ * @param {string} decision.status - AADHAR_STATUS.APPROVED or AADHAR_STATUS.REJECTED
+ * @param {string} [decision.reason] - Reviewer's reason, required for rejections by the caller
+ * @param {number|null} [decision.reviewerId] - User id of the reviewer
+ * @returns {Promise<Object>} The updated player
+ */
+const recordAadharDecision = async (player, { status, reason, reviewerId }) => {
+  const [, updatedPlayer] = await prisma.$transaction([
+    prisma.aadharVerification.create({
+      data: {
+        playerId: player.id,
+        status,
+        aadharNumber: player.aadharNumber,
+        aadharImage: player.aadharImage || null,
+        reason: reason || null,
+        reviewedById: reviewerId || null,
+      },
+    }),
+    prisma.player.update({
+      where: { id: player.id },
+      data: {
+        aadharStatus: status,
+        aadharVerified: status === AADHAR_STATUS.APPROVED,
+      },
+      include: {
+        groups: true,
+      },
+    }),
+  ]);
+
+  return updatedPlayer;
+};
+
+/**
+ * Fields that send a player back to the verification queue when their Aadhar
+ * number or document changes, since the previous decision no longer applies.
+ * @param {Object} existingPlayer - Player as currently stored
+ * @param {Object} changes - New aadharNumber and/or aadharImage (undefined when unchanged)
+ * @returns {Object} Player update fields, empty when nothing relevant changed
+ */
+const getAadharResetFields = (existingPlayer, { aadharNumber, aadharImage }) => {
+  const numberChanged = aadharNumber !== undefined && aadharNumber !== existingPlayer.aadharNumber;
+  if (!numberChanged && !aadharImage) {
+    return {};
+  }
+  return { aadharStatus: AADHAR_STATUS.PENDING, aadharVerified: false };
+};
+
+/**
+ * List the verification decisions recorded for a player, newest first
+ * @param {number} playerId - Player ID
+ * @returns {Promise<Object[]>} Decisions with the reviewer's name
+ */
+const getAadharHistory = (playerId) =>
+  prisma.aadharVerification.findMany({
+    where: { playerId },
+    include: {
+      reviewedBy: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: { reviewedAt: "desc" },
+  });
+
+module.exports = {
+  AADHAR_STATUS,
+  recordAadharDecision,
+  getAadharResetFields,
+  getAadharHistory,
+};
@@ -1,13 +1,92 @@
 const permissions = require('../config/permissions');
+const prisma = require('../config/db');
+const { ADMIN } = require('../config/roles');
+
+// Stored overrides are cached briefly so the acl middleware does not hit the
+// database on every request; updates through this service clear the cache.
+const CACHE_TTL_MS = 60 * 1000;
+let cache = null;
+
+const loadOverrides = async () => {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.overrides;
+  }
+
+  const rows = await prisma.rolePermission.findMany();
+  const overrides = {};
+  rows.forEach((row) => {
+    overrides[`${row.role}:${row.permission}`] = row.allowed;
+  });
+
+  cache = { overrides, loadedAt: Date.now() };
+  return overrides;
+};
+
+const isGranted = (overrides, role, permission) => {
+  const override = overrides[`${role}:${permission}`];
+  if (override !== undefined) {
+    return override;
+  }
+  return permissions[permission].roles.includes(role);
+};
 
 const aclService = {
-  hasPermission: (user, permission) => {
+  /**
+   * Check whether a user's role holds a permission.
+   * Administrators hold every permission so they can never lock themselves out.
+   * @param {Object} user - Authenticated user (req.user)
+   * @param {string} permission - Permission key from config/permissions
+   * @returns {Promise<boolean>} True if the permission is granted
+   */
+  hasPermission: async (user, permission) => {
     if (!user || !user.role) {
       return false;
     }
+    if (user.role === ADMIN) {
+      return true;
+    }
+    if (!permissions[permission]) {
+      return false;
+    }
+
+    const overrides = await loadOverrides();
+    return isGranted(overrides, user.role, permission);
+  },
+
+  /**
+   * Build the full role-to-permission matrix
+   * @param {string[]} roles - Roles to include
+   * @returns {Promise<Object>} Map of role to the permission keys it holds
+   */
+  getMatrix: async (roles) => {
+    const overrides = await loadOverrides();
+    const matrix = {};
+    roles.forEach((role) => {
+      matrix[role] = Object.keys(permissions).filter(
+        (permission) => role === ADMIN || isGranted(overrides, role, permission)
+      );
+    });
+    return matrix;
+  },
 
-    const userRole = user.role;
-    return permissions[permission]?.includes(userRole) || false;
+  /**
+   * Replace the permissions held by a role
+   * @param {string} role - Role to update
+   * @param {string[]} granted - Permission keys the role should hold
+   * @returns {Promise<void>}
+   */
+  setRolePermissions: async (role, granted) => {
+    await prisma.$transaction(
+      Object.keys(permissions).map((permission) => {
+        const allowed = granted.includes(permission);
+        return prisma.rolePermission.upsert({
+          where: { role_permission: { role, permission } },
+          update: { allowed },
+          create: { role, permission, allowed },
+        });
+      })
+    );
+    cache = null;
   },
 };
 
@@ -0,0 +1,189 @@
+const prisma = require("../config/db");
+const config = require("../config/config");
+const { sendEmail } = require("./emailService");
+
+const AFFILIATION_STATUS = {
+  ACTIVE: "active",
+  EXPIRED: "expired",
+  REVOKED: "revoked",
+};
+
+// Days before expiry that a club is reminded to renew; override with AFFILIATION_REMINDER_DAYS
+const DEFAULT_REMINDER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getReminderDays = () =>
+  parseInt(process.env.AFFILIATION_REMINDER_DAYS) || DEFAULT_REMINDER_DAYS;
+
+/**
+ * Checks a club's affiliation records and determines if the club is currently affiliated
+ * @param {number} clubId - Club ID to check
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<{active: boolean, expiryInfo: Object|null}>} Active status and expiry info
+ *   of the affiliation in force, or of the latest one when none is
+ */
+const checkAffiliationExpiry = async (clubId, now = new Date()) => {
+  const affiliations = await prisma.clubAffiliation.findMany({
+    where: { clubId, status: { not: AFFILIATION_STATUS.REVOKED } },
+    orderBy: { expiryDate: "desc" },
+  });
+
+  // A club with no affiliation on record has never been affiliated
+  if (affiliations.length === 0) {
+    return { active: false, expiryInfo: null };
+  }
+
+  const current = affiliations.find(
+    (affiliation) => affiliation.startDate <= now && affiliation.expiryDate >= now
+  );
+  const affiliation = current || affiliations[0];
+
+  return {
+    active: !!current,
+    expiryInfo: {
+      affiliationId: affiliation.id,
+      expiryDate: affiliation.expiryDate,
+      expired: affiliation.expiryDate < now,
+      notStarted: affiliation.startDate > now,
+      daysRemaining: Math.ceil((affiliation.expiryDate.getTime() - now.getTime()) / DAY_MS),
+    },
+  };
+};
+
+/**
+ * Reason a club cannot enter competitions, if any
+ * @param {number} clubId - Club ID to check
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<string|null>} Human readable reason, or null when the club is affiliated
+ */
+const getAffiliationProblem = async (clubId, now = new Date()) => {
+  const { active, expiryInfo } = await checkAffiliationExpiry(clubId, now);
+  if (active) return null;
+  if (!expiryInfo) return "This club has no affiliation on record.";
+  if (expiryInfo.notStarted) {
+    return "This club's affiliation has not started yet.";
+  }
+  return `This club's affiliation expired on ${expiryInfo.expiryDate.toLocaleDateString()}. Renew it before entering competitions.`;
+};
+
+/**
+ * Prisma filter for clubs by affiliation state
+ * @param {string} state - "active", "expiring" (active but within the reminder window) or "expired"
+ * @param {Date} [now] - Reference time
+ * @returns {Object|undefined} Club where clause, or undefined for an unknown state
+ */
+const affiliationStateWhere = (state, now = new Date()) => {
+  const inForce = {
+    status: { not: AFFILIATION_STATUS.REVOKED },
+    startDate: { lte: now },
+    expiryDate: { gte: now },
+  };
+  const reminderLimit = new Date(now.getTime() + getReminderDays() * DAY_MS);
+
+  switch (state) {
+    case "active":
+      return { affiliations: { some: inForce } };
+    case "expiring":
+      // In force now, and not renewed beyond the reminder window
+      return {
+        AND: [
+          { affiliations: { some: inForce } },
+          {
+            affiliations: {
+              none: {
+                status: { not: AFFILIATION_STATUS.REVOKED },
+                expiryDate: { gt: reminderLimit },
+              },
+            },
+          },
+        ],
+      };
+    case "expired":
+      return { affiliations: { none: inForce } };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Mark every active affiliation whose expiry date has passed as expired
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<number>} Number of affiliations expired
+ */
+const expireAffiliations = async (now = new Date()) => {
+  const result = await prisma.clubAffiliation.updateMany({
+    where: { status: AFFILIATION_STATUS.ACTIVE, expiryDate: { lt: now } },
+    data: { status: AFFILIATION_STATUS.EXPIRED },
+  });
+  return result.count;
+};
+
+/**
+ * Email clubs whose affiliation expires within the reminder window and has not
+ * been renewed yet. Each affiliation is reminded about once.
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<number>} Number of reminders sent
+ */
+const sendExpiryReminders = async (now = new Date()) => {
+  const reminderLimit = new Date(now.getTime() + getReminderDays() * DAY_MS);
+
+  const expiring = await prisma.clubAffiliation.findMany({
+    where: {
+      status: AFFILIATION_STATUS.ACTIVE,
+      reminderSentAt: null,
+      expiryDate: { gte: now, lte: reminderLimit },
+    },
+    include: { club: { select: { id: true, clubName: true, email: true, affiliationNumber: true } } },
+  });
+
+  let sent = 0;
+  for (const affiliation of expiring) {
+    // Clubs that have already renewed need no reminder
+    const renewal = await prisma.clubAffiliation.findFirst({
+      where: {
+        clubId: affiliation.clubId,
+        status: { not: AFFILIATION_STATUS.REVOKED },
+        expiryDate: { gt: affiliation.expiryDate },
+      },
+    });
+
+    if (!renewal) {
+      try {
+        await sendEmail(
+          affiliation.club.email,
+          `Your affiliation expires on ${affiliation.expiryDate.toLocaleDateString()}`,
+          "affiliationReminder",
+          {
+            appName: config.appName,
+            clubName: affiliation.club.clubName,
+            affiliationNumber: affiliation.club.affiliationNumber,
+            expiryDate: affiliation.expiryDate.toLocaleDateString(),
+            daysRemaining: Math.ceil((affiliation.expiryDate.getTime() - now.getTime()) / DAY_MS),
+          }
+        );
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send affiliation reminder to club ${affiliation.clubId}:`, error);
+        continue;
+      }
+    }
+
+    await prisma.clubAffiliation.update({
+      where: { id: affiliation.id },
+      data: { reminderSentAt: now },
+    });
+  }
+
+  return sent;
+};
+
+module.exports = {
+  AFFILIATION_STATUS,
+  getReminderDays,
+  checkAffiliationExpiry,
+  getAffiliationProblem,
+  affiliationStateWhere,
+  expireAffiliations,
+  sendExpiryReminders,
+};
@@ -0,0 +1,91 @@
+const prisma = require("../config/db");
+
+const MIXED_GENDER = "Mix";
+
+/**
+ * Calculate a person's age in completed years on a given date
+ * @param {Date|string} dateOfBirth - Date of birth
+ * @param {Date|string} onDate - Date the age is measured on
+ * @returns {number} Age in whole years
+ */
+const getAgeOn = (dateOfBirth, onDate) => {
+  const dob = new Date(dateOfBirth);
+  const on = new Date(onDate);
+
+  // Dates are stored at UTC midnight; local getters would shift them a day west of UTC
+  let age = on.getUTCFullYear() - dob.getUTCFullYear();
+  const hadBirthday =
+    on.getUTCMonth() > dob.getUTCMonth() ||
+    (on.getUTCMonth() === dob.getUTCMonth() && on.getUTCDate() >= dob.getUTCDate());
+  if (!hadBirthday) {
+    age -= 1;
+  }
+
+  return age;
+};
+
+/**
+ * List the reasons a player does not satisfy a group's gender and age rule.
+ * A group without a maximum age only checks gender; a group without a cut-off
+ * date measures age on the reference date.
+ * @param {Object} player - Player (or player data) with dateOfBirth and gender
+ * @param {Object} group - Group with gender, maxAge and ageCutoffDate
+ * @param {Date} [now] - Reference date used when the group has no cut-off date
+ * @returns {string[]} Human readable reasons; empty when the player is eligible
+ */
+const getGroupIneligibilityReasons = (player, group, now = new Date()) => {
+  const reasons = [];
+
+  if (group.gender && group.gender !== MIXED_GENDER) {
+    if (!player.gender) {
+      reasons.push("Gender not recorded");
+    } else if (player.gender !== group.gender) {
+      reasons.push(`Group is for ${group.gender} players only`);
+    }
+  }
+
+  if (group.maxAge !== null && group.maxAge !== undefined && player.dateOfBirth) {
+    const cutoff = group.ageCutoffDate || now;
+    const age = getAgeOn(player.dateOfBirth, cutoff);
+    if (age > group.maxAge) {
+      reasons.push(`Over age (${age} on cut-off date, maximum ${group.maxAge})`);
+    }
+  }
+
+  return reasons;
+};
+
+/**
+ * Check a player against every group they are being connected to
+ * @param {Object} player - Player data with dateOfBirth and gender
+ * @param {Array<number|string>} groupIds - Groups the player should belong to
+ * @returns {Promise<string|null>} Error message, or null when the player is eligible for all groups
+ */
+const validatePlayerGroups = async (player, groupIds) => {
+  if (!groupIds || groupIds.length === 0) {
+    return null;
+  }
+
+  const groups = await prisma.group.findMany({
+    where: { id: { in: groupIds.map(Number) } },
+  });
+
+  const problems = groups
+    .map((group) => ({ group, reasons: getGroupIneligibilityReasons(player, group) }))
+    .filter(({ reasons }) => reasons.length > 0);
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  return problems
+    .map(({ group, reasons }) => `${group.groupName}: ${reasons.join(", ")}`)
+    .join("; ");
+};
+
+module.exports = {
+  MIXED_GENDER,
+  getAgeOn,
+  getGroupIneligibilityReasons,
+  validatePlayerGroups,
+};
@@ -0,0 +1,68 @@
+const prisma = require("../config/db");
+
+const CLUB_OFFICIAL_ROLE = {
+  COACH: "coach",
+  ASSISTANT_COACH: "assistant_coach",
+  MANAGER: "manager",
+  PHYSIO: "physio",
+};
+
+const CLUB_OFFICIAL_ROLE_LABELS = {
+  [CLUB_OFFICIAL_ROLE.COACH]: "Coach",
+  [CLUB_OFFICIAL_ROLE.ASSISTANT_COACH]: "Assistant Coach",
+  [CLUB_OFFICIAL_ROLE.MANAGER]: "Manager",
+  [CLUB_OFFICIAL_ROLE.PHYSIO]: "Physio",
+};
+
+// Roster roles that can be named for each position on a team entry
+const ENTRY_OFFICIAL_ROLES = {
+  coachId: {
+    label: "coach",
+    roles: [CLUB_OFFICIAL_ROLE.COACH, CLUB_OFFICIAL_ROLE.ASSISTANT_COACH],
+  },
+  managerId: {
+    label: "manager",
+    roles: [CLUB_OFFICIAL_ROLE.MANAGER],
+  },
+};
+
+const clubOfficialName = (official) => `${official.firstName} ${official.lastName}`;
+
+/**
+ * Validate the coach and manager named on a team entry
+ * @param {number} clubId - Club submitting the team
+ * @param {{ coachId?: number, managerId?: number }} officials - Selected club official IDs
+ * @returns {Promise<{field: string, message: string}|null>} First problem found, or null when both are valid
+ */
+const validateEntryOfficials = async (clubId, officials) => {
+  for (const [field, { label, roles }] of Object.entries(ENTRY_OFFICIAL_ROLES)) {
+    const id = officials[field];
+    if (!id) {
+      return { field, message: `Select the team's ${label}` };
+    }
+
+    const official = await prisma.clubOfficial.findUnique({ where: { id } });
+    if (!official || official.clubId !== clubId) {
+      return { field, message: `The selected ${label} is not an official of this club` };
+    }
+    if (!official.active) {
+      return { field, message: `${clubOfficialName(official)} is no longer an active club official` };
+    }
+    if (!roles.includes(official.role)) {
+      return {
+        field,
+        message: `${clubOfficialName(official)} is registered as ${CLUB_OFFICIAL_ROLE_LABELS[official.role] || official.role}, not as ${label}`,
+      };
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  CLUB_OFFICIAL_ROLE,
+  CLUB_OFFICIAL_ROLE_LABELS,
+  ENTRY_OFFICIAL_ROLES,
+  clubOfficialName,
+  validateEntryOfficials,
+};
@@ -0,0 +1,73 @@
+const prisma = require("../config/db");
+const { CLUBADMIN } = require("../config/roles");
+
+/**
+ * Check whether the user is restricted to a single club's data
+ * @param {Object} user - Authenticated user (req.user)
+ * @returns {boolean} True if the user is a club admin
+ */
+const isClubAdmin = (user) => Boolean(user && user.role === CLUBADMIN);
+
+/**
+ * Resolve the club a club admin belongs to.
+ * Falls back to matching the club by email for club admins created before users were linked to clubs.
+ * @param {Object} user - Authenticated user (req.user)
+ * @returns {Promise<number|null>} Club ID, or null if the user is not tied to a club
+ */
+const getUserClubId = async (user) => {
+  if (!isClubAdmin(user)) {
+    return null;
+  }
+
+  if (user.clubId) {
+    return user.clubId;
+  }
+
+  const club = await prisma.club.findFirst({
+    where: { email: user.email },
+    select: { id: true },
+  });
+
+  return club ? club.id : null;
+};
+
+/**
+ * Build the request principal for a club that signs in with its own credentials.
+ * Clubs are not users, so the principal carries no user id; it acts as a club admin
+ * pinned to its own club.
+ * @param {Object} club - Club record
+ * @returns {Object} Principal compatible with req.user
+ */
+const buildClubPrincipal = (club) => ({
+  id: null,
+  name: club.clubName,
+  email: club.email,
+  role: CLUBADMIN,
+  active: true,
+  lastLogin: club.lastLogin || null,
+  clubId: club.id,
+  isClub: true,
+});
+
+/**
+ * Build the club restriction for the current request.
+ * Admins are unrestricted (undefined); club admins are pinned to their own club.
+ * A club admin without a resolvable club gets -1 so that no records match.
+ * @param {Object} user - Authenticated user (req.user)
+ * @returns {Promise<number|undefined>} Club ID to restrict queries to
+ */
+const getClubScope = async (user) => {
+  if (!isClubAdmin(user)) {
+    return undefined;
+  }
+
+  const clubId = await getUserClubId(user);
+  return clubId || -1;
+};
+
+module.exports = {
+  isClubAdmin,
+  getUserClubId,
+  buildClubPrincipal,
+  getClubScope,
+};
@@ -0,0 +1,216 @@
+const prisma = require("../config/db");
+const { getGroupIneligibilityReasons } = require("./ageEligibilityService");
+const { activeSuspensionInclude, hasLegacySuspension } = require("./suspensionService");
+const { getRegistrationProblem } = require("./registrationService");
+const { coolingOffInclude, getCoolingOffProblem } = require("./transferService");
+
+const ENTRY_STATUS = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The moment a competition stops taking entries: the end of its last entry day.
+ * The form stores the picked day as the midnight it starts at, in the
+ * organiser's time zone, so the day ends 24 hours later.
+ * @param {Date} lastEntryDate - Competition.lastEntryDate
+ * @returns {Date|null} Closing time, or null if the competition has none
+ */
+const getEntryDeadline = (lastEntryDate) => {
+  if (!lastEntryDate) {
+    return null;
+  }
+
+  const lastDay = new Date(lastEntryDate);
+  return isNaN(lastDay.getTime()) ? null : new Date(lastDay.getTime() + DAY_MS - 1);
+};
+
+/**
+ * Check whether a competition still accepts entries
+ * @param {Object} competition - Competition record
+ * @param {Date} [now] - Reference time
+ * @returns {boolean} True if entries are open
+ */
+const isEntryWindowOpen = (competition, now = new Date()) => {
+  const deadline = getEntryDeadline(competition.lastEntryDate);
+  return !deadline || now <= deadline;
+};
+
+/**
+ * Date a group's age rule is measured on for this competition when the group
+ * has no cut-off date of its own: the competition start date, or today if it has none.
+ * @param {Object} competition - Competition record
+ * @returns {Date} Reference date
+ */
+const getAgeReferenceDate = (competition) =>
+  competition.startDate ? new Date(competition.startDate) : new Date();
+
+/**
+ * List the reasons a player's own status keeps them out of a club's teams:
+ * their season registration, an active suspension and a transfer cooling-off
+ * @param {Object} player - Player record loaded with playerStatusInclude
+ * @param {Object} context
+ * @param {number|null} context.clubId - Club the player would play for
+ * @param {number|null} [context.seasonId] - Season the player needs an active registration for
+ * @returns {string[]} Human readable reasons; empty when nothing stands in the way
+ */
+const getPlayerStatusProblems = (player, { clubId, seasonId }) => {
+  const reasons = [];
+  if (seasonId) {
+    const problem = getRegistrationProblem(
+      player.registrations?.find((registration) => registration.seasonId === seasonId)
+    );
+    if (problem) reasons.push(problem);
+  }
+  // isSuspended is only refreshed hourly, so it only counts for players without records
+  const suspension = player.suspensions?.[0];
+  if (suspension) {
+    reasons.push(
+      suspension.endDate
+        ? `Suspended until ${new Date(suspension.endDate).toISOString().slice(0, 10)}`
+        : "Suspended"
+    );
+  } else if (hasLegacySuspension(player)) {
+    reasons.push("Suspended");
+  }
+  const coolingOff = getCoolingOffProblem(player.transfers?.[0], clubId);
+  if (coolingOff) {
+    reasons.push(coolingOff);
+  }
+
+  return reasons;
+};
+
+// Player relations needed by getPlayerStatusProblems
+const playerStatusInclude = (seasonId) => ({
+  suspensions: activeSuspensionInclude(),
+  _count: { select: { suspensions: true } },
+  registrations: { where: { seasonId: seasonId || undefined } },
+  transfers: coolingOffInclude(),
+});
+
+/**
+ * List the reasons a player cannot be entered in a team
+ * @param {Object} player - Player record including its groups
+ * @param {Object} context - Entry being built
+ * @param {Object} context.group - Competition group the team is entered in
+ * @param {number} context.clubId - Club submitting the team
+ * @param {Date} context.referenceDate - Date ages are measured on when the group has no cut-off
+ * @param {number|null} [context.seasonId] - Season of the competition; players need an active registration for it
+ * @returns {string[]} Human readable reasons; empty when the player is eligible
+ */
+const getIneligibilityReasons = (player, { group, clubId, referenceDate, seasonId }) => {
+  const reasons = [];
+
+  if (player.clubId !== clubId) {
+    reasons.push("Not registered with this club");
+  }
+  if (!player.groups.some((playerGroup) => playerGroup.id === group.id)) {
+    reasons.push("Not a member of this group");
+  }
+  reasons.push(...getGroupIneligibilityReasons(player, group, referenceDate));
+  reasons.push(...getPlayerStatusProblems(player, { clubId, seasonId }));
+
+  return reasons;
+};
+
+// Player relations needed to check entry eligibility for a competition
+const eligibilityInclude = (competition) => ({
+  groups: true,
+  ...playerStatusInclude(competition.seasonId),
+});
+
+/**
+ * Load a club's roster annotated with eligibility for a competition group
+ * @param {Object} competition - Competition record
+ * @param {Object} context - Entry being built
+ * @param {number} context.groupId - Competition group the team is entered in
+ * @param {number} context.clubId - Club submitting the team
+ * @returns {Promise<Object[]>} Players with `eligible` and `reasons` fields
+ */
+const getClubPlayersWithEligibility = async (competition, { groupId, clubId }) => {
+  const [group, players] = await Promise.all([
+    prisma.group.findUnique({ where: { id: groupId } }),
+    prisma.player.findMany({
+      where: { clubId },
+      include: eligibilityInclude(competition),
+      orderBy: { firstName: "asc" },
+    }),
+  ]);
+  const referenceDate = getAgeReferenceDate(competition);
+
+  return players.map((player) => {
+    const reasons = getIneligibilityReasons(player, {
+      group,
+      clubId,
+      referenceDate,
+      seasonId: competition.seasonId,
+    });
+    return { ...player, eligible: reasons.length === 0, reasons };
+  });
+};
+
+/**
+ * Validate the players picked for a team entry
+ * @param {Object} competition - Competition record
+ * @param {Object} context - Entry being built
+ * @param {number} context.groupId - Competition group the team is entered in
+ * @param {number} context.clubId - Club submitting the team
+ * @param {number[]} context.playerIds - Selected player IDs
+ * @returns {Promise<string|null>} Error message, or null when the selection is valid
+ */
+const validateEntryPlayers = async (competition, { groupId, clubId, playerIds }) => {
+  const uniqueIds = [...new Set(playerIds)];
+
+  if (uniqueIds.length > competition.maxPlayers) {
+    return `A team can have at most ${competition.maxPlayers} players.`;
+  }
+
+  const [group, players] = await Promise.all([
+    prisma.group.findUnique({ where: { id: groupId } }),
+    prisma.player.findMany({
+      where: { id: { in: uniqueIds } },
+      include: eligibilityInclude(competition),
+    }),
+  ]);
+  const referenceDate = getAgeReferenceDate(competition);
+
+  if (players.length !== uniqueIds.length) {
+    return "One or more selected players do not exist.";
+  }
+
+  const ineligible = players
+    .map((player) => ({
+      player,
+      reasons: getIneligibilityReasons(player, {
+        group,
+        clubId,
+        referenceDate,
+        seasonId: competition.seasonId,
+      }),
+    }))
+    .filter(({ reasons }) => reasons.length > 0);
+
+  if (ineligible.length > 0) {
+    return ineligible
+      .map(({ player, reasons }) => `${player.firstName} ${player.lastName}: ${reasons.join(", ")}`)
+      .join("; ");
+  }
+
+  return null;
+};
+
+module.exports = {
+  ENTRY_STATUS,
+  getEntryDeadline,
+  isEntryWindowOpen,
+  getAgeReferenceDate,
+  getPlayerStatusProblems,
+  playerStatusInclude,
+  getIneligibilityReasons,
+  getClubPlayersWithEligibility,
+  validateEntryPlayers,
+};
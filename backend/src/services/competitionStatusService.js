@@ -0,0 +1,138 @@
+const prisma = require("../config/db");
+const { MATCH_STATUS } = require("./matchService");
+const { ENTRY_STATUS, getEntryDeadline } = require("./competitionEntryService");
+
+const COMPETITION_STATUS = {
+  DRAFT: "draft",
+  OPEN_FOR_ENTRIES: "open_for_entries",
+  ENTRIES_CLOSED: "entries_closed",
+  IN_PROGRESS: "in_progress",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled",
+};
+
+const COMPETITION_STATUS_LABELS = {
+  [COMPETITION_STATUS.DRAFT]: "Draft",
+  [COMPETITION_STATUS.OPEN_FOR_ENTRIES]: "Open for entries",
+  [COMPETITION_STATUS.ENTRIES_CLOSED]: "Entries closed",
+  [COMPETITION_STATUS.IN_PROGRESS]: "In progress",
+  [COMPETITION_STATUS.COMPLETED]: "Completed",
+  [COMPETITION_STATUS.CANCELLED]: "Cancelled",
+};
+
+// Statuses a competition may move to from each status; completed and cancelled are final
+const COMPETITION_TRANSITIONS = {
+  [COMPETITION_STATUS.DRAFT]: [COMPETITION_STATUS.OPEN_FOR_ENTRIES, COMPETITION_STATUS.CANCELLED],
+  [COMPETITION_STATUS.OPEN_FOR_ENTRIES]: [
+    COMPETITION_STATUS.DRAFT,
+    COMPETITION_STATUS.ENTRIES_CLOSED,
+    COMPETITION_STATUS.CANCELLED,
+  ],
+  [COMPETITION_STATUS.ENTRIES_CLOSED]: [
+    COMPETITION_STATUS.OPEN_FOR_ENTRIES,
+    COMPETITION_STATUS.IN_PROGRESS,
+    COMPETITION_STATUS.CANCELLED,
+  ],
+  [COMPETITION_STATUS.IN_PROGRESS]: [COMPETITION_STATUS.COMPLETED, COMPETITION_STATUS.CANCELLED],
+  [COMPETITION_STATUS.COMPLETED]: [],
+  [COMPETITION_STATUS.CANCELLED]: [],
+};
+
+// Fields that shape the draw and the teams; they cannot change once play has started
+const LOCKED_FIELDS = ["maxPlayers", "startDate", "endDate", "lastEntryDate", "groups", "seasonId"];
+
+const STARTED_STATUSES = [COMPETITION_STATUS.IN_PROGRESS, COMPETITION_STATUS.COMPLETED];
+
+const hasStarted = (competition) => STARTED_STATUSES.includes(competition.status);
+
+/**
+ * List the statuses a competition can move to next
+ * @param {Object} competition - Competition record
+ * @returns {string[]} Allowed target statuses
+ */
+const getAllowedTransitions = (competition) => COMPETITION_TRANSITIONS[competition.status] || [];
+
+/**
+ * Check the guards for moving a competition to another status
+ * @param {Object} competition - Competition record
+ * @param {string} status - Target status
+ * @param {Object} [options]
+ * @param {boolean} [options.force] - Close entries before the last entry date
+ * @param {Date} [options.now] - Reference time
+ * @returns {Promise<string|null>} Reason the transition is refused, or null when it is allowed
+ */
+const getTransitionBlocker = async (competition, status, { force = false, now = new Date() } = {}) => {
+  if (!getAllowedTransitions(competition).includes(status)) {
+    const from = COMPETITION_STATUS_LABELS[competition.status] || competition.status;
+    return `A competition cannot move from "${from}" to "${COMPETITION_STATUS_LABELS[status]}".`;
+  }
+
+  if (status === COMPETITION_STATUS.ENTRIES_CLOSED && !force) {
+    const deadline = getEntryDeadline(competition.lastEntryDate);
+    if (deadline && now <= deadline) {
+      return `Entries are open until ${deadline.toLocaleString()}. Force the transition to close them early.`;
+    }
+  }
+
+  if (status === COMPETITION_STATUS.IN_PROGRESS) {
+    const pendingEntries = await prisma.competitionEntry.count({
+      where: { competitionId: competition.id, status: ENTRY_STATUS.PENDING },
+    });
+    if (pendingEntries > 0) {
+      return `Review the ${pendingEntries} pending ${pendingEntries === 1 ? "entry" : "entries"} before starting the competition.`;
+    }
+  }
+
+  // Every fixture that is not a bye needs a finished match
+  if (status === COMPETITION_STATUS.COMPLETED) {
+    const pendingFixtures = await prisma.fixture.count({
+      where: {
+        competitionId: competition.id,
+        isBye: false,
+        OR: [
+          { match: { is: null } },
+          { match: { status: { in: [MATCH_STATUS.SCHEDULED, MATCH_STATUS.LIVE] } } },
+        ],
+      },
+    });
+    if (pendingFixtures > 0) {
+      return `${pendingFixtures} ${pendingFixtures === 1 ? "match is" : "matches are"} still to be played.`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Find locked fields an update would change on a competition that has started
+ * @param {Object} competition - Competition record including its groups
+ * @param {Object} data - Validated update fields
+ * @returns {string[]} Names of the locked fields being changed
+ */
+const getLockedFieldChanges = (competition, data) => {
+  if (!hasStarted(competition)) return [];
+
+  return LOCKED_FIELDS.filter((field) => {
+    if (data[field] === undefined) return false;
+    if (field === "groups") {
+      const current = competition.groups.map((group) => group.id.toString()).sort();
+      const next = [...new Set(data.groups)].sort();
+      return current.join(",") !== next.join(",");
+    }
+    if (data[field] instanceof Date) {
+      return data[field].getTime() !== new Date(competition[field]).getTime();
+    }
+    return data[field] !== competition[field];
+  });
+};
+
+module.exports = {
+  COMPETITION_STATUS,
+  COMPETITION_STATUS_LABELS,
+  COMPETITION_TRANSITIONS,
+  LOCKED_FIELDS,
+  hasStarted,
+  getAllowedTransitions,
+  getTransitionBlocker,
+  getLockedFieldChanges,
+};
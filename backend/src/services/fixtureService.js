@@ -0,0 +1,321 @@
+const prisma = require("../config/db");
+const { ENTRY_STATUS } = require("./competitionEntryService");
+
+const FIXTURE_FORMAT = {
+  KNOCKOUT: "knockout",
+  LEAGUE: "league",
+};
+
+const FIXTURE_SLOT = {
+  HOME: "home",
+  AWAY: "away",
+};
+
+const slotField = (slot) => (slot === FIXTURE_SLOT.HOME ? "homeEntryId" : "awayEntryId");
+
+// Randomise the order of unseeded teams so each draw is different
+const shuffle = (items) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Order teams for the draw: seeded entries first in the order given, then the
+ * remaining teams in random order.
+ * @param {number[]} entryIds - Approved entries in the group
+ * @param {number[]} [seedEntryIds] - Entries to seed, strongest first
+ * @returns {number[]} Entry ids in seed order
+ */
+const orderBySeed = (entryIds, seedEntryIds = []) => {
+  const seeded = [...new Set(seedEntryIds)].filter((id) => entryIds.includes(id));
+  const unseeded = entryIds.filter((id) => !seeded.includes(id));
+  return [...seeded, ...shuffle(unseeded)];
+};
+
+// Bracket position of each seed so that the top seeds can only meet in the
+// later rounds, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for eight places
+const getSeedPositions = (size) => {
+  let positions = [1];
+  while (positions.length < size) {
+    const total = positions.length * 2 + 1;
+    positions = positions.flatMap((seed) => [seed, total - seed]);
+  }
+  return positions;
+};
+
+/**
+ * Build a single-elimination bracket. The bracket is padded to the next power
+ * of two and the padding becomes byes for the top seeds, whose teams are
+ * placed straight into their second-round fixture.
+ * @param {number[]} seededEntryIds - Entry ids in seed order
+ * @returns {Object[]} Fixtures with round, matchNumber, entries and the index of the fixture the winner plays next
+ */
+const buildKnockoutBracket = (seededEntryIds) => {
+  let size = 2;
+  while (size < seededEntryIds.length) size *= 2;
+
+  const places = getSeedPositions(size).map((seed) => seededEntryIds[seed - 1] || null);
+  const fixtures = [];
+  let previousRound = [];
+
+  for (let round = 1, matches = size / 2; matches >= 1; round++, matches /= 2) {
+    const currentRound = [];
+    for (let matchNumber = 1; matchNumber <= matches; matchNumber++) {
+      const fixture = {
+        round,
+        matchNumber,
+        homeEntryId: round === 1 ? places[(matchNumber - 1) * 2] : null,
+        awayEntryId: round === 1 ? places[(matchNumber - 1) * 2 + 1] : null,
+        isBye: false,
+        next: null,
+        nextSlot: null,
+      };
+      if (round === 1 && (!fixture.homeEntryId || !fixture.awayEntryId)) {
+        fixture.isBye = true;
+        fixture.homeEntryId = fixture.homeEntryId || fixture.awayEntryId;
+        fixture.awayEntryId = null;
+      }
+      currentRound.push(fixtures.length);
+      fixtures.push(fixture);
+    }
+
+    // Winners of fixtures 1 and 2 meet in fixture 1 of the next round, and so on
+    previousRound.forEach((index, position) => {
+      fixtures[index].next = currentRound[Math.floor(position / 2)];
+      fixtures[index].nextSlot = position % 2 === 0 ? FIXTURE_SLOT.HOME : FIXTURE_SLOT.AWAY;
+    });
+    previousRound = currentRound;
+  }
+
+  // Teams with a bye go straight through
+  fixtures
+    .filter((fixture) => fixture.isBye && fixture.next !== null)
+    .forEach((fixture) => {
+      fixtures[fixture.next][slotField(fixture.nextSlot)] = fixture.homeEntryId;
+    });
+
+  return fixtures;
+};
+
+/**
+ * Build a round-robin league schedule with the circle method, so every team
+ * plays once per round. With an odd number of teams one team rests each round.
+ * @param {number[]} seededEntryIds - Entry ids in draw order
+ * @param {Object} [options]
+ * @param {boolean} [options.doubleRoundRobin] - Play every pairing home and away
+ * @returns {Object[]} Fixtures with round, matchNumber and entries
+ */
+const buildRoundRobin = (seededEntryIds, { doubleRoundRobin = false } = {}) => {
+  let teams = [...seededEntryIds];
+  if (teams.length % 2 === 1) teams.push(null);
+
+  const roundsPerLeg = teams.length - 1;
+  const half = teams.length / 2;
+  const fixtures = [];
+
+  for (let round = 1; round <= roundsPerLeg; round++) {
+    let matchNumber = 1;
+    for (let i = 0; i < half; i++) {
+      let home = teams[i];
+      let away = teams[teams.length - 1 - i];
+      if (!home || !away) continue;
+      // The fixed team alternates between home and away
+      if (i === 0 && round % 2 === 0) [home, away] = [away, home];
+      fixtures.push({ round, matchNumber: matchNumber++, homeEntryId: home, awayEntryId: away });
+    }
+    teams = [teams[0], teams[teams.length - 1], ...teams.slice(1, teams.length - 1)];
+  }
+
+  if (doubleRoundRobin) {
+    fixtures.slice().forEach((fixture) => {
+      fixtures.push({
+        round: fixture.round + roundsPerLeg,
+        matchNumber: fixture.matchNumber,
+        homeEntryId: fixture.awayEntryId,
+        awayEntryId: fixture.homeEntryId,
+      });
+    });
+  }
+
+  return fixtures.map((fixture) => ({ ...fixture, isBye: false, next: null, nextSlot: null }));
+};
+
+/**
+ * Approved entries of a competition group, the teams fixtures are drawn from
+ * @param {number} competitionId - Competition ID
+ * @param {number} groupId - Group ID
+ * @returns {Promise<number[]>} Entry ids
+ */
+const getApprovedEntryIds = async (competitionId, groupId) => {
+  const entries = await prisma.competitionEntry.findMany({
+    where: { competitionId, groupId, status: ENTRY_STATUS.APPROVED },
+    select: { id: true },
+  });
+  return entries.map((entry) => entry.id);
+};
+
+/**
+ * Replace the draft fixtures of a competition group with a new draw
+ * @param {Object} params
+ * @param {number} params.competitionId - Competition ID
+ * @param {number} params.groupId - Group ID
+ * @param {string} params.format - FIXTURE_FORMAT value
+ * @param {number[]} params.entryIds - Approved entries to draw
+ * @param {number[]} [params.seedEntryIds] - Seeded entries, strongest first
+ * @param {boolean} [params.doubleRoundRobin] - League only: home and away legs
+ * @returns {Promise<void>}
+ */
+const generateFixtures = async ({
+  competitionId,
+  groupId,
+  format,
+  entryIds,
+  seedEntryIds,
+  doubleRoundRobin,
+}) => {
+  const drawOrder = orderBySeed(entryIds, seedEntryIds);
+  const planned =
+    format === FIXTURE_FORMAT.KNOCKOUT
+      ? buildKnockoutBracket(drawOrder)
+      : buildRoundRobin(drawOrder, { doubleRoundRobin });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.fixture.deleteMany({ where: { competitionId, groupId } });
+
+    // Later rounds are created first so earlier fixtures can point at them
+    const ids = new Array(planned.length);
+    for (let index = planned.length - 1; index >= 0; index--) {
+      const fixture = planned[index];
+      const created = await tx.fixture.create({
+        data: {
+          competitionId,
+          groupId,
+          format,
+          round: fixture.round,
+          matchNumber: fixture.matchNumber,
+          homeEntryId: fixture.homeEntryId,
+          awayEntryId: fixture.awayEntryId,
+          isBye: fixture.isBye,
+          nextFixtureId: fixture.next !== null ? ids[fixture.next] : null,
+          nextSlot: fixture.nextSlot,
+        },
+      });
+      ids[index] = created.id;
+    }
+  });
+};
+
+// Key for an unordered pairing of two entries
+const pairingKey = (a, b) => [a, b].sort((x, y) => x - y).join("-");
+
+// Most times any two teams meet in a set of league fixtures
+const getMaxMeetings = (fixtures) => {
+  const counts = {};
+  fixtures.forEach((fixture) => {
+    const key = pairingKey(fixture.homeEntryId, fixture.awayEntryId);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return Math.max(0, ...Object.values(counts));
+};
+
+/**
+ * Check and apply a manual swap of two team slots in a draft draw.
+ * Knockout swaps are limited to the first round, and a team moved into or out
+ * of a bye carries the bye's progression with it. League swaps are limited to
+ * a single round and must not make two teams meet more often than the draw does.
+ * @param {Object[]} fixtures - All fixtures of the competition group
+ * @param {Object} swap - fixtureId, slot, withFixtureId, withSlot
+ * @returns {{error?: string, updates?: Object[]}} Fixture updates to save, or the reason the swap is not allowed
+ */
+const planSwap = (fixtures, { fixtureId, slot, withFixtureId, withSlot }) => {
+  const byId = new Map(fixtures.map((fixture) => [fixture.id, { ...fixture }]));
+  const first = byId.get(fixtureId);
+  const second = byId.get(withFixtureId);
+  if (!first || !second) {
+    return { error: "Fixture not found in this group" };
+  }
+  if (first.id === second.id && slot === withSlot) {
+    return { error: "Choose two different places to swap" };
+  }
+  if (first.round !== second.round) {
+    return { error: "Teams can only be swapped between fixtures in the same round" };
+  }
+  if (first.format === FIXTURE_FORMAT.KNOCKOUT && first.round !== 1) {
+    return { error: "Only first-round pairings can be swapped" };
+  }
+
+  const firstTeam = first[slotField(slot)];
+  first[slotField(slot)] = second[slotField(withSlot)];
+  second[slotField(withSlot)] = firstTeam;
+
+  const changed = first.id === second.id ? [first] : [first, second];
+  for (const fixture of changed) {
+    if (fixture.homeEntryId && fixture.homeEntryId === fixture.awayEntryId) {
+      return { error: "A team cannot play itself" };
+    }
+  }
+
+  if (first.format === FIXTURE_FORMAT.LEAGUE) {
+    if (changed.some((fixture) => !fixture.homeEntryId || !fixture.awayEntryId)) {
+      return { error: "League fixtures need two teams" };
+    }
+    if (getMaxMeetings([...byId.values()]) > getMaxMeetings(fixtures)) {
+      return { error: "This swap would make two teams meet more often than the rest of the league" };
+    }
+    return { updates: changed };
+  }
+
+  // Knockout: a fixture with one team is a bye and that team goes through
+  const updates = [...changed];
+  for (const fixture of changed) {
+    if (!fixture.homeEntryId && !fixture.awayEntryId) {
+      return { error: "A fixture cannot be left without teams" };
+    }
+    fixture.isBye = !fixture.homeEntryId || !fixture.awayEntryId;
+    if (fixture.isBye) {
+      fixture.homeEntryId = fixture.homeEntryId || fixture.awayEntryId;
+      fixture.awayEntryId = null;
+    }
+
+    const next = fixture.nextFixtureId ? byId.get(fixture.nextFixtureId) : null;
+    if (next) {
+      next[slotField(fixture.nextSlot)] = fixture.isBye ? fixture.homeEntryId : null;
+      if (!updates.includes(next)) updates.push(next);
+    }
+  }
+  return { updates };
+};
+
+/**
+ * Save the fixtures changed by a swap
+ * @param {Object[]} updates - Fixtures returned by planSwap
+ * @returns {Promise<Object[]>} The updated fixtures
+ */
+const applySwap = (updates) =>
+  prisma.$transaction(
+    updates.map((fixture) =>
+      prisma.fixture.update({
+        where: { id: fixture.id },
+        data: {
+          homeEntryId: fixture.homeEntryId,
+          awayEntryId: fixture.awayEntryId,
+          isBye: fixture.isBye,
+        },
+      })
+    )
+  );
+
+module.exports = {
+  FIXTURE_FORMAT,
+  FIXTURE_SLOT,
+  buildKnockoutBracket,
+  buildRoundRobin,
+  getApprovedEntryIds,
+  generateFixtures,
+  planSwap,
+  applySwap,
+};
@@ -0,0 +1,212 @@
+const path = require("path");
+const fs = require("fs").promises;
+const PDFDocument = require("pdfkit");
+const QRCode = require("qrcode");
+const config = require("../config/config");
+
+const UPLOAD_DIR = "uploads";
+
+// ISO/IEC 7810 ID-1 (credit card) size in points
+const CARD_WIDTH = 242.65;
+const CARD_HEIGHT = 153;
+
+// Bulk sheets lay cards out on A4 with room to cut around each one
+const SHEET_MARGIN = 24;
+const SHEET_COLUMNS = 2;
+const SHEET_ROWS = 5;
+const SHEET_GAP_X = 595.28 - SHEET_MARGIN * 2 - CARD_WIDTH * SHEET_COLUMNS;
+const SHEET_GAP_Y = (841.89 - SHEET_MARGIN * 2 - CARD_HEIGHT * SHEET_ROWS) / (SHEET_ROWS - 1);
+
+const HEADER_HEIGHT = 24;
+const PHOTO_WIDTH = 58;
+const PHOTO_HEIGHT = 72;
+const QR_SIZE = 58;
+
+// Player fields needed to print a card
+const idCardPlayerSelect = {
+  id: true,
+  uniqueIdNumber: true,
+  firstName: true,
+  middleName: true,
+  lastName: true,
+  dateOfBirth: true,
+  profileImage: true,
+  club: { select: { clubName: true } },
+  groups: { select: { groupName: true } },
+};
+
+/**
+ * Public page a scanned card opens to confirm the player's eligibility
+ * @param {string} uniqueIdNumber - Player's unique ID
+ * @returns {string} Absolute verification URL
+ */
+const getVerificationUrl = (uniqueIdNumber) => {
+  const baseUrl = /^https?:\/\//.test(config.frontendUrl)
+    ? config.frontendUrl
+    : `http://${config.frontendUrl}`;
+  return `${baseUrl.replace(/\/$/, "")}/verify/${encodeURIComponent(uniqueIdNumber)}`;
+};
+
+// pdfkit can only embed JPEG and PNG; other photos fall back to initials
+const loadPhoto = async (storedPath) => {
+  if (!storedPath || !/\.(jpe?g|png)$/i.test(storedPath)) {
+    return null;
+  }
+  try {
+    return await fs.readFile(path.join(UPLOAD_DIR, storedPath));
+  } catch (error) {
+    console.error(`Failed to read player photo ${storedPath}:`, error);
+    return null;
+  }
+};
+
+const formatDate = (date) => new Date(date).toISOString().split("T")[0];
+
+// Draw a single card with its top-left corner at (x, y)
+const drawCard = async (doc, player, x, y) => {
+  const [photo, qrCode] = await Promise.all([
+    loadPhoto(player.profileImage),
+    QRCode.toBuffer(getVerificationUrl(player.uniqueIdNumber), { margin: 0, width: 240 }),
+  ]);
+
+  // Border and header band
+  doc.save();
+  doc.roundedRect(x, y, CARD_WIDTH, CARD_HEIGHT, 8).clip();
+  doc.rect(x, y, CARD_WIDTH, HEADER_HEIGHT).fill("#1e3a8a");
+  doc.restore();
+  doc.roundedRect(x, y, CARD_WIDTH, CARD_HEIGHT, 8).lineWidth(0.75).stroke("#9ca3af");
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(9)
+    .fillColor("#ffffff")
+    .text(config.appName.toUpperCase(), x + 8, y + 5, { width: CARD_WIDTH - 16, lineBreak: false })
+    .font("Helvetica")
+    .fontSize(6)
+    .text("PLAYER IDENTITY CARD", x + 8, y + 15, { width: CARD_WIDTH - 16, lineBreak: false });
+
+  // Photo, or initials when no printable photo is on file
+  const photoX = x + 8;
+  const photoY = y + HEADER_HEIGHT + 8;
+  if (photo) {
+    doc.image(photo, photoX, photoY, {
+      fit: [PHOTO_WIDTH, PHOTO_HEIGHT],
+      align: "center",
+      valign: "center",
+    });
+  } else {
+    doc.save().rect(photoX, photoY, PHOTO_WIDTH, PHOTO_HEIGHT).fill("#e5e7eb").restore();
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(20)
+      .fillColor("#6b7280")
+      .text(
+        `${player.firstName.charAt(0)}${player.lastName.charAt(0)}`.toUpperCase(),
+        photoX,
+        photoY + PHOTO_HEIGHT / 2 - 10,
+        { width: PHOTO_WIDTH, align: "center", lineBreak: false }
+      );
+  }
+  doc.rect(photoX, photoY, PHOTO_WIDTH, PHOTO_HEIGHT).lineWidth(0.5).stroke("#9ca3af");
+
+  // Details
+  const detailsX = photoX + PHOTO_WIDTH + 8;
+  const detailsWidth = CARD_WIDTH - (detailsX - x) - QR_SIZE - 16;
+  const name = [player.firstName, player.middleName, player.lastName].filter(Boolean).join(" ");
+  const fields = [
+    ["DOB", formatDate(player.dateOfBirth)],
+    ["Club", player.club ? player.club.clubName : "-"],
+    ["Groups", player.groups.map((group) => group.groupName).join(", ") || "-"],
+  ];
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(9)
+    .fillColor("#111827")
+    .text(name, detailsX, photoY, { width: detailsWidth, height: 22, ellipsis: true });
+
+  let lineY = photoY + 24;
+  fields.forEach(([label, value]) => {
+    doc.font("Helvetica").fontSize(5.5).fillColor("#6b7280").text(label.toUpperCase(), detailsX, lineY, {
+      width: detailsWidth,
+      lineBreak: false,
+    });
+    doc.font("Helvetica").fontSize(7).fillColor("#111827").text(value, detailsX, lineY + 6, {
+      width: detailsWidth,
+      height: 9,
+      ellipsis: true,
+    });
+    lineY += 17;
+  });
+
+  // QR code linking to the public verification page
+  const qrX = x + CARD_WIDTH - QR_SIZE - 8;
+  doc.image(qrCode, qrX, photoY, { width: QR_SIZE, height: QR_SIZE });
+  doc
+    .font("Helvetica")
+    .fontSize(5)
+    .fillColor("#6b7280")
+    .text("Scan to verify", qrX, photoY + QR_SIZE + 3, { width: QR_SIZE, align: "center", lineBreak: false });
+
+  // Unique ID along the bottom edge
+  doc
+    .font("Courier-Bold")
+    .fontSize(8)
+    .fillColor("#111827")
+    .text(player.uniqueIdNumber, x + 8, y + CARD_HEIGHT - 16, {
+      width: CARD_WIDTH - 16,
+      align: "center",
+      lineBreak: false,
+    });
+};
+
+/**
+ * Stream a PDF containing one ID card per player.
+ * The "card" layout prints each card on its own card-sized page; the "sheet"
+ * layout fits ten cards to an A4 page for printing and cutting.
+ * @param {Object[]} players - Players loaded with idCardPlayerSelect
+ * @param {import("stream").Writable} output - Stream the PDF is written to (e.g. res)
+ * @param {"card"|"sheet"} [layout] - Page layout
+ * @returns {Promise<void>}
+ */
+const writeIdCards = async (players, output, layout = "card") => {
+  const cardPages = layout === "card";
+  const doc = new PDFDocument({
+    size: cardPages ? [CARD_WIDTH, CARD_HEIGHT] : "A4",
+    margin: 0,
+    autoFirstPage: false,
+    info: {
+      Title: players.length === 1 ? `ID Card ${players[0].uniqueIdNumber}` : "Player ID Cards",
+    },
+  });
+  doc.pipe(output);
+
+  const perSheet = SHEET_COLUMNS * SHEET_ROWS;
+  for (let index = 0; index < players.length; index++) {
+    if (cardPages) {
+      doc.addPage();
+      await drawCard(doc, players[index], 0, 0);
+      continue;
+    }
+
+    const slot = index % perSheet;
+    if (slot === 0) {
+      doc.addPage();
+    }
+    const column = slot % SHEET_COLUMNS;
+    const row = Math.floor(slot / SHEET_COLUMNS);
+    await drawCard(
+      doc,
+      players[index],
+      SHEET_MARGIN + column * (CARD_WIDTH + SHEET_GAP_X),
+      SHEET_MARGIN + row * (CARD_HEIGHT + SHEET_GAP_Y)
+    );
+  }
+
+  doc.end();
+};
+
+module.exports = {
+  idCardPlayerSelect,
+  getVerificationUrl,
+  writeIdCards,
+};
@@ -0,0 +1,116 @@
+const prisma = require("../config/db");
+const { SCORE_CATEGORIES, toScoreFields } = require("./matchService");
+
+const EVENT_TYPE = {
+  RAID: "raid",
+  UNDO: "undo",
+};
+
+const RAID_OUTCOME = {
+  // Raider touched defenders or the bonus line and got back
+  SUCCESSFUL: "successful",
+  // Raider was tackled or went out
+  UNSUCCESSFUL: "unsuccessful",
+  // Raider returned without scoring
+  EMPTY: "empty",
+};
+
+const MATCH_SIDE = {
+  HOME: "home",
+  AWAY: "away",
+};
+
+// Points for inflicting an all-out on the opposing team
+const ALL_OUT_POINTS = 2;
+
+const otherSide = (side) => (side === MATCH_SIDE.HOME ? MATCH_SIDE.AWAY : MATCH_SIDE.HOME);
+
+const emptyBreakdown = () => Object.fromEntries(SCORE_CATEGORIES.map((category) => [category, 0]));
+
+/**
+ * Raids that still count: every raid that has not been cancelled by an undo event
+ * @param {Object[]} events - Match events in any order
+ * @returns {Object[]} Raid events in sequence order
+ */
+const getActiveRaids = (events) => {
+  const undone = new Set(
+    events.filter((event) => event.type === EVENT_TYPE.UNDO).map((event) => event.undoesEventId)
+  );
+  return events
+    .filter((event) => event.type === EVENT_TYPE.RAID && !undone.has(event.id))
+    .sort((a, b) => a.sequence - b.sequence);
+};
+
+/**
+ * Add up the raid log into each team's score breakdown. Raid and bonus points
+ * go to the raiding team and tackle points to the defending team.
+ * @param {Object[]} events - All events of a match, including undo events
+ * @returns {{home: Object, away: Object}} Points per SCORE_CATEGORIES key for each team
+ */
+const tallyEvents = (events) => {
+  const score = { home: emptyBreakdown(), away: emptyBreakdown() };
+
+  getActiveRaids(events).forEach((event) => {
+    const attacking = score[event.attackingSide];
+    const defending = score[otherSide(event.attackingSide)];
+    attacking.raidPoints += event.raidPoints;
+    attacking.bonusPoints += event.bonusPoints;
+    defending.tacklePoints += event.tacklePoints;
+    if (event.allOutSide) score[event.allOutSide].allOutPoints += event.allOutPoints;
+    if (event.extraSide) score[event.extraSide].extraPoints += event.extraPoints;
+  });
+
+  return score;
+};
+
+/**
+ * Append an event to a match's log and bring the match score up to date with it.
+ * Events are never edited; an undo is appended as its own event.
+ * @param {number} matchId - Match ID
+ * @param {Object} data - MatchEvent fields, with defenderIds for a raid
+ * @param {number} recordedById - User logging the event
+ * @returns {Promise<{event: Object, score: Object}>} The new event and the running score
+ */
+const appendEvent = (matchId, { defenderIds = [], ...data }, recordedById) =>
+  prisma.$transaction(async (tx) => {
+    const last = await tx.matchEvent.findFirst({
+      where: { matchId },
+      orderBy: { sequence: "desc" },
+      select: { sequence: true },
+    });
+
+    const event = await tx.matchEvent.create({
+      data: {
+        ...data,
+        matchId,
+        sequence: last ? last.sequence + 1 : 1,
+        recordedById,
+        defenders: defenderIds.length
+          ? { connect: defenderIds.map((id) => ({ id })) }
+          : undefined,
+      },
+    });
+
+    const events = await tx.matchEvent.findMany({ where: { matchId } });
+    const score = tallyEvents(events);
+    await tx.match.update({
+      where: { id: matchId },
+      data: {
+        ...toScoreFields("home", score.home),
+        ...toScoreFields("away", score.away),
+      },
+    });
+
+    return { event, score };
+  });
+
+module.exports = {
+  EVENT_TYPE,
+  RAID_OUTCOME,
+  MATCH_SIDE,
+  ALL_OUT_POINTS,
+  otherSide,
+  getActiveRaids,
+  tallyEvents,
+  appendEvent,
+};
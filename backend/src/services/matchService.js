@@ -0,0 +1,109 @@
+const prisma = require("../config/db");
+
+const MATCH_STATUS = {
+  SCHEDULED: "scheduled",
+  LIVE: "live",
+  COMPLETED: "completed",
+  WALKOVER: "walkover",
+};
+
+// Ways a kabaddi team scores; the final score is their sum
+const SCORE_CATEGORIES = ["raidPoints", "tacklePoints", "bonusPoints", "allOutPoints", "extraPoints"];
+
+const capitalize = (value) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Turn one team's score breakdown into Match columns, e.g. homeRaidPoints,
+ * along with the total in homeScore
+ * @param {"home"|"away"} side - Team the breakdown belongs to
+ * @param {Object} breakdown - Points per SCORE_CATEGORIES key
+ * @returns {Object} Match update fields
+ */
+const toScoreFields = (side, breakdown) => {
+  const fields = {};
+  let total = 0;
+  SCORE_CATEGORIES.forEach((category) => {
+    const points = breakdown[category] || 0;
+    fields[`${side}${capitalize(category)}`] = points;
+    total += points;
+  });
+  fields[`${side}Score`] = total;
+  return fields;
+};
+
+const isFinished = (match) =>
+  match.status === MATCH_STATUS.COMPLETED || match.status === MATCH_STATUS.WALKOVER;
+
+/**
+ * Record or correct a match result. In a knockout the winner is carried into
+ * the fixture they play next, and into that fixture's match if one is scheduled.
+ * @param {Object} match - Match record including its fixture
+ * @param {Object} result
+ * @param {string} result.status - MATCH_STATUS.COMPLETED or MATCH_STATUS.WALKOVER
+ * @param {Object} result.home - Home score breakdown
+ * @param {Object} result.away - Away score breakdown
+ * @param {number|null} result.winnerEntryId - Winning entry, null for a draw
+ * @param {string|null} [result.resultNote] - e.g. walkover reason or golden raid
+ * @param {string|null} [result.correctionReason] - Why an earlier result was changed
+ * @param {number} recordedById - User recording the result
+ * @returns {Promise<Object>} The updated match
+ */
+const recordResult = (match, result, recordedById) =>
+  prisma.$transaction(async (tx) => {
+    const correcting = isFinished(match);
+    const updated = await tx.match.update({
+      where: { id: match.id },
+      data: {
+        status: result.status,
+        ...toScoreFields("home", result.home),
+        ...toScoreFields("away", result.away),
+        winnerEntryId: result.winnerEntryId,
+        resultNote: result.resultNote || null,
+        resultRecordedAt: new Date(),
+        resultRecordedById: recordedById,
+        correctionReason: correcting ? result.correctionReason : null,
+        correctedAt: correcting ? new Date() : null,
+      },
+    });
+
+    const { fixture } = match;
+    if (fixture.nextFixtureId && result.winnerEntryId) {
+      const slotField = fixture.nextSlot === "home" ? "homeEntryId" : "awayEntryId";
+      await tx.fixture.update({
+        where: { id: fixture.nextFixtureId },
+        data: { [slotField]: result.winnerEntryId },
+      });
+      await tx.match.updateMany({
+        where: { fixtureId: fixture.nextFixtureId },
+        data: { [slotField]: result.winnerEntryId },
+      });
+    }
+
+    return updated;
+  });
+
+/**
+ * Check whether a knockout result can still change: once the next-round match
+ * has started, the team that went through is fixed.
+ * @param {Object} match - Match record including its fixture
+ * @returns {Promise<boolean>} True if the next-round match is live or finished
+ */
+const isNextRoundStarted = async (match) => {
+  if (!match.fixture.nextFixtureId) {
+    return false;
+  }
+  const next = await prisma.match.findUnique({
+    where: { fixtureId: match.fixture.nextFixtureId },
+    select: { status: true },
+  });
+  return !!next && next.status !== MATCH_STATUS.SCHEDULED;
+};
+
+module.exports = {
+  MATCH_STATUS,
+  SCORE_CATEGORIES,
+  toScoreFields,
+  isFinished,
+  recordResult,
+  isNextRoundStarted,
+};
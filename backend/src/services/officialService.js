@@ -0,0 +1,117 @@
+const prisma = require("../config/db");
+const config = require("../config/config");
+const { sendEmail } = require("./emailService");
+const { getBookingEnd } = require("./venueService");
+
+const OFFICIAL_ROLE = {
+  REFEREE: "referee",
+  UMPIRE: "umpire",
+  SCORER: "scorer",
+  TECHNICAL_DELEGATE: "technical_delegate",
+};
+
+const OFFICIAL_ROLE_LABELS = {
+  [OFFICIAL_ROLE.REFEREE]: "Referee",
+  [OFFICIAL_ROLE.UMPIRE]: "Umpire",
+  [OFFICIAL_ROLE.SCORER]: "Scorer",
+  [OFFICIAL_ROLE.TECHNICAL_DELEGATE]: "Technical Delegate",
+};
+
+const officialName = (official) => `${official.firstName} ${official.lastName}`;
+
+/**
+ * Check whether an official can take a match. Officials cannot stand in a
+ * match their own club is playing, or in two matches at the same time.
+ * @param {Object} official - Official record
+ * @param {Object} match - Match with startTime, endTime and both entries' clubs
+ * @returns {Promise<string|null>} Why the official cannot be assigned, or null
+ */
+const findAssignmentConflict = async (official, match) => {
+  const clubIds = [match.homeEntry.club.id, match.awayEntry.club.id];
+  if (official.clubId && clubIds.includes(official.clubId)) {
+    return `${officialName(official)} belongs to one of the clubs playing this match`;
+  }
+
+  const endTime = getBookingEnd(match.startTime, match.endTime);
+  const clash = await prisma.matchOfficial.findFirst({
+    where: {
+      officialId: official.id,
+      matchId: { not: match.id },
+      match: { startTime: { lt: endTime }, endTime: { gt: match.startTime } },
+    },
+  });
+  if (clash) {
+    return `${officialName(official)} is already officiating another match at that time`;
+  }
+
+  return null;
+};
+
+/**
+ * Email an official their assignment sheet: the match, where and when it is
+ * played, and who they are officiating with. Failures are logged rather than
+ * thrown so an assignment is never lost to a mail outage.
+ * @param {number} assignmentId - MatchOfficial ID
+ * @returns {Promise<boolean>} True if the email was sent
+ */
+const sendAssignmentSheet = async (assignmentId) => {
+  const assignment = await prisma.matchOfficial.findUnique({
+    where: { id: assignmentId },
+    include: {
+      official: true,
+      match: {
+        include: {
+          competition: { select: { competitionName: true } },
+          fixture: { select: { round: true, matchNumber: true, group: { select: { groupName: true } } } },
+          homeEntry: { select: { club: { select: { clubName: true } } } },
+          awayEntry: { select: { club: { select: { clubName: true } } } },
+          venue: true,
+          court: { select: { courtName: true } },
+          officials: { include: { official: true }, orderBy: { id: "asc" } },
+        },
+      },
+    },
+  });
+  if (!assignment) return false;
+
+  const { official, match } = assignment;
+  const teams = `${match.homeEntry.club.clubName} vs ${match.awayEntry.club.clubName}`;
+
+  try {
+    await sendEmail(official.email, `Match assignment: ${teams}`, "officialAssignment", {
+      appName: config.appName,
+      name: officialName(official),
+      role: OFFICIAL_ROLE_LABELS[assignment.role] || assignment.role,
+      teams,
+      competition: match.competition.competitionName,
+      fixture: `${match.fixture.group.groupName}, Round ${match.fixture.round}, Match ${match.fixture.matchNumber}`,
+      startTime: match.startTime ? match.startTime.toLocaleString() : "To be confirmed",
+      venue: match.venue
+        ? [match.venue.venueName, match.court?.courtName, match.venue.address, match.venue.city]
+            .filter(Boolean)
+            .join(", ")
+        : "To be confirmed",
+      officials: match.officials.map((colleague) => ({
+        name: officialName(colleague.official),
+        role: OFFICIAL_ROLE_LABELS[colleague.role] || colleague.role,
+        mobile: colleague.official.mobile,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to send assignment sheet:", error);
+    return false;
+  }
+
+  await prisma.matchOfficial.update({
+    where: { id: assignment.id },
+    data: { notifiedAt: new Date() },
+  });
+  return true;
+};
+
+module.exports = {
+  OFFICIAL_ROLE,
+  OFFICIAL_ROLE_LABELS,
+  findAssignmentConflict,
+  sendAssignmentSheet,
+};
@@ -0,0 +1,259 @@
+const ExcelJS = require("exceljs");
+const path = require("path");
+const prisma = require("../config/db");
+const validateUpload = require("../utils/validateUpload");
+const { validatePlayerGroups } = require("./ageEligibilityService");
+
+// Columns of the import workbook. Headers match the player export so an
+// exported roster can be trimmed down and imported elsewhere.
+const IMPORT_COLUMNS = [
+  { header: "First Name", key: "firstName", width: 20, required: true },
+  { header: "Middle Name", key: "middleName", width: 20 },
+  { header: "Last Name", key: "lastName", width: 20, required: true },
+  { header: "Date of Birth", key: "dateOfBirth", width: 15, required: true, note: "YYYY-MM-DD" },
+  { header: "Gender", key: "gender", width: 10, required: true, note: "Male or Female" },
+  { header: "Position", key: "position", width: 15 },
+  { header: "Address", key: "address", width: 30, required: true },
+  { header: "Mobile", key: "mobile", width: 15, required: true, note: "10 to 15 digits" },
+  { header: "Aadhar Number", key: "aadharNumber", width: 20, required: true, note: "12 digits, unique" },
+  { header: "Club", key: "club", width: 30, note: "Club name as registered. Club logins always import into their own club." },
+  { header: "Groups", key: "groups", width: 30, note: "Group names separated by commas" },
+];
+
+const IMPORT_EXTENSIONS = [".xlsx", ".csv"];
+
+// Largest roster accepted in one upload
+const MAX_IMPORT_ROWS = 500;
+
+// Schema fields reported against a different workbook column
+const ERROR_COLUMNS = { clubId: "club", groupIds: "groups" };
+
+// Case-insensitive key for headers, clubs and groups; CSVs saved by Excel start with a BOM
+const normalizeName = (value) => String(value || "").replace(/^\uFEFF/, "").trim().toLowerCase();
+
+// Plain text of a cell, whether typed, formatted, a formula or a date
+const cellText = (value) => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    if (Array.isArray(value.richText)) return value.richText.map((part) => part.text).join("").trim();
+    if ("result" in value) return cellText(value.result);
+    if ("text" in value) return cellText(value.text);
+    return "";
+  }
+  return String(value).trim();
+};
+
+/**
+ * Stream the import template: a Players sheet with the expected headers and
+ * sheets listing the columns and the clubs and groups that can be named.
+ * @param {Object} lists
+ * @param {{clubName: string}[]} lists.clubs - Clubs the caller can import into
+ * @param {{groupName: string}[]} lists.groups - Groups players can join
+ * @param {import("stream").Writable} output - Stream the workbook is written to (e.g. res)
+ * @returns {Promise<void>}
+ */
+const writeImportTemplate = async ({ clubs, groups }, output) => {
+  const workbook = new ExcelJS.Workbook();
+
+  const players = workbook.addWorksheet("Players");
+  players.columns = IMPORT_COLUMNS.map(({ header, key, width }) => ({ header, key, width }));
+  players.getRow(1).font = { bold: true };
+  // Keep long digit strings from turning into numbers in Excel
+  ["dateOfBirth", "mobile", "aadharNumber"].forEach((key) => {
+    players.getColumn(key).numFmt = "@";
+  });
+
+  const instructions = workbook.addWorksheet("Instructions");
+  instructions.columns = [
+    { header: "Column", key: "header", width: 20 },
+    { header: "Required", key: "required", width: 10 },
+    { header: "Notes", key: "note", width: 70 },
+  ];
+  instructions.getRow(1).font = { bold: true };
+  IMPORT_COLUMNS.forEach((column) => {
+    instructions.addRow({
+      header: column.header,
+      required: column.required ? "Yes" : "No",
+      note: column.note || "",
+    });
+  });
+
+  const clubSheet = workbook.addWorksheet("Clubs");
+  clubSheet.columns = [{ header: "Club", key: "clubName", width: 40 }];
+  clubSheet.getRow(1).font = { bold: true };
+  clubs.forEach((club) => clubSheet.addRow({ clubName: club.clubName }));
+
+  const groupSheet = workbook.addWorksheet("Groups");
+  groupSheet.columns = [{ header: "Group", key: "groupName", width: 40 }];
+  groupSheet.getRow(1).font = { bold: true };
+  groups.forEach((group) => groupSheet.addRow({ groupName: group.groupName }));
+
+  await workbook.xlsx.write(output);
+};
+
+/**
+ * Read the roster rows of an uploaded .xlsx (first sheet) or .csv file.
+ * Columns are matched by header, so their order does not matter and extra
+ * columns are ignored. Blank rows are skipped.
+ * @param {string} filePath - Uploaded file on disk
+ * @param {string} originalName - Name the file was uploaded with
+ * @returns {Promise<{rows: {row: number, values: Record<string, string>}[], missingHeaders: string[]}>}
+ *   Rows keyed by column, numbered as in the spreadsheet, and required headers not found
+ */
+const readImportRows = async (filePath, originalName) => {
+  const workbook = new ExcelJS.Workbook();
+  let worksheet;
+  if (path.extname(originalName).toLowerCase() === ".csv") {
+    // Keep every value as text; digits such as Aadhar numbers must not become numbers
+    worksheet = await workbook.csv.readFile(filePath, { map: (value) => value });
+  } else {
+    await workbook.xlsx.readFile(filePath);
+    worksheet = workbook.worksheets[0];
+  }
+
+  const columnKeys = {};
+  worksheet?.getRow(1).eachCell((cell, columnNumber) => {
+    const column = IMPORT_COLUMNS.find(
+      ({ header }) => normalizeName(header) === normalizeName(cellText(cell.value))
+    );
+    if (column) columnKeys[columnNumber] = column.key;
+  });
+
+  const found = Object.values(columnKeys);
+  const missingHeaders = IMPORT_COLUMNS.filter(
+    (column) => column.required && !found.includes(column.key)
+  ).map((column) => column.header);
+
+  const rows = [];
+  worksheet?.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    /** @type {Record<string, string>} */
+    const values = {};
+    Object.entries(columnKeys).forEach(([columnNumber, key]) => {
+      values[key] = cellText(row.getCell(Number(columnNumber)).value);
+    });
+    if (Object.values(values).some(Boolean)) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  return { rows, missingHeaders };
+};
+
+/**
+ * Validate roster rows exactly as if each player were registered on its own,
+ * plus Aadhar numbers repeated within the file. Club and group names are
+ * resolved to IDs.
+ * @param {{row: number, values: Record<string, string>}[]} rows - Rows from readImportRows
+ * @param {Object} options
+ * @param {import("zod").ZodTypeAny} options.schema - Schema used to register a single player
+ * @param {number|undefined} options.clubScope - Club every player joins when importing as a club
+ * @param {number|null} options.seasonId - Season whose groups the names refer to; null for every group
+ * @returns {Promise<{row: number, values: Record<string, string>, data: Object, errors: Record<string, string>}[]>}
+ *   Each row with the player data to create and its errors keyed by column
+ */
+const validateImportRows = async (rows, { schema, clubScope, seasonId }) => {
+  const [clubs, groups] = await Promise.all([
+    prisma.club.findMany({ select: { id: true, clubName: true } }),
+    prisma.group.findMany({
+      where: { seasonId: seasonId || undefined },
+      select: { id: true, groupName: true },
+    }),
+  ]);
+  const clubIds = new Map(clubs.map((club) => [normalizeName(club.clubName), club.id]));
+
+  // Group names are only unique within a season, so keep every match
+  const groupIds = new Map();
+  groups.forEach((group) => {
+    const key = normalizeName(group.groupName);
+    groupIds.set(key, [...(groupIds.get(key) || []), group.id]);
+  });
+
+  // Rows sharing an Aadhar number
+  const aadharRows = new Map();
+  rows.forEach(({ row, values }) => {
+    if (!values.aadharNumber) return;
+    aadharRows.set(values.aadharNumber, [...(aadharRows.get(values.aadharNumber) || []), row]);
+  });
+
+  const results = [];
+  for (const { row, values } of rows) {
+    /** @type {Record<string, string>} */
+    const errors = {};
+
+    let clubId = null;
+    if (clubScope !== undefined) {
+      clubId = clubScope;
+    } else if (values.club) {
+      clubId = clubIds.get(normalizeName(values.club)) || null;
+      if (!clubId) errors.club = `No club named "${values.club}".`;
+    }
+
+    const groupNames = (values.groups || "")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    const unknownGroups = groupNames.filter((name) => !groupIds.has(normalizeName(name)));
+    const ambiguousGroups = groupNames.filter(
+      (name) => (groupIds.get(normalizeName(name)) || []).length > 1
+    );
+    if (unknownGroups.length > 0) {
+      errors.groups = `Unknown groups: ${unknownGroups.join(", ")}`;
+    } else if (ambiguousGroups.length > 0) {
+      errors.groups = `More than one group is named: ${ambiguousGroups.join(", ")}`;
+    }
+
+    const gender = values.gender
+      ? values.gender.charAt(0).toUpperCase() + values.gender.slice(1).toLowerCase()
+      : "";
+    const data = {
+      firstName: values.firstName || "",
+      middleName: values.middleName || null,
+      lastName: values.lastName || "",
+      dateOfBirth: values.dateOfBirth || "",
+      gender,
+      position: values.position || null,
+      address: values.address || "",
+      mobile: values.mobile || "",
+      aadharNumber: values.aadharNumber || "",
+      clubId,
+      groupIds: errors.groups ? [] : groupNames.map((name) => groupIds.get(normalizeName(name))[0]),
+    };
+
+    const validation = await validateUpload(schema, data);
+    if (validation.success === false) {
+      Object.entries(validation.errors).forEach(([field, error]) => {
+        const column = ERROR_COLUMNS[field] || field;
+        if (!errors[column]) errors[column] = error.message;
+      });
+    }
+
+    const sharedWith = aadharRows.get(values.aadharNumber) || [];
+    if (sharedWith.length > 1 && !errors.aadharNumber) {
+      errors.aadharNumber = `Aadhar number repeated in rows ${sharedWith.join(", ")}.`;
+    }
+
+    // The player must meet the gender and age rule of every group joined
+    if (!errors.groups && !errors.dateOfBirth && !errors.gender) {
+      const groupError = await validatePlayerGroups(
+        { dateOfBirth: data.dateOfBirth, gender: data.gender },
+        data.groupIds
+      );
+      if (groupError) errors.groups = groupError;
+    }
+
+    results.push({ row, values, data, errors });
+  }
+
+  return results;
+};
+
+module.exports = {
+  IMPORT_COLUMNS,
+  IMPORT_EXTENSIONS,
+  MAX_IMPORT_ROWS,
+  writeImportTemplate,
+  readImportRows,
+  validateImportRows,
+};
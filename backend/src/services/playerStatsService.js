@@ -0,0 +1,217 @@
+const prisma = require("../config/db");
+const { MATCH_STATUS } = require("./matchService");
+const { EVENT_TYPE, RAID_OUTCOME, getActiveRaids } = require("./matchEventService");
+
+// Tackle points in one match that make a high-5
+const HIGH_FIVE_TACKLE_POINTS = 5;
+// Raid points in one match that make a super-10
+const SUPER_TEN_RAID_POINTS = 10;
+
+// Matches count towards the season of their competition
+const getSeason = (match) => match.competition.season;
+
+/**
+ * Prisma filter for the completed matches that count towards statistics
+ * @param {Object} filters
+ * @param {number} [filters.competitionId] - Competition ID
+ * @param {number} [filters.groupId] - Group ID
+ * @param {number} [filters.seasonId] - Season of the match's competition
+ * @returns {Object} Match where clause
+ */
+const buildMatchWhere = ({ competitionId, groupId, seasonId } = {}) => ({
+  status: MATCH_STATUS.COMPLETED,
+  competitionId,
+  fixture: groupId ? { groupId } : undefined,
+  competition: seasonId ? { seasonId } : undefined,
+});
+
+/**
+ * Read statistics filters from a request query
+ * @param {Object} query - req.query with competitionId, groupId and seasonId
+ * @returns {{competitionId?: number, groupId?: number, seasonId?: number}}
+ */
+const parseStatsFilters = (query) => {
+  const toId = (value) => (value ? parseInt(value) || undefined : undefined);
+  return {
+    competitionId: toId(query.competitionId),
+    groupId: toId(query.groupId),
+    seasonId: toId(query.seasonId),
+  };
+};
+
+// Raid log of the matching matches, with what is needed to group it
+const loadEvents = (matchWhere) =>
+  prisma.matchEvent.findMany({
+    where: { match: matchWhere },
+    include: {
+      defenders: { select: { id: true } },
+      match: {
+        select: {
+          id: true,
+          competition: {
+            select: {
+              id: true,
+              competitionName: true,
+              season: { select: { id: true, seasonName: true, startDate: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+const emptyStats = (playerId) => ({
+  playerId,
+  matchesPlayed: 0,
+  totalRaids: 0,
+  successfulRaids: 0,
+  raidPoints: 0,
+  tacklePoints: 0,
+  superRaids: 0,
+  superTackles: 0,
+  high5s: 0,
+  super10s: 0,
+});
+
+/**
+ * Add up raid logs into per-player statistics. Raid points include bonus
+ * points. In a team tackle every defender involved is credited with the tackle.
+ * @param {Object[]} events - Raid and undo events with defenders and match
+ * @returns {Map<number, Object>} Statistics by player ID
+ */
+const aggregatePlayerStats = (events) => {
+  const stats = new Map();
+  // Points per player per match, for matches played, high-5s and super-10s
+  const perMatch = new Map();
+
+  const statsFor = (playerId) => {
+    if (!stats.has(playerId)) stats.set(playerId, emptyStats(playerId));
+    return stats.get(playerId);
+  };
+  const matchTally = (playerId, matchId) => {
+    const key = `${playerId}-${matchId}`;
+    if (!perMatch.has(key)) perMatch.set(key, { playerId, raidPoints: 0, tacklePoints: 0 });
+    return perMatch.get(key);
+  };
+
+  getActiveRaids(events).forEach((event) => {
+    if (event.raiderId) {
+      const raider = statsFor(event.raiderId);
+      const points = event.raidPoints + event.bonusPoints;
+      raider.totalRaids += 1;
+      if (event.outcome === RAID_OUTCOME.SUCCESSFUL) raider.successfulRaids += 1;
+      raider.raidPoints += points;
+      if (event.isSuperRaid) raider.superRaids += 1;
+      matchTally(event.raiderId, event.matchId).raidPoints += points;
+    }
+
+    event.defenders.forEach(({ id }) => {
+      const defender = statsFor(id);
+      defender.tacklePoints += event.tacklePoints;
+      if (event.isSuperTackle) defender.superTackles += 1;
+      matchTally(id, event.matchId).tacklePoints += event.tacklePoints;
+    });
+  });
+
+  perMatch.forEach((tally) => {
+    const player = stats.get(tally.playerId);
+    player.matchesPlayed += 1;
+    if (tally.tacklePoints >= HIGH_FIVE_TACKLE_POINTS) player.high5s += 1;
+    if (tally.raidPoints >= SUPER_TEN_RAID_POINTS) player.super10s += 1;
+  });
+
+  return stats;
+};
+
+/**
+ * Career statistics of a player, in total and split by competition and season
+ * @param {number} playerId - Player ID
+ * @param {Object} [filters] - competitionId, groupId and seasonId, see buildMatchWhere
+ * @returns {Promise<{career: Object, competitions: Object[], seasons: Object[]}>}
+ */
+const getPlayerStats = async (playerId, filters) => {
+  const matchWhere = buildMatchWhere(filters);
+
+  // Matches the player took part in, with their whole log so undo events apply
+  const involved = await prisma.matchEvent.findMany({
+    where: {
+      type: EVENT_TYPE.RAID,
+      match: matchWhere,
+      OR: [{ raiderId: playerId }, { defenders: { some: { id: playerId } } }],
+    },
+    distinct: ["matchId"],
+    select: { matchId: true },
+  });
+  const events = await loadEvents({ ...matchWhere, id: { in: involved.map((event) => event.matchId) } });
+
+  const splitBy = (keyOf, describe) => {
+    const groups = new Map();
+    events.forEach((event) => {
+      const key = keyOf(event.match);
+      if (!groups.has(key)) groups.set(key, { ...describe(event.match), events: [] });
+      groups.get(key).events.push(event);
+    });
+    return [...groups.values()].map(({ events: groupEvents, ...group }) => ({
+      ...group,
+      ...(aggregatePlayerStats(groupEvents).get(playerId) || emptyStats(playerId)),
+    }));
+  };
+
+  return {
+    career: aggregatePlayerStats(events).get(playerId) || emptyStats(playerId),
+    competitions: splitBy(
+      (match) => match.competition.id,
+      (match) => ({ competition: match.competition })
+    ),
+    // Competitions without a season are grouped together, after the seasons
+    seasons: splitBy(
+      (match) => getSeason(match)?.id ?? 0,
+      (match) => ({ season: getSeason(match) })
+    ).sort(
+      (a, b) =>
+        (b.season ? new Date(b.season.startDate).getTime() : 0) -
+        (a.season ? new Date(a.season.startDate).getTime() : 0)
+    ),
+  };
+};
+
+/**
+ * Top raiders by raid points and top defenders by tackle points
+ * @param {Object} [filters] - competitionId, groupId and seasonId, see buildMatchWhere
+ * @param {number} [limit] - Players per leaderboard
+ * @returns {Promise<{topRaiders: Object[], topDefenders: Object[]}>}
+ */
+const getLeaderboards = async (filters, limit = 10) => {
+  const stats = [...aggregatePlayerStats(await loadEvents(buildMatchWhere(filters))).values()];
+
+  const top = (key) =>
+    stats
+      .filter((row) => row[key] > 0)
+      .sort((a, b) => b[key] - a[key] || a.matchesPlayed - b.matchesPlayed)
+      .slice(0, limit);
+  const topRaiders = top("raidPoints");
+  const topDefenders = top("tacklePoints");
+
+  const players = await prisma.player.findMany({
+    where: { id: { in: [...new Set([...topRaiders, ...topDefenders].map((row) => row.playerId))] } },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      profileImage: true,
+      club: { select: { id: true, clubName: true } },
+    },
+  });
+  const withPlayer = (row) => ({ ...row, player: players.find((player) => player.id === row.playerId) });
+
+  return { topRaiders: topRaiders.map(withPlayer), topDefenders: topDefenders.map(withPlayer) };
+};
+
+module.exports = {
+  HIGH_FIVE_TACKLE_POINTS,
+  SUPER_TEN_RAID_POINTS,
+  parseStatsFilters,
+  aggregatePlayerStats,
+  getPlayerStats,
+  getLeaderboards,
+};
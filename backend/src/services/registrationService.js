@@ -0,0 +1,91 @@
+const prisma = require("../config/db");
+
+const REGISTRATION_STATUS = {
+  PENDING: "pending",
+  ACTIVE: "active",
+  LAPSED: "lapsed",
+};
+
+/**
+ * Reason a player's registration keeps them out of a season's competitions
+ * @param {Object|undefined} registration - The player's registration for the season, if any
+ * @returns {string|null} Human readable reason, or null when the registration is active
+ */
+const getRegistrationProblem = (registration) => {
+  if (!registration) return "Not registered for this season";
+  if (registration.status === REGISTRATION_STATUS.LAPSED) return "Registration lapsed";
+  if (registration.status === REGISTRATION_STATUS.PENDING) return "Registration awaiting approval";
+  return null;
+};
+
+/**
+ * Register players for a season, or renew them from an earlier one. Players
+ * without a registration for the season get one charged at the season's fee.
+ * Activating also approves registrations that are still pending.
+ * @param {Object} season - Season being registered for
+ * @param {number[]} playerIds - Players to register
+ * @param {string} status - REGISTRATION_STATUS.PENDING or REGISTRATION_STATUS.ACTIVE
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<{created: number, activated: number, unchanged: number}>} Counts of what changed
+ */
+const renewRegistrations = (season, playerIds, status, now = new Date()) =>
+  prisma.$transaction(async (tx) => {
+    const existing = await tx.playerRegistration.findMany({
+      where: { seasonId: season.id, playerId: { in: playerIds } },
+    });
+    const registered = new Set(existing.map((registration) => registration.playerId));
+    const toCreate = playerIds.filter((playerId) => !registered.has(playerId));
+    const activatedAt = status === REGISTRATION_STATUS.ACTIVE ? now : null;
+
+    await tx.playerRegistration.createMany({
+      data: toCreate.map((playerId) => ({
+        playerId,
+        seasonId: season.id,
+        status,
+        fee: season.registrationFee,
+        activatedAt,
+      })),
+    });
+
+    let activated = 0;
+    if (status === REGISTRATION_STATUS.ACTIVE) {
+      const result = await tx.playerRegistration.updateMany({
+        where: {
+          seasonId: season.id,
+          playerId: { in: playerIds },
+          status: REGISTRATION_STATUS.PENDING,
+        },
+        data: { status: REGISTRATION_STATUS.ACTIVE, activatedAt: now },
+      });
+      activated = result.count;
+    }
+
+    return {
+      created: toCreate.length,
+      activated,
+      unchanged: existing.length - activated,
+    };
+  });
+
+/**
+ * Lapse every pending or active registration of a season that has ended
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<number>} Number of registrations lapsed
+ */
+const lapseEndedRegistrations = async (now = new Date()) => {
+  const result = await prisma.playerRegistration.updateMany({
+    where: {
+      status: { in: [REGISTRATION_STATUS.PENDING, REGISTRATION_STATUS.ACTIVE] },
+      season: { endDate: { lt: now } },
+    },
+    data: { status: REGISTRATION_STATUS.LAPSED },
+  });
+  return result.count;
+};
+
+module.exports = {
+  REGISTRATION_STATUS,
+  getRegistrationProblem,
+  renewRegistrations,
+  lapseEndedRegistrations,
+};
@@ -0,0 +1,155 @@
+const prisma = require("../config/db");
+const { getGroupIneligibilityReasons } = require("./ageEligibilityService");
+
+// Header the frontend season switcher sends with every request
+const SEASON_HEADER = "x-season-id";
+
+/**
+ * Season a request is scoped to, taken from the seasonId query parameter or
+ * the season switcher header. No season means "all seasons".
+ * @param {import("express").Request} req - Incoming request
+ * @returns {number|undefined} Season id
+ */
+const getSeasonScope = (req) => {
+  const value = req.query.seasonId ?? req.get(SEASON_HEADER);
+  const seasonId = parseInt(value);
+  return seasonId > 0 ? seasonId : undefined;
+};
+
+/**
+ * The season new records belong to by default: the one flagged as current,
+ * otherwise the one running today, otherwise the most recent one.
+ * @param {Date} [now] - Reference date
+ * @returns {Promise<Object|null>} Season, or null when no season exists
+ */
+const getCurrentSeason = async (now = new Date()) => {
+  const current = await prisma.season.findFirst({ where: { isCurrent: true } });
+  if (current) return current;
+
+  const running = await prisma.season.findFirst({
+    where: { startDate: { lte: now }, endDate: { gte: now } },
+    orderBy: { startDate: "desc" },
+  });
+  if (running) return running;
+
+  return prisma.season.findFirst({ orderBy: { startDate: "desc" } });
+};
+
+/**
+ * Season a new record should be created in: the one given explicitly, then the
+ * season the request is scoped to, then the current season.
+ * @param {import("express").Request} req - Incoming request
+ * @param {number} [seasonId] - Season chosen in the request body
+ * @returns {Promise<number|null>} Season id, or null when no season exists
+ */
+const resolveSeasonId = async (req, seasonId) => {
+  if (seasonId) return seasonId;
+
+  const scoped = getSeasonScope(req);
+  if (scoped) return scoped;
+
+  const current = await getCurrentSeason();
+  return current ? current.id : null;
+};
+
+/**
+ * Shift a date by whole years, keeping the day and month
+ * @param {Date|null} date - Date to shift
+ * @param {number} years - Years to add
+ * @returns {Date|null} Shifted date
+ */
+const shiftYears = (date, years) => {
+  if (!date) return null;
+  const result = new Date(date);
+  result.setFullYear(result.getFullYear() + years);
+  return result;
+};
+
+/**
+ * Start a new season from an existing one. Every group of the old season is
+ * cloned with its age cut-off moved forward by the same number of years as the
+ * season start, and each of its players is re-checked against the new cut-off.
+ * Players who still qualify are carried over; the rest are reported as dropped.
+ * @param {Object} fromSeason - Season being rolled over
+ * @param {Object} data
+ * @param {string} data.seasonName - Name of the new season
+ * @param {Date} data.startDate - New season start
+ * @param {Date} data.endDate - New season end
+ * @param {number} [data.registrationFee] - Registration fee; defaults to the old season's fee
+ * @param {boolean} [data.makeCurrent] - Flag the new season as the current one
+ * @returns {Promise<{season: Object, groups: Object[]}>} The new season and, per cloned
+ *   group, the players carried over and those dropped with their reasons
+ */
+const rollOverSeason = async (
+  fromSeason,
+  { seasonName, startDate, endDate, registrationFee, makeCurrent = true }
+) => {
+  const yearShift = startDate.getFullYear() - new Date(fromSeason.startDate).getFullYear();
+
+  const groups = await prisma.group.findMany({
+    where: { seasonId: fromSeason.id },
+    include: {
+      players: {
+        select: { id: true, firstName: true, lastName: true, gender: true, dateOfBirth: true },
+      },
+    },
+    orderBy: { groupName: "asc" },
+  });
+
+  return prisma.$transaction(async (tx) => {
+    if (makeCurrent) {
+      await tx.season.updateMany({ where: { isCurrent: true }, data: { isCurrent: false } });
+    }
+    const season = await tx.season.create({
+      data: {
+        seasonName,
+        startDate,
+        endDate,
+        registrationFee: registrationFee ?? fromSeason.registrationFee,
+        isCurrent: makeCurrent,
+      },
+    });
+
+    const summary = [];
+    for (const group of groups) {
+      const clone = {
+        groupName: group.groupName,
+        gender: group.gender,
+        age: group.age,
+        maxAge: group.maxAge,
+        ageCutoffDate: shiftYears(group.ageCutoffDate, yearShift),
+      };
+
+      const carried = [];
+      const dropped = [];
+      for (const player of group.players) {
+        const reasons = getGroupIneligibilityReasons(player, clone, startDate);
+        const name = `${player.firstName} ${player.lastName}`;
+        if (reasons.length === 0) {
+          carried.push({ id: player.id, name });
+        } else {
+          dropped.push({ id: player.id, name, reasons });
+        }
+      }
+
+      const created = await tx.group.create({
+        data: {
+          ...clone,
+          seasonId: season.id,
+          players: { connect: carried.map((player) => ({ id: player.id })) },
+        },
+      });
+      summary.push({ id: created.id, groupName: created.groupName, carried, dropped });
+    }
+
+    return { season, groups: summary };
+  });
+};
+
+module.exports = {
+  SEASON_HEADER,
+  getSeasonScope,
+  getCurrentSeason,
+  resolveSeasonId,
+  rollOverSeason,
+};
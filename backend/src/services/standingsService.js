@@ -0,0 +1,184 @@
+const prisma = require("../config/db");
+const { MATCH_STATUS } = require("./matchService");
+const { FIXTURE_FORMAT } = require("./fixtureService");
+
+const TIE_BREAKER = {
+  HEAD_TO_HEAD: "headToHead",
+  SCORE_DIFFERENCE: "scoreDifference",
+  SCORE_FOR: "scoreFor",
+};
+
+/**
+ * Read a competition's tie-break order, ignoring unknown or repeated rules
+ * @param {string} tieBreakers - Comma separated TIE_BREAKER values
+ * @returns {string[]} Tie-breakers in the order they are applied
+ */
+const parseTieBreakers = (tieBreakers) => {
+  const known = Object.values(TIE_BREAKER);
+  return [...new Set((tieBreakers || "").split(",").map((rule) => rule.trim()))].filter((rule) =>
+    known.includes(rule)
+  );
+};
+
+/**
+ * Table points one team earns from a finished match. A team that loses by
+ * no more than the competition's close-loss margin still earns a point, except
+ * when it conceded a walkover.
+ * @param {Object} competition - Competition with its points rules
+ * @param {Object} match - Finished match
+ * @param {number} entryId - Team to score
+ * @returns {number} Points earned
+ */
+const getMatchPoints = (competition, match, entryId) => {
+  if (!match.winnerEntryId) {
+    return competition.pointsForTie;
+  }
+  if (match.winnerEntryId === entryId) {
+    return competition.pointsForWin;
+  }
+  const margin = Math.abs(match.homeScore - match.awayScore);
+  return match.status !== MATCH_STATUS.WALKOVER && margin <= competition.closeLossMargin
+    ? competition.pointsForCloseLoss
+    : competition.pointsForLoss;
+};
+
+/**
+ * Order tied teams by one criterion at a time, splitting them into smaller
+ * tied blocks until the criteria run out
+ * @returns {Object[][]} Blocks of rows, best first; rows in a block share a position
+ */
+const rankRows = (rows, criteria, competition, matches) => {
+  if (rows.length <= 1 || criteria.length === 0) {
+    return [rows];
+  }
+  const [criterion, ...rest] = criteria;
+
+  let valueOf = (row) => row[criterion];
+  if (criterion === TIE_BREAKER.HEAD_TO_HEAD) {
+    // Points from the matches between the tied teams only
+    const tiedIds = rows.map((row) => row.entryId);
+    const miniTable = new Map(tiedIds.map((id) => [id, 0]));
+    matches
+      .filter((match) => tiedIds.includes(match.homeEntryId) && tiedIds.includes(match.awayEntryId))
+      .forEach((match) => {
+        [match.homeEntryId, match.awayEntryId].forEach((id) => {
+          miniTable.set(id, miniTable.get(id) + getMatchPoints(competition, match, id));
+        });
+      });
+    valueOf = (row) => miniTable.get(row.entryId);
+  }
+
+  const values = [...new Set(rows.map(valueOf))].sort((a, b) => b - a);
+  return values.flatMap((value) =>
+    rankRows(
+      rows.filter((row) => valueOf(row) === value),
+      rest,
+      competition,
+      matches
+    )
+  );
+};
+
+/**
+ * Build a league table from finished matches
+ * @param {Object} competition - Competition with its points rules and tie-breakers
+ * @param {number[]} entryIds - Teams in the league
+ * @param {Object[]} matches - Finished matches between those teams
+ * @returns {Object[]} Table rows with position, played, won, lost, tied, scores and points
+ */
+const computeStandings = (competition, entryIds, matches) => {
+  const rows = new Map(
+    entryIds.map((entryId) => [
+      entryId,
+      { entryId, played: 0, won: 0, lost: 0, tied: 0, scoreFor: 0, scoreAgainst: 0, scoreDifference: 0, points: 0 },
+    ])
+  );
+
+  matches.forEach((match) => {
+    [
+      [match.homeEntryId, match.homeScore, match.awayScore],
+      [match.awayEntryId, match.awayScore, match.homeScore],
+    ].forEach(([entryId, scored, conceded]) => {
+      const row = rows.get(entryId);
+      if (!row) return;
+      row.played += 1;
+      if (!match.winnerEntryId) row.tied += 1;
+      else if (match.winnerEntryId === entryId) row.won += 1;
+      else row.lost += 1;
+      row.scoreFor += scored;
+      row.scoreAgainst += conceded;
+      row.scoreDifference = row.scoreFor - row.scoreAgainst;
+      row.points += getMatchPoints(competition, match, entryId);
+    });
+  });
+
+  const criteria = ["points", ...parseTieBreakers(competition.tieBreakers)];
+  const blocks = rankRows([...rows.values()], criteria, competition, matches);
+
+  const table = [];
+  blocks.forEach((block) => {
+    const position = table.length + 1;
+    block.forEach((row) => table.push({ ...row, position }));
+  });
+  return table;
+};
+
+/**
+ * Rebuild the stored table of a league group from its finished matches.
+ * Groups drawn as a knockout have no table.
+ * @param {number} competitionId - Competition ID
+ * @param {number} groupId - Group ID
+ * @returns {Promise<void>}
+ */
+const recomputeStandings = async (competitionId, groupId) => {
+  const competition = await prisma.competition.findUnique({ where: { id: competitionId } });
+  const fixtures = await prisma.fixture.findMany({
+    where: { competitionId, groupId, format: FIXTURE_FORMAT.LEAGUE },
+    select: { homeEntryId: true, awayEntryId: true },
+  });
+  const entryIds = [
+    ...new Set(fixtures.flatMap((fixture) => [fixture.homeEntryId, fixture.awayEntryId]).filter(Boolean)),
+  ];
+  const matches = await prisma.match.findMany({
+    where: {
+      competitionId,
+      status: { in: [MATCH_STATUS.COMPLETED, MATCH_STATUS.WALKOVER] },
+      fixture: { groupId, format: FIXTURE_FORMAT.LEAGUE },
+    },
+  });
+
+  const table = competition ? computeStandings(competition, entryIds, matches) : [];
+
+  await prisma.$transaction([
+    prisma.standing.deleteMany({ where: { competitionId, groupId } }),
+    prisma.standing.createMany({
+      data: table.map((row) => ({ ...row, competitionId, groupId })),
+    }),
+  ]);
+};
+
+/**
+ * Rebuild the tables of every league group in a competition, e.g. after its
+ * points rules change
+ * @param {number} competitionId - Competition ID
+ * @returns {Promise<void>}
+ */
+const recomputeCompetitionStandings = async (competitionId) => {
+  const groups = await prisma.fixture.findMany({
+    where: { competitionId, format: FIXTURE_FORMAT.LEAGUE },
+    distinct: ["groupId"],
+    select: { groupId: true },
+  });
+  for (const { groupId } of groups) {
+    await recomputeStandings(competitionId, groupId);
+  }
+};
+
+module.exports = {
+  TIE_BREAKER,
+  parseTieBreakers,
+  getMatchPoints,
+  computeStandings,
+  recomputeStandings,
+  recomputeCompetitionStandings,
+};
@@ -0,0 +1,158 @@
+const prisma = require("../config/db");
+
+/**
+ * Prisma filter for suspensions in force at a given moment: started, not lifted
+ * and either open-ended or ending later.
+ * @param {Date} [now] - Moment to check
+ * @returns {Object} PlayerSuspension where clause
+ */
+const activeSuspensionWhere = (now = new Date()) => ({
+  liftedAt: null,
+  startDate: { lte: now },
+  OR: [{ endDate: null }, { endDate: { gt: now } }],
+});
+
+/**
+ * Whether a player was suspended before suspension records existed. Such
+ * players carry the isSuspended flag with no records and stay suspended.
+ * @param {Object} player - Player with isSuspended and _count.suspensions
+ * @returns {boolean} True if the flag alone suspends the player
+ */
+const hasLegacySuspension = (player) =>
+  !!player.isSuspended && player._count?.suspensions === 0;
+
+// Include for loading a player's current suspension alongside the player
+const activeSuspensionInclude = (now = new Date()) => ({
+  where: activeSuspensionWhere(now),
+  orderBy: { startDate: "desc" },
+  take: 1,
+});
+
+/**
+ * Recalculate Player.isSuspended from the player's suspension records
+ * @param {number} playerId - Player ID
+ * @param {Object} [client] - Prisma client or transaction client
+ * @returns {Promise<boolean>} Whether the player is now suspended
+ */
+const refreshPlayerSuspension = async (playerId, client = prisma) => {
+  const activeCount = await client.playerSuspension.count({
+    where: { playerId, ...activeSuspensionWhere() },
+  });
+  const isSuspended = activeCount > 0;
+
+  await client.player.update({
+    where: { id: playerId },
+    data: { isSuspended },
+  });
+
+  return isSuspended;
+};
+
+/**
+ * Record a new suspension for a player
+ * @param {number} playerId - Player ID
+ * @param {Object} data - reason, issuedBy, startDate, endDate (null for indefinite)
+ * @param {number|null} recordedById - User recording the suspension
+ * @returns {Promise<Object>} The created suspension
+ */
+const suspendPlayer = (playerId, data, recordedById) =>
+  prisma.$transaction(async (tx) => {
+    const suspension = await tx.playerSuspension.create({
+      data: {
+        playerId,
+        reason: data.reason,
+        issuedBy: data.issuedBy,
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+        recordedById: recordedById || null,
+      },
+    });
+    await refreshPlayerSuspension(playerId, tx);
+    return suspension;
+  });
+
+/**
+ * Lift a suspension before its end date
+ * @param {Object} suspension - Suspension record
+ * @param {string|null} reason - Why it was lifted
+ * @param {number|null} liftedById - User lifting the suspension
+ * @returns {Promise<Object>} The updated suspension
+ */
+const liftSuspension = (suspension, reason, liftedById) =>
+  prisma.$transaction(async (tx) => {
+    const lifted = await tx.playerSuspension.update({
+      where: { id: suspension.id },
+      data: {
+        liftedAt: new Date(),
+        liftReason: reason || null,
+        liftedById: liftedById || null,
+      },
+    });
+    await refreshPlayerSuspension(suspension.playerId, tx);
+    return lifted;
+  });
+
+/**
+ * Close suspensions whose end date has passed and bring every player's
+ * isSuspended flag in line with their records. Also picks up suspensions
+ * recorded with a future start date once that date arrives.
+ * @param {Date} [now] - Moment to evaluate against
+ * @returns {Promise<{lifted: number, updatedPlayers: number}>} Counts for logging
+ */
+const liftExpiredSuspensions = async (now = new Date()) => {
+  const expired = await prisma.playerSuspension.findMany({
+    where: { liftedAt: null, endDate: { lte: now } },
+    select: { id: true },
+  });
+
+  if (expired.length > 0) {
+    await prisma.playerSuspension.updateMany({
+      where: { id: { in: expired.map((suspension) => suspension.id) } },
+      data: { liftedAt: now, liftReason: "Suspension period ended" },
+    });
+  }
+
+  // Players whose flag no longer matches their records. Players suspended
+  // before suspension records existed have no records and are left alone.
+  const [stale, due] = await Promise.all([
+    prisma.player.findMany({
+      where: {
+        isSuspended: true,
+        AND: [
+          { suspensions: { some: {} } },
+          { suspensions: { none: activeSuspensionWhere(now) } },
+        ],
+      },
+      select: { id: true },
+    }),
+    prisma.player.findMany({
+      where: { isSuspended: false, suspensions: { some: activeSuspensionWhere(now) } },
+      select: { id: true },
+    }),
+  ]);
+
+  if (stale.length > 0) {
+    await prisma.player.updateMany({
+      where: { id: { in: stale.map((player) => player.id) } },
+      data: { isSuspended: false },
+    });
+  }
+  if (due.length > 0) {
+    await prisma.player.updateMany({
+      where: { id: { in: due.map((player) => player.id) } },
+      data: { isSuspended: true },
+    });
+  }
+
+  return { lifted: expired.length, updatedPlayers: stale.length + due.length };
+};
+
+module.exports = {
+  activeSuspensionWhere,
+  activeSuspensionInclude,
+  hasLegacySuspension,
+  refreshPlayerSuspension,
+  suspendPlayer,
+  liftSuspension,
+  liftExpiredSuspensions,
+};
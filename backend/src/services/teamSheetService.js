@@ -0,0 +1,190 @@
+const PDFDocument = require("pdfkit");
+const config = require("../config/config");
+const { CLUB_OFFICIAL_ROLE_LABELS, clubOfficialName } = require("./clubOfficialService");
+
+// A4 portrait in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 18;
+
+const PLAYER_COLUMNS = [
+  { label: "#", width: 28 },
+  { label: "Name", width: 185 },
+  { label: "Player ID", width: 130 },
+  { label: "Date of Birth", width: 82 },
+  { label: "Position", width: CONTENT_WIDTH - 425 },
+];
+
+const OFFICIAL_COLUMNS = [
+  { label: "Position", width: 110 },
+  { label: "Name", width: 150 },
+  { label: "Mobile", width: 95 },
+  { label: "Certification", width: CONTENT_WIDTH - 355 },
+];
+
+const formatDate = (date) => (date ? new Date(date).toISOString().split("T")[0] : "-");
+
+// Start a new page when the next block would run past the bottom margin
+const ensureSpace = (doc, y, height) => {
+  if (y + height <= PAGE_HEIGHT - MARGIN) {
+    return y;
+  }
+  doc.addPage();
+  return MARGIN;
+};
+
+// Draw one table row with its top edge at y
+const drawRow = (doc, columns, values, y, { header = false } = {}) => {
+  if (header) {
+    doc.save().rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT).fill("#e5e7eb").restore();
+  }
+  let x = MARGIN;
+  columns.forEach((column, index) => {
+    doc
+      .font(header ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(8.5)
+      .fillColor("#111827")
+      .text(values[index] || "-", x + 4, y + 5, {
+        width: column.width - 8,
+        height: ROW_HEIGHT - 5,
+        ellipsis: true,
+        lineBreak: false,
+      });
+    x += column.width;
+  });
+  doc
+    .moveTo(MARGIN, y + ROW_HEIGHT)
+    .lineTo(MARGIN + CONTENT_WIDTH, y + ROW_HEIGHT)
+    .lineWidth(0.5)
+    .stroke("#d1d5db");
+  return y + ROW_HEIGHT;
+};
+
+// Draw a titled table, repeating the header row on every new page
+const drawTable = (doc, title, columns, rows, y) => {
+  y = ensureSpace(doc, y, ROW_HEIGHT * 3);
+  doc.font("Helvetica-Bold").fontSize(11).fillColor("#1e3a8a").text(title, MARGIN, y);
+  y += 18;
+  const header = columns.map((column) => column.label);
+  y = drawRow(doc, columns, header, y, { header: true });
+
+  if (rows.length === 0) {
+    return drawRow(doc, columns, ["None"], y);
+  }
+  rows.forEach((row) => {
+    if (y + ROW_HEIGHT > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = drawRow(doc, columns, header, MARGIN, { header: true });
+    }
+    y = drawRow(doc, columns, row, y);
+  });
+  return y;
+};
+
+const officialRow = (position, official) => [
+  position,
+  clubOfficialName(official),
+  official.mobile,
+  official.certification,
+];
+
+/**
+ * Stream a team sheet for a competition entry: the squad followed by the
+ * named coach and manager and the club's other active officials.
+ * @param {Object} sheet
+ * @param {Object} sheet.competition - Competition record
+ * @param {Object} sheet.entry - Entry with club, group, players, coach and manager
+ * @param {Object[]} sheet.officials - Active officials on the club's roster
+ * @param {import("stream").Writable} output - Stream the PDF is written to (e.g. res)
+ * @returns {Promise<void>}
+ */
+const writeTeamSheet = async ({ competition, entry, officials }, output) => {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    info: { Title: `Team Sheet - ${entry.club.clubName}` },
+  });
+  doc.pipe(output);
+
+  // Header band
+  doc.rect(0, 0, PAGE_WIDTH, 70).fill("#1e3a8a");
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(16)
+    .fillColor("#ffffff")
+    .text(config.appName.toUpperCase(), MARGIN, 20, { width: CONTENT_WIDTH, lineBreak: false })
+    .font("Helvetica")
+    .fontSize(10)
+    .text("TEAM SHEET", MARGIN, 42, { width: CONTENT_WIDTH, lineBreak: false });
+
+  let y = 90;
+  const details = [
+    ["Competition", competition.competitionName],
+    ["Group", entry.group.groupName],
+    ["Club", entry.club.clubName],
+    ["Dates", `${formatDate(competition.startDate)} to ${formatDate(competition.endDate)}`],
+    ["Entry status", entry.status.charAt(0).toUpperCase() + entry.status.slice(1)],
+  ];
+  details.forEach(([label, value]) => {
+    doc.font("Helvetica").fontSize(9).fillColor("#6b7280").text(label, MARGIN, y, { width: 90 });
+    doc.font("Helvetica-Bold").fontSize(10).fillColor("#111827").text(value, MARGIN + 90, y, {
+      width: CONTENT_WIDTH - 90,
+    });
+    y += 16;
+  });
+  y += 12;
+
+  const players = [...entry.players].sort(
+    (a, b) => a.firstName.localeCompare(b.firstName) || a.lastName.localeCompare(b.lastName)
+  );
+  y = drawTable(
+    doc,
+    `Players (${players.length})`,
+    PLAYER_COLUMNS,
+    players.map((player, index) => [
+      String(index + 1),
+      `${player.firstName} ${player.lastName}`,
+      player.uniqueIdNumber,
+      formatDate(player.dateOfBirth),
+      player.position,
+    ]),
+    y
+  );
+  y += 20;
+
+  // The named coach and manager come first; the rest of the roster supports the team
+  const namedIds = [entry.coachId, entry.managerId];
+  const officialRows = [
+    ...(entry.coach ? [officialRow("Coach", entry.coach)] : []),
+    ...(entry.manager ? [officialRow("Manager", entry.manager)] : []),
+    ...officials
+      .filter((official) => !namedIds.includes(official.id))
+      .map((official) => officialRow(CLUB_OFFICIAL_ROLE_LABELS[official.role] || official.role, official)),
+  ];
+  y = drawTable(doc, "Team Officials", OFFICIAL_COLUMNS, officialRows, y);
+  y += 40;
+
+  // Signatures of the officials responsible for the team
+  y = ensureSpace(doc, y, 40);
+  const signatureWidth = (CONTENT_WIDTH - 40) / 2;
+  ["Coach", "Manager"].forEach((label, index) => {
+    const x = MARGIN + index * (signatureWidth + 40);
+    doc
+      .moveTo(x, y)
+      .lineTo(x + signatureWidth, y)
+      .lineWidth(0.75)
+      .stroke("#6b7280");
+    doc.font("Helvetica").fontSize(8).fillColor("#6b7280").text(`${label} signature`, x, y + 4, {
+      width: signatureWidth,
+      align: "center",
+    });
+  });
+
+  doc.end();
+};
+
+module.exports = {
+  writeTeamSheet,
+};
@@ -0,0 +1,80 @@
+const prisma = require("../config/db");
+
+const TRANSFER_STATUS = {
+  REQUESTED: "requested",
+  NOC_ISSUED: "noc_issued",
+  NOC_DENIED: "noc_denied",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  CANCELLED: "cancelled",
+};
+
+// Transfers still waiting on the releasing club or the association
+const OPEN_TRANSFER_STATUSES = [TRANSFER_STATUS.REQUESTED, TRANSFER_STATUS.NOC_ISSUED];
+
+// Days a transferred player cannot be entered for the new club; override with TRANSFER_COOLING_OFF_DAYS
+const DEFAULT_COOLING_OFF_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const getCoolingOffDays = () => {
+  const days = parseInt(process.env.TRANSFER_COOLING_OFF_DAYS);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_COOLING_OFF_DAYS : days;
+};
+
+// Include for loading the approved transfer whose cooling-off is still running
+const coolingOffInclude = (now = new Date()) => ({
+  where: { status: TRANSFER_STATUS.APPROVED, coolingOffEndsAt: { gt: now } },
+  orderBy: { coolingOffEndsAt: "desc" },
+  take: 1,
+});
+
+/**
+ * Reason a recent transfer keeps a player out of a club's entries
+ * @param {Object|undefined} transfer - The player's transfer loaded with coolingOffInclude, if any
+ * @param {number} clubId - Club entering the player
+ * @returns {string|null} Human readable reason, or null when the player may be entered
+ */
+const getCoolingOffProblem = (transfer, clubId) => {
+  if (!transfer || transfer.toClubId !== clubId || !transfer.coolingOffEndsAt) {
+    return null;
+  }
+  return `Transfer cooling-off until ${new Date(transfer.coolingOffEndsAt).toISOString().slice(0, 10)}`;
+};
+
+/**
+ * Complete a transfer: move the player to the new club and start the cooling-off period
+ * @param {Object} transfer - Transfer with NOC issued
+ * @param {Object} decision
+ * @param {number|null} decision.decidedById - Administrator approving the transfer
+ * @param {string|null} [decision.remarks] - Association remarks
+ * @param {Date} [now] - Reference time
+ * @returns {Promise<Object>} Updated transfer
+ */
+const completeTransfer = (transfer, { decidedById, remarks }, now = new Date()) =>
+  prisma.$transaction(async (tx) => {
+    await tx.player.update({
+      where: { id: transfer.playerId },
+      data: { clubId: transfer.toClubId },
+    });
+
+    return tx.playerTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: TRANSFER_STATUS.APPROVED,
+        remarks: remarks || null,
+        decidedAt: now,
+        decidedById,
+        coolingOffEndsAt: new Date(now.getTime() + getCoolingOffDays() * DAY_MS),
+      },
+    });
+  });
+
+module.exports = {
+  TRANSFER_STATUS,
+  OPEN_TRANSFER_STATUSES,
+  getCoolingOffDays,
+  coolingOffInclude,
+  getCoolingOffProblem,
+  completeTransfer,
+};
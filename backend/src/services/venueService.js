@@ -0,0 +1,81 @@
+const prisma = require("../config/db");
+
+// How long a court is booked when a match is scheduled without an end time
+const DEFAULT_MATCH_MINUTES = 60;
+
+/**
+ * End of a match booking, defaulting to DEFAULT_MATCH_MINUTES after the start
+ * @param {Date} startTime - Match start
+ * @param {Date|null} [endTime] - Explicit end, if one was given
+ * @returns {Date} Booking end
+ */
+const getBookingEnd = (startTime, endTime) =>
+  endTime || new Date(startTime.getTime() + DEFAULT_MATCH_MINUTES * 60 * 1000);
+
+/**
+ * Check that a booking fits inside one of the venue's availability windows.
+ * A venue without any windows is treated as always available.
+ * @param {Object[]} windows - VenueAvailability rows with startTime and endTime
+ * @param {Date} startTime - Booking start
+ * @param {Date} endTime - Booking end
+ * @returns {boolean} True if the venue is open for the whole booking
+ */
+const isWithinAvailability = (windows, startTime, endTime) =>
+  windows.length === 0 ||
+  windows.some((window) => window.startTime <= startTime && window.endTime >= endTime);
+
+/**
+ * Find a match that would clash with a booking: one on the same court, one
+ * either team is already playing in, or one an official assigned to the match
+ * is already standing in, that overlaps the booking's time.
+ * @param {Object} booking
+ * @param {number} [booking.matchId] - Match being rescheduled, ignored in the search
+ * @param {number|null} booking.courtId - Court being booked
+ * @param {number[]} booking.entryIds - Entries playing in the match
+ * @param {Date} booking.startTime - Booking start
+ * @param {Date} booking.endTime - Booking end
+ * @returns {Promise<{reason: string, match: Object}|null>} The clash, or null if there is none;
+ *   reason is "court", "team" or "official"
+ */
+const findScheduleClash = async ({ matchId, courtId, entryIds, startTime, endTime }) => {
+  const overlapping = {
+    id: matchId ? { not: matchId } : undefined,
+    startTime: { lt: endTime },
+    endTime: { gt: startTime },
+  };
+  const select = { id: true, startTime: true, endTime: true, homeEntryId: true, awayEntryId: true };
+
+  if (courtId) {
+    const match = await prisma.match.findFirst({ where: { ...overlapping, courtId }, select });
+    if (match) return { reason: "court", match };
+  }
+
+  const match = await prisma.match.findFirst({
+    where: {
+      ...overlapping,
+      OR: [{ homeEntryId: { in: entryIds } }, { awayEntryId: { in: entryIds } }],
+    },
+    select,
+  });
+  if (match) return { reason: "team", match };
+
+  if (matchId) {
+    const officialClash = await prisma.match.findFirst({
+      where: {
+        ...overlapping,
+        officials: { some: { official: { assignments: { some: { matchId } } } } },
+      },
+      select,
+    });
+    if (officialClash) return { reason: "official", match: officialClash };
+  }
+
+  return null;
+};
+
+module.exports = {
+  DEFAULT_MATCH_MINUTES,
+  getBookingEnd,
+  isWithinAvailability,
+  findScheduleClash,
+};
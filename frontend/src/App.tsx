@@ -18,8 +18,21 @@ import ProtectedRoute from "./components/common/protected-route"; // Correct pat
 import UserList from "@/modules/User/UserList";
 import GroupList from "@/modules/group/GroupList";
 import ClubList from "@/modules/club/ClubList";
+import VenueList from "@/modules/venue/VenueList";
+import OfficialList from "@/modules/officials/OfficialList";
+import SeasonList from "@/modules/season/SeasonList";
+import TransferList from "@/modules/transfers/TransferList";
 import CompetitionList from "@/modules/competition/CompetitionList";
-import { PlayerList } from "@/modules/players";
+import CompetitionCalendar from "@/modules/competition/CompetitionCalendar";
+import CompetitionEntries from "@/modules/competition/CompetitionEntries";
+import CompetitionFixtures from "@/modules/competition/CompetitionFixtures";
+import ClubPortal from "@/modules/clubPortal/ClubPortal";
+import ClubProfile from "@/modules/clubPortal/ClubProfile";
+import RolePermissions from "@/modules/roles/RolePermissions";
+import VerifyPlayer from "@/modules/verify/VerifyPlayer";
+import { PlayerDetail, PlayerList } from "@/modules/players";
+import Leaderboards from "@/modules/leaderboards/Leaderboards";
+import { MatchConsole, MatchList, MatchScorer } from "@/modules/matches";
 import Profile from "./modules/profile/EditAgency";
 import Dashboard from "./modules/Dashboard/dashboard";
 import Registerformat from "./modules/Register/register";
@@ -46,6 +59,9 @@ const App = () => {
             <Route path="/forgot-password" element={<ForgotPassword />} />
             <Route path="/reset-password/:token" element={<ResetPassword />} />
           </Route>
+          {/* Public player verification for match officials */}
+          <Route path="/verify" element={<VerifyPlayer />} />
+          <Route path="/verify/:uniqueIdNumber" element={<VerifyPlayer />} />
           <Route element={<MainLayout />}>
             <Route
               path="/dashboard"
@@ -63,6 +79,14 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/roles"
+              element={
+                <ProtectedRoute roles={["admin"]}>
+                  <RolePermissions />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/profile"
               element={
@@ -87,6 +111,54 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/venues"
+              element={
+                <ProtectedRoute roles={["admin"]}>
+                  <VenueList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/officials"
+              element={
+                <ProtectedRoute roles={["admin"]}>
+                  <OfficialList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/seasons"
+              element={
+                <ProtectedRoute roles={["admin"]}>
+                  <SeasonList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/transfers"
+              element={
+                <ProtectedRoute roles={["admin", "clubadmin"]}>
+                  <TransferList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/portal"
+              element={
+                <ProtectedRoute roles={["clubadmin"]}>
+                  <ClubPortal />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/portal/profile"
+              element={
+                <ProtectedRoute roles={["clubadmin"]}>
+                  <ClubProfile />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/groups"
               element={
@@ -103,6 +175,54 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/competitions/calendar"
+              element={
+                <ProtectedRoute>
+                  <CompetitionCalendar />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/competitions/:id/entries"
+              element={
+                <ProtectedRoute>
+                  <CompetitionEntries />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/competitions/:id/fixtures"
+              element={
+                <ProtectedRoute>
+                  <CompetitionFixtures />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/matches"
+              element={
+                <ProtectedRoute>
+                  <MatchList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/matches/:id"
+              element={
+                <ProtectedRoute>
+                  <MatchScorer />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/matches/:id/console"
+              element={
+                <ProtectedRoute>
+                  <MatchConsole />
+                </ProtectedRoute>
+              }
+            />
             
             <Route
               path="/players"
@@ -112,6 +232,22 @@ const App = () => {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/players/:id"
+              element={
+                <ProtectedRoute>
+                  <PlayerDetail />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/leaderboards"
+              element={
+                <ProtectedRoute>
+                  <Leaderboards />
+                </ProtectedRoute>
+              }
+            />
             
             <Route
               path="/registers"
@@ -1,10 +1,10 @@
-import { Link, useNavigate } from "react-router-dom";
-import { LogOut, Menu, Trash } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { LogOut } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
-import { Tooltip, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
-import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { SidebarTrigger } from "@/components/ui/sidebar";
 import { ThemeToggle } from "@/components/common/theme-toggle";
+import { SeasonSwitcher } from "@/components/common/season-switcher";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,13 +15,6 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import {
-  NavigationMenu,
-  NavigationMenuItem,
-  NavigationMenuLink,
-  NavigationMenuList,
-  navigationMenuTriggerStyle,
-} from "@/components/ui/navigation-menu";
 
 interface AppNavbarProps {
   userData: {
@@ -36,8 +29,8 @@ export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarPro
   const navigate = useNavigate();
 
   const handleLogout = () => {
+    localStorage.removeItem("authToken");
     localStorage.removeItem("user");
-    localStorage.removeItem("token");
     navigate("/");
   };
   
@@ -49,56 +42,18 @@ export const AppNavbar = ({ userData, isDarkMode, toggleDarkMode }: AppNavbarPro
   };
 
   return (
-    <header className="bg-card/75 backdrop-blur-lg sticky top-4 z-50 flex h-12 shrink-0 items-center justify-between rounded-xl border shadow-lg px-4 mx-2 md:mx-auto w-[calc(100%-1rem)] md:w-[calc(100%-19rem)]">
+    <header className="bg-card/75 backdrop-blur-lg sticky top-4 z-50 flex h-12 shrink-0 items-center justify-between rounded-xl border shadow-lg px-4 mx-2 w-[calc(100%-1rem)]">
       <div className="flex items-center gap-4">
-        {/* Logo */}
-        <Link to="/dashboard" className="flex items-center gap-2">
-          <img src="/credisphere-logo.svg" alt="CrediSphere Logo" className="h-8 w-8" />
-          <span className="font-bold text-lg hidden md:block lg:block">CrediSphere</span>
-        </Link>
-        
-        {/* Navigation */}
-        <NavigationMenu className="hidden md:flex">
-          <NavigationMenuList>
-            
-         
-           
-           
-            <NavigationMenuItem>
-              <NavigationMenuLink asChild className={`${navigationMenuTriggerStyle()} bg-transparent hover:bg-transparent focus:bg-transparent`}>
-                <Link to="/parties">Party</Link>
-              </NavigationMenuLink>
-            </NavigationMenuItem>
-           
-          </NavigationMenuList>
-        </NavigationMenu>
+        <SidebarTrigger />
       </div>
 
       {/* Right side controls */}
       <div className="flex items-center gap-2">
-        
-       
-                <div className="md:hidden">
-          <Sheet>
-            <SheetTrigger asChild>
-              <Button variant="ghost" size="icon">
-                <Menu className="h-6 w-6" />
-              </Button>
-            </SheetTrigger>
-            <SheetContent side="right" className="w-[300px] sm:w-[400px]">
-              <nav className="flex flex-col gap-y-4 p-4 pt-10">
-                <Link to="/parties" className="text-lg font-medium p-2 hover:bg-muted rounded-md">Party</Link>
-                <Link to="/loans" className="text-lg font-medium p-2 hover:bg-muted rounded-md">Loan</Link>
-              </nav>
-            </SheetContent>
-          </Sheet>
-        </div>
-        
+        {/* Season every list is scoped to */}
+        <SeasonSwitcher />
+
         <ThemeToggle isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />
-        
-        {/* Recycle Bin */}
-       
-        
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="relative h-8 w-8 rounded-full">
@@ -17,6 +17,13 @@ import {
   User,
   UserCircle,
   CreditCard,
+  Trophy,
+  Medal,
+  MapPin,
+  BadgeCheck,
+  CalendarDays,
+  CalendarRange,
+  ArrowLeftRight,
 } from "lucide-react";
 
 import { NavMain } from "@/components/common/nav-main";
@@ -43,6 +50,11 @@ const initialData = {
     
     admin: {
       projects: [
+        {
+          name: "Season",
+          url: "/seasons",
+          icon: CalendarRange,
+        },
         {
           name: "Club",
           url: "clubs",
@@ -58,17 +70,91 @@ const initialData = {
           url: "competitions",
           icon: UsersRound,
         },
+        {
+          name: "Calendar",
+          url: "/competitions/calendar",
+          icon: CalendarDays,
+        },
+        {
+          name: "Venue",
+          url: "/venues",
+          icon: MapPin,
+        },
+        {
+          name: "Official",
+          url: "/officials",
+          icon: BadgeCheck,
+        },
+        {
+          name: "Match",
+          url: "/matches",
+          icon: Trophy,
+        },
+        {
+          name: "Leaderboard",
+          url: "/leaderboards",
+          icon: Medal,
+        },
+        {
+          name: "Player",
+          url: "players",
+          icon: UsersRound,
+        },
+        {
+          name: "Transfer",
+          url: "/transfers",
+          icon: ArrowLeftRight,
+        },
+        {
+          name: "Roles & Permissions",
+          url: "/roles",
+          icon: Settings2,
+        },
       
       ],
     },
     clubadmin: {
       projects: [
-      
+        {
+          name: "Portal",
+          url: "/portal",
+          icon: SquareTerminal,
+        },
         {
           name: "Player",
           url: "players",
           icon: UsersRound,
         },
+        {
+          name: "Transfer",
+          url: "/transfers",
+          icon: ArrowLeftRight,
+        },
+        {
+          name: "Competition",
+          url: "competitions",
+          icon: UsersRound,
+        },
+        {
+          name: "Calendar",
+          url: "/competitions/calendar",
+          icon: CalendarDays,
+        },
+        {
+          name: "Match",
+          url: "/matches",
+          icon: Trophy,
+        },
+        {
+          name: "Leaderboard",
+          url: "/leaderboards",
+          icon: Medal,
+        },
+        {
+          name: "Profile",
+          url: "/portal/profile",
+          icon: UserCircle,
+        },
         
       ],
     },
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarRange } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { get } from "@/services/apiService";
+import { SeasonsResponse, SEASON_STORAGE_KEY } from "@/modules/season/types";
+
+// Picks the season every list is scoped to; the choice is sent with each request
+export const SeasonSwitcher = () => {
+  const queryClient = useQueryClient();
+  const [seasonId, setSeasonId] = useState(() => localStorage.getItem(SEASON_STORAGE_KEY));
+
+  const { data } = useQuery({
+    queryKey: ["seasons"],
+    queryFn: (): Promise<SeasonsResponse> => get("/seasons"),
+    refetchOnWindowFocus: false,
+  });
+
+  const selectSeason = useCallback(
+    (value: string) => {
+      localStorage.setItem(SEASON_STORAGE_KEY, value);
+      setSeasonId(value);
+      // Every cached list belongs to the previous season
+      queryClient.invalidateQueries();
+    },
+    [queryClient]
+  );
+
+  // Start on the current season, and move off a season that no longer exists
+  useEffect(() => {
+    if (!data) return;
+    const known = seasonId === "all" || data.seasons.some((season) => season.id.toString() === seasonId);
+    if (!known) {
+      selectSeason(data.currentSeasonId ? data.currentSeasonId.toString() : "all");
+    }
+  }, [data, seasonId, selectSeason]);
+
+  if (!data || data.seasons.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select value={seasonId || "all"} onValueChange={selectSeason}>
+      <SelectTrigger className="h-8 w-[180px]">
+        <CalendarRange className="h-4 w-4 text-muted-foreground" />
+        <SelectValue placeholder="Season" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All seasons</SelectItem>
+        {data.seasons.map((season) => (
+          <SelectItem key={season.id} value={season.id.toString()}>
+            {season.seasonName}
+            {season.isCurrent && " (current)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -5,7 +5,7 @@
 import { Outlet } from "react-router-dom";
 import { useState, useEffect } from "react";
 
-// import { AppNavbar } from "@/components/common/app-navbar";
+import { AppNavbar } from "@/components/common/app-navbar";
 import { AppSidebar } from "@/components/common/app-sidebar";
 import { SidebarProvider, SidebarInset } from "@/components/ui/sidebar";
 
@@ -56,7 +56,7 @@ export default function MainLayout() {
     <SidebarProvider>
       <AppSidebar />
       <SidebarInset>
-        {/* <AppNavbar userData={userData} isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} /> */}
+        <AppNavbar userData={userData} isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />
         
         {/* Content Area */}
         <main className="p-4 pt-9">
@@ -42,6 +42,8 @@ interface LoginResponse {
     role: string;
     active: boolean;
     lastLogin: string;
+    clubId?: number | null;
+    isClub?: boolean;
     member?: {
       id: number;
       memberName: string;
@@ -99,7 +101,8 @@ const Login = () => {
         localStorage.setItem("memberId", data.user.member.id.toString());
       }
       
-      navigate("/clubs");
+      // Clubs land on their own portal; administrators on club management
+      navigate(data.user.role === "clubadmin" ? "/portal" : "/clubs");
       toast.success("Login successful!");
     },
     onError: (error: ApiErrorResponse) => {
@@ -0,0 +1,370 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { addDays, addYears, endOfDay, format, startOfDay, subDays } from "date-fns";
+import { Ban, LoaderCircle, PenSquare, Trash2 } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+
+// Services and utilities
+import { get, post, put, del } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import { AffiliationsResponse, ClubAffiliation, EXPIRING_SOON_DAYS } from "./types";
+
+const affiliationFormSchema = z.object({
+  startDate: z.date({ required_error: "Start date is required" }),
+  expiryDate: z.date({ required_error: "Expiry date is required" }),
+  fee: z.number({ invalid_type_error: "Fee must be a number" })
+    .min(0, "Fee cannot be negative"),
+  receiptNumber: z.string().max(255, "Receipt number must not exceed 255 characters").optional(),
+}).refine((data) => data.expiryDate > data.startDate, {
+  message: "Expiry date must be after the start date",
+  path: ["expiryDate"],
+});
+
+type AffiliationFormValues = z.infer<typeof affiliationFormSchema>;
+
+const dateFormat: [["days", "months", "years"], []] = [["days", "months", "years"], []];
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+const STATUS_BADGES: Record<ClubAffiliation["status"], { label: string; className: string }> = {
+  active: { label: "Active", className: "bg-green-50 border-green-200 text-green-700" },
+  expired: { label: "Expired", className: "bg-red-50 border-red-200 text-red-700" },
+  revoked: { label: "Revoked", className: "text-muted-foreground" },
+};
+
+interface AffiliationFormProps {
+  clubId: number;
+  affiliation: ClubAffiliation | null;
+  defaultPeriod: { startDate: Date; expiryDate: Date };
+  onDone: () => void;
+}
+
+// Records a renewal, or edits an existing affiliation period
+const AffiliationForm = ({ clubId, affiliation, defaultPeriod, onDone }: AffiliationFormProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<AffiliationFormValues>({
+    resolver: zodResolver(affiliationFormSchema),
+    defaultValues: affiliation
+      ? {
+          startDate: new Date(affiliation.startDate),
+          expiryDate: new Date(affiliation.expiryDate),
+          fee: Number(affiliation.fee),
+          receiptNumber: affiliation.receiptNumber || "",
+        }
+      : { ...defaultPeriod, fee: 0, receiptNumber: "" },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (values: AffiliationFormValues) =>
+      affiliation
+        ? put(`/clubs/${clubId}/affiliations/${affiliation.id}`, values)
+        : post(`/clubs/${clubId}/affiliations`, values),
+    onSuccess: () => {
+      toast.success(affiliation ? "Affiliation updated" : "Affiliation recorded");
+      queryClient.invalidateQueries({ queryKey: ["club", clubId, "affiliations"] });
+      queryClient.invalidateQueries({ queryKey: ["clubs"] });
+      onDone();
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(extractErrorMessage(error) || "Failed to save affiliation");
+    },
+  });
+
+  const onSubmit = (values: AffiliationFormValues) => {
+    // An affiliation covers its first and last days in full
+    saveMutation.mutate({
+      ...values,
+      startDate: startOfDay(values.startDate),
+      expiryDate: endOfDay(values.expiryDate),
+    });
+  };
+
+  const isSaving = saveMutation.isPending;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 rounded-md border p-4">
+        <div className="font-semibold">{affiliation ? "Edit Affiliation" : "Record Renewal"}</div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Date <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <DatetimePicker value={field.value} onChange={field.onChange} format={dateFormat} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expiryDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Expiry Date <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <DatetimePicker value={field.value} onChange={field.onChange} format={dateFormat} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="fee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fee <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    disabled={isSaving}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="receiptNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Receipt Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" {...field} disabled={isSaving} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {affiliation && (
+            <Button type="button" variant="outline" onClick={onDone} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving}>
+            {isSaving && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            {affiliation ? "Update" : "Record"} Affiliation
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+interface ClubAffiliationsProps {
+  clubId: number;
+  canManage: boolean;
+}
+
+// Affiliation history of a club, with a form to record renewals
+const ClubAffiliations = ({ clubId, canManage }: ClubAffiliationsProps) => {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ClubAffiliation | null>(null);
+  // Bumped after every save so the form starts afresh
+  const [formKey, setFormKey] = useState(0);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["club", clubId, "affiliations"],
+    queryFn: (): Promise<AffiliationsResponse> => get(`/clubs/${clubId}/affiliations`),
+  });
+
+  const handleChanged = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ["club", clubId, "affiliations"] });
+    queryClient.invalidateQueries({ queryKey: ["clubs"] });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: (affiliation: ClubAffiliation) =>
+      put(`/clubs/${clubId}/affiliations/${affiliation.id}`, {
+        startDate: affiliation.startDate,
+        expiryDate: affiliation.expiryDate,
+        fee: Number(affiliation.fee),
+        receiptNumber: affiliation.receiptNumber,
+        revoked: true,
+      }),
+    onSuccess: () => handleChanged("Affiliation revoked"),
+    onError: (error: any) => {
+      toast.error(extractErrorMessage(error) || "Failed to revoke affiliation");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => del(`/clubs/${clubId}/affiliations/${id}`),
+    onSuccess: () => handleChanged("Affiliation deleted"),
+    onError: (error: any) => {
+      toast.error(extractErrorMessage(error) || "Failed to delete affiliation");
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  // A renewal picks up where the latest live period ends and runs for a year
+  const latest = data.affiliations.find((affiliation) => affiliation.status !== "revoked");
+  const nextStart = latest && new Date(latest.expiryDate) > new Date()
+    ? startOfDay(addDays(new Date(latest.expiryDate), 1))
+    : startOfDay(new Date());
+  const defaultPeriod = { startDate: nextStart, expiryDate: subDays(addYears(nextStart, 1), 1) };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-sm">
+        {data.active && data.expiryInfo ? (
+          <span className="text-green-700">
+            Affiliated until {format(new Date(data.expiryInfo.expiryDate), "d MMM yyyy")}
+            {data.expiryInfo.daysRemaining <= EXPIRING_SOON_DAYS && ` (${data.expiryInfo.daysRemaining} days left)`}
+          </span>
+        ) : (
+          <span className="text-red-600">
+            {data.expiryInfo
+              ? `Not affiliated since ${format(new Date(data.expiryInfo.expiryDate), "d MMM yyyy")}. The club cannot enter competitions.`
+              : "No affiliation on record. The club cannot enter competitions."}
+          </span>
+        )}
+      </div>
+
+      <div className="rounded-md border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableHead>Period</TableHead>
+              <TableHead className="text-right">Fee</TableHead>
+              <TableHead>Receipt</TableHead>
+              <TableHead>Status</TableHead>
+              {canManage && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.affiliations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canManage ? 5 : 4} className="h-16 text-center">
+                  No affiliations recorded.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data.affiliations.map((affiliation) => (
+                <TableRow key={affiliation.id}>
+                  <TableCell>
+                    {format(new Date(affiliation.startDate), "d MMM yyyy")} – {format(new Date(affiliation.expiryDate), "d MMM yyyy")}
+                  </TableCell>
+                  <TableCell className="text-right">{Number(affiliation.fee).toFixed(2)}</TableCell>
+                  <TableCell>{affiliation.receiptNumber || "-"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_BADGES[affiliation.status].className}>
+                      {STATUS_BADGES[affiliation.status].label}
+                    </Badge>
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(affiliation)}>
+                          <PenSquare className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        {affiliation.status !== "revoked" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Revoke"
+                            onClick={() => revokeMutation.mutate(affiliation)}
+                            disabled={revokeMutation.isPending}
+                          >
+                            <Ban className="h-4 w-4" />
+                            <span className="sr-only">Revoke</span>
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(affiliation.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {canManage && (
+        <AffiliationForm
+          key={editing ? `edit-${editing.id}` : `new-${formKey}`}
+          clubId={clubId}
+          affiliation={editing}
+          defaultPeriod={defaultPeriod}
+          onDone={() => {
+            setEditing(null);
+            setFormKey((key) => key + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ClubAffiliations;
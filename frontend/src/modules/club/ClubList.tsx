@@ -26,7 +26,8 @@ import {
   Trash2,
   ChevronUp,
   ChevronDown,
-  PlusCircle
+  PlusCircle,
+  ShieldCheck
 } from "lucide-react";
 import {
   AlertDialog,
@@ -39,11 +40,29 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
 import CustomPagination from "@/components/common/custom-pagination";
 import { get, del } from "@/services/apiService";
 // Import components from current directory
 import CreateClub from "./CreateClub";
 import EditClub from "./EditClub";
+import ClubAffiliations from "./ClubAffiliations";
+import { AFFILIATION_STATE_LABELS, AffiliationState, getAffiliationState } from "./types";
+
+const AFFILIATION_STATE_CLASSES: Record<AffiliationState, string> = {
+  active: "bg-green-50 border-green-200 text-green-700",
+  expiring: "bg-amber-50 border-amber-200 text-amber-700",
+  expired: "bg-red-50 border-red-200 text-red-700",
+  none: "text-muted-foreground",
+};
 
 const ClubList = () => {
   const [page, setPage] = useState(1);
@@ -54,8 +73,14 @@ const ClubList = () => {
   const [editClubId, setEditClubId] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [affiliation, setAffiliation] = useState<string>("all");
+  const [affiliationClub, setAffiliationClub] = useState<{ id: number; clubName: string } | null>(null);
   const queryClient = useQueryClient();
 
+  // Affiliations are recorded by association admins only
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
   // Fetch clubs
   const {
     data,
@@ -63,8 +88,15 @@ const ClubList = () => {
     isError,
     error,
   } = useQuery({
-    queryKey: ["clubs", page, limit, search, sortBy, sortOrder],
-    queryFn: () => get("/clubs", { page, limit, search, sortBy, sortOrder }),
+    queryKey: ["clubs", page, limit, search, sortBy, sortOrder, affiliation],
+    queryFn: () => get("/clubs", {
+      page,
+      limit,
+      search,
+      sortBy,
+      sortOrder,
+      affiliation: affiliation !== "all" ? affiliation : undefined,
+    }),
   });
 
   // Delete club mutation
@@ -165,6 +197,25 @@ const ClubList = () => {
               />
             </div>
 
+            {/* Affiliation Filter */}
+            <Select
+              value={affiliation}
+              onValueChange={(value) => {
+                setAffiliation(value);
+                setPage(1); // Reset to first page when affiliation filter changes
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All affiliations" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All affiliations</SelectItem>
+                <SelectItem value="active">Affiliated</SelectItem>
+                <SelectItem value="expiring">Expiring soon</SelectItem>
+                <SelectItem value="expired">Expired or none</SelectItem>
+              </SelectContent>
+            </Select>
+
             {/* Action Buttons */}
             <Button
               onClick={() => setIsCreateDialogOpen(true)}
@@ -194,20 +245,21 @@ const ClubList = () => {
                   </TableHead>
                   <TableHead>Mobile</TableHead>
                   <TableHead>Email</TableHead>
+                  <TableHead>Affiliation Expiry</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="h-24 text-center">
+                    <TableCell colSpan={7} className="h-24 text-center">
                       <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
                       <p className="mt-2">Loading clubs...</p>
                     </TableCell>
                   </TableRow>
                 ) : data?.clubs?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="h-24 text-center">
+                    <TableCell colSpan={7} className="h-24 text-center">
                       No clubs found.
                     </TableCell>
                   </TableRow>
@@ -219,8 +271,32 @@ const ClubList = () => {
                       <TableCell>{club.city}</TableCell>
                       <TableCell>{club.mobile}</TableCell>
                       <TableCell>{club.email}</TableCell>
+                      <TableCell>
+                        {(() => {
+                          const latest = club.affiliations?.[0];
+                          const state = getAffiliationState(latest);
+                          return (
+                            <div className="flex flex-col items-start gap-1">
+                              {latest && <span>{format(new Date(latest.expiryDate), "d MMM yyyy")}</span>}
+                              <Badge variant="outline" className={AFFILIATION_STATE_CLASSES[state]}>
+                                {AFFILIATION_STATE_LABELS[state]}
+                              </Badge>
+                            </div>
+                          );
+                        })()}
+                      </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Affiliations"
+                            onClick={() => setAffiliationClub({ id: club.id, clubName: club.clubName })}
+                          >
+                            <ShieldCheck className="h-4 w-4" />
+                            <span className="sr-only">Affiliations</span>
+                          </Button>
+
                           <Button
                             variant="ghost"
                             size="icon"
@@ -316,10 +392,22 @@ const ClubList = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Affiliations Dialog */}
+      {affiliationClub && (
+        <Dialog open onOpenChange={(open) => !open && setAffiliationClub(null)}>
+          <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{affiliationClub.clubName} Affiliations</DialogTitle>
+            </DialogHeader>
+            <ClubAffiliations clubId={affiliationClub.id} canManage={!isClubAdmin} />
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Edit Club Dialog */}
       {editClubId && (
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-          <DialogContent className="sm:max-w-[500px]">
+          <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Edit Club</DialogTitle>
             </DialogHeader>
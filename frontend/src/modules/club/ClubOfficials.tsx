@@ -0,0 +1,461 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle, PenSquare, Trash2 } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Services and utilities
+import { get, postupload, putupload, del } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import {
+  CLUB_OFFICIAL_ROLE_LABELS,
+  ClubOfficial,
+  ClubOfficialRole,
+  ClubOfficialsResponse,
+} from "./types";
+
+const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MB = 1024 * 1024;
+
+const clubOfficialFormSchema = z.object({
+  firstName: z.string()
+    .min(1, "First name is required")
+    .max(255, "First name must not exceed 255 characters"),
+  lastName: z.string()
+    .min(1, "Last name is required")
+    .max(255, "Last name must not exceed 255 characters"),
+  role: z.enum(["coach", "assistant_coach", "manager", "physio"], {
+    errorMap: () => ({ message: "Role is required" }),
+  }),
+  mobile: z.string()
+    .min(10, "Mobile number must be at least 10 digits")
+    .max(15, "Mobile number must not exceed 15 digits")
+    .refine(val => /^\d+$/.test(val), {
+      message: "Mobile number can only contain digits",
+    }),
+  email: z.string()
+    .email("Valid email is required")
+    .max(255, "Email must not exceed 255 characters")
+    .optional()
+    .or(z.literal("")),
+  certification: z.string()
+    .max(255, "Certification must not exceed 255 characters")
+    .optional(),
+  active: z.boolean(),
+  photo: z.instanceof(File)
+    .refine(file => PHOTO_TYPES.includes(file.type), {
+      message: "Photo must be a JPEG, PNG or WebP image",
+    })
+    .refine(file => file.size <= 2 * MB, {
+      message: "Photo must not exceed 2 MB",
+    })
+    .nullable()
+    .optional(),
+});
+
+type ClubOfficialFormValues = z.infer<typeof clubOfficialFormSchema>;
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+// Builds the multipart payload; the photo is only sent when a new one was picked
+const buildOfficialFormData = ({ photo, ...values }: ClubOfficialFormValues): FormData => {
+  const formData = new FormData();
+  Object.entries(values).forEach(([key, value]) => {
+    formData.append(key, String(value ?? ""));
+  });
+  if (photo) formData.append("photo", photo);
+  return formData;
+};
+
+interface ClubOfficialFormProps {
+  clubId: number;
+  official: ClubOfficial | null;
+  onDone: () => void;
+}
+
+// Adds an official to the roster, or edits an existing one
+const ClubOfficialForm = ({ clubId, official, onDone }: ClubOfficialFormProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<ClubOfficialFormValues>({
+    resolver: zodResolver(clubOfficialFormSchema),
+    defaultValues: {
+      firstName: official?.firstName || "",
+      lastName: official?.lastName || "",
+      role: official?.role,
+      mobile: official?.mobile || "",
+      email: official?.email || "",
+      certification: official?.certification || "",
+      active: official ? official.active : true,
+      photo: null,
+    },
+  });
+
+  // Preview the newly picked photo until it is saved
+  const photo = form.watch("photo");
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  useEffect(() => {
+    if (!photo) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  const saveMutation = useMutation({
+    mutationFn: (values: ClubOfficialFormValues) =>
+      official
+        ? putupload(`/clubs/${clubId}/officials/${official.id}`, buildOfficialFormData(values))
+        : postupload(`/clubs/${clubId}/officials`, buildOfficialFormData(values)),
+    onSuccess: () => {
+      toast.success(official ? "Club official updated" : "Club official added");
+      queryClient.invalidateQueries({ queryKey: ["club", clubId, "officials"] });
+      onDone();
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(extractErrorMessage(error) || "Failed to save club official");
+    },
+  });
+
+  const isSaving = saveMutation.isPending;
+  const currentPhoto = photoPreview || (official?.photo ? `/uploads${official.photo}` : null);
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+        className="space-y-4 rounded-md border p-4"
+      >
+        <div className="font-semibold">{official ? "Edit Official" : "Add Official"}</div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="firstName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>First Name <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter first name" {...field} disabled={isSaving} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="lastName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Last Name <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter last name" {...field} disabled={isSaving} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="role"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Role <span className="text-red-500">*</span></FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={isSaving}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select role" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(CLUB_OFFICIAL_ROLE_LABELS) as ClubOfficialRole[]).map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {CLUB_OFFICIAL_ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="certification"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Certification</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. NIS Level 1" {...field} disabled={isSaving} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="mobile"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Mobile <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter mobile number" type="tel" maxLength={15} {...field} disabled={isSaving} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" type="email" {...field} disabled={isSaving} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="photo"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Photo</FormLabel>
+              <div className="flex items-center gap-3">
+                {currentPhoto && (
+                  <img
+                    src={currentPhoto}
+                    alt="Official photo"
+                    className="h-14 w-14 rounded-md object-cover border"
+                  />
+                )}
+                <FormControl>
+                  <Input
+                    type="file"
+                    accept={PHOTO_TYPES.join(",")}
+                    name={field.name}
+                    ref={field.ref}
+                    onBlur={field.onBlur}
+                    onChange={(e) => field.onChange(e.target.files?.[0] ?? null)}
+                    disabled={isSaving}
+                  />
+                </FormControl>
+              </div>
+              <p className="text-xs text-muted-foreground">JPEG, PNG or WebP, up to 2 MB</p>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="active"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                  disabled={isSaving}
+                />
+              </FormControl>
+              <FormLabel>Active (can be named on team entries)</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          {official && (
+            <Button type="button" variant="outline" onClick={onDone} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSaving}>
+            {isSaving && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            {official ? "Update" : "Add"} Official
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+interface ClubOfficialsProps {
+  clubId: number;
+}
+
+// Roster of a club's coaches, managers and support staff
+const ClubOfficials = ({ clubId }: ClubOfficialsProps) => {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ClubOfficial | null>(null);
+  // Bumped after every save so the form starts afresh
+  const [formKey, setFormKey] = useState(0);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["club", clubId, "officials"],
+    queryFn: (): Promise<ClubOfficialsResponse> => get(`/clubs/${clubId}/officials`),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => del(`/clubs/${clubId}/officials/${id}`),
+    onSuccess: () => {
+      toast.success("Club official removed");
+      queryClient.invalidateQueries({ queryKey: ["club", clubId, "officials"] });
+    },
+    onError: (error: any) => {
+      toast.error(extractErrorMessage(error) || "Failed to remove club official");
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableHead>Official</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Certification</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.officials.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-16 text-center">
+                  No officials on the roster yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data.officials.map((official) => {
+                const namedEntries = (official._count?.coachedEntries || 0) + (official._count?.managedEntries || 0);
+                return (
+                  <TableRow key={official.id} className={official.active ? undefined : "opacity-60"}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-8 w-8">
+                          {official.photo && <AvatarImage src={`/uploads${official.photo}`} alt={official.firstName} />}
+                          <AvatarFallback>
+                            {`${official.firstName.charAt(0)}${official.lastName.charAt(0)}`.toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span>{official.firstName} {official.lastName}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant="outline">{CLUB_OFFICIAL_ROLE_LABELS[official.role]}</Badge>
+                        {!official.active && <Badge variant="secondary">Inactive</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{official.mobile}</div>
+                      {official.email && <div className="text-muted-foreground">{official.email}</div>}
+                    </TableCell>
+                    <TableCell>{official.certification || "-"}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => setEditing(official)}>
+                          <PenSquare className="h-4 w-4" />
+                          <span className="sr-only">Edit</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={namedEntries > 0 ? "Named on team entries; mark inactive instead" : "Remove"}
+                          onClick={() => deleteMutation.mutate(official.id)}
+                          disabled={namedEntries > 0 || deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Remove</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <ClubOfficialForm
+        key={editing ? `edit-${editing.id}` : `new-${formKey}`}
+        clubId={clubId}
+        official={editing}
+        onDone={() => {
+          setEditing(null);
+          setFormKey((key) => key + 1);
+        }}
+      />
+    </div>
+  );
+};
+
+export default ClubOfficials;
@@ -1,5 +1,6 @@
-
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import ClubForm from "./ClubForm";
+import ClubOfficials from "./ClubOfficials";
 
 interface EditClubProps {
   clubId: string;
@@ -9,12 +10,22 @@ interface EditClubProps {
 
 const EditClub = ({ clubId, onSuccess, className }: EditClubProps) => {
   return (
-    <ClubForm 
-      mode="edit" 
-      clubId={clubId}
-      onSuccess={onSuccess}
-      className={className}
-    />
+    <Tabs defaultValue="details" className={className}>
+      <TabsList>
+        <TabsTrigger value="details">Details</TabsTrigger>
+        <TabsTrigger value="officials">Officials</TabsTrigger>
+      </TabsList>
+      <TabsContent value="details">
+        <ClubForm
+          mode="edit"
+          clubId={clubId}
+          onSuccess={onSuccess}
+        />
+      </TabsContent>
+      <TabsContent value="officials">
+        <ClubOfficials clubId={Number(clubId)} />
+      </TabsContent>
+    </Tabs>
   );
 };
 
@@ -0,0 +1,83 @@
+export type AffiliationStatus = "active" | "expired" | "revoked";
+
+export interface ClubAffiliation {
+  id: number;
+  clubId: number;
+  startDate: string;
+  expiryDate: string;
+  // Prisma serialises decimals as strings
+  fee: string;
+  status: AffiliationStatus;
+  receiptNumber: string | null;
+  reminderSentAt: string | null;
+}
+
+export interface AffiliationsResponse {
+  club: { id: number; clubName: string; affiliationNumber: string };
+  affiliations: ClubAffiliation[];
+  active: boolean;
+  expiryInfo: {
+    affiliationId: number;
+    expiryDate: string;
+    expired: boolean;
+    notStarted: boolean;
+    daysRemaining: number;
+  } | null;
+}
+
+export type AffiliationState = "active" | "expiring" | "expired" | "none";
+
+// Matches the default reminder window of the affiliation job
+export const EXPIRING_SOON_DAYS = 30;
+
+export const AFFILIATION_STATE_LABELS: Record<AffiliationState, string> = {
+  active: "Active",
+  expiring: "Expiring soon",
+  expired: "Expired",
+  none: "Not affiliated",
+};
+
+// State of a club from the expiry of its latest affiliation period
+export const getAffiliationState = (
+  affiliation?: Pick<ClubAffiliation, "expiryDate"> | null
+): AffiliationState => {
+  if (!affiliation) return "none";
+  const now = new Date();
+  const expiry = new Date(affiliation.expiryDate);
+  if (expiry < now) return "expired";
+  const daysRemaining = (expiry.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+  return daysRemaining <= EXPIRING_SOON_DAYS ? "expiring" : "active";
+};
+
+export type ClubOfficialRole = "coach" | "assistant_coach" | "manager" | "physio";
+
+export const CLUB_OFFICIAL_ROLE_LABELS: Record<ClubOfficialRole, string> = {
+  coach: "Coach",
+  assistant_coach: "Assistant Coach",
+  manager: "Manager",
+  physio: "Physio",
+};
+
+// Roster roles that can be named as a team entry's coach or manager
+export const COACH_ROLES: ClubOfficialRole[] = ["coach", "assistant_coach"];
+export const MANAGER_ROLES: ClubOfficialRole[] = ["manager"];
+
+export interface ClubOfficial {
+  id: number;
+  clubId: number;
+  firstName: string;
+  lastName: string;
+  role: ClubOfficialRole;
+  mobile: string;
+  email: string | null;
+  certification: string | null;
+  // Relative to /uploads
+  photo: string | null;
+  active: boolean;
+  _count?: { coachedEntries: number; managedEntries: number };
+}
+
+export interface ClubOfficialsResponse {
+  club: { id: number; clubName: string };
+  officials: ClubOfficial[];
+}
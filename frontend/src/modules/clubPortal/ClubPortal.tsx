@@ -0,0 +1,173 @@
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { LoaderCircle, UsersRound, ClipboardList, UserCircle, BadgeCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { get } from "@/services/apiService";
+import { AFFILIATION_STATE_LABELS, ClubAffiliation, getAffiliationState } from "../club/types";
+import ClubOfficials from "../club/ClubOfficials";
+
+// Interfaces
+export interface ClubProfileData {
+  id: number;
+  clubName: string;
+  affiliationNumber: string;
+  city: string;
+  address: string;
+  mobile: string;
+  email: string;
+  affiliations: Pick<ClubAffiliation, "id" | "startDate" | "expiryDate" | "status">[];
+  stats: {
+    players: number;
+    entries: Record<string, number>;
+  };
+}
+
+const ClubPortal = () => {
+  const navigate = useNavigate();
+
+  // Fetch the signed-in club's profile and counts
+  const { data: club, isLoading, isError, error } = useQuery({
+    queryKey: ["club", "me"],
+    queryFn: (): Promise<ClubProfileData> => get("/clubs/me"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Loading club portal...</span>
+      </div>
+    );
+  }
+
+  if (isError || !club) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Club</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load club"}</p>
+      </div>
+    );
+  }
+
+  const entries = club.stats.entries;
+  const latestAffiliation = club.affiliations?.[0];
+  const affiliationState = getAffiliationState(latestAffiliation);
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          {club.clubName}
+          <CardDescription>
+            Affiliation No. {club.affiliationNumber} &middot; {club.city}
+          </CardDescription>
+          <div className="flex items-center gap-2 text-sm font-normal">
+            <Badge variant={affiliationState === "expired" || affiliationState === "none" ? "destructive" : "outline"}>
+              {AFFILIATION_STATE_LABELS[affiliationState]}
+            </Badge>
+            {latestAffiliation && (
+              <span className="text-muted-foreground">
+                {affiliationState === "expired" ? "Expired" : "Expires"} on{" "}
+                {format(new Date(latestAffiliation.expiryDate), "d MMM yyyy")}
+                {affiliationState !== "active" && ". Renew your affiliation to keep entering competitions."}
+              </span>
+            )}
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Roster */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <UsersRound className="h-4 w-4" />
+              Roster
+            </CardTitle>
+            <CardDescription>Players registered with your club</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-3xl font-bold">{club.stats.players}</div>
+            <Button variant="outline" size="sm" onClick={() => navigate("/players")}>
+              Manage players
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Entries */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ClipboardList className="h-4 w-4" />
+              Competition Entries
+            </CardTitle>
+            <CardDescription>Teams your club has entered</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className="text-2xl font-bold">{entries.pending || 0}</div>
+                <div className="text-xs text-muted-foreground">Pending</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-green-600">{entries.approved || 0}</div>
+                <div className="text-xs text-muted-foreground">Approved</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-red-500">{entries.rejected || 0}</div>
+                <div className="text-xs text-muted-foreground">Rejected</div>
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate("/competitions")}>
+              View competitions
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Profile */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <UserCircle className="h-4 w-4" />
+              Club Profile
+            </CardTitle>
+            <CardDescription>Contact details and password</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <div>{club.email}</div>
+            <div>{club.mobile}</div>
+            <div className="text-muted-foreground">{club.address}</div>
+            <Button variant="outline" size="sm" className="mt-3" onClick={() => navigate("/portal/profile")}>
+              Edit profile
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Officials */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <BadgeCheck className="h-4 w-4" />
+            Team Officials
+          </CardTitle>
+          <CardDescription>Coaches, managers and support staff named on your team entries</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ClubOfficials clubId={club.id} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ClubPortal;
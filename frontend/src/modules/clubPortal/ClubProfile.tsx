@@ -0,0 +1,224 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { PasswordInput } from "@/components/ui/password-input";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+// Services and utilities
+import { get, put } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import { ClubProfileData } from "./ClubPortal";
+
+// Create schema for club profile form
+const clubProfileSchema = z
+  .object({
+    city: z.string()
+      .min(1, "City is required")
+      .max(255, "City must not exceed 255 characters"),
+    address: z.string()
+      .min(1, "Address is required")
+      .max(500, "Address must not exceed 500 characters"),
+    mobile: z.string()
+      .min(1, "Mobile number is required")
+      .max(20, "Mobile number must not exceed 20 characters"),
+    password: z.string()
+      .refine(val => !val || val.length >= 6, {
+        message: "Password must be at least 6 characters",
+      }),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ClubProfileInputs = z.infer<typeof clubProfileSchema>;
+
+const ClubProfile = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ClubProfileInputs>({
+    resolver: zodResolver(clubProfileSchema),
+    defaultValues: {
+      city: "",
+      address: "",
+      mobile: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  // Fetch the signed-in club's profile
+  const { data: club, isLoading } = useQuery({
+    queryKey: ["club", "me"],
+    queryFn: (): Promise<ClubProfileData> => get("/clubs/me"),
+  });
+
+  useEffect(() => {
+    if (club) {
+      form.setValue("city", club.city || "");
+      form.setValue("address", club.address || "");
+      form.setValue("mobile", club.mobile || "");
+    }
+  }, [club, form]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: ClubProfileInputs) =>
+      put("/clubs/me", {
+        city: data.city,
+        address: data.address,
+        mobile: data.mobile,
+        password: data.password || undefined,
+      }),
+    onSuccess: () => {
+      toast.success("Profile updated successfully");
+      queryClient.invalidateQueries({ queryKey: ["club", "me"] });
+      form.setValue("password", "");
+      form.setValue("confirmPassword", "");
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(error.errors?.message || error.message || "Failed to update profile");
+    },
+  });
+
+  const onSubmit = (data: ClubProfileInputs) => {
+    updateMutation.mutate(data);
+  };
+
+  const isFormLoading = isLoading || updateMutation.isPending;
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Club Profile
+          <CardDescription>
+            {club ? `${club.clubName} (${club.email})` : "Update your contact details and password"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* City Field */}
+                <FormField
+                  control={form.control}
+                  name="city"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>City <span className="text-red-500">*</span></FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter city" {...field} disabled={isFormLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Mobile Field */}
+                <FormField
+                  control={form.control}
+                  name="mobile"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Mobile <span className="text-red-500">*</span></FormLabel>
+                      <FormControl>
+                        <Input placeholder="Enter mobile number" {...field} disabled={isFormLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Address Field */}
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address <span className="text-red-500">*</span></FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Enter address" {...field} disabled={isFormLoading} rows={3} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Password Field */}
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <PasswordInput placeholder="Leave blank to keep current" {...field} disabled={isFormLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Confirm Password Field */}
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm Password</FormLabel>
+                      <FormControl>
+                        <PasswordInput placeholder="Repeat new password" {...field} disabled={isFormLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Form Actions */}
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => navigate("/portal")}
+                  disabled={isFormLoading}
+                >
+                  Back
+                </Button>
+                <Button type="submit" disabled={isFormLoading}>
+                  {updateMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Profile
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ClubProfile;
@@ -0,0 +1,226 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ArrowLeft, ChevronLeft, ChevronRight, LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+import { cn } from "@/lib/utils";
+import { get } from "@/services/apiService";
+import { CompetitionStatus, COMPETITION_STATUS_LABELS } from "./competitionStatus";
+
+interface CalendarCompetition {
+  id: number;
+  competitionName: string;
+  startDate: string;
+  endDate: string;
+  status: CompetitionStatus;
+  venue: { id: number; venueName: string } | null;
+}
+
+type CalendarView = "month" | "week";
+
+const dateFormat: [["days", "months", "years"], []] = [["days", "months", "years"], []];
+
+// Weeks start on Monday, as on the fixtures schedule
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+const STATUS_COLORS: Record<CompetitionStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  open_for_entries: "bg-green-100 text-green-800",
+  entries_closed: "bg-amber-100 text-amber-800",
+  in_progress: "bg-blue-100 text-blue-800",
+  completed: "bg-slate-200 text-slate-700",
+  cancelled: "bg-red-100 text-red-700 line-through",
+};
+
+const CompetitionCalendar = () => {
+  const navigate = useNavigate();
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  // Month view shows whole weeks around the month, week view a single week
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    if (view === "month") {
+      return {
+        rangeStart: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS),
+        rangeEnd: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS),
+      };
+    }
+    return {
+      rangeStart: startOfWeek(anchor, WEEK_OPTIONS),
+      rangeEnd: endOfWeek(anchor, WEEK_OPTIONS),
+    };
+  }, [view, anchor]);
+
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    for (let day = rangeStart; day <= rangeEnd; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [rangeStart, rangeEnd]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["competitions", "calendar", rangeStart.toISOString(), rangeEnd.toISOString()],
+    queryFn: (): Promise<{ competitions: CalendarCompetition[] }> =>
+      get("/competitions", {
+        from: rangeStart.toISOString(),
+        to: rangeEnd.toISOString(),
+        sortBy: "startDate",
+        limit: 1000,
+      }),
+  });
+
+  const competitionsOn = (day: Date) =>
+    (data?.competitions || []).filter(
+      (competition) =>
+        new Date(competition.startDate) <= endOfDay(day) &&
+        new Date(competition.endDate) >= startOfDay(day)
+    );
+
+  const move = (step: number) =>
+    setAnchor((current) => (view === "month" ? addMonths(current, step) : addWeeks(current, step)));
+
+  const title =
+    view === "month"
+      ? format(anchor, "MMMM yyyy")
+      : `${format(rangeStart, "d MMM")} – ${format(rangeEnd, "d MMM yyyy")}`;
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/competitions")}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            Competition Calendar
+          </div>
+          <CardDescription>Competitions by the days they are played</CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => move(-1)}>
+                <ChevronLeft className="h-4 w-4" />
+                <span className="sr-only">Previous</span>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => move(1)}>
+                <ChevronRight className="h-4 w-4" />
+                <span className="sr-only">Next</span>
+              </Button>
+            </div>
+
+            <h3 className="text-lg font-semibold flex-1">{title}</h3>
+
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Go to</span>
+              <DatetimePicker
+                value={anchor}
+                onChange={(date) => date && setAnchor(date)}
+                format={dateFormat}
+                className="w-auto"
+              />
+            </div>
+
+            <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+              <TabsList>
+                <TabsTrigger value="month">Month</TabsTrigger>
+                <TabsTrigger value="week">Week</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <div className="grid grid-cols-7 bg-muted/50 text-sm font-medium">
+                {days.slice(0, 7).map((day) => (
+                  <div key={day.toISOString()} className="p-2 text-center">
+                    {format(day, "EEE")}
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7">
+                {days.map((day) => (
+                  <div
+                    key={day.toISOString()}
+                    className={cn(
+                      "border-t border-l p-1 space-y-1",
+                      view === "month" ? "min-h-24" : "min-h-64",
+                      view === "month" && !isSameMonth(day, anchor) && "bg-muted/30 text-muted-foreground"
+                    )}
+                  >
+                    <div
+                      className={cn(
+                        "text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full",
+                        isSameDay(day, new Date()) && "bg-primary text-primary-foreground"
+                      )}
+                    >
+                      {format(day, "d")}
+                    </div>
+                    {competitionsOn(day).map((competition) => (
+                      <button
+                        key={competition.id}
+                        type="button"
+                        title={`${competition.competitionName} (${COMPETITION_STATUS_LABELS[competition.status]})`}
+                        className={cn(
+                          "block w-full truncate rounded px-1 py-0.5 text-left text-xs",
+                          STATUS_COLORS[competition.status]
+                        )}
+                        onClick={() => navigate(`/competitions/${competition.id}/fixtures`)}
+                      >
+                        {view === "week" && isSameDay(day, new Date(competition.startDate)) && (
+                          <span className="font-semibold mr-1">{format(new Date(competition.startDate), "p")}</span>
+                        )}
+                        {competition.competitionName}
+                        {view === "week" && competition.venue && (
+                          <span className="block text-[10px] opacity-80">{competition.venue.venueName}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Legend */}
+          <div className="flex flex-wrap gap-2 mt-4 text-xs">
+            {(Object.keys(STATUS_COLORS) as CompetitionStatus[]).map((status) => (
+              <span key={status} className={cn("rounded px-2 py-0.5", STATUS_COLORS[status])}>
+                {COMPETITION_STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CompetitionCalendar;
@@ -0,0 +1,532 @@
+import { useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { saveAs } from "file-saver";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  Check,
+  FileText,
+  LoaderCircle,
+  PenSquare,
+  PlusCircle,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get, patch, del } from "@/services/apiService";
+import EntryForm, { EntryData } from "./EntryForm";
+
+interface Entry extends EntryData {
+  remarks: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  group: { id: number; groupName: string; gender: string; age: string };
+  club: { id: number; clubName: string };
+  reviewedBy: { id: number; name: string } | null;
+  coach: EntryOfficial | null;
+  manager: EntryOfficial | null;
+  players: { id: number; firstName: string; lastName: string; uniqueIdNumber: string }[];
+}
+
+interface EntryOfficial {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+const statusVariants: Record<string, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+const CompetitionEntries = () => {
+  const { id } = useParams<{ id: string }>();
+  const competitionId = id as string;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [status, setStatus] = useState("all");
+  const [groupId, setGroupId] = useState("all");
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editEntry, setEditEntry] = useState<Entry | null>(null);
+  const [rejectEntry, setRejectEntry] = useState<Entry | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  // Fetch entries together with the competition summary
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["competition-entries", competitionId, page, limit, status, groupId],
+    queryFn: () =>
+      get(`/competitions/${competitionId}/entries`, {
+        page,
+        limit,
+        status: status === "all" ? undefined : status,
+        groupId: groupId === "all" ? undefined : groupId,
+      }),
+  });
+
+  const competition = data?.competition;
+
+  // Approve or reject an entry
+  const reviewMutation = useMutation({
+    mutationFn: ({ entryId, status, remarks }: { entryId: number; status: string; remarks?: string }) =>
+      patch(`/competitions/${competitionId}/entries/${entryId}/status`, { status, remarks }),
+    onSuccess: (_, variables) => {
+      toast.success(`Entry ${variables.status} successfully`);
+      queryClient.invalidateQueries({ queryKey: ["competition-entries", competitionId] });
+      setRejectEntry(null);
+      setRejectReason("");
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.remarks?.message || error.errors?.message || error.message || "Failed to review entry");
+    },
+  });
+
+  // Withdraw an entry
+  const deleteMutation = useMutation({
+    mutationFn: (entryId: number) => del(`/competitions/${competitionId}/entries/${entryId}`),
+    onSuccess: () => {
+      toast.success("Entry withdrawn successfully");
+      queryClient.invalidateQueries({ queryKey: ["competition-entries", competitionId] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to withdraw entry");
+    },
+  });
+
+  // Team sheets come back as a PDF; errors arrive as a blob because of the response type
+  const downloadTeamSheet = async (entry: Entry) => {
+    try {
+      const response = await get(
+        `/competitions/${competitionId}/entries/${entry.id}/team-sheet`,
+        null,
+        { responseType: "blob" }
+      );
+      saveAs(
+        new Blob([response.data], { type: "application/pdf" }),
+        `team-sheet-${entry.club.clubName}-${entry.group.groupName}.pdf`
+      );
+    } catch (error: any) {
+      let message = "Failed to download team sheet";
+      if (error.data instanceof Blob) {
+        try {
+          message = JSON.parse(await error.data.text()).errors?.message || message;
+        } catch {
+          // Not a JSON error body; keep the generic message
+        }
+      }
+      toast.error(message);
+    }
+  };
+
+  // Handle pagination
+  const handlePageChange = (newPage: number) => {
+    if (newPage > 0 && (!data || newPage <= data.totalPages)) {
+      setPage(newPage);
+    }
+  };
+
+  // Handle records per page change
+  const handleRecordsPerPageChange = (newLimit: number) => {
+    setLimit(newLimit);
+    setPage(1);
+  };
+
+  // Format date for display
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "";
+    try {
+      return new Date(dateString).toLocaleDateString();
+    } catch {
+      return dateString;
+    }
+  };
+
+  // Handle error
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Entries</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load entries"}</p>
+        <Button className="mt-4" onClick={() => queryClient.invalidateQueries({ queryKey: ["competition-entries", competitionId] })}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/competitions")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            Entries{competition ? ` - ${competition.competitionName}` : ""}
+          </div>
+          {competition && (
+            <CardDescription className="flex flex-wrap items-center gap-2">
+              <span>Max {competition.maxPlayers} players per team.</span>
+              <span>Last entry date: {formatDate(competition.lastEntryDate)}</span>
+              <Badge variant={competition.entriesOpen ? "default" : "secondary"}>
+                {competition.entriesOpen ? "Entries open" : "Entries closed"}
+              </Badge>
+            </CardDescription>
+          )}
+        </CardHeader>
+
+        <CardContent>
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <Select
+              value={groupId}
+              onValueChange={(value) => {
+                setGroupId(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All groups" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All groups</SelectItem>
+                {competition?.groups?.map((group: Entry["group"]) => (
+                  <SelectItem key={group.id} value={group.id.toString()}>
+                    {group.groupName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All statuses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex-1" />
+
+            <Button
+              onClick={() => setIsCreateDialogOpen(true)}
+              size="sm"
+              disabled={!competition?.entriesOpen}
+            >
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Submit Team
+            </Button>
+          </div>
+
+          {/* Entries Table */}
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead>Club</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead>Players</TableHead>
+                  <TableHead>Coach / Manager</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Remarks</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                      <p className="mt-2">Loading entries...</p>
+                    </TableCell>
+                  </TableRow>
+                ) : data?.entries?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      No entries found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.entries?.map((entry: Entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.club.clubName}</TableCell>
+                      <TableCell>{entry.group.groupName}</TableCell>
+                      <TableCell title={entry.players.map((p) => `${p.firstName} ${p.lastName}`).join(", ")}>
+                        {entry.players.length} / {competition?.maxPlayers}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.coach || entry.manager ? (
+                          <>
+                            <div>{entry.coach ? `${entry.coach.firstName} ${entry.coach.lastName}` : "-"}</div>
+                            <div className="text-muted-foreground">
+                              {entry.manager ? `${entry.manager.firstName} ${entry.manager.lastName}` : "-"}
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Not named</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[entry.status] || "secondary"} className="capitalize">
+                          {entry.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell className="max-w-[200px] truncate" title={entry.remarks || ""}>
+                        {entry.remarks}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Download team sheet"
+                            onClick={() => downloadTeamSheet(entry)}
+                          >
+                            <FileText className="h-4 w-4" />
+                            <span className="sr-only">Team Sheet</span>
+                          </Button>
+                          {!isClubAdmin && entry.status !== "approved" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => reviewMutation.mutate({ entryId: entry.id, status: "approved" })}
+                              disabled={reviewMutation.isPending}
+                            >
+                              <Check className="h-4 w-4 text-green-600" />
+                              <span className="sr-only">Approve</span>
+                            </Button>
+                          )}
+                          {!isClubAdmin && entry.status !== "rejected" && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setRejectEntry(entry)}
+                              disabled={reviewMutation.isPending}
+                            >
+                              <X className="h-4 w-4 text-red-500" />
+                              <span className="sr-only">Reject</span>
+                            </Button>
+                          )}
+                          {entry.status !== "approved" && competition?.entriesOpen && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setEditEntry(entry)}
+                            >
+                              <PenSquare className="h-4 w-4" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                          )}
+                          {(!isClubAdmin || (entry.status !== "approved" && competition?.entriesOpen)) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon">
+                                  <Trash2 className="h-4 w-4" />
+                                  <span className="sr-only">Withdraw</span>
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Confirm Withdrawal</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to withdraw this team from the competition? This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => deleteMutation.mutate(entry.id)}
+                                    className="bg-red-500 hover:bg-red-600"
+                                  >
+                                    {deleteMutation.isPending ? (
+                                      <>
+                                        <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
+                                        Withdrawing...
+                                      </>
+                                    ) : (
+                                      "Withdraw"
+                                    )}
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {data && data.totalPages > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm">Show</span>
+                <select
+                  className="border rounded p-1 text-sm"
+                  value={limit}
+                  onChange={(e) => handleRecordsPerPageChange(Number(e.target.value))}
+                >
+                  <option value="10">10</option>
+                  <option value="25">25</option>
+                  <option value="50">50</option>
+                  <option value="100">100</option>
+                </select>
+                <span className="text-sm">per page</span>
+              </div>
+
+              <CustomPagination
+                currentPage={page}
+                totalPages={data.totalPages}
+                totalRecords={data.totalEntries}
+                recordsPerPage={limit}
+                onPageChange={handlePageChange}
+                onRecordsPerPageChange={handleRecordsPerPageChange}
+              />
+
+              <div className="text-sm">
+                Showing {(page - 1) * limit + 1} to {Math.min(page * limit, data.totalEntries)} of {data.totalEntries}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Submit Team Dialog */}
+      {competition && (
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogContent className="sm:max-w-[600px]">
+            <DialogHeader>
+              <DialogTitle>Submit Team</DialogTitle>
+            </DialogHeader>
+            <EntryForm
+              competitionId={competitionId}
+              groups={competition.groups}
+              maxPlayers={competition.maxPlayers}
+              onSuccess={() => setIsCreateDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Edit Team Dialog */}
+      {competition && editEntry && (
+        <Dialog open={!!editEntry} onOpenChange={(open) => !open && setEditEntry(null)}>
+          <DialogContent className="sm:max-w-[600px]">
+            <DialogHeader>
+              <DialogTitle>Edit Team - {editEntry.club.clubName}</DialogTitle>
+            </DialogHeader>
+            <EntryForm
+              competitionId={competitionId}
+              groups={competition.groups}
+              maxPlayers={competition.maxPlayers}
+              entry={editEntry}
+              onSuccess={() => setEditEntry(null)}
+            />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Reject Entry Dialog */}
+      <Dialog
+        open={!!rejectEntry}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRejectEntry(null);
+            setRejectReason("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Reject Entry{rejectEntry ? ` - ${rejectEntry.club.clubName}` : ""}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason for rejection"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectEntry(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectReason.trim() || reviewMutation.isPending}
+              onClick={() =>
+                rejectEntry &&
+                reviewMutation.mutate({ entryId: rejectEntry.id, status: "rejected", remarks: rejectReason })
+              }
+            >
+              {reviewMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CompetitionEntries;
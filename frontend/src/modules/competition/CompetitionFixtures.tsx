@@ -0,0 +1,470 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, CalendarPlus, LoaderCircle, Send, Shuffle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { get, post, patch } from "@/services/apiService";
+import { ScheduleMatchDialog } from "@/modules/matches";
+
+// Interfaces
+type Slot = "home" | "away";
+
+interface FixtureTeam {
+  id: number;
+  club: { id: number; clubName: string };
+}
+
+interface Fixture {
+  id: number;
+  groupId: number;
+  format: "knockout" | "league";
+  round: number;
+  matchNumber: number;
+  isBye: boolean;
+  published: boolean;
+  homeEntry: FixtureTeam | null;
+  awayEntry: FixtureTeam | null;
+  match: {
+    id: number;
+    status: "scheduled" | "live" | "completed" | "walkover";
+    homeScore: number;
+    awayScore: number;
+  } | null;
+}
+
+interface FixtureGroup {
+  id: number;
+  groupName: string;
+  format: "knockout" | "league" | null;
+  published: boolean;
+  fixtureCount: number;
+}
+
+interface FixturesResponse {
+  competition: { id: number; competitionName: string };
+  groups: FixtureGroup[];
+  fixtures: Fixture[];
+}
+
+interface SelectedSlot {
+  fixtureId: number;
+  slot: Slot;
+}
+
+// Name knockout rounds by how many teams are left
+const getRoundName = (round: number, totalRounds: number, format: string) => {
+  if (format !== "knockout") return `Round ${round}`;
+  const remaining = totalRounds - round;
+  if (remaining === 0) return "Final";
+  if (remaining === 1) return "Semi-finals";
+  if (remaining === 2) return "Quarter-finals";
+  return `Round ${round}`;
+};
+
+const CompetitionFixtures = () => {
+  const { id } = useParams<{ id: string }>();
+  const competitionId = id as string;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [groupId, setGroupId] = useState<string>("");
+  const [format, setFormat] = useState<"knockout" | "league">("knockout");
+  const [doubleRoundRobin, setDoubleRoundRobin] = useState(false);
+  const [seedEntryIds, setSeedEntryIds] = useState<number[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<SelectedSlot | null>(null);
+  const [scheduleFixtureId, setScheduleFixtureId] = useState<number | null>(null);
+
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  // Fetch fixtures together with the draw status of each group
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["competition-fixtures", competitionId],
+    queryFn: (): Promise<FixturesResponse> => get(`/competitions/${competitionId}/fixtures`),
+  });
+
+  // Default to the first group once the competition is loaded
+  useEffect(() => {
+    if (!groupId && data?.groups.length) {
+      setGroupId(data.groups[0].id.toString());
+    }
+  }, [data, groupId]);
+
+  const group = data?.groups.find((item) => item.id.toString() === groupId);
+  const fixtures = (data?.fixtures || []).filter((fixture) => fixture.groupId.toString() === groupId);
+  const canEdit = !isClubAdmin && !!group && !group.published;
+
+  useEffect(() => {
+    setSeedEntryIds([]);
+    setSelectedSlot(null);
+    if (group?.format) {
+      setFormat(group.format);
+    }
+  }, [groupId, group?.format]);
+
+  // Approved teams in the group, offered for seeding
+  const { data: entriesData } = useQuery({
+    queryKey: ["competition-entries", competitionId, "approved", groupId],
+    queryFn: () =>
+      get(`/competitions/${competitionId}/entries`, { groupId, status: "approved", limit: 1000 }),
+    enabled: canEdit,
+  });
+  const approvedEntries: FixtureTeam[] = entriesData?.entries || [];
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["competition-fixtures", competitionId] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: () =>
+      post(`/competitions/${competitionId}/fixtures/generate`, {
+        groupId: Number(groupId),
+        format,
+        seedEntryIds,
+        doubleRoundRobin: format === "league" ? doubleRoundRobin : undefined,
+      }),
+    onSuccess: () => {
+      toast.success("Fixtures drawn");
+      setSelectedSlot(null);
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to draw fixtures");
+    },
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: ({ first, second }: { first: SelectedSlot; second: SelectedSlot }) =>
+      patch(`/competitions/${competitionId}/fixtures/swap`, {
+        groupId: Number(groupId),
+        fixtureId: first.fixtureId,
+        slot: first.slot,
+        withFixtureId: second.fixtureId,
+        withSlot: second.slot,
+      }),
+    onSuccess: () => {
+      toast.success("Teams swapped");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to swap teams");
+    },
+    onSettled: () => setSelectedSlot(null),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: () =>
+      post(`/competitions/${competitionId}/fixtures/publish`, { groupId: Number(groupId) }),
+    onSuccess: () => {
+      toast.success("Fixtures published");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to publish fixtures");
+    },
+  });
+
+  const toggleSeed = (entryId: number) => {
+    setSeedEntryIds((prev) =>
+      prev.includes(entryId) ? prev.filter((item) => item !== entryId) : [...prev, entryId]
+    );
+  };
+
+  // First click picks a team, second click swaps it with another place
+  const handleSlotClick = (fixture: Fixture, slot: Slot) => {
+    if (!selectedSlot) {
+      setSelectedSlot({ fixtureId: fixture.id, slot });
+      return;
+    }
+    if (selectedSlot.fixtureId === fixture.id && selectedSlot.slot === slot) {
+      setSelectedSlot(null);
+      return;
+    }
+    swapMutation.mutate({ first: selectedSlot, second: { fixtureId: fixture.id, slot } });
+  };
+
+  const isSwappable = (fixture: Fixture) =>
+    canEdit && (fixture.format === "league" || fixture.round === 1);
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Fixtures</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load fixtures"}</p>
+        <Button className="mt-4" onClick={refresh}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  const rounds = [...new Set(fixtures.map((fixture) => fixture.round))].sort((a, b) => a - b);
+  const totalRounds = rounds.length;
+
+  const renderTeam = (fixture: Fixture, slot: Slot) => {
+    const team = slot === "home" ? fixture.homeEntry : fixture.awayEntry;
+    const label = team ? team.club.clubName : fixture.isBye && slot === "away" ? "BYE" : "TBD";
+    const selected = selectedSlot?.fixtureId === fixture.id && selectedSlot.slot === slot;
+
+    if (!isSwappable(fixture)) {
+      return (
+        <div className={`px-2 py-1 text-sm truncate ${team ? "" : "text-muted-foreground italic"}`}>
+          {label}
+        </div>
+      );
+    }
+    return (
+      <button
+        type="button"
+        className={`w-full text-left px-2 py-1 text-sm truncate rounded hover:bg-muted ${
+          selected ? "bg-primary/10 ring-1 ring-primary" : ""
+        } ${team ? "" : "text-muted-foreground italic"}`}
+        onClick={() => handleSlotClick(fixture, slot)}
+        disabled={swapMutation.isPending}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  // Published fixtures with both teams known can be scheduled as a match
+  const canSchedule = (fixture: Fixture) =>
+    !isClubAdmin && fixture.published && !fixture.match && !!fixture.homeEntry && !!fixture.awayEntry;
+
+  const renderFixture = (fixture: Fixture) => (
+    <div key={fixture.id} className="border rounded-md bg-background">
+      <div className="flex items-center justify-between px-2 pt-1 text-xs text-muted-foreground">
+        <span>Match {fixture.matchNumber}</span>
+        {fixture.isBye && <span>Bye</span>}
+        {fixture.match && (
+          <button
+            type="button"
+            className="hover:underline"
+            onClick={() => navigate(`/matches/${fixture.match?.id}`)}
+          >
+            {fixture.match.status === "scheduled"
+              ? "Scheduled"
+              : `${fixture.match.homeScore} - ${fixture.match.awayScore}`}
+          </button>
+        )}
+        {canSchedule(fixture) && (
+          <button
+            type="button"
+            className="flex items-center gap-1 hover:underline"
+            onClick={() => setScheduleFixtureId(fixture.id)}
+          >
+            <CalendarPlus className="h-3 w-3" />
+            Schedule
+          </button>
+        )}
+      </div>
+      {renderTeam(fixture, "home")}
+      <div className="px-2 text-xs text-muted-foreground">vs</div>
+      {renderTeam(fixture, "away")}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/competitions")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            Fixtures{data ? ` - ${data.competition.competitionName}` : ""}
+          </div>
+          {group && (
+            <CardDescription className="flex flex-wrap items-center gap-2">
+              {group.format && <span className="capitalize">{group.format}</span>}
+              <Badge variant={group.published ? "default" : "secondary"}>
+                {group.published ? "Published" : group.fixtureCount ? "Draft" : "Not drawn"}
+              </Badge>
+            </CardDescription>
+          )}
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={groupId} onValueChange={setGroupId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select group" />
+              </SelectTrigger>
+              <SelectContent>
+                {data?.groups.map((item) => (
+                  <SelectItem key={item.id} value={item.id.toString()}>
+                    {item.groupName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {canEdit && (
+              <>
+                <Select value={format} onValueChange={(value) => setFormat(value as "knockout" | "league")}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="knockout">Knockout</SelectItem>
+                    <SelectItem value="league">League</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {format === "league" && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="double-round-robin"
+                      checked={doubleRoundRobin}
+                      onCheckedChange={(checked) => setDoubleRoundRobin(checked === true)}
+                    />
+                    <Label htmlFor="double-round-robin">Home and away</Label>
+                  </div>
+                )}
+
+                <div className="flex-1" />
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => generateMutation.mutate()}
+                  disabled={generateMutation.isPending}
+                >
+                  {generateMutation.isPending ? (
+                    <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Shuffle className="mr-2 h-4 w-4" />
+                  )}
+                  {fixtures.length ? "Redraw" : "Draw Fixtures"}
+                </Button>
+
+                {fixtures.length > 0 && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" disabled={publishMutation.isPending}>
+                        <Send className="mr-2 h-4 w-4" />
+                        Publish
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Publish Fixtures</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Clubs will be able to see these fixtures, and they can no longer be redrawn or swapped.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => publishMutation.mutate()}>
+                          Publish
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Seeding */}
+          {canEdit && approvedEntries.length > 0 && (
+            <div className="rounded-md border p-3 space-y-2">
+              <div className="text-sm font-medium">Seeds</div>
+              <p className="text-xs text-muted-foreground">
+                Click teams in seed order, strongest first. Unseeded teams are drawn at random.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {approvedEntries.map((entry) => {
+                  const seed = seedEntryIds.indexOf(entry.id);
+                  return (
+                    <Button
+                      key={entry.id}
+                      size="sm"
+                      variant={seed >= 0 ? "default" : "outline"}
+                      onClick={() => toggleSeed(entry.id)}
+                    >
+                      {seed >= 0 && <span className="mr-1 font-bold">{seed + 1}.</span>}
+                      {entry.club.clubName}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {canEdit && fixtures.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              To change a pairing, click a team and then the place to swap it with.
+              {group?.format === "knockout" && " Only first-round places can be swapped."}
+            </p>
+          )}
+
+          {/* Bracket or schedule */}
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : fixtures.length === 0 ? (
+            <div className="text-center text-muted-foreground p-6">
+              {isClubAdmin ? "Fixtures have not been published yet." : "No fixtures have been drawn for this group."}
+            </div>
+          ) : group?.format === "knockout" ? (
+            <div className="flex gap-4 overflow-x-auto pb-2">
+              {rounds.map((round) => (
+                <div key={round} className="min-w-[200px] flex flex-col justify-around gap-3">
+                  <div className="text-sm font-semibold text-center">
+                    {getRoundName(round, totalRounds, "knockout")}
+                  </div>
+                  {fixtures.filter((fixture) => fixture.round === round).map(renderFixture)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {rounds.map((round) => (
+                <div key={round} className="space-y-2">
+                  <div className="text-sm font-semibold">{getRoundName(round, totalRounds, "league")}</div>
+                  {fixtures.filter((fixture) => fixture.round === round).map(renderFixture)}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ScheduleMatchDialog
+        open={scheduleFixtureId !== null}
+        onOpenChange={(open) => !open && setScheduleFixtureId(null)}
+        fixtureId={scheduleFixtureId ?? undefined}
+        onSaved={refresh}
+      />
+    </div>
+  );
+};
+
+export default CompetitionFixtures;
@@ -32,20 +32,34 @@ import {
 } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+import type { VenueData } from "@/modules/venue/VenueForm";
 
 // Services and utilities
 import { post, put, get } from "@/services/apiService";
 import Validate from "@/lib/Handlevalidation";
+import { CompetitionStatus, hasStarted } from "./competitionStatus";
 
 // Define interfaces for API responses
 interface CompetitionData {
   id: number;
   competitionName: string;
   maxPlayers: number;
-  date: string;
+  startDate: string;
+  endDate: string;
   groups?: string[]; // Array of group IDs
   age?: string; // Legacy field, will be removed
   lastEntryDate: string;
+  venueId: number | null;
+  seasonId: number | null;
+  status: CompetitionStatus;
   createdAt: string;
   updatedAt: string;
 }
@@ -65,16 +79,25 @@ const competitionFormSchema = z.object({
   maxPlayers: z.number()
     .min(1, "Max players must be at least 1")
     .max(1000, "Max players cannot exceed 1000"),
-  date: z.string()
-    .min(1, "Date is required")
-    .max(255, "Date must not exceed 255 characters"),
+  startDate: z.date({ required_error: "Start date is required" }),
+  endDate: z.date({ required_error: "End date is required" }),
   groups: z.array(z.string())
     .min(1, "At least one group must be selected"),
-  lastEntryDate: z.string()
-    .min(1, "Last entry date is required")
-    .max(255, "Last entry date must not exceed 255 characters"),
+  lastEntryDate: z.date({ required_error: "Last entry date is required" }),
+  venueId: z.string(),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: "End date must be on or after the start date",
+  path: ["endDate"],
+}).refine((data) => data.lastEntryDate <= data.startDate, {
+  message: "Last entry date must be on or before the start date",
+  path: ["lastEntryDate"],
 });
 
+const dateTimeFormat: [["days", "months", "years"], ["hours", "minutes", "am/pm"]] = [
+  ["days", "months", "years"],
+  ["hours", "minutes", "am/pm"],
+];
+
 // Helper to extract user-friendly message from API error
 const prettifyFieldName = (key: string): string => {
   // Remove table prefix and suffix if present
@@ -101,6 +124,12 @@ const extractErrorMessage = (error: any): string | null => {
   return null;
 };
 type CompetitionFormInputs = z.infer<typeof competitionFormSchema>;
+type CompetitionPayload = Omit<CompetitionFormInputs, "venueId" | "startDate" | "endDate" | "lastEntryDate"> & {
+  venueId: number | null;
+  startDate: string;
+  endDate: string;
+  lastEntryDate: string;
+};
 
 interface CompetitionFormProps {
   mode: "create" | "edit";
@@ -138,21 +167,19 @@ const CompetitionForm = ({
     defaultValues: {
       competitionName: "",
       maxPlayers: "",
-      date: "",
       groups: [],
-      lastEntryDate: "",
+      venueId: "none",
     },
   });
 
-  // Query to fetch all available groups
-  const { data: groupsData, isLoading: isLoadingGroups } = useQuery({
-    queryKey: ["groups"],
-    queryFn: async (): Promise<Group[]> => {
-      const response = await get("/groups");
-      return response.groups || response;
-    },
+
+  // Query to fetch venues the competition can be played at
+  const { data: venuesData } = useQuery({
+    queryKey: ["venues", "all"],
+    queryFn: () => get("/venues", { limit: 1000 }),
     refetchOnWindowFocus: false,
   });
+  const venues: VenueData[] = venuesData?.venues || [];
 
   // Query for fetching competition data in edit mode
   const { data: competitionData, isLoading: isFetchingCompetition, error: fetchError } = useQuery({
@@ -169,6 +196,17 @@ const CompetitionForm = ({
     refetchOnWindowFocus: false,
   });
 
+  // Query to fetch the groups of the competition's season (the season being viewed when creating)
+  const { data: groupsData, isLoading: isLoadingGroups } = useQuery({
+    queryKey: ["groups", competitionData?.seasonId],
+    queryFn: async (): Promise<Group[]> => {
+      const response = await get("/groups", { seasonId: competitionData?.seasonId });
+      return response.groups || response;
+    },
+    enabled: mode === "create" || !!competitionData,
+    refetchOnWindowFocus: false,
+  });
+
   // Handle successful competition fetch
   useEffect(() => {
     console.log("Competition data received:", competitionData); // Debug log
@@ -176,7 +214,8 @@ const CompetitionForm = ({
       console.log("Setting form values..."); // Debug log
       form.setValue("competitionName", competitionData.competitionName || "");
       form.setValue("maxPlayers", competitionData.maxPlayers || 1);
-      form.setValue("date", competitionData.date || "");
+      form.setValue("startDate", new Date(competitionData.startDate));
+      form.setValue("endDate", new Date(competitionData.endDate));
 
       // Handle groups data - if groups exist use them, otherwise try to convert age to group
       if (competitionData.groups && competitionData.groups.length > 0) {
@@ -189,7 +228,8 @@ const CompetitionForm = ({
         form.setValue("groups", []);
       }
 
-      form.setValue("lastEntryDate", competitionData.lastEntryDate || "");
+      form.setValue("lastEntryDate", new Date(competitionData.lastEntryDate));
+      form.setValue("venueId", competitionData.venueId ? competitionData.venueId.toString() : "none");
     }
   }, [competitionData, mode, form]);
 
@@ -207,7 +247,7 @@ const CompetitionForm = ({
 
   // Mutation for creating a competition
   const createCompetitionMutation = useMutation({
-    mutationFn: (data: CompetitionFormInputs) => {
+    mutationFn: (data: CompetitionPayload) => {
       return post("/competitions", data);
     },
     onSuccess: () => {
@@ -236,7 +276,7 @@ const CompetitionForm = ({
 
   // Mutation for updating a competition
   const updateCompetitionMutation = useMutation({
-    mutationFn: (data: CompetitionFormInputs) => {
+    mutationFn: (data: CompetitionPayload) => {
       return put(`/competitions/${competitionId}`, data);
     },
     onSuccess: () => {
@@ -266,10 +306,17 @@ const CompetitionForm = ({
 
   // Handle form submission
   const onSubmit = (data: CompetitionFormInputs) => {
+    const payload = {
+      ...data,
+      startDate: data.startDate.toISOString(),
+      endDate: data.endDate.toISOString(),
+      lastEntryDate: data.lastEntryDate.toISOString(),
+      venueId: data.venueId !== "none" ? Number(data.venueId) : null,
+    };
     if (mode === "create") {
-      createCompetitionMutation.mutate(data);
+      createCompetitionMutation.mutate(payload);
     } else {
-      updateCompetitionMutation.mutate(data);
+      updateCompetitionMutation.mutate(payload);
     }
   };
 
@@ -283,30 +330,49 @@ const CompetitionForm = ({
 
   // Combined loading competition from fetch and mutations
   const isFormLoading = isFetchingCompetition || createCompetitionMutation.isPending || updateCompetitionMutation.isPending;
+  // Fields that shape the draw are read-only once the competition has started
+  const isLocked = mode === "edit" && hasStarted(competitionData?.status);
 
   return (
     <div className={className}>
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-7">
-          {/* Title and Date field at the top */}
+          {/* Title at the top */}
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-lg font-bold">
               {mode === "create" ? "Add New Competition" : "Edit Competition"}
             </h2>
+          </div>
+          {isLocked && (
+            <p className="text-sm text-muted-foreground">
+              This competition has started, so its dates, maximum players and groups can no longer be changed.
+            </p>
+          )}
+
+          {/* Start and End Date Fields - Side by Side */}
+          <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-6", (isFormLoading || isLocked) && "pointer-events-none opacity-50")}>
             <FormField
               control={form.control}
-              name="date"
+              name="startDate"
               render={({ field }) => (
-                <FormItem className="mb-0 flex items-center">
-                  <FormLabel className="mr-2 whitespace-nowrap">Date <span className="text-red-500">*</span></FormLabel>
+                <FormItem>
+                  <FormLabel>Start Date <span className="text-red-500">*</span></FormLabel>
                   <FormControl>
-                    <Input
-                      placeholder="Enter date"
-                      {...field}
-                      disabled={isFormLoading}
-                      type="date"
-                      className="w-auto"
-                    />
+                    <DatetimePicker value={field.value} onChange={field.onChange} format={dateTimeFormat} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>End Date <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <DatetimePicker value={field.value} onChange={field.onChange} format={dateTimeFormat} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -345,7 +411,7 @@ const CompetitionForm = ({
                     <Input
                       placeholder="Enter maximum number of players"
                       {...field}
-                      disabled={isFormLoading}
+                      disabled={isFormLoading || isLocked}
                       type="number"
                       min="1"
                       max="1000"
@@ -363,21 +429,43 @@ const CompetitionForm = ({
             control={form.control}
             name="lastEntryDate"
             render={({ field }) => (
-              <FormItem>
+              <FormItem className={cn((isFormLoading || isLocked) && "pointer-events-none opacity-50")}>
                 <FormLabel>Last Entry Date <span className="text-red-500">*</span></FormLabel>
                 <FormControl>
-                  <Input
-                    placeholder="Enter last entry date (e.g., YYYY-MM-DD)"
-                    {...field}
-                    disabled={isFormLoading}
-                    type="date"
-                  />
+                  <DatetimePicker value={field.value} onChange={field.onChange} format={dateTimeFormat} />
                 </FormControl>
                 <FormMessage />
               </FormItem>
             )}
           />
 
+          {/* Venue Field */}
+          <FormField
+            control={form.control}
+            name="venueId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Venue</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={isFormLoading}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select venue" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">No venue</SelectItem>
+                    {venues.map((venue) => (
+                      <SelectItem key={venue.id} value={venue.id.toString()}>
+                        {venue.venueName}, {venue.city}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           {/* Groups Field - Multiselect */}
           <FormField
             control={form.control}
@@ -393,15 +481,17 @@ const CompetitionForm = ({
                         return (
                           <Badge key={groupId} variant="secondary" className="text-xs">
                             {group?.groupName || groupId}
-                            <button
-                              type="button"
-                              className="ml-1 ring-offset-background rounded-full outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                              onClick={() => {
-                                field.onChange(field.value.filter((val) => val !== groupId));
-                              }}
-                            >
-                              ×
-                            </button>
+                            {!isLocked && (
+                              <button
+                                type="button"
+                                className="ml-1 ring-offset-background rounded-full outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                                onClick={() => {
+                                  field.onChange(field.value.filter((val) => val !== groupId));
+                                }}
+                              >
+                                ×
+                              </button>
+                            )}
                           </Badge>
                         );
                       })
@@ -427,7 +517,8 @@ const CompetitionForm = ({
                               key={group.id}
                               className={cn(
                                 "flex items-center px-2 py-1.5 text-sm cursor-pointer rounded-sm",
-                                isSelected ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                                isSelected ? "bg-accent text-accent-foreground" : "hover:bg-muted",
+                                isLocked && "pointer-events-none opacity-50"
                               )}
                               onClick={() => {
                                 // Toggle the selection
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -18,6 +19,22 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   LoaderCircle,
   PenSquare,
@@ -25,7 +42,11 @@ import {
   Trash2,
   ChevronUp,
   ChevronDown,
-  PlusCircle
+  PlusCircle,
+  ClipboardList,
+  Trophy,
+  Flag,
+  CalendarDays
 } from "lucide-react";
 import {
   AlertDialog,
@@ -38,11 +59,28 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import CustomPagination from "@/components/common/custom-pagination";
-import { get, del } from "@/services/apiService";
+import { get, del, patch } from "@/services/apiService";
 // Import components from current directory
 import CreateCompetition from "./CreateCompetition";
 import EditCompetition from "./EditCompetition";
+import CompetitionStandings from "./CompetitionStandings";
+import {
+  CompetitionStatus,
+  COMPETITION_STATUSES,
+  COMPETITION_STATUS_LABELS,
+  COMPETITION_STATUS_VARIANTS,
+  COMPETITION_TRANSITION_LABELS,
+} from "./competitionStatus";
+
+interface PendingTransition {
+  id: number;
+  competitionName: string;
+  status: CompetitionStatus;
+  // Entries are being closed before the last entry date
+  force: boolean;
+}
 
 const CompetitionList = () => {
   const [page, setPage] = useState(1);
@@ -50,10 +88,17 @@ const CompetitionList = () => {
   const [limit, setLimit] = useState(10);
   const [sortBy, setSortBy] = useState("competitionName");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
+  const [status, setStatus] = useState("all");
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null);
   const [editCompetitionId, setEditCompetitionId] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  // Club admins can only enter teams, not manage competitions
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
 
   // Fetch competitions
   const {
@@ -62,8 +107,16 @@ const CompetitionList = () => {
     isError,
     error,
   } = useQuery({
-    queryKey: ["competitions", page, limit, search, sortBy, sortOrder],
-    queryFn: () => get("/competitions", { page, limit, search, sortBy, sortOrder }),
+    queryKey: ["competitions", page, limit, search, sortBy, sortOrder, status],
+    queryFn: () =>
+      get("/competitions", {
+        page,
+        limit,
+        search,
+        sortBy,
+        sortOrder,
+        status: status !== "all" ? status : undefined,
+      }),
   });
 
   // Delete competition mutation
@@ -78,6 +131,37 @@ const CompetitionList = () => {
     },
   });
 
+  // Move a competition to another lifecycle status
+  const transitionMutation = useMutation({
+    mutationFn: (transition: PendingTransition) =>
+      patch(`/competitions/${transition.id}/status`, {
+        status: transition.status,
+        force: transition.force,
+      }),
+    onSuccess: (_data, transition) => {
+      toast.success(`${transition.competitionName} is now ${COMPETITION_STATUS_LABELS[transition.status].toLowerCase()}`);
+      queryClient.invalidateQueries({ queryKey: ["competitions"] });
+      setPendingTransition(null);
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.status?.message || error.errors?.message || error.message || "Failed to change status");
+      setPendingTransition(null);
+    },
+  });
+
+  const handleTransition = (
+    competition: { id: number; competitionName: string; lastEntryDate: string },
+    nextStatus: CompetitionStatus
+  ) => {
+    const deadline = competition.lastEntryDate ? new Date(competition.lastEntryDate) : null;
+    setPendingTransition({
+      id: competition.id,
+      competitionName: competition.competitionName,
+      status: nextStatus,
+      force: nextStatus === "entries_closed" && !!deadline && deadline > new Date(),
+    });
+  };
+
   // Handle search input
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearch(e.target.value);
@@ -130,7 +214,7 @@ const CompetitionList = () => {
     try {
       const date = new Date(dateString);
       return date.toLocaleDateString();
-    } catch (error) {
+    } catch {
       return dateString;
     }
   };
@@ -150,166 +234,298 @@ const CompetitionList = () => {
 
   return (
     <div className="space-y-4 p-6">
-      <Card className="border border-border">
-        <CardHeader className="text-xl font-bold">
-          Competitions
-          <CardDescription>
-            Manage competitions
-          </CardDescription>
-        </CardHeader>
-
-        <CardContent>
-          {/* Toolbar */}
-          <div className="flex flex-wrap items-center gap-4 mb-4 ">
-            {/* Search Input */}
-            <div className="relative flex-1 min-w-[250px]">
-              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search competitions..."
-                value={search}
-                onChange={handleSearchChange}
-                className="pl-8 w-full"
-              />
-            </div>
-
-            {/* Action Buttons */}
-            <Button
-              onClick={() => setIsCreateDialogOpen(true)}
-              size="sm"
-            >
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add
-            </Button>
-          </div>
-
-          {/* Competitions Table */}
-          <div className="rounded-md border overflow-hidden">
-            <Table>
-              <TableHeader>
-                <TableRow className="bg-muted/50 hover:bg-muted/50">
-                  <TableHead className="w-auto cursor-pointer" onClick={() => handleSort("competitionName")}>
-                    Competition Name
-                    {sortBy === "competitionName" && (
-                      <span className="ml-2 inline-block">
-                        {sortOrder === "asc" ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
-                      </span>
-                    )}
-                  </TableHead>
-                  <TableHead>Max Players</TableHead>
-                  <TableHead>Date</TableHead>
-                  <TableHead>Age</TableHead>
-                  <TableHead>Last Entry Date</TableHead>
-                  <TableHead className="text-right">Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {isLoading ? (
-                  <TableRow>
-                    <TableCell colSpan={5} className="h-24 text-center">
-                      <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
-                      <p className="mt-2">Loading competitions...</p>
-                    </TableCell>
-                  </TableRow>
-                ) : data?.competitions?.length === 0 ? (
-                  <TableRow>
-                    <TableCell colSpan={5} className="h-24 text-center">
-                      No competitions found.
-                    </TableCell>
-                  </TableRow>
-                ) : (
-                  data?.competitions?.map((competition: any) => (
-                    <TableRow key={competition.id}>
-                      <TableCell>{competition.competitionName}</TableCell>
-                      <TableCell>{competition.maxPlayers}</TableCell>
-                      <TableCell>{formatDate(competition.date)}</TableCell>
-                      <TableCell>{competition.age}</TableCell>
-                      <TableCell>{formatDate(competition.lastEntryDate)}</TableCell>
-                      <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEdit(competition.id.toString())}
-                          >
-                            <PenSquare className="h-4 w-4" />
-                            <span className="sr-only">Edit</span>
-                          </Button>
-
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="icon">
-                                <Trash2 className="h-4 w-4" />
-                                <span className="sr-only">Delete</span>
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Are you sure you want to delete this competition? This action cannot be undone.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction
-                                  onClick={() => deleteMutation.mutate(competition.id)}
-                                  className="bg-red-500 hover:bg-red-600"
-                                >
-                                  {deleteMutation.isPending ? (
-                                    <>
-                                      <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                                      Deleting...
-                                    </>
-                                  ) : (
-                                    "Delete"
-                                  )}
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))
-                )}
-              </TableBody>
-            </Table>
-          </div>
-
-          {/* Pagination */}
-          {data && data.totalPages > 1 && (
-            <div className="flex justify-between items-center mt-4">
-              <div className="flex items-center gap-2">
-                <span className="text-sm">Show</span>
-                <select
-                  className="border rounded p-1 text-sm"
-                  value={limit}
-                  onChange={(e) => handleRecordsPerPageChange(Number(e.target.value))}
+      <Tabs defaultValue="competitions">
+        <TabsList>
+          <TabsTrigger value="competitions">Competitions</TabsTrigger>
+          <TabsTrigger value="standings">Standings</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="standings">
+          <CompetitionStandings />
+        </TabsContent>
+
+        <TabsContent value="competitions">
+          <Card className="border border-border">
+            <CardHeader className="text-xl font-bold">
+              Competitions
+              <CardDescription>
+                Manage competitions
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent>
+              {/* Toolbar */}
+              <div className="flex flex-wrap items-center gap-4 mb-4 ">
+                {/* Search Input */}
+                <div className="relative flex-1 min-w-[250px]">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search competitions..."
+                    value={search}
+                    onChange={handleSearchChange}
+                    className="pl-8 w-full"
+                  />
+                </div>
+
+                <Select
+                  value={status}
+                  onValueChange={(value) => {
+                    setStatus(value);
+                    setPage(1);
+                  }}
                 >
-                  <option value="10">10</option>
-                  <option value="25">25</option>
-                  <option value="50">50</option>
-                  <option value="100">100</option>
-                </select>
-                <span className="text-sm">per page</span>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {COMPETITION_STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {COMPETITION_STATUS_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Button variant="outline" size="sm" onClick={() => navigate("/competitions/calendar")}>
+                  <CalendarDays className="mr-2 h-4 w-4" />
+                  Calendar
+                </Button>
+
+                {/* Action Buttons */}
+                {!isClubAdmin && (
+                  <Button
+                    onClick={() => setIsCreateDialogOpen(true)}
+                    size="sm"
+                  >
+                    <PlusCircle className="mr-2 h-4 w-4" />
+                    Add
+                  </Button>
+                )}
               </div>
 
-              <CustomPagination
-                currentPage={page}
-                totalPages={data.totalPages}
-                totalRecords={data.totalCompetitions}
-                recordsPerPage={limit}
-                onPageChange={handlePageChange}
-                onRecordsPerPageChange={handleRecordsPerPageChange}
-              />
-
-              <div className="text-sm">
-                Showing {(page - 1) * limit + 1} to {Math.min(page * limit, data.totalCompetitions)} of {data.totalCompetitions}
+              {/* Competitions Table */}
+              <div className="rounded-md border overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50 hover:bg-muted/50">
+                      <TableHead className="w-auto cursor-pointer" onClick={() => handleSort("competitionName")}>
+                        Competition Name
+                        {sortBy === "competitionName" && (
+                          <span className="ml-2 inline-block">
+                            {sortOrder === "asc" ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                          </span>
+                        )}
+                      </TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Max Players</TableHead>
+                      <TableHead className="cursor-pointer" onClick={() => handleSort("startDate")}>
+                        Dates
+                        {sortBy === "startDate" && (
+                          <span className="ml-2 inline-block">
+                            {sortOrder === "asc" ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                          </span>
+                        )}
+                      </TableHead>
+                      <TableHead>Age</TableHead>
+                      <TableHead>Last Entry Date</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                          <p className="mt-2">Loading competitions...</p>
+                        </TableCell>
+                      </TableRow>
+                    ) : data?.competitions?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          No competitions found.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      data?.competitions?.map((competition: any) => (
+                        <TableRow key={competition.id}>
+                          <TableCell>{competition.competitionName}</TableCell>
+                          <TableCell>
+                            <Badge variant={COMPETITION_STATUS_VARIANTS[competition.status as CompetitionStatus]}>
+                              {COMPETITION_STATUS_LABELS[competition.status as CompetitionStatus]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{competition.maxPlayers}</TableCell>
+                          <TableCell>
+                            {formatDate(competition.startDate)} – {formatDate(competition.endDate)}
+                          </TableCell>
+                          <TableCell>{competition.age}</TableCell>
+                          <TableCell>{formatDate(competition.lastEntryDate)}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => navigate(`/competitions/${competition.id}/entries`)}
+                              >
+                                <ClipboardList className="h-4 w-4" />
+                                <span className="sr-only">Entries</span>
+                              </Button>
+
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => navigate(`/competitions/${competition.id}/fixtures`)}
+                              >
+                                <Trophy className="h-4 w-4" />
+                                <span className="sr-only">Fixtures</span>
+                              </Button>
+
+                              {!isClubAdmin && (
+                                <>
+                                  {competition.allowedTransitions?.length > 0 && (
+                                    <DropdownMenu>
+                                      <DropdownMenuTrigger asChild>
+                                        <Button variant="ghost" size="icon">
+                                          <Flag className="h-4 w-4" />
+                                          <span className="sr-only">Change status</span>
+                                        </Button>
+                                      </DropdownMenuTrigger>
+                                      <DropdownMenuContent align="end">
+                                        <DropdownMenuLabel>Change status</DropdownMenuLabel>
+                                        <DropdownMenuSeparator />
+                                        {competition.allowedTransitions.map((nextStatus: CompetitionStatus) => (
+                                          <DropdownMenuItem
+                                            key={nextStatus}
+                                            onClick={() => handleTransition(competition, nextStatus)}
+                                          >
+                                            {COMPETITION_TRANSITION_LABELS[nextStatus]}
+                                          </DropdownMenuItem>
+                                        ))}
+                                      </DropdownMenuContent>
+                                    </DropdownMenu>
+                                  )}
+
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleEdit(competition.id.toString())}
+                                  >
+                                    <PenSquare className="h-4 w-4" />
+                                    <span className="sr-only">Edit</span>
+                                  </Button>
+
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button variant="ghost" size="icon">
+                                        <Trash2 className="h-4 w-4" />
+                                        <span className="sr-only">Delete</span>
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Are you sure you want to delete this competition? This action cannot be undone.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={() => deleteMutation.mutate(competition.id)}
+                                          className="bg-red-500 hover:bg-red-600"
+                                        >
+                                          {deleteMutation.isPending ? (
+                                            <>
+                                              <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
+                                              Deleting...
+                                            </>
+                                          ) : (
+                                            "Delete"
+                                          )}
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                </>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
               </div>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+
+              {/* Pagination */}
+              {data && data.totalPages > 1 && (
+                <div className="flex justify-between items-center mt-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">Show</span>
+                    <select
+                      className="border rounded p-1 text-sm"
+                      value={limit}
+                      onChange={(e) => handleRecordsPerPageChange(Number(e.target.value))}
+                    >
+                      <option value="10">10</option>
+                      <option value="25">25</option>
+                      <option value="50">50</option>
+                      <option value="100">100</option>
+                    </select>
+                    <span className="text-sm">per page</span>
+                  </div>
+
+                  <CustomPagination
+                    currentPage={page}
+                    totalPages={data.totalPages}
+                    totalRecords={data.totalCompetitions}
+                    recordsPerPage={limit}
+                    onPageChange={handlePageChange}
+                    onRecordsPerPageChange={handleRecordsPerPageChange}
+                  />
+
+                  <div className="text-sm">
+                    Showing {(page - 1) * limit + 1} to {Math.min(page * limit, data.totalCompetitions)} of {data.totalCompetitions}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Status Transition Confirmation */}
+      <AlertDialog open={!!pendingTransition} onOpenChange={(open) => !open && setPendingTransition(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingTransition && COMPETITION_TRANSITION_LABELS[pendingTransition.status]}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingTransition?.force
+                ? `The last entry date for ${pendingTransition.competitionName} has not passed yet. Close entries early anyway?`
+                : `Move ${pendingTransition?.competitionName} to "${
+                    pendingTransition ? COMPETITION_STATUS_LABELS[pendingTransition.status] : ""
+                  }"?`}
+              {pendingTransition?.status === "cancelled" && " A cancelled competition cannot be reopened."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingTransition) transitionMutation.mutate(pendingTransition);
+              }}
+              disabled={transitionMutation.isPending}
+            >
+              {transitionMutation.isPending && <LoaderCircle className="h-4 w-4 animate-spin mr-2" />}
+              Confirm
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
 
       {/* Create Competition Dialog */}
       <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { LoaderCircle, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { get } from "@/services/apiService";
+import StandingRulesDialog, { StandingRules } from "./StandingRulesDialog";
+
+interface Standing {
+  id: number;
+  position: number;
+  played: number;
+  won: number;
+  lost: number;
+  tied: number;
+  scoreFor: number;
+  scoreAgainst: number;
+  scoreDifference: number;
+  points: number;
+  entry: { id: number; club: { id: number; clubName: string } };
+}
+
+interface StandingsResponse {
+  competition: { id: number; competitionName: string };
+  rules: StandingRules;
+  groups: { id: number; groupName: string; standings: Standing[] }[];
+}
+
+const CompetitionStandings = () => {
+  const [competitionId, setCompetitionId] = useState("");
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  const { data: competitionsData } = useQuery({
+    queryKey: ["competitions", "all"],
+    queryFn: () => get("/competitions", { limit: 1000 }),
+    refetchOnWindowFocus: false,
+  });
+
+  // Default to the first competition
+  useEffect(() => {
+    if (!competitionId && competitionsData?.competitions?.length) {
+      setCompetitionId(competitionsData.competitions[0].id.toString());
+    }
+  }, [competitionsData, competitionId]);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["standings", competitionId],
+    queryFn: (): Promise<StandingsResponse> => get(`/competitions/${competitionId}/standings`),
+    enabled: !!competitionId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["standings", competitionId] });
+  };
+
+  const formatDifference = (value: number) => (value > 0 ? `+${value}` : value.toString());
+
+  return (
+    <Card className="border border-border">
+      <CardHeader className="text-xl font-bold">
+        Standings
+        <CardDescription>League tables, updated whenever a result is saved</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-4">
+          <Select value={competitionId} onValueChange={setCompetitionId}>
+            <SelectTrigger className="w-[250px]">
+              <SelectValue placeholder="Select competition" />
+            </SelectTrigger>
+            <SelectContent>
+              {competitionsData?.competitions?.map((competition: any) => (
+                <SelectItem key={competition.id} value={competition.id.toString()}>
+                  {competition.competitionName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {data && (
+            <span className="text-sm text-muted-foreground">
+              Win {data.rules.pointsForWin}, tie {data.rules.pointsForTie}, loss by {data.rules.closeLossMargin} or
+              less {data.rules.pointsForCloseLoss}, loss {data.rules.pointsForLoss}
+            </span>
+          )}
+
+          <div className="flex-1" />
+
+          {!isClubAdmin && data && (
+            <Button size="sm" variant="outline" onClick={() => setIsRulesOpen(true)}>
+              <Settings2 className="mr-2 h-4 w-4" />
+              Points Rules
+            </Button>
+          )}
+        </div>
+
+        {isError ? (
+          <div className="text-center text-red-500 p-6">
+            {(error as any)?.errors?.message || (error as any)?.message || "Failed to load standings"}
+          </div>
+        ) : isLoading || !data ? (
+          <div className="flex items-center justify-center p-6">
+            {competitionId && <LoaderCircle className="h-6 w-6 animate-spin" />}
+          </div>
+        ) : data.groups.length === 0 ? (
+          <div className="text-center text-muted-foreground p-6">
+            No league fixtures have been published for this competition.
+          </div>
+        ) : (
+          data.groups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <div className="text-sm font-semibold">{group.groupName}</div>
+              <div className="rounded-md border overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50 hover:bg-muted/50">
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead className="text-right">P</TableHead>
+                      <TableHead className="text-right">W</TableHead>
+                      <TableHead className="text-right">L</TableHead>
+                      <TableHead className="text-right">T</TableHead>
+                      <TableHead className="text-right">For</TableHead>
+                      <TableHead className="text-right">Against</TableHead>
+                      <TableHead className="text-right">Diff</TableHead>
+                      <TableHead className="text-right">Pts</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.standings.map((standing) => (
+                      <TableRow key={standing.id}>
+                        <TableCell>{standing.position}</TableCell>
+                        <TableCell>{standing.entry.club.clubName}</TableCell>
+                        <TableCell className="text-right">{standing.played}</TableCell>
+                        <TableCell className="text-right">{standing.won}</TableCell>
+                        <TableCell className="text-right">{standing.lost}</TableCell>
+                        <TableCell className="text-right">{standing.tied}</TableCell>
+                        <TableCell className="text-right">{standing.scoreFor}</TableCell>
+                        <TableCell className="text-right">{standing.scoreAgainst}</TableCell>
+                        <TableCell className="text-right">{formatDifference(standing.scoreDifference)}</TableCell>
+                        <TableCell className="text-right font-bold">{standing.points}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {data && (
+        <StandingRulesDialog
+          open={isRulesOpen}
+          onOpenChange={setIsRulesOpen}
+          competitionId={data.competition.id}
+          rules={data.rules}
+          onSaved={refresh}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default CompetitionStandings;
@@ -0,0 +1,451 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+
+// Services and utilities
+import { get, post, put } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import {
+  CLUB_OFFICIAL_ROLE_LABELS,
+  COACH_ROLES,
+  ClubOfficial,
+  ClubOfficialsResponse,
+  MANAGER_ROLES,
+} from "../club/types";
+
+// Define interfaces for API responses
+interface Group {
+  id: number;
+  groupName: string;
+  gender: string;
+  age: string;
+}
+
+interface Club {
+  id: number;
+  clubName: string;
+}
+
+interface EligiblePlayer {
+  id: number;
+  uniqueIdNumber: string;
+  firstName: string;
+  lastName: string;
+  position?: string;
+  eligible: boolean;
+  reasons: string[];
+}
+
+export interface EntryData {
+  id: number;
+  groupId: number;
+  clubId: number;
+  status: string;
+  coachId?: number | null;
+  managerId?: number | null;
+  players: { id: number }[];
+}
+
+// Create schema for entry form
+const entryFormSchema = z.object({
+  groupId: z.string()
+    .min(1, "Group is required"),
+  clubId: z.string().optional(),
+  playerIds: z.array(z.number())
+    .min(1, "Select at least one player"),
+  coachId: z.string()
+    .min(1, "Select the team's coach"),
+  managerId: z.string()
+    .min(1, "Select the team's manager"),
+});
+
+type EntryFormInputs = z.infer<typeof entryFormSchema>;
+
+// Helper to extract error message from API error
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      const message = error.errors[firstKey]?.message as string | undefined;
+      if (message) {
+        return message;
+      }
+    }
+  }
+  return error?.message;
+};
+
+interface EntryFormProps {
+  competitionId: string;
+  groups: Group[];
+  maxPlayers: number;
+  entry?: EntryData;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const EntryForm = ({
+  competitionId,
+  groups,
+  maxPlayers,
+  entry,
+  onSuccess,
+  className,
+}: EntryFormProps) => {
+  const queryClient = useQueryClient();
+  const mode = entry ? "edit" : "create";
+
+  // Club admins always enter their own club, so only admins pick one
+  const storedUser = localStorage.getItem("user");
+  const user = storedUser ? JSON.parse(storedUser) : null;
+  const isClubAdmin = user?.role === "clubadmin";
+
+  const form = useForm<EntryFormInputs>({
+    resolver: zodResolver(
+      entryFormSchema.refine((data) => isClubAdmin || !!data.clubId, {
+        message: "Club is required",
+        path: ["clubId"],
+      })
+    ),
+    defaultValues: {
+      groupId: entry ? entry.groupId.toString() : "",
+      clubId: entry ? entry.clubId.toString() : "",
+      playerIds: entry ? entry.players.map((player) => player.id) : [],
+      coachId: entry?.coachId ? entry.coachId.toString() : "",
+      managerId: entry?.managerId ? entry.managerId.toString() : "",
+    },
+  });
+
+  const groupId = form.watch("groupId");
+  const clubId = form.watch("clubId");
+  const playerIds = form.watch("playerIds");
+
+  // Query to fetch clubs for the club picker
+  const { data: clubsData, isLoading: isLoadingClubs } = useQuery({
+    queryKey: ["clubs", "all"],
+    queryFn: async (): Promise<Club[]> => {
+      const response = await get("/clubs", { limit: 1000, sortBy: "clubName" });
+      return response.clubs || response;
+    },
+    enabled: !isClubAdmin,
+    refetchOnWindowFocus: false,
+  });
+
+  // Query to fetch the club's roster with eligibility for the selected group
+  const { data: playersData, isLoading: isLoadingPlayers } = useQuery({
+    queryKey: ["eligible-players", competitionId, groupId, clubId],
+    queryFn: async (): Promise<EligiblePlayer[]> => {
+      const response = await get(`/competitions/${competitionId}/entries/eligible-players`, {
+        groupId,
+        clubId: isClubAdmin ? undefined : clubId,
+      });
+      return response.players;
+    },
+    enabled: !!groupId && (isClubAdmin || !!clubId),
+    refetchOnWindowFocus: false,
+  });
+
+  // Coach and manager are picked from the active officials on the club's roster
+  const officialsClubId = isClubAdmin ? user?.clubId : clubId ? Number(clubId) : undefined;
+  const { data: officialsData, isLoading: isLoadingOfficials } = useQuery({
+    queryKey: ["club", officialsClubId, "officials", "active"],
+    queryFn: (): Promise<ClubOfficialsResponse> =>
+      get(`/clubs/${officialsClubId}/officials`, { active: true }),
+    enabled: !!officialsClubId,
+    refetchOnWindowFocus: false,
+  });
+  const officials = officialsData?.officials || [];
+  const coaches = officials.filter((official) => COACH_ROLES.includes(official.role));
+  const managers = officials.filter((official) => MANAGER_ROLES.includes(official.role));
+
+  // Changing group or club in create mode invalidates the picked players
+  useEffect(() => {
+    if (mode === "create") {
+      form.setValue("playerIds", []);
+    }
+  }, [groupId, clubId, mode, form]);
+
+  // ... and a different club has different officials
+  useEffect(() => {
+    if (mode === "create") {
+      form.setValue("coachId", "");
+      form.setValue("managerId", "");
+    }
+  }, [clubId, mode, form]);
+
+  const entryMutation = useMutation({
+    mutationFn: (data: EntryFormInputs) => {
+      if (entry) {
+        return put(`/competitions/${competitionId}/entries/${entry.id}`, {
+          playerIds: data.playerIds,
+          coachId: parseInt(data.coachId),
+          managerId: parseInt(data.managerId),
+        });
+      }
+      return post(`/competitions/${competitionId}/entries`, {
+        groupId: parseInt(data.groupId),
+        clubId: !isClubAdmin && data.clubId ? parseInt(data.clubId) : undefined,
+        playerIds: data.playerIds,
+        coachId: parseInt(data.coachId),
+        managerId: parseInt(data.managerId),
+      });
+    },
+    onSuccess: () => {
+      toast.success(entry ? "Entry updated successfully" : "Team submitted successfully");
+      queryClient.invalidateQueries({ queryKey: ["competition-entries", competitionId] });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(extractErrorMessage(error) || "Failed to submit team");
+    },
+  });
+
+  const onSubmit = (data: EntryFormInputs) => {
+    entryMutation.mutate(data);
+  };
+
+  const isFormLoading = entryMutation.isPending;
+
+  return (
+    <div className={className}>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Group Field */}
+            <FormField
+              control={form.control}
+              name="groupId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Group <span className="text-red-500">*</span></FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={isFormLoading || mode === "edit"}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select group" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id.toString()}>
+                          {group.groupName} ({group.gender}, {group.age})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Club Field */}
+            {!isClubAdmin && (
+              <FormField
+                control={form.control}
+                name="clubId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Club <span className="text-red-500">*</span></FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={isFormLoading || isLoadingClubs || mode === "edit"}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder={isLoadingClubs ? "Loading clubs..." : "Select club"} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {clubsData?.map((club) => (
+                          <SelectItem key={club.id} value={club.id.toString()}>
+                            {club.clubName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          {/* Team Officials */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {([
+              { name: "coachId", label: "Coach", options: coaches },
+              { name: "managerId", label: "Manager", options: managers },
+            ] as { name: "coachId" | "managerId"; label: string; options: ClubOfficial[] }[]).map(
+              ({ name, label, options }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label} <span className="text-red-500">*</span></FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        disabled={isFormLoading || !officialsClubId || isLoadingOfficials}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue
+                              placeholder={
+                                !officialsClubId
+                                  ? "Select a club first"
+                                  : isLoadingOfficials
+                                    ? "Loading officials..."
+                                    : `Select ${label.toLowerCase()}`
+                              }
+                            />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {options.map((official) => (
+                            <SelectItem key={official.id} value={official.id.toString()}>
+                              {official.firstName} {official.lastName} ({CLUB_OFFICIAL_ROLE_LABELS[official.role]})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {officialsData && options.length === 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Add an active {label.toLowerCase()} to the club's officials roster first.
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )
+            )}
+          </div>
+
+          {/* Players Field */}
+          <FormField
+            control={form.control}
+            name="playerIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="flex justify-between">
+                  <span>Players <span className="text-red-500">*</span></span>
+                  <span className={cn(
+                    "text-sm",
+                    playerIds.length > maxPlayers ? "text-red-500" : "text-muted-foreground"
+                  )}>
+                    {playerIds.length} / {maxPlayers} selected
+                  </span>
+                </FormLabel>
+                <div className="border rounded-md max-h-[300px] overflow-y-auto">
+                  {!groupId || (!isClubAdmin && !clubId) ? (
+                    <div className="p-4 text-sm text-muted-foreground text-center">
+                      Select a group{!isClubAdmin && " and club"} to see eligible players.
+                    </div>
+                  ) : isLoadingPlayers ? (
+                    <div className="flex items-center justify-center p-4">
+                      <LoaderCircle className="h-4 w-4 animate-spin" />
+                      <span className="ml-2">Loading players...</span>
+                    </div>
+                  ) : !playersData?.length ? (
+                    <div className="p-4 text-sm text-muted-foreground text-center">
+                      No players registered with this club.
+                    </div>
+                  ) : (
+                    playersData.map((player) => {
+                      const isSelected = field.value.includes(player.id);
+                      return (
+                        <label
+                          key={player.id}
+                          className={cn(
+                            "flex items-center gap-3 px-3 py-2 text-sm border-b last:border-b-0",
+                            player.eligible ? "cursor-pointer hover:bg-muted" : "opacity-50 cursor-not-allowed"
+                          )}
+                        >
+                          <Checkbox
+                            checked={isSelected}
+                            disabled={isFormLoading || (!player.eligible && !isSelected)}
+                            onCheckedChange={(checked) => {
+                              field.onChange(
+                                checked
+                                  ? [...field.value, player.id]
+                                  : field.value.filter((id) => id !== player.id)
+                              );
+                            }}
+                          />
+                          <div className="flex-1">
+                            <div>{player.firstName} {player.lastName}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{player.uniqueIdNumber}</div>
+                          </div>
+                          {!player.eligible && (
+                            <div className="flex flex-wrap gap-1 justify-end">
+                              {player.reasons.map((reason) => (
+                                <Badge key={reason} variant="outline" className="text-xs">
+                                  {reason}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </label>
+                      );
+                    })
+                  )}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Form Actions */}
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onSuccess?.()}
+              disabled={isFormLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isFormLoading || playerIds.length > maxPlayers}>
+              {isFormLoading && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === "create" ? "Submit Team" : "Update Team"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default EntryForm;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { put } from "@/services/apiService";
+
+export type TieBreaker = "headToHead" | "scoreDifference" | "scoreFor";
+
+export interface StandingRules {
+  pointsForWin: number;
+  pointsForTie: number;
+  pointsForLoss: number;
+  pointsForCloseLoss: number;
+  closeLossMargin: number;
+  tieBreakers: TieBreaker[];
+}
+
+const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  headToHead: "Head-to-head",
+  scoreDifference: "Score difference",
+  scoreFor: "Total points scored",
+};
+
+const POINT_FIELDS: { key: Exclude<keyof StandingRules, "tieBreakers">; label: string }[] = [
+  { key: "pointsForWin", label: "Win" },
+  { key: "pointsForTie", label: "Tie" },
+  { key: "pointsForCloseLoss", label: "Close loss" },
+  { key: "pointsForLoss", label: "Loss" },
+  { key: "closeLossMargin", label: "Close loss margin" },
+];
+
+interface StandingRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  competitionId: number;
+  rules: StandingRules;
+  onSaved: () => void;
+}
+
+const StandingRulesDialog = ({ open, onOpenChange, competitionId, rules, onSaved }: StandingRulesDialogProps) => {
+  const [values, setValues] = useState<StandingRules>(rules);
+
+  useEffect(() => {
+    if (open) setValues(rules);
+  }, [open, rules]);
+
+  // Tie-breakers in use keep their order; unused ones are listed after them
+  const allTieBreakers = [
+    ...values.tieBreakers,
+    ...(Object.keys(TIE_BREAKER_LABELS) as TieBreaker[]).filter((rule) => !values.tieBreakers.includes(rule)),
+  ];
+
+  const toggleTieBreaker = (rule: TieBreaker) => {
+    setValues((prev) => ({
+      ...prev,
+      tieBreakers: prev.tieBreakers.includes(rule)
+        ? prev.tieBreakers.filter((item) => item !== rule)
+        : [...prev.tieBreakers, rule],
+    }));
+  };
+
+  const moveTieBreaker = (index: number, offset: number) => {
+    setValues((prev) => {
+      const tieBreakers = [...prev.tieBreakers];
+      [tieBreakers[index], tieBreakers[index + offset]] = [tieBreakers[index + offset], tieBreakers[index]];
+      return { ...prev, tieBreakers };
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => put(`/competitions/${competitionId}/standings/rules`, values),
+    onSuccess: () => {
+      toast.success("Points rules saved and tables updated");
+      onOpenChange(false);
+      onSaved();
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to save points rules");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Points Rules</DialogTitle>
+          <DialogDescription>
+            Points per result and the order of tie-breaks for teams level on points.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {POINT_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={key}>{label}</Label>
+                <Input
+                  id={key}
+                  type="number"
+                  min={0}
+                  value={values[key]}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tie-breakers</Label>
+            {allTieBreakers.map((rule) => {
+              const index = values.tieBreakers.indexOf(rule);
+              return (
+                <div key={rule} className="flex items-center gap-2 rounded-md border px-3 py-2">
+                  <Checkbox
+                    id={`tie-breaker-${rule}`}
+                    checked={index >= 0}
+                    onCheckedChange={() => toggleTieBreaker(rule)}
+                  />
+                  <Label htmlFor={`tie-breaker-${rule}`} className="flex-1">
+                    {index >= 0 && <span className="mr-1 font-bold">{index + 1}.</span>}
+                    {TIE_BREAKER_LABELS[rule]}
+                  </Label>
+                  {index >= 0 && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === 0}
+                        onClick={() => moveTieBreaker(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={index === values.tieBreakers.length - 1}
+                        onClick={() => moveTieBreaker(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StandingRulesDialog;
@@ -0,0 +1,51 @@
+export type CompetitionStatus =
+  | "draft"
+  | "open_for_entries"
+  | "entries_closed"
+  | "in_progress"
+  | "completed"
+  | "cancelled";
+
+export const COMPETITION_STATUSES: CompetitionStatus[] = [
+  "draft",
+  "open_for_entries",
+  "entries_closed",
+  "in_progress",
+  "completed",
+  "cancelled",
+];
+
+export const COMPETITION_STATUS_LABELS: Record<CompetitionStatus, string> = {
+  draft: "Draft",
+  open_for_entries: "Open for entries",
+  entries_closed: "Entries closed",
+  in_progress: "In progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const COMPETITION_STATUS_VARIANTS: Record<
+  CompetitionStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  draft: "outline",
+  open_for_entries: "default",
+  entries_closed: "secondary",
+  in_progress: "default",
+  completed: "secondary",
+  cancelled: "destructive",
+};
+
+// Menu label for moving a competition into each status
+export const COMPETITION_TRANSITION_LABELS: Record<CompetitionStatus, string> = {
+  draft: "Back to draft",
+  open_for_entries: "Open entries",
+  entries_closed: "Close entries",
+  in_progress: "Start competition",
+  completed: "Mark completed",
+  cancelled: "Cancel competition",
+};
+
+// Maximum players, dates and groups cannot change once play has started
+export const hasStarted = (status?: CompetitionStatus) =>
+  status === "in_progress" || status === "completed";
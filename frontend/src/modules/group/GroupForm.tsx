@@ -37,6 +37,8 @@ interface GroupData {
   groupName: string;
   gender: string;
   age: string;
+  maxAge: number | null;
+  ageCutoffDate: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -52,6 +54,12 @@ const groupFormSchema = z.object({
   age: z.string()
     .min(1, "Age limit is required")
     .max(50, "Age limit must not exceed 50 characters"),
+  maxAge: z.string()
+    .refine(val => !val || (/^\d+$/.test(val) && parseInt(val) >= 1 && parseInt(val) <= 100), {
+      message: "Maximum age must be a whole number between 1 and 100",
+    })
+    .optional(),
+  ageCutoffDate: z.string().optional(),
 });
 
 // Helper to extract user-friendly message from API error
@@ -83,6 +91,13 @@ const extractErrorMessage = (error: any): string | undefined => {
 
 type GroupFormInputs = z.infer<typeof groupFormSchema>;
 
+// Convert the form's string inputs into the API's age rule fields
+const toGroupPayload = (data: GroupFormInputs) => ({
+  ...data,
+  maxAge: data.maxAge ? parseInt(data.maxAge) : null,
+  ageCutoffDate: data.ageCutoffDate || null,
+});
+
 interface GroupFormProps {
   mode: "create" | "edit";
   groupId?: string;
@@ -106,6 +121,8 @@ const GroupForm = ({
       groupName: "",
       gender: "Mix",
       age: "",
+      maxAge: "",
+      ageCutoffDate: "",
     },
   });
 
@@ -132,6 +149,8 @@ const GroupForm = ({
       form.setValue("groupName", groupData.groupName || "");
       form.setValue("gender", groupData.gender as "Male" | "Female" | "Mix" || "Mix");
       form.setValue("age", groupData.age || "");
+      form.setValue("maxAge", groupData.maxAge != null ? groupData.maxAge.toString() : "");
+      form.setValue("ageCutoffDate", groupData.ageCutoffDate ? groupData.ageCutoffDate.split('T')[0] : "");
     }
   }, [groupData, mode, form]);
 
@@ -150,7 +169,7 @@ const GroupForm = ({
   // Mutation for creating a group
   const createGroupMutation = useMutation({
     mutationFn: (data: GroupFormInputs) => {
-      return post("/groups", data);
+      return post("/groups", toGroupPayload(data));
     },
     onSuccess: () => {
       toast.success("Group created successfully");
@@ -179,7 +198,7 @@ const GroupForm = ({
   // Mutation for updating a group
   const updateGroupMutation = useMutation({
     mutationFn: (data: GroupFormInputs) => {
-      return put(`/groups/${groupId}`, data);
+      return put(`/groups/${groupId}`, toGroupPayload(data));
     },
     onSuccess: () => {
       toast.success("Group updated successfully");
@@ -298,6 +317,53 @@ const GroupForm = ({
             />
           </div>
 
+          {/* Age Rule Fields */}
+          <div className="grid grid-cols-2 gap-4">
+            {/* Maximum Age Field */}
+            <FormField
+              control={form.control}
+              name="maxAge"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Maximum Age</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. 13"
+                      {...field}
+                      type="number"
+                      min={1}
+                      max={100}
+                      disabled={isFormLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Age Cut-off Date Field */}
+            <FormField
+              control={form.control}
+              name="ageCutoffDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Age Cut-off Date</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="date"
+                      disabled={isFormLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground -mt-4">
+            Players older than the maximum age on the cut-off date (today if left blank) cannot join this group.
+          </p>
+
           {/* Form Actions */}
           <div className="flex justify-end gap-2">
             <Button
@@ -38,6 +38,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { describeAgeRule } from "@/utils/ageEligibility";
 import CustomPagination from "@/components/common/custom-pagination";
 import { get, del } from "@/services/apiService";
 // Import components from current directory
@@ -200,20 +201,21 @@ const GroupList = () => {
                       </span>
                     )}
                   </TableHead>
+                  <TableHead>Age Rule</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="h-24 text-center">
+                    <TableCell colSpan={5} className="h-24 text-center">
                       <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
                       <p className="mt-2">Loading groups...</p>
                     </TableCell>
                   </TableRow>
                 ) : data?.groups?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="h-24 text-center">
+                    <TableCell colSpan={5} className="h-24 text-center">
                       No groups found.
                     </TableCell>
                   </TableRow>
@@ -223,6 +225,7 @@ const GroupList = () => {
                       <TableCell>{group.groupName}</TableCell>
                       <TableCell>{group.gender}</TableCell>
                       <TableCell>{group.age}</TableCell>
+                      <TableCell>{describeAgeRule(group) || "-"}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
                           <Button
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { LoaderCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { get } from "@/services/apiService";
+
+interface LeaderboardRow {
+  playerId: number;
+  matchesPlayed: number;
+  raidPoints: number;
+  tacklePoints: number;
+  superRaids: number;
+  superTackles: number;
+  high5s: number;
+  super10s: number;
+  player: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    club: { id: number; clubName: string } | null;
+  };
+}
+
+interface LeaderboardsResponse {
+  topRaiders: LeaderboardRow[];
+  topDefenders: LeaderboardRow[];
+}
+
+const Leaderboards = () => {
+  const [groupId, setGroupId] = useState("all");
+  const navigate = useNavigate();
+
+  const storedUser = localStorage.getItem("user");
+  const user = storedUser ? JSON.parse(storedUser) : null;
+  const isClubAdmin = user?.role === "clubadmin";
+
+  const { data: groupsData } = useQuery({
+    queryKey: ["groups", "all"],
+    queryFn: async (): Promise<{ id: number; groupName: string }[]> => {
+      const response = await get("/groups", { limit: 1000 });
+      return response.groups || response;
+    },
+    refetchOnWindowFocus: false,
+  });
+
+  // Scoped to the season picked in the navbar
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["leaderboards", groupId],
+    queryFn: (): Promise<LeaderboardsResponse> =>
+      get("/leaderboards", {
+        groupId: groupId !== "all" ? groupId : undefined,
+      }),
+  });
+
+  // Club admins can only open their own players
+  const canOpen = (row: LeaderboardRow) => !isClubAdmin || row.player.club?.id === user?.clubId;
+
+  const renderBoard = (
+    title: string,
+    rows: LeaderboardRow[] | undefined,
+    columns: { key: keyof LeaderboardRow; label: string }[]
+  ) => (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold">{title}</div>
+      <div className="rounded-md border overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>Player</TableHead>
+              <TableHead className="text-right">Matches</TableHead>
+              {columns.map((column) => (
+                <TableHead key={column.key} className="text-right">
+                  {column.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 3} className="h-24 text-center">
+                  <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : !rows?.length ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 3} className="h-24 text-center">
+                  No completed matches recorded yet.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((row, index) => (
+                <TableRow key={row.playerId}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell>
+                    {canOpen(row) ? (
+                      <button
+                        type="button"
+                        className="hover:underline text-left"
+                        onClick={() => navigate(`/players/${row.playerId}`)}
+                      >
+                        {row.player.firstName} {row.player.lastName}
+                      </button>
+                    ) : (
+                      <span>
+                        {row.player.firstName} {row.player.lastName}
+                      </span>
+                    )}
+                    <div className="text-xs text-muted-foreground">{row.player.club?.clubName || "-"}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{row.matchesPlayed}</TableCell>
+                  {columns.map((column, columnIndex) => (
+                    <TableCell
+                      key={column.key}
+                      className={`text-right ${columnIndex === 0 ? "font-bold" : ""}`}
+                    >
+                      {row[column.key] as number}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Leaderboards
+          <CardDescription>Top raiders and defenders from completed matches</CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={groupId} onValueChange={setGroupId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All groups" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All groups</SelectItem>
+                {groupsData?.map((group) => (
+                  <SelectItem key={group.id} value={group.id.toString()}>
+                    {group.groupName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isError ? (
+            <div className="text-center text-red-500 p-6">
+              {(error as any)?.errors?.message || (error as any)?.message || "Failed to load leaderboards"}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              {renderBoard("Top Raiders", data?.topRaiders, [
+                { key: "raidPoints", label: "Raid pts" },
+                { key: "superRaids", label: "Super raids" },
+                { key: "super10s", label: "Super 10s" },
+              ])}
+              {renderBoard("Top Defenders", data?.topDefenders, [
+                { key: "tacklePoints", label: "Tackle pts" },
+                { key: "superTackles", label: "Super tackles" },
+                { key: "high5s", label: "High 5s" },
+              ])}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Leaderboards;
@@ -0,0 +1,457 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, LoaderCircle, Minus, Plus, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { get, post } from "@/services/apiService";
+import {
+  MatchEvent,
+  MatchEventLog,
+  MatchSide,
+  RaidOutcome,
+  SquadPlayer,
+  MATCH_STATUS_LABELS,
+  getTotal,
+} from "./types";
+
+const OUTCOMES: { value: RaidOutcome; label: string }[] = [
+  { value: "successful", label: "Successful" },
+  { value: "unsuccessful", label: "Raider out" },
+  { value: "empty", label: "Empty raid" },
+];
+
+const playerName = (player: SquadPlayer | null) =>
+  player ? `${player.firstName} ${player.lastName}` : "Unknown player";
+
+// Short description of a raid for the log
+const describeRaid = (event: MatchEvent) => {
+  const parts = [`${playerName(event.raider)}: ${OUTCOMES.find((o) => o.value === event.outcome)?.label}`];
+  if (event.raidPoints) parts.push(`${event.raidPoints} raid`);
+  if (event.bonusPoints) parts.push("bonus");
+  if (event.tacklePoints) parts.push(`${event.tacklePoints} tackle`);
+  if (event.isSuperRaid) parts.push("super raid");
+  if (event.isSuperTackle) parts.push("super tackle");
+  if (event.allOutSide) parts.push("all out");
+  if (event.extraPoints) parts.push(`${event.extraPoints} extra`);
+  return parts.join(", ");
+};
+
+const MatchConsole = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [attackingSide, setAttackingSide] = useState<MatchSide>("home");
+  const [raiderId, setRaiderId] = useState<number | null>(null);
+  const [defenderIds, setDefenderIds] = useState<number[]>([]);
+  const [outcome, setOutcome] = useState<RaidOutcome | null>(null);
+  const [raidPoints, setRaidPoints] = useState(0);
+  const [bonus, setBonus] = useState(false);
+  const [isSuperTackle, setIsSuperTackle] = useState(false);
+  const [allOutSide, setAllOutSide] = useState<MatchSide | null>(null);
+  const [extraPoints, setExtraPoints] = useState(0);
+  const [extraSide, setExtraSide] = useState<MatchSide | null>(null);
+
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  const { data: log, isLoading, isError, error } = useQuery({
+    queryKey: ["match-events", id],
+    queryFn: (): Promise<MatchEventLog> => get(`/matches/${id}/events`),
+  });
+
+  const resetRaid = (nextSide?: MatchSide | null) => {
+    if (nextSide) setAttackingSide(nextSide);
+    setRaiderId(null);
+    setDefenderIds([]);
+    setOutcome(null);
+    setRaidPoints(0);
+    setBonus(false);
+    setIsSuperTackle(false);
+    setAllOutSide(null);
+    setExtraPoints(0);
+    setExtraSide(null);
+  };
+
+  // Teams alternate raids, so start with whoever raids next. Only on first
+  // load; afterwards the side follows each logged raid.
+  const sideInitialised = useRef(false);
+  useEffect(() => {
+    if (log && !sideInitialised.current) {
+      sideInitialised.current = true;
+      if (log.nextAttackingSide) setAttackingSide(log.nextAttackingSide);
+    }
+  }, [log]);
+
+  const onLogSaved = (updated: MatchEventLog) => {
+    queryClient.setQueryData(["match-events", id], (previous: MatchEventLog | undefined) =>
+      previous ? { ...previous, ...updated } : updated
+    );
+    queryClient.invalidateQueries({ queryKey: ["match", id] });
+    queryClient.invalidateQueries({ queryKey: ["matches"] });
+    resetRaid(updated.nextAttackingSide);
+  };
+
+  const raidMutation = useMutation({
+    mutationFn: () =>
+      post(`/matches/${id}/events`, {
+        attackingSide,
+        raiderId,
+        defenderIds,
+        outcome,
+        raidPoints: outcome === "successful" ? raidPoints : 0,
+        bonusPoints: bonus && outcome !== "empty" ? 1 : 0,
+        tacklePoints: outcome === "unsuccessful" ? (isSuperTackle ? 2 : 1) : 0,
+        isSuperRaid: outcome === "successful" && raidPoints + (bonus ? 1 : 0) >= 3,
+        isSuperTackle: outcome === "unsuccessful" && isSuperTackle,
+        allOutSide,
+        extraPoints,
+        extraSide: extraPoints > 0 ? extraSide : null,
+      }),
+    onSuccess: (updated: MatchEventLog) => {
+      toast.success("Raid logged");
+      onLogSaved(updated);
+    },
+    onError: (error: any) => {
+      const errors = error.errors || {};
+      const firstError = Object.values(errors)[0] as { message?: string } | string | undefined;
+      toast.error(
+        errors.message ||
+          (typeof firstError === "object" ? firstError?.message : undefined) ||
+          error.message ||
+          "Failed to log raid"
+      );
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: () => post(`/matches/${id}/events/undo`, {}),
+    onSuccess: (updated: MatchEventLog) => {
+      toast.success("Last raid undone");
+      onLogSaved(updated);
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to undo raid");
+    },
+  });
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Raid Log</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load raid log"}</p>
+        <Button className="mt-4" onClick={() => queryClient.invalidateQueries({ queryKey: ["match-events", id] })}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading || !log) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const isLive = log.status === "live";
+  const canScore = isLive && !isClubAdmin;
+  const defendingSide: MatchSide = attackingSide === "home" ? "away" : "home";
+  const teamName = (side: MatchSide) => log.squads[side].club.clubName;
+  const undone = new Set(log.undoneEventIds);
+  const raidsById = new Map(log.events.map((event) => [event.id, event]));
+  const isSaving = raidMutation.isPending || undoMutation.isPending;
+  const canLog = canScore && !!raiderId && !!outcome && !isSaving;
+
+  const toggleDefender = (playerId: number) => {
+    const next = defenderIds.includes(playerId)
+      ? defenderIds.filter((item) => item !== playerId)
+      : [...defenderIds, playerId];
+    setDefenderIds(next);
+    // Each defender touched is usually a point
+    if (outcome === "successful") setRaidPoints(next.length);
+  };
+
+  const chooseOutcome = (value: RaidOutcome) => {
+    setOutcome(value);
+    setRaidPoints(value === "successful" ? defenderIds.length : 0);
+    if (value !== "unsuccessful") setIsSuperTackle(false);
+    if (value === "empty") setBonus(false);
+  };
+
+  const sideButtons = (value: MatchSide | null, onChange: (side: MatchSide | null) => void) => (
+    <div className="flex flex-wrap gap-2">
+      <Button size="lg" variant={value === null ? "default" : "outline"} onClick={() => onChange(null)}>
+        None
+      </Button>
+      {(["home", "away"] as MatchSide[]).map((side) => (
+        <Button key={side} size="lg" variant={value === side ? "default" : "outline"} onClick={() => onChange(side)}>
+          {teamName(side)}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-4 md:p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate(`/matches/${id}`)}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            {canScore ? "Raid Console" : "Raid Log"}
+          </div>
+          <CardDescription className="flex items-center gap-2">
+            <Badge variant={isLive ? "destructive" : "secondary"}>{MATCH_STATUS_LABELS[log.status]}</Badge>
+            {!isLive && !isClubAdmin && <span>Raids can only be logged while the match is live.</span>}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {/* Scoreboard */}
+          <div className="grid grid-cols-2 gap-4">
+            {(["home", "away"] as MatchSide[]).map((side) => (
+              <div
+                key={side}
+                className={`rounded-md border p-4 text-center ${attackingSide === side ? "ring-2 ring-primary" : ""}`}
+              >
+                <div className="font-semibold truncate">{teamName(side)}</div>
+                <div className="text-5xl font-bold tabular-nums">{getTotal(log.score[side])}</div>
+                {attackingSide === side && <div className="text-xs text-muted-foreground">Raiding</div>}
+              </div>
+            ))}
+          </div>
+
+          {canScore && (
+            <>
+              {/* Raiding team */}
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Raiding team</div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(["home", "away"] as MatchSide[]).map((side) => (
+                    <Button
+                      key={side}
+                      size="lg"
+                      className="h-14"
+                      variant={attackingSide === side ? "default" : "outline"}
+                      onClick={() => {
+                        setAttackingSide(side);
+                        setRaiderId(null);
+                        setDefenderIds([]);
+                      }}
+                    >
+                      {teamName(side)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Raider */}
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Raider</div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+                  {log.squads[attackingSide].players.map((player) => (
+                    <Button
+                      key={player.id}
+                      className="h-14 whitespace-normal"
+                      variant={raiderId === player.id ? "default" : "outline"}
+                      onClick={() => setRaiderId(player.id)}
+                    >
+                      {playerName(player)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Defenders */}
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Defenders involved</div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+                  {log.squads[defendingSide].players.map((player) => (
+                    <Button
+                      key={player.id}
+                      className="h-14 whitespace-normal"
+                      variant={defenderIds.includes(player.id) ? "default" : "outline"}
+                      onClick={() => toggleDefender(player.id)}
+                    >
+                      {playerName(player)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Outcome */}
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Outcome</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {OUTCOMES.map((item) => (
+                    <Button
+                      key={item.value}
+                      className="h-14"
+                      variant={outcome === item.value ? "default" : "outline"}
+                      onClick={() => chooseOutcome(item.value)}
+                    >
+                      {item.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Points */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {outcome === "successful" && (
+                  <div className="space-y-2">
+                    <div className="text-sm font-medium">Raid points</div>
+                    <div className="flex items-center gap-4">
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-14 w-14"
+                        onClick={() => setRaidPoints(Math.max(0, raidPoints - 1))}
+                      >
+                        <Minus className="h-5 w-5" />
+                        <span className="sr-only">Remove point</span>
+                      </Button>
+                      <span className="text-3xl font-bold tabular-nums w-10 text-center">{raidPoints}</span>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-14 w-14"
+                        onClick={() => setRaidPoints(Math.min(7, raidPoints + 1))}
+                      >
+                        <Plus className="h-5 w-5" />
+                        <span className="sr-only">Add point</span>
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {outcome && outcome !== "empty" && (
+                  <div className="space-y-2">
+                    <div className="text-sm font-medium">Flags</div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="lg" variant={bonus ? "default" : "outline"} onClick={() => setBonus(!bonus)}>
+                        Bonus point
+                      </Button>
+                      {outcome === "unsuccessful" && (
+                        <Button
+                          size="lg"
+                          variant={isSuperTackle ? "default" : "outline"}
+                          onClick={() => setIsSuperTackle(!isSuperTackle)}
+                        >
+                          Super tackle
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">All out inflicted by</div>
+                  {sideButtons(allOutSide, setAllOutSide)}
+                </div>
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Extra points</div>
+                  <div className="flex items-center gap-4">
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      className="h-12 w-12"
+                      onClick={() => setExtraPoints(Math.max(0, extraPoints - 1))}
+                    >
+                      <Minus className="h-4 w-4" />
+                      <span className="sr-only">Remove extra point</span>
+                    </Button>
+                    <span className="text-2xl font-bold tabular-nums w-8 text-center">{extraPoints}</span>
+                    <Button size="icon" variant="outline" className="h-12 w-12" onClick={() => setExtraPoints(extraPoints + 1)}>
+                      <Plus className="h-4 w-4" />
+                      <span className="sr-only">Add extra point</span>
+                    </Button>
+                  </div>
+                  {extraPoints > 0 && sideButtons(extraSide, setExtraSide)}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <Button className="h-14 col-span-2 text-lg" onClick={() => raidMutation.mutate()} disabled={!canLog}>
+                  {raidMutation.isPending && <LoaderCircle className="mr-2 h-5 w-5 animate-spin" />}
+                  Log Raid
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button className="h-14" variant="outline" disabled={isSaving || log.events.length === 0}>
+                      <Undo2 className="mr-2 h-5 w-5" />
+                      Undo
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Undo Last Raid</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The latest raid will stop counting towards the score. It stays in the log, marked as undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => undoMutation.mutate()}>Undo</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </>
+          )}
+
+          {/* Raid log, latest first */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Raid log</div>
+            {log.events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No raids logged yet.</p>
+            ) : (
+              <div className="rounded-md border divide-y">
+                {[...log.events].reverse().map((event) => (
+                  <div key={event.id} className="flex items-start justify-between gap-2 px-3 py-2 text-sm">
+                    <div className={undone.has(event.id) ? "line-through text-muted-foreground" : ""}>
+                      <span className="text-muted-foreground mr-2">#{event.sequence}</span>
+                      {event.type === "undo" ? (
+                        <span className="italic">Undo of #{raidsById.get(event.undoesEventId ?? 0)?.sequence}</span>
+                      ) : (
+                        <>
+                          <span className="font-medium">{teamName(event.attackingSide as MatchSide)}</span> -{" "}
+                          {describeRaid(event)}
+                        </>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleTimeString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MatchConsole;
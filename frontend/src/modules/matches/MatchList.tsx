@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, ClipboardPen, LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get } from "@/services/apiService";
+import ScheduleMatchDialog from "./ScheduleMatchDialog";
+import { Match, MATCH_STATUS_LABELS, formatStartTime, formatVenue, isFinished } from "./types";
+
+const MatchList = () => {
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [competitionId, setCompetitionId] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [rescheduleMatch, setRescheduleMatch] = useState<Match | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  // Competitions for the filter
+  const { data: competitionsData } = useQuery({
+    queryKey: ["competitions", "all"],
+    queryFn: () => get("/competitions", { limit: 1000 }),
+    refetchOnWindowFocus: false,
+  });
+
+  // Fetch matches
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["matches", page, limit, competitionId, status],
+    queryFn: () =>
+      get("/matches", {
+        page,
+        limit,
+        competitionId: competitionId !== "all" ? competitionId : undefined,
+        status: status !== "all" ? status : undefined,
+      }),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["matches"] });
+  };
+
+  const handleRecordsPerPageChange = (newLimit: number) => {
+    setLimit(newLimit);
+    setPage(1);
+  };
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Matches</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load matches"}</p>
+        <Button className="mt-4" onClick={refresh}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Matches
+          <CardDescription>Match schedule and results</CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <Select
+              value={competitionId}
+              onValueChange={(value) => {
+                setCompetitionId(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[250px]">
+                <SelectValue placeholder="All competitions" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All competitions</SelectItem>
+                {competitionsData?.competitions?.map((competition: any) => (
+                  <SelectItem key={competition.id} value={competition.id.toString()}>
+                    {competition.competitionName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="All statuses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Object.entries(MATCH_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Matches Table */}
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead>Start</TableHead>
+                  <TableHead>Competition</TableHead>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Venue</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                      <p className="mt-2">Loading matches...</p>
+                    </TableCell>
+                  </TableRow>
+                ) : data?.matches?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      No matches found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.matches?.map((match: Match) => (
+                    <TableRow key={match.id}>
+                      <TableCell>{formatStartTime(match.startTime)}</TableCell>
+                      <TableCell>
+                        <div>{match.competition.competitionName}</div>
+                        <div className="text-xs text-muted-foreground">{match.fixture.group.groupName}</div>
+                      </TableCell>
+                      <TableCell>
+                        {match.homeEntry.club.clubName} vs {match.awayEntry.club.clubName}
+                      </TableCell>
+                      <TableCell>{formatVenue(match) || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={match.status === "live" ? "destructive" : isFinished(match.status) ? "default" : "secondary"}>
+                          {MATCH_STATUS_LABELS[match.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {match.status === "scheduled" ? "-" : `${match.homeScore} - ${match.awayScore}`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {!isClubAdmin && !isFinished(match.status) && (
+                            <Button variant="ghost" size="icon" onClick={() => setRescheduleMatch(match)}>
+                              <CalendarClock className="h-4 w-4" />
+                              <span className="sr-only">Reschedule</span>
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="icon" onClick={() => navigate(`/matches/${match.id}`)}>
+                            <ClipboardPen className="h-4 w-4" />
+                            <span className="sr-only">{isClubAdmin ? "View" : "Score"}</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {data && data.totalPages > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <CustomPagination
+                currentPage={page}
+                totalPages={data.totalPages}
+                totalRecords={data.totalMatches}
+                recordsPerPage={limit}
+                onPageChange={setPage}
+                onRecordsPerPageChange={handleRecordsPerPageChange}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ScheduleMatchDialog
+        open={!!rescheduleMatch}
+        onOpenChange={(open) => !open && setRescheduleMatch(null)}
+        match={rescheduleMatch || undefined}
+        onSaved={refresh}
+      />
+    </div>
+  );
+};
+
+export default MatchList;
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle, Mail, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { del, get, post } from "@/services/apiService";
+import { Official, OfficialRole, OFFICIAL_ROLE_LABELS, OFFICIAL_ROLES } from "@/modules/officials/types";
+
+interface MatchOfficial {
+  id: number;
+  role: OfficialRole;
+  notifiedAt: string | null;
+  official: Pick<Official, "id" | "firstName" | "lastName" | "role" | "certificationLevel" | "mobile" | "email">;
+}
+
+interface MatchOfficialsProps {
+  matchId: string;
+  // Admins can assign officials until the match is finished
+  canManage: boolean;
+}
+
+const MatchOfficials = ({ matchId, canManage }: MatchOfficialsProps) => {
+  const queryClient = useQueryClient();
+  const [officialId, setOfficialId] = useState("");
+  const [role, setRole] = useState<OfficialRole>("referee");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["match-officials", matchId],
+    queryFn: (): Promise<{ officials: MatchOfficial[] }> => get(`/matches/${matchId}/officials`),
+  });
+
+  const { data: registry } = useQuery({
+    queryKey: ["officials", "active"],
+    queryFn: () => get("/officials", { active: true, limit: 1000 }),
+    enabled: canManage,
+  });
+
+  const assigned = data?.officials || [];
+  const available: Official[] = (registry?.officials || []).filter(
+    (official: Official) => !assigned.some((assignment) => assignment.official.id === official.id)
+  );
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["match-officials", matchId] });
+
+  const onError = (fallback: string) => (error: any) => {
+    const fieldError = Object.values(error.errors || {})[0] as { message?: string } | undefined;
+    toast.error(fieldError?.message || error.message || fallback);
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: () => post(`/matches/${matchId}/officials`, { officialId: Number(officialId), role }),
+    onSuccess: (response: { notified: boolean }) => {
+      if (response.notified) {
+        toast.success("Official assigned and emailed the assignment sheet");
+      } else {
+        toast.warning("Official assigned, but the assignment sheet could not be emailed");
+      }
+      setOfficialId("");
+      refresh();
+    },
+    onError: onError("Failed to assign official"),
+  });
+
+  const notifyMutation = useMutation({
+    mutationFn: (assignmentId: number) => post(`/matches/${matchId}/officials/${assignmentId}/notify`, {}),
+    onSuccess: () => {
+      toast.success("Assignment sheet sent");
+      refresh();
+    },
+    onError: onError("Failed to send assignment sheet"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (assignmentId: number) => del(`/matches/${matchId}/officials/${assignmentId}`),
+    onSuccess: () => {
+      toast.success("Official removed");
+      refresh();
+    },
+    onError: onError("Failed to remove official"),
+  });
+
+  return (
+    <Card className="border border-border">
+      <CardHeader className="text-lg font-bold">
+        Match Officials
+        <CardDescription>Referees, umpires, scorers and technical delegates for this match</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={officialId}
+              onValueChange={(value) => {
+                setOfficialId(value);
+                const official = available.find((item) => item.id.toString() === value);
+                if (official) setRole(official.role);
+              }}
+            >
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder="Select official" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((official) => (
+                  <SelectItem key={official.id} value={official.id.toString()}>
+                    {official.firstName} {official.lastName} ({OFFICIAL_ROLE_LABELS[official.role]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={role} onValueChange={(value) => setRole(value as OfficialRole)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OFFICIAL_ROLES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {OFFICIAL_ROLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => assignMutation.mutate()} disabled={!officialId || assignMutation.isPending}>
+              {assignMutation.isPending ? (
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="mr-2 h-4 w-4" />
+              )}
+              Assign
+            </Button>
+          </div>
+        )}
+
+        <div className="rounded-md border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <TableHead>Official</TableHead>
+                <TableHead>Match Role</TableHead>
+                <TableHead>Certification</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Sheet</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-16 text-center">
+                    <LoaderCircle className="h-5 w-5 animate-spin mx-auto" />
+                  </TableCell>
+                </TableRow>
+              ) : assigned.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-16 text-center">
+                    No officials assigned yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                assigned.map((assignment) => (
+                  <TableRow key={assignment.id}>
+                    <TableCell>
+                      {assignment.official.firstName} {assignment.official.lastName}
+                    </TableCell>
+                    <TableCell>{OFFICIAL_ROLE_LABELS[assignment.role]}</TableCell>
+                    <TableCell>{assignment.official.certificationLevel}</TableCell>
+                    <TableCell>
+                      <div>{assignment.official.mobile}</div>
+                      <div className="text-xs text-muted-foreground">{assignment.official.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={assignment.notifiedAt ? "default" : "secondary"}>
+                        {assignment.notifiedAt ? "Emailed" : "Not sent"}
+                      </Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => notifyMutation.mutate(assignment.id)}
+                            disabled={notifyMutation.isPending}
+                          >
+                            <Mail className="h-4 w-4" />
+                            <span className="sr-only">Resend assignment sheet</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeMutation.mutate(assignment.id)}
+                            disabled={removeMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Remove</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MatchOfficials;
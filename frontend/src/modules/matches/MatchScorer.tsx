@@ -0,0 +1,338 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, ListOrdered, LoaderCircle, Minus, Play, Plus, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { get, patch, put } from "@/services/apiService";
+import MatchOfficials from "./MatchOfficials";
+import {
+  Match,
+  MATCH_STATUS_LABELS,
+  SCORE_CATEGORIES,
+  ScoreBreakdown,
+  ScoreCategory,
+  formatStartTime,
+  formatVenue,
+  getBreakdown,
+  getTotal,
+  isFinished,
+} from "./types";
+
+type Side = "home" | "away";
+
+const MatchScorer = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [home, setHome] = useState<ScoreBreakdown | null>(null);
+  const [away, setAway] = useState<ScoreBreakdown | null>(null);
+  const [resultStatus, setResultStatus] = useState<"completed" | "walkover">("completed");
+  const [winnerEntryId, setWinnerEntryId] = useState("");
+  const [resultNote, setResultNote] = useState("");
+  const [correctionReason, setCorrectionReason] = useState("");
+
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  const { data: match, isLoading, isError, error } = useQuery({
+    queryKey: ["match", id],
+    queryFn: (): Promise<Match> => get(`/matches/${id}`),
+  });
+
+  // Start from the saved result whenever the match is (re)loaded
+  useEffect(() => {
+    if (match) {
+      setHome(getBreakdown(match, "home"));
+      setAway(getBreakdown(match, "away"));
+      setResultStatus(match.status === "walkover" ? "walkover" : "completed");
+      setWinnerEntryId(match.winnerEntryId ? match.winnerEntryId.toString() : "");
+      setResultNote(match.resultNote || "");
+      setCorrectionReason("");
+    }
+  }, [match]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["match", id] });
+    queryClient.invalidateQueries({ queryKey: ["matches"] });
+    queryClient.invalidateQueries({ queryKey: ["standings"] });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: () => patch(`/matches/${id}/start`, {}),
+    onSuccess: () => {
+      toast.success("Match started");
+      refresh();
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to start match");
+    },
+  });
+
+  const resultMutation = useMutation({
+    mutationFn: () =>
+      put(`/matches/${id}/result`, {
+        status: resultStatus,
+        home,
+        away,
+        winnerEntryId: winnerEntryId ? Number(winnerEntryId) : null,
+        resultNote: resultNote.trim() || null,
+        correctionReason: correctionReason.trim() || null,
+      }),
+    onSuccess: () => {
+      toast.success(match && isFinished(match.status) ? "Result corrected" : "Result recorded");
+      refresh();
+    },
+    onError: (error: any) => {
+      const errors = error.errors || {};
+      toast.error(
+        errors.message ||
+          errors.winnerEntryId?.message ||
+          errors.resultNote?.message ||
+          errors.correctionReason?.message ||
+          error.message ||
+          "Failed to record result"
+      );
+    },
+  });
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Match</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load match"}</p>
+        <Button className="mt-4" onClick={refresh}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading || !match || !home || !away) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const finished = isFinished(match.status);
+  const canScore = !isClubAdmin && match.status !== "scheduled";
+  const homeTotal = getTotal(home);
+  const awayTotal = getTotal(away);
+  // A walkover, or a tied knockout match, needs the winner picked by hand
+  const needsWinner =
+    resultStatus === "walkover" || (match.fixture.format === "knockout" && homeTotal === awayTotal);
+
+  const changePoints = (side: Side, category: ScoreCategory, delta: number) => {
+    const setter = side === "home" ? setHome : setAway;
+    setter((prev) => (prev ? { ...prev, [category]: Math.max(0, prev[category] + delta) } : prev));
+  };
+
+  const renderTeam = (side: Side) => {
+    const team = side === "home" ? match.homeEntry : match.awayEntry;
+    const breakdown = side === "home" ? home : away;
+    const total = side === "home" ? homeTotal : awayTotal;
+    const isWinner = finished && match.winnerEntryId === team.id;
+
+    return (
+      <div className="rounded-md border p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="font-semibold truncate">{team.club.clubName}</div>
+          {isWinner && <Badge>Winner</Badge>}
+        </div>
+        <div className="text-5xl font-bold text-center tabular-nums">{total}</div>
+        <div className="space-y-2">
+          {SCORE_CATEGORIES.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{label}</span>
+              <div className="flex items-center gap-2">
+                {canScore && (
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => changePoints(side, key, -1)}
+                    disabled={breakdown[key] === 0}
+                  >
+                    <Minus className="h-4 w-4" />
+                    <span className="sr-only">Remove point</span>
+                  </Button>
+                )}
+                <span className="w-8 text-center tabular-nums">{breakdown[key]}</span>
+                {canScore && (
+                  <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => changePoints(side, key, 1)}>
+                    <Plus className="h-4 w-4" />
+                    <span className="sr-only">Add point</span>
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/matches")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            {match.homeEntry.club.clubName} vs {match.awayEntry.club.clubName}
+          </div>
+          <CardDescription className="flex flex-wrap items-center gap-2">
+            <span>
+              {match.competition.competitionName} - {match.fixture.group.groupName} - Round {match.fixture.round}, Match{" "}
+              {match.fixture.matchNumber}
+            </span>
+            <Badge variant={match.status === "live" ? "destructive" : finished ? "default" : "secondary"}>
+              {MATCH_STATUS_LABELS[match.status]}
+            </Badge>
+          </CardDescription>
+          <CardDescription>
+            {formatStartTime(match.startTime)}
+            {match.venue ? ` at ${formatVenue(match)}` : ""}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {match.status !== "scheduled" && (
+            <Button variant="outline" onClick={() => navigate(`/matches/${id}/console`)}>
+              <ListOrdered className="mr-2 h-4 w-4" />
+              {match.status === "live" && !isClubAdmin ? "Raid Console" : "Raid Log"}
+            </Button>
+          )}
+
+          {match.status === "scheduled" && !isClubAdmin && (
+            <Button onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+              {startMutation.isPending ? (
+                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              Start Match
+            </Button>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderTeam("home")}
+            {renderTeam("away")}
+          </div>
+
+          {finished && (
+            <div className="text-sm text-muted-foreground space-y-1">
+              {match.resultNote && <p>Note: {match.resultNote}</p>}
+              {match.resultRecordedAt && (
+                <p>
+                  Recorded {new Date(match.resultRecordedAt).toLocaleString()}
+                  {match.resultRecordedBy ? ` by ${match.resultRecordedBy.name}` : ""}
+                </p>
+              )}
+              {match.correctedAt && (
+                <p>
+                  Corrected {new Date(match.correctedAt).toLocaleString()}: {match.correctionReason}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Result */}
+          {canScore && (
+            <div className="rounded-md border p-4 space-y-4">
+              <div className="text-sm font-medium">{finished ? "Correct Result" : "Final Result"}</div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Result</Label>
+                  <Select
+                    value={resultStatus}
+                    onValueChange={(value) => setResultStatus(value as "completed" | "walkover")}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="completed">Played to completion</SelectItem>
+                      <SelectItem value="walkover">Walkover</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {needsWinner && (
+                  <div className="space-y-2">
+                    <Label>Winner</Label>
+                    <Select value={winnerEntryId} onValueChange={setWinnerEntryId}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Select winning team" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[match.homeEntry, match.awayEntry].map((team) => (
+                          <SelectItem key={team.id} value={team.id.toString()}>
+                            {team.club.clubName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="result-note">
+                  {resultStatus === "walkover" ? "Walkover reason" : "Note (optional)"}
+                </Label>
+                <Textarea
+                  id="result-note"
+                  value={resultNote}
+                  onChange={(e) => setResultNote(e.target.value)}
+                  placeholder={resultStatus === "walkover" ? "Why the match was not played" : "e.g. decided by golden raid"}
+                />
+              </div>
+
+              {finished && (
+                <div className="space-y-2">
+                  <Label htmlFor="correction-reason">Reason for correction</Label>
+                  <Textarea
+                    id="correction-reason"
+                    value={correctionReason}
+                    onChange={(e) => setCorrectionReason(e.target.value)}
+                    placeholder="Why the recorded result is being changed"
+                  />
+                </div>
+              )}
+
+              <Button onClick={() => resultMutation.mutate()} disabled={resultMutation.isPending}>
+                {resultMutation.isPending ? (
+                  <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Save className="mr-2 h-4 w-4" />
+                )}
+                {finished ? "Save Correction" : "Record Result"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <MatchOfficials matchId={match.id.toString()} canManage={!isClubAdmin && !finished} />
+    </div>
+  );
+};
+
+export default MatchScorer;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { CalendarClock, LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { get, post, put } from "@/services/apiService";
+import type { VenueData } from "@/modules/venue/VenueForm";
+import type { Match } from "./types";
+
+interface ScheduleMatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Fixture to schedule a new match for
+  fixtureId?: number;
+  // Existing match to reschedule
+  match?: Pick<Match, "id" | "venueId" | "courtId" | "startTime" | "endTime">;
+  onSaved?: () => void;
+}
+
+const ScheduleMatchDialog = ({ open, onOpenChange, fixtureId, match, onSaved }: ScheduleMatchDialogProps) => {
+  const [venueId, setVenueId] = useState("none");
+  const [courtId, setCourtId] = useState("none");
+  const [startTime, setStartTime] = useState<Date | undefined>(undefined);
+  const [endTime, setEndTime] = useState<Date | undefined>(undefined);
+
+  const { data: venuesData } = useQuery({
+    queryKey: ["venues", "all"],
+    queryFn: () => get("/venues", { limit: 1000 }),
+    enabled: open,
+  });
+  const venues: VenueData[] = venuesData?.venues || [];
+  const courts = venues.find((venue) => venue.id.toString() === venueId)?.courts || [];
+
+  useEffect(() => {
+    if (open) {
+      const start = match?.startTime ? new Date(match.startTime) : new Date();
+      setVenueId(match?.venueId ? match.venueId.toString() : "none");
+      setCourtId(match?.courtId ? match.courtId.toString() : "none");
+      setStartTime(start);
+      setEndTime(match?.endTime ? new Date(match.endTime) : new Date(start.getTime() + 60 * 60 * 1000));
+    }
+  }, [open, match]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        // A new match without a venue is played at the competition's venue
+        venueId: venueId !== "none" ? Number(venueId) : match ? null : undefined,
+        courtId: courtId !== "none" ? Number(courtId) : null,
+        startTime: startTime ? startTime.toISOString() : null,
+        endTime: startTime && endTime ? endTime.toISOString() : null,
+      };
+      return match ? put(`/matches/${match.id}`, data) : post("/matches", { ...data, fixtureId });
+    },
+    onSuccess: () => {
+      toast.success(match ? "Match updated" : "Match scheduled");
+      onOpenChange(false);
+      onSaved?.();
+    },
+    onError: (error: any) => {
+      const fieldError = Object.values(error.errors || {})[0] as { message?: string } | undefined;
+      toast.error(fieldError?.message || error.message || "Failed to save match");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{match ? "Reschedule Match" : "Schedule Match"}</DialogTitle>
+          <DialogDescription>
+            Set where and when the match will be played. A court or team that is already booked at that time cannot be used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Venue</Label>
+              <Select
+                value={venueId}
+                onValueChange={(value) => {
+                  setVenueId(value);
+                  setCourtId("none");
+                }}
+                disabled={saveMutation.isPending}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select venue" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{match ? "No venue" : "Competition venue"}</SelectItem>
+                  {venues.map((venue) => (
+                    <SelectItem key={venue.id} value={venue.id.toString()}>
+                      {venue.venueName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Court</Label>
+              <Select
+                value={courtId}
+                onValueChange={setCourtId}
+                disabled={saveMutation.isPending || courts.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select court" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No court</SelectItem>
+                  {courts.map((court) => (
+                    <SelectItem key={court.id} value={court.id.toString()}>
+                      {court.courtName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Start time</Label>
+            <DatetimePicker
+              value={startTime}
+              onChange={(date) => setStartTime(date)}
+              format={[
+                ["days", "months", "years"],
+                ["hours", "minutes", "am/pm"],
+              ]}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>End time</Label>
+            <DatetimePicker
+              value={endTime}
+              onChange={(date) => setEndTime(date)}
+              format={[
+                ["days", "months", "years"],
+                ["hours", "minutes", "am/pm"],
+              ]}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarClock className="mr-2 h-4 w-4" />
+            )}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleMatchDialog;
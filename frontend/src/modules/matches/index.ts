@@ -0,0 +1,4 @@
+export { default as MatchList } from './MatchList';
+export { default as MatchScorer } from './MatchScorer';
+export { default as ScheduleMatchDialog } from './ScheduleMatchDialog';
+export { default as MatchConsole } from './MatchConsole';
@@ -0,0 +1,131 @@
+export type MatchStatus = "scheduled" | "live" | "completed" | "walkover";
+
+export interface MatchTeam {
+  id: number;
+  club: { id: number; clubName: string };
+}
+
+export interface Match {
+  id: number;
+  fixtureId: number;
+  competitionId: number;
+  homeEntryId: number;
+  awayEntryId: number;
+  venueId: number | null;
+  courtId: number | null;
+  startTime: string | null;
+  endTime: string | null;
+  status: MatchStatus;
+  homeRaidPoints: number;
+  homeTacklePoints: number;
+  homeBonusPoints: number;
+  homeAllOutPoints: number;
+  homeExtraPoints: number;
+  homeScore: number;
+  awayRaidPoints: number;
+  awayTacklePoints: number;
+  awayBonusPoints: number;
+  awayAllOutPoints: number;
+  awayExtraPoints: number;
+  awayScore: number;
+  winnerEntryId: number | null;
+  resultNote: string | null;
+  resultRecordedAt: string | null;
+  correctionReason: string | null;
+  correctedAt: string | null;
+  competition: { id: number; competitionName: string };
+  fixture: {
+    id: number;
+    format: "knockout" | "league";
+    round: number;
+    matchNumber: number;
+    group: { id: number; groupName: string };
+  };
+  homeEntry: MatchTeam;
+  awayEntry: MatchTeam;
+  resultRecordedBy: { id: number; name: string } | null;
+  venue: { id: number; venueName: string } | null;
+  court: { id: number; courtName: string } | null;
+}
+
+export const SCORE_CATEGORIES = [
+  { key: "raidPoints", label: "Raid points" },
+  { key: "tacklePoints", label: "Tackle points" },
+  { key: "bonusPoints", label: "Bonus points" },
+  { key: "allOutPoints", label: "All-out points" },
+  { key: "extraPoints", label: "Extra points" },
+] as const;
+
+export type ScoreCategory = (typeof SCORE_CATEGORIES)[number]["key"];
+export type ScoreBreakdown = Record<ScoreCategory, number>;
+
+export const MATCH_STATUS_LABELS: Record<MatchStatus, string> = {
+  scheduled: "Scheduled",
+  live: "Live",
+  completed: "Completed",
+  walkover: "Walkover",
+};
+
+export const isFinished = (status: MatchStatus) => status === "completed" || status === "walkover";
+
+// Read one team's breakdown from the match columns, e.g. homeRaidPoints
+export const getBreakdown = (match: Match, side: "home" | "away"): ScoreBreakdown => {
+  const breakdown = {} as ScoreBreakdown;
+  SCORE_CATEGORIES.forEach(({ key }) => {
+    const column = `${side}${key.charAt(0).toUpperCase()}${key.slice(1)}` as keyof Match;
+    breakdown[key] = Number(match[column]) || 0;
+  });
+  return breakdown;
+};
+
+export const getTotal = (breakdown: ScoreBreakdown) =>
+  SCORE_CATEGORIES.reduce((sum, { key }) => sum + breakdown[key], 0);
+
+export const formatStartTime = (startTime: string | null) =>
+  startTime ? new Date(startTime).toLocaleString() : "Time to be confirmed";
+
+export const formatVenue = (match: Pick<Match, "venue" | "court">) =>
+  match.venue ? [match.venue.venueName, match.court?.courtName].filter(Boolean).join(", ") : null;
+
+export type MatchSide = "home" | "away";
+export type RaidOutcome = "successful" | "unsuccessful" | "empty";
+
+export interface SquadPlayer {
+  id: number;
+  firstName: string;
+  lastName: string;
+  uniqueIdNumber: string;
+  position: string | null;
+}
+
+export interface MatchEvent {
+  id: number;
+  sequence: number;
+  type: "raid" | "undo";
+  attackingSide: MatchSide | null;
+  outcome: RaidOutcome | null;
+  raidPoints: number;
+  bonusPoints: number;
+  tacklePoints: number;
+  allOutSide: MatchSide | null;
+  allOutPoints: number;
+  extraSide: MatchSide | null;
+  extraPoints: number;
+  isSuperRaid: boolean;
+  isSuperTackle: boolean;
+  undoesEventId: number | null;
+  note: string | null;
+  createdAt: string;
+  raider: SquadPlayer | null;
+  defenders: SquadPlayer[];
+  recordedBy: { id: number; name: string } | null;
+}
+
+export interface MatchEventLog {
+  events: MatchEvent[];
+  undoneEventIds: number[];
+  score: Record<MatchSide, ScoreBreakdown>;
+  nextAttackingSide: MatchSide | null;
+  status: MatchStatus;
+  squads: Record<MatchSide, MatchTeam & { players: SquadPlayer[] }>;
+}
@@ -0,0 +1,19 @@
+
+import OfficialForm from "./OfficialForm";
+
+interface CreateOfficialProps {
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const CreateOfficial = ({ onSuccess, className }: CreateOfficialProps) => {
+  return (
+    <OfficialForm 
+      mode="create" 
+      onSuccess={onSuccess}
+      className={className}
+    />
+  );
+};
+
+export default CreateOfficial;
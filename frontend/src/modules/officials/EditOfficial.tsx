@@ -0,0 +1,21 @@
+
+import OfficialForm from "./OfficialForm";
+
+interface EditOfficialProps {
+  officialId: string;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const EditOfficial = ({ officialId, onSuccess, className }: EditOfficialProps) => {
+  return (
+    <OfficialForm 
+      mode="edit" 
+      officialId={officialId}
+      onSuccess={onSuccess}
+      className={className}
+    />
+  );
+};
+
+export default EditOfficial;
@@ -0,0 +1,401 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Services and utilities
+import { post, put, get } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import { Official, OFFICIAL_ROLE_LABELS, OFFICIAL_ROLES } from "./types";
+
+const officialFormSchema = z.object({
+  firstName: z.string()
+    .min(1, "First name is required")
+    .max(255, "First name must not exceed 255 characters"),
+  lastName: z.string()
+    .min(1, "Last name is required")
+    .max(255, "Last name must not exceed 255 characters"),
+  role: z.enum(["referee", "umpire", "scorer", "technical_delegate"], {
+    errorMap: () => ({ message: "Role is required" }),
+  }),
+  certificationLevel: z.string()
+    .min(1, "Certification level is required")
+    .max(100, "Certification level must not exceed 100 characters"),
+  mobile: z.string()
+    .min(1, "Mobile number is required")
+    .max(20, "Mobile number must not exceed 20 characters"),
+  email: z.string()
+    .email("Valid email is required")
+    .max(255, "Email must not exceed 255 characters"),
+  clubId: z.string(),
+  active: z.boolean(),
+});
+
+type OfficialFormValues = z.infer<typeof officialFormSchema>;
+type OfficialPayload = Omit<OfficialFormValues, "clubId"> & { clubId: number | null };
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+interface OfficialFormProps {
+  mode: "create" | "edit";
+  officialId?: string;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const OfficialForm = ({
+  mode,
+  officialId,
+  onSuccess,
+  className,
+}: OfficialFormProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Initialize form with Shadcn Form
+  const form = useForm<OfficialFormValues>({
+    resolver: zodResolver(officialFormSchema),
+    defaultValues: {
+      firstName: "",
+      lastName: "",
+      role: "referee",
+      certificationLevel: "",
+      mobile: "",
+      email: "",
+      clubId: "none",
+      active: true,
+    },
+  });
+
+  // Clubs an official can be affiliated with
+  const { data: clubsData } = useQuery({
+    queryKey: ["clubs", "all"],
+    queryFn: () => get("/clubs", { limit: 1000, sortBy: "clubName" }),
+    refetchOnWindowFocus: false,
+  });
+
+  // Query for fetching official data in edit mode
+  const { data: officialData, isLoading: isFetchingOfficial, error: fetchError } = useQuery({
+    queryKey: ["official", officialId],
+    queryFn: async (): Promise<Official> => {
+      if (!officialId) throw new Error("Official ID is required");
+      return get(`/officials/${officialId}`);
+    },
+    enabled: mode === "edit" && !!officialId,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  // Handle successful official fetch
+  useEffect(() => {
+    if (officialData && mode === "edit") {
+      form.reset({
+        firstName: officialData.firstName,
+        lastName: officialData.lastName,
+        role: officialData.role,
+        certificationLevel: officialData.certificationLevel,
+        mobile: officialData.mobile,
+        email: officialData.email,
+        clubId: officialData.clubId ? officialData.clubId.toString() : "none",
+        active: officialData.active,
+      });
+    }
+  }, [officialData, mode, form]);
+
+  // Handle fetch error
+  useEffect(() => {
+    if (fetchError && mode === "edit") {
+      toast.error(fetchError.message || "Failed to fetch official details");
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/officials");
+      }
+    }
+  }, [fetchError, mode, onSuccess, navigate]);
+
+  const handleError = (error: any, fallback: string) => {
+    Validate(error, form.setError);
+    toast.error(extractErrorMessage(error) || fallback);
+  };
+
+  // Mutation for creating an official
+  const createOfficialMutation = useMutation({
+    mutationFn: (data: OfficialPayload) => {
+      return post("/officials", data);
+    },
+    onSuccess: () => {
+      toast.success("Official created successfully");
+      queryClient.invalidateQueries({ queryKey: ["officials"] });
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/officials");
+      }
+    },
+    onError: (error: any) => handleError(error, "Failed to create official"),
+  });
+
+  // Mutation for updating an official
+  const updateOfficialMutation = useMutation({
+    mutationFn: (data: OfficialPayload) => {
+      return put(`/officials/${officialId}`, data);
+    },
+    onSuccess: () => {
+      toast.success("Official updated successfully");
+      queryClient.invalidateQueries({ queryKey: ["officials"] });
+      queryClient.invalidateQueries({ queryKey: ["official", officialId] });
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/officials");
+      }
+    },
+    onError: (error: any) => handleError(error, "Failed to update official"),
+  });
+
+  // Handle form submission
+  const onSubmit = (data: OfficialFormValues) => {
+    const payload: OfficialPayload = {
+      ...data,
+      clubId: data.clubId !== "none" ? Number(data.clubId) : null,
+    };
+    if (mode === "create") {
+      createOfficialMutation.mutate(payload);
+    } else {
+      updateOfficialMutation.mutate(payload);
+    }
+  };
+
+  const handleCancel = () => {
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      navigate("/officials");
+    }
+  };
+
+  // Combined loading official from fetch and mutations
+  const isFormLoading = isFetchingOfficial || createOfficialMutation.isPending || updateOfficialMutation.isPending;
+
+  return (
+    <div className={className}>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-7">
+          {/* First and Last Name Fields in a grid */}
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="firstName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>First Name <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter first name" {...field} disabled={isFormLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="lastName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Last Name <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter last name" {...field} disabled={isFormLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {/* Role and Certification Fields in a grid */}
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Role <span className="text-red-500">*</span></FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={isFormLoading}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {OFFICIAL_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {OFFICIAL_ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="certificationLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Certification Level <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. State Level" {...field} disabled={isFormLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {/* Mobile and Email Fields in a grid */}
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="mobile"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mobile <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Enter mobile number"
+                      {...field}
+                      disabled={isFormLoading}
+                      maxLength={10}
+                      type="tel"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Enter email address"
+                      {...field}
+                      disabled={isFormLoading}
+                      type="email"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {/* Club Affiliation Field */}
+          <FormField
+            control={form.control}
+            name="clubId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Club</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={isFormLoading}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select club" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Independent</SelectItem>
+                    {clubsData?.clubs?.map((club: { id: number; clubName: string }) => (
+                      <SelectItem key={club.id} value={club.id.toString()}>
+                        {club.clubName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Officials cannot be assigned to matches their club is playing.
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Active Field */}
+          <FormField
+            control={form.control}
+            name="active"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                    disabled={isFormLoading}
+                  />
+                </FormControl>
+                <FormLabel>Available for assignments</FormLabel>
+              </FormItem>
+            )}
+          />
+
+          {/* Form Actions */}
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isFormLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isFormLoading}>
+              {isFormLoading && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === "create" ? "Create" : "Update"} Official
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default OfficialForm;
@@ -0,0 +1,373 @@
+import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LoaderCircle,
+  PenSquare,
+  Search,
+  Trash2,
+  ChevronUp,
+  ChevronDown,
+  PlusCircle
+} from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get, del } from "@/services/apiService";
+// Import components from current directory
+import CreateOfficial from "./CreateOfficial";
+import EditOfficial from "./EditOfficial";
+import { Official, OFFICIAL_ROLE_LABELS, OFFICIAL_ROLES } from "./types";
+
+const OfficialList = () => {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [limit, setLimit] = useState(10);
+  const [sortBy, setSortBy] = useState("lastName");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
+  const [role, setRole] = useState("all");
+  const [editOfficialId, setEditOfficialId] = useState<string | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch officials
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ["officials", page, limit, search, sortBy, sortOrder, role],
+    queryFn: () =>
+      get("/officials", { page, limit, search, sortBy, sortOrder, role: role === "all" ? undefined : role }),
+  });
+
+  // Delete official mutation
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => del(`/officials/${id}`),
+    onSuccess: () => {
+      toast.success("Official deleted successfully");
+      queryClient.invalidateQueries({ queryKey: ["officials"] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to delete official");
+    },
+  });
+
+  // Handle search input
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearch(e.target.value);
+    setPage(1); // Reset to first page when search changes
+  };
+
+  // Handle sort
+  const handleSort = (column: string) => {
+    if (sortBy === column) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(column);
+      setSortOrder("asc");
+    }
+    setPage(1); // Reset to first page when sort changes
+  };
+
+  // Handle pagination
+  const handlePageChange = (newPage: number) => {
+    if (newPage > 0 && (!data || newPage <= data.totalPages)) {
+      setPage(newPage);
+    }
+  };
+
+  // Handle records per page change
+  const handleRecordsPerPageChange = (newLimit: number) => {
+    setLimit(newLimit);
+    setPage(1); // Reset to first page when limit changes
+  };
+
+  // Handle edit official
+  const handleEdit = (id: string) => {
+    setEditOfficialId(id);
+    setIsEditDialogOpen(true);
+  };
+
+  // Handle dialog close
+  const handleCreateDialogClose = () => {
+    setIsCreateDialogOpen(false);
+  };
+
+  const handleEditDialogClose = () => {
+    setIsEditDialogOpen(false);
+    setEditOfficialId(null);
+  };
+
+  // Handle error official
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Officials</h2>
+        <p>{(error as any)?.message || "Failed to load officials"}</p>
+        <Button className="mt-4" onClick={() => queryClient.invalidateQueries({ queryKey: ["officials"] })}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-6">
+
+
+
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Officials
+          <CardDescription>
+            Manage referees, umpires, scorers and technical delegates
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-4 mb-4 ">
+            {/* Search Input */}
+            <div className="relative flex-1 min-w-[250px]">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search officials..."
+                value={search}
+                onChange={handleSearchChange}
+                className="pl-8 w-full"
+              />
+            </div>
+
+            {/* Role Filter */}
+            <Select
+              value={role}
+              onValueChange={(value) => {
+                setRole(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All roles" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {OFFICIAL_ROLES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {OFFICIAL_ROLE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {/* Action Buttons */}
+            <Button
+              onClick={() => setIsCreateDialogOpen(true)}
+              size="sm"
+            >
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+
+
+          {/* Officials Table */}
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead className="w-auto cursor-pointer" onClick={() => handleSort("lastName")}>
+                    Name
+                    {sortBy === "lastName" && (
+                      <span className="ml-2 inline-block">
+                        {sortOrder === "asc" ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </span>
+                    )}
+                  </TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Certification</TableHead>
+                  <TableHead>Club</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                      <p className="mt-2">Loading officials...</p>
+                    </TableCell>
+                  </TableRow>
+                ) : data?.officials?.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      No officials found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.officials?.map((official: Official) => (
+                    <TableRow key={official.id}>
+                      <TableCell>{official.firstName} {official.lastName}</TableCell>
+                      <TableCell>{OFFICIAL_ROLE_LABELS[official.role]}</TableCell>
+                      <TableCell>{official.certificationLevel}</TableCell>
+                      <TableCell>{official.club?.clubName || "Independent"}</TableCell>
+                      <TableCell>
+                        <div>{official.mobile}</div>
+                        <div className="text-xs text-muted-foreground">{official.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={official.active ? "default" : "secondary"}>
+                          {official.active ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(official.id.toString())}
+                          >
+                            <PenSquare className="h-4 w-4" />
+                            <span className="sr-only">Edit</span>
+                          </Button>
+
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Delete</span>
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete this official? This action cannot be undone.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteMutation.mutate(official.id)}
+                                  className="bg-red-500 hover:bg-red-600"
+                                >
+                                  {deleteMutation.isPending ? (
+                                    <>
+                                      <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
+                                      Deleting...
+                                    </>
+                                  ) : (
+                                    "Delete"
+                                  )}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {data && data.totalPages > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm">Show</span>
+                <select
+                  className="border rounded p-1 text-sm"
+                  value={limit}
+                  onChange={(e) => handleRecordsPerPageChange(Number(e.target.value))}
+                >
+                  <option value="10">10</option>
+                  <option value="25">25</option>
+                  <option value="50">50</option>
+                  <option value="100">100</option>
+                </select>
+                <span className="text-sm">per page</span>
+              </div>
+
+              <CustomPagination
+                currentPage={page}
+                totalPages={data.totalPages}
+                totalRecords={data.totalOfficials}
+                recordsPerPage={limit}
+                onPageChange={handlePageChange}
+                onRecordsPerPageChange={handleRecordsPerPageChange}
+              />
+
+              <div className="text-sm">
+                Showing {(page - 1) * limit + 1} to {Math.min(page * limit, data.totalOfficials)} of {data.totalOfficials}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Official Dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add New Official</DialogTitle>
+          </DialogHeader>
+          <CreateOfficial onSuccess={handleCreateDialogClose} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Official Dialog */}
+      {editOfficialId && (
+        <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+          <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Edit Official</DialogTitle>
+            </DialogHeader>
+            <EditOfficial officialId={editOfficialId} onSuccess={handleEditDialogClose} />
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default OfficialList;
@@ -0,0 +1,23 @@
+export type OfficialRole = "referee" | "umpire" | "scorer" | "technical_delegate";
+
+export interface Official {
+  id: number;
+  firstName: string;
+  lastName: string;
+  role: OfficialRole;
+  certificationLevel: string;
+  mobile: string;
+  email: string;
+  clubId: number | null;
+  active: boolean;
+  club: { id: number; clubName: string } | null;
+}
+
+export const OFFICIAL_ROLE_LABELS: Record<OfficialRole, string> = {
+  referee: "Referee",
+  umpire: "Umpire",
+  scorer: "Scorer",
+  technical_delegate: "Technical Delegate",
+};
+
+export const OFFICIAL_ROLES = Object.keys(OFFICIAL_ROLE_LABELS) as OfficialRole[];
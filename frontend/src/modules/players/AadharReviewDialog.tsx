@@ -0,0 +1,274 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle, CheckCircle, XCircle, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { get, patch } from "@/services/apiService";
+import { fetchAadharDocument } from "./aadharDocument";
+
+// Interfaces
+export interface AadharReviewPlayer {
+  id: number;
+  firstName: string;
+  lastName: string;
+  uniqueIdNumber: string;
+  aadharNumber: string;
+  aadharImage?: string | null;
+  aadharStatus: string;
+  club?: { id: number; clubName: string } | null;
+}
+
+interface AadharVerification {
+  id: number;
+  status: "approved" | "rejected";
+  aadharNumber: string;
+  reason?: string | null;
+  reviewedAt: string;
+  reviewedBy?: { id: number; name: string } | null;
+}
+
+interface AadharReviewDialogProps {
+  player: AadharReviewPlayer | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Badge for a player's current Aadhar review status
+export const AadharStatusBadge = ({ status }: { status: string }) => {
+  if (status === "approved") {
+    return <Badge variant="outline" className="bg-green-50 border-green-200 text-green-700">Verified</Badge>;
+  }
+  if (status === "rejected") {
+    return <Badge variant="outline" className="bg-red-50 border-red-200 text-red-700">Rejected</Badge>;
+  }
+  return <Badge variant="outline" className="bg-amber-50 border-amber-200 text-amber-700">Pending</Badge>;
+};
+
+// Groups the Aadhar number in blocks of four, as printed on the card
+const formatAadharNumber = (value: string) => value.replace(/(\d{4})(?=\d)/g, "$1 ");
+
+const AadharReviewDialog = ({ player, open, onOpenChange }: AadharReviewDialogProps) => {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+    }
+  }, [open, player?.id]);
+
+  // Fetch earlier decisions for this player
+  const { data: historyData, isLoading: isLoadingHistory } = useQuery({
+    queryKey: ["player", player?.id, "aadhar-verifications"],
+    queryFn: (): Promise<{ verifications: AadharVerification[] }> =>
+      get(`/players/${player?.id}/aadhar-verifications`),
+    enabled: open && !!player,
+  });
+
+  // The document is only served through the API, so it is shown from an object URL
+  const { data: documentBlob, isLoading: isLoadingDocument } = useQuery({
+    queryKey: ["player", player?.id, "aadhar-image", player?.aadharImage],
+    queryFn: () => fetchAadharDocument(player?.id as number),
+    enabled: open && !!player?.aadharImage,
+  });
+  const [documentUrl, setDocumentUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!documentBlob) {
+      setDocumentUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(documentBlob);
+    setDocumentUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [documentBlob]);
+
+  const reviewMutation = useMutation({
+    mutationFn: (status: "approved" | "rejected") =>
+      patch(`/players/${player?.id}/aadhar-verification`, {
+        status,
+        reason: reason.trim() || undefined,
+      }),
+    onSuccess: (_, status) => {
+      toast.success(status === "approved" ? "Aadhar approved" : "Aadhar rejected");
+      queryClient.invalidateQueries({ queryKey: ["players"] });
+      queryClient.invalidateQueries({ queryKey: ["player", player?.id] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast.error(
+        error.errors?.reason?.message ||
+          error.errors?.message ||
+          error.message ||
+          "Failed to record Aadhar review"
+      );
+    },
+  });
+
+  if (!player) {
+    return null;
+  }
+
+  const isPdf = !!player.aadharImage && player.aadharImage.toLowerCase().endsWith(".pdf");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Aadhar</DialogTitle>
+          <DialogDescription>
+            Check the typed number against the uploaded document before approving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Uploaded document */}
+          <div className="border rounded-md bg-muted/30 flex items-center justify-center min-h-[280px] overflow-hidden">
+            {!player.aadharImage ? (
+              <p className="text-sm text-muted-foreground p-4 text-center">
+                No Aadhar document has been uploaded for this player.
+              </p>
+            ) : !documentUrl ? (
+              isLoadingDocument ? (
+                <LoaderCircle className="h-6 w-6 animate-spin text-muted-foreground" />
+              ) : (
+                <p className="text-sm text-muted-foreground p-4 text-center">
+                  The Aadhar document could not be loaded.
+                </p>
+              )
+            ) : isPdf ? (
+              <iframe src={documentUrl} title="Aadhar document" className="w-full h-[400px]" />
+            ) : (
+              <img src={documentUrl} alt="Aadhar document" className="max-h-[400px] w-full object-contain" />
+            )}
+          </div>
+
+          {/* Typed details and decision */}
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">Player</div>
+              <div className="font-medium">
+                {player.firstName} {player.lastName}
+              </div>
+              <div className="text-xs text-muted-foreground font-mono">{player.uniqueIdNumber}</div>
+              {player.club && <div className="text-sm">{player.club.clubName}</div>}
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-sm text-muted-foreground">Aadhar Number</div>
+              <div className="text-2xl font-mono tracking-wider">
+                {formatAadharNumber(player.aadharNumber)}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Current status:</span>
+              <AadharStatusBadge status={player.aadharStatus} />
+            </div>
+
+            {documentUrl && (
+              <a
+                href={documentUrl}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center text-sm underline"
+              >
+                <ExternalLink className="mr-1 h-3 w-3" />
+                Open document in a new tab
+              </a>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="aadhar-review-reason">Reason</Label>
+              <Textarea
+                id="aadhar-review-reason"
+                placeholder="Required when rejecting, e.g. number does not match the document"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                maxLength={500}
+                disabled={reviewMutation.isPending}
+              />
+            </div>
+
+            {/* Earlier decisions */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium">History</div>
+              {isLoadingHistory ? (
+                <LoaderCircle className="h-4 w-4 animate-spin" />
+              ) : historyData?.verifications.length ? (
+                <ul className="space-y-2 max-h-40 overflow-y-auto text-sm">
+                  {historyData.verifications.map((item) => (
+                    <li key={item.id} className="border rounded-md p-2">
+                      <div className="flex items-center justify-between">
+                        <span className={item.status === "approved" ? "text-green-700" : "text-red-700"}>
+                          {item.status === "approved" ? "Approved" : "Rejected"}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(item.reviewedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        by {item.reviewedBy?.name || "Unknown"} &middot; {item.aadharNumber}
+                      </div>
+                      {item.reason && <div className="mt-1">{item.reason}</div>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">Not reviewed yet.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={reviewMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => reviewMutation.mutate("rejected")}
+            disabled={reviewMutation.isPending || !reason.trim()}
+          >
+            {reviewMutation.isPending && reviewMutation.variables === "rejected" ? (
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <XCircle className="mr-2 h-4 w-4" />
+            )}
+            Reject
+          </Button>
+          <Button
+            className="bg-green-600 hover:bg-green-700"
+            onClick={() => reviewMutation.mutate("approved")}
+            disabled={reviewMutation.isPending || !documentUrl}
+          >
+            {reviewMutation.isPending && reviewMutation.variables === "approved" ? (
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle className="mr-2 h-4 w-4" />
+            )}
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AadharReviewDialog;
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { LoaderCircle, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { get } from "@/services/apiService";
+import { downloadIdCards } from "./downloadIdCards";
+
+interface IdCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isClubAdmin: boolean;
+  clubs?: { id: number; clubName: string }[];
+}
+
+const IdCardDialog = ({ open, onOpenChange, isClubAdmin, clubs }: IdCardDialogProps) => {
+  const [groupId, setGroupId] = useState("all");
+  const [clubId, setClubId] = useState("all");
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setGroupId("all");
+      setClubId("all");
+    }
+  }, [open]);
+
+  // Fetch groups to print cards for
+  const { data: groupsData } = useQuery({
+    queryKey: ["groups", "all"],
+    queryFn: async (): Promise<{ id: number; groupName: string }[]> => {
+      const response = await get("/groups", { limit: 1000 });
+      return response.groups || response;
+    },
+    enabled: open,
+    refetchOnWindowFocus: false,
+  });
+
+  // Club admins always print their own club, so they may leave both filters empty
+  const canPrint = isClubAdmin || groupId !== "all" || clubId !== "all";
+
+  const handlePrint = async () => {
+    setIsDownloading(true);
+    const saved = await downloadIdCards(
+      "/players/id-cards.pdf",
+      {
+        groupId: groupId !== "all" ? groupId : undefined,
+        clubId: !isClubAdmin && clubId !== "all" ? clubId : undefined,
+      },
+      "player-id-cards.pdf"
+    );
+    setIsDownloading(false);
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Print ID Cards</DialogTitle>
+          <DialogDescription>
+            Download a PDF with ten cards per A4 page for every player in the selection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Group</Label>
+            <Select value={groupId} onValueChange={setGroupId} disabled={isDownloading}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="All groups" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All groups</SelectItem>
+                {groupsData?.map((group) => (
+                  <SelectItem key={group.id} value={group.id.toString()}>
+                    {group.groupName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!isClubAdmin && (
+            <div className="space-y-2">
+              <Label>Club</Label>
+              <Select value={clubId} onValueChange={setClubId} disabled={isDownloading}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="All clubs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clubs</SelectItem>
+                  {clubs?.map((club) => (
+                    <SelectItem key={club.id} value={club.id.toString()}>
+                      {club.clubName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {!canPrint && (
+            <p className="text-sm text-muted-foreground">Select a group or club to print.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isDownloading}>
+            Cancel
+          </Button>
+          <Button onClick={handlePrint} disabled={!canPrint || isDownloading}>
+            {isDownloading ? (
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Printer className="mr-2 h-4 w-4" />
+            )}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IdCardDialog;
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { saveAs } from "file-saver";
+import { CheckCircle, Download, LoaderCircle, Upload, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { get, postupload } from "@/services/apiService";
+import { SEASON_STORAGE_KEY } from "../season/types";
+
+// Interfaces
+interface ImportRow {
+  row: number;
+  values: Record<string, string>;
+  errors: Record<string, string>;
+}
+
+interface ImportPreview {
+  rows: ImportRow[];
+  total: number;
+  valid: number;
+  invalid: number;
+}
+
+interface ImportPlayersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isClubAdmin: boolean;
+}
+
+// Workbook column each row error is reported against
+const COLUMN_LABELS: Record<string, string> = {
+  firstName: "First Name",
+  middleName: "Middle Name",
+  lastName: "Last Name",
+  dateOfBirth: "Date of Birth",
+  gender: "Gender",
+  position: "Position",
+  address: "Address",
+  mobile: "Mobile",
+  aadharNumber: "Aadhar Number",
+  club: "Club",
+  groups: "Groups",
+};
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+const ImportPlayersDialog = ({ open, onOpenChange, isClubAdmin }: ImportPlayersDialogProps) => {
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setFile(null);
+      setPreview(null);
+    }
+  }, [open]);
+
+  // Uploads skip the season header, so name the season the Groups column refers to
+  const uploadConfig = () => {
+    const seasonId = localStorage.getItem(SEASON_STORAGE_KEY);
+    return { params: { seasonId: seasonId && seasonId !== "all" ? seasonId : undefined } };
+  };
+
+  const buildFormData = () => {
+    const formData = new FormData();
+    if (file) {
+      formData.append("file", file);
+    }
+    return formData;
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (): Promise<ImportPreview> => postupload("/players/import/preview", buildFormData(), uploadConfig()),
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      setPreview(null);
+      toast.error(extractErrorMessage(error) || "Failed to read the file");
+    },
+  });
+
+  // Nothing is created unless every row is valid
+  const importMutation = useMutation({
+    mutationFn: (): Promise<{ message: string; created: number }> =>
+      postupload("/players/import", buildFormData(), uploadConfig()),
+    onSuccess: (data) => {
+      toast.success(data.message || "Players imported successfully");
+      queryClient.invalidateQueries({ queryKey: ["players"] });
+      queryClient.invalidateQueries({ queryKey: ["registrations"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      // The roster may have changed since the preview; show the rows as the server saw them
+      if (error.data?.rows) {
+        setPreview(error.data);
+      }
+      toast.error(extractErrorMessage(error) || "Failed to import players");
+    },
+  });
+
+  const handleDownloadTemplate = async () => {
+    setIsDownloading(true);
+    try {
+      const response = await get("/players/import/template", null, { responseType: "blob" });
+      saveAs(
+        new Blob([response.data], {
+          type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        }),
+        "player-import-template.xlsx"
+      );
+    } catch (error: any) {
+      let message = "Failed to download the template";
+      if (error.data instanceof Blob) {
+        try {
+          message = JSON.parse(await error.data.text()).errors?.message || message;
+        } catch {
+          // Not a JSON error body; keep the generic message
+        }
+      }
+      toast.error(message);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Players</DialogTitle>
+          <DialogDescription>
+            Upload an .xlsx or .csv roster in the template's format. Every row is checked before
+            anything is saved, and players are only imported when all rows are valid.
+            {isClubAdmin && " Players are added to your club."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[250px] space-y-2">
+            <Label htmlFor="player-import-file">Roster file</Label>
+            <Input
+              id="player-import-file"
+              type="file"
+              accept=".xlsx,.csv"
+              disabled={isBusy}
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setPreview(null);
+              }}
+            />
+          </div>
+          <Button variant="outline" onClick={handleDownloadTemplate} disabled={isDownloading}>
+            {isDownloading ? (
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Template
+          </Button>
+          <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={!file || isBusy}>
+            {previewMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            Preview
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!preview || preview.invalid > 0 || isBusy}
+          >
+            {importMutation.isPending ? (
+              <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Import{preview && preview.invalid === 0 ? ` ${preview.total}` : ""}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>{preview.total} rows:</span>
+              <Badge variant="outline" className="bg-green-50 border-green-200 text-green-700">
+                {preview.valid} valid
+              </Badge>
+              {preview.invalid > 0 && (
+                <>
+                  <Badge variant="outline" className="bg-red-50 border-red-200 text-red-700">
+                    {preview.invalid} with errors
+                  </Badge>
+                  <span className="text-muted-foreground">Fix these rows and preview the file again.</span>
+                </>
+              )}
+            </div>
+
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead className="w-[60px]">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Date of Birth</TableHead>
+                    <TableHead>Gender</TableHead>
+                    <TableHead>Aadhar</TableHead>
+                    {!isClubAdmin && <TableHead>Club</TableHead>}
+                    <TableHead>Groups</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => {
+                    const problems = Object.entries(row.errors);
+                    return (
+                      <TableRow key={row.row} className={problems.length > 0 ? "bg-red-50/50" : undefined}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>
+                          {[row.values.firstName, row.values.middleName, row.values.lastName]
+                            .filter(Boolean)
+                            .join(" ")}
+                        </TableCell>
+                        <TableCell>{row.values.dateOfBirth}</TableCell>
+                        <TableCell>{row.values.gender}</TableCell>
+                        <TableCell>{row.values.aadharNumber}</TableCell>
+                        {!isClubAdmin && <TableCell>{row.values.club}</TableCell>}
+                        <TableCell>{row.values.groups}</TableCell>
+                        <TableCell>
+                          {problems.length === 0 ? (
+                            <CheckCircle className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <ul className="space-y-1 text-xs text-red-700">
+                              {problems.map(([column, message]) => (
+                                <li key={column} className="flex gap-1">
+                                  <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                  <span>
+                                    <span className="font-medium">{COLUMN_LABELS[column] || column}:</span> {message}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportPlayersDialog;
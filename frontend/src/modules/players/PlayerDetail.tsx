@@ -0,0 +1,358 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ArrowLeft, CheckCircle, LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { get, patch } from "@/services/apiService";
+import { PlayerRegistration, RegistrationStatusBadge } from "./RenewRegistrationsDialog";
+import { TransferStatusBadge } from "../transfers/TransferList";
+import { TransfersResponse } from "../transfers/types";
+
+interface PlayerStats {
+  matchesPlayed: number;
+  totalRaids: number;
+  successfulRaids: number;
+  raidPoints: number;
+  tacklePoints: number;
+  superRaids: number;
+  superTackles: number;
+  high5s: number;
+  super10s: number;
+}
+
+interface PlayerStatsResponse {
+  career: PlayerStats;
+  competitions: (PlayerStats & { competition: { id: number; competitionName: string } })[];
+  seasons: (PlayerStats & { season: { id: number; seasonName: string } | null })[];
+}
+
+const CAREER_TILES: { key: keyof PlayerStats; label: string }[] = [
+  { key: "matchesPlayed", label: "Matches" },
+  { key: "raidPoints", label: "Raid points" },
+  { key: "tacklePoints", label: "Tackle points" },
+  { key: "superRaids", label: "Super raids" },
+  { key: "superTackles", label: "Super tackles" },
+  { key: "super10s", label: "Super 10s" },
+  { key: "high5s", label: "High 5s" },
+];
+
+const PlayerDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Registrations are approved by association admins only
+  const storedUser = localStorage.getItem("user");
+  const isAdmin = storedUser ? JSON.parse(storedUser).role === "admin" : false;
+
+  const { data: player, isLoading, isError, error } = useQuery({
+    queryKey: ["player", id],
+    queryFn: () => get(`/players/${id}`),
+  });
+
+  const { data: stats, isLoading: isStatsLoading } = useQuery({
+    queryKey: ["player-stats", id],
+    queryFn: (): Promise<PlayerStatsResponse> => get(`/players/${id}/stats`),
+    enabled: !!player,
+  });
+
+  // Registration history across every season
+  const { data: registrationsData, isLoading: isRegistrationsLoading } = useQuery({
+    queryKey: ["registrations", "player", id],
+    queryFn: (): Promise<{ registrations: PlayerRegistration[] }> =>
+      get("/registrations", { playerId: id, limit: 100 }),
+    enabled: !!player,
+  });
+
+  // Moves between clubs, newest first
+  const { data: transfersData, isLoading: isTransfersLoading } = useQuery({
+    queryKey: ["transfers", "player", id],
+    queryFn: (): Promise<TransfersResponse> => get("/transfers", { playerId: id, limit: 100 }),
+    enabled: !!player,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: (registrationId: number) => patch(`/registrations/${registrationId}`, { status: "active" }),
+    onSuccess: () => {
+      toast.success("Registration approved");
+      queryClient.invalidateQueries({ queryKey: ["registrations"] });
+      queryClient.invalidateQueries({ queryKey: ["players"] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to approve registration");
+    },
+  });
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Player</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load player"}</p>
+        <Button className="mt-4" onClick={() => navigate("/players")}>
+          Back to Players
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading || !player) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const raidSuccess = (row: PlayerStats) =>
+    row.totalRaids ? `${Math.round((row.successfulRaids / row.totalRaids) * 100)}%` : "-";
+
+  const renderBreakdown = (rows: (PlayerStats & { label: string; key: string | number })[], heading: string) => (
+    <div className="rounded-md border overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-muted/50 hover:bg-muted/50">
+            <TableHead>{heading}</TableHead>
+            <TableHead className="text-right">Matches</TableHead>
+            <TableHead className="text-right">Raid pts</TableHead>
+            <TableHead className="text-right">Raid success</TableHead>
+            <TableHead className="text-right">Tackle pts</TableHead>
+            <TableHead className="text-right">Super raids</TableHead>
+            <TableHead className="text-right">Super 10s</TableHead>
+            <TableHead className="text-right">High 5s</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">{row.matchesPlayed}</TableCell>
+              <TableCell className="text-right">{row.raidPoints}</TableCell>
+              <TableCell className="text-right">{raidSuccess(row)}</TableCell>
+              <TableCell className="text-right">{row.tacklePoints}</TableCell>
+              <TableCell className="text-right">{row.superRaids}</TableCell>
+              <TableCell className="text-right">{row.super10s}</TableCell>
+              <TableCell className="text-right">{row.high5s}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/players")}>
+              <ArrowLeft className="h-4 w-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            <Avatar className="h-12 w-12">
+              {player.profileImage && <AvatarImage src={`/uploads${player.profileImage}`} alt={player.firstName} />}
+              <AvatarFallback>
+                {player.firstName?.[0]}
+                {player.lastName?.[0]}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <div>
+                {player.firstName} {player.middleName} {player.lastName}
+              </div>
+              <CardDescription>
+                {player.uniqueIdNumber}
+                {player.club ? ` - ${player.club.clubName}` : ""}
+                {player.position ? ` - ${player.position}` : ""}
+              </CardDescription>
+            </div>
+            {player.isSuspended && <Badge variant="destructive">Suspended</Badge>}
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {isStatsLoading || !stats ? (
+            <div className="flex items-center justify-center p-6">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Career totals */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-3">
+                {CAREER_TILES.map(({ key, label }) => (
+                  <div key={key} className="rounded-md border p-3 text-center">
+                    <div className="text-2xl font-bold tabular-nums">{stats.career[key]}</div>
+                    <div className="text-xs text-muted-foreground">{label}</div>
+                  </div>
+                ))}
+              </div>
+
+              {stats.career.matchesPlayed === 0 ? (
+                <p className="text-center text-muted-foreground">No completed matches recorded for this player yet.</p>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <div className="text-sm font-semibold">By season</div>
+                    {renderBreakdown(
+                      stats.seasons.map((row) => ({
+                        ...row,
+                        key: row.season?.id ?? 0,
+                        label: row.season?.seasonName || "No season",
+                      })),
+                      "Season"
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <div className="text-sm font-semibold">By competition</div>
+                    {renderBreakdown(
+                      stats.competitions.map((row) => ({
+                        ...row,
+                        key: row.competition.id,
+                        label: row.competition.competitionName,
+                      })),
+                      "Competition"
+                    )}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border border-border">
+        <CardHeader className="text-lg font-bold">
+          Registrations
+          <CardDescription>Annual registrations by season</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isRegistrationsLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !registrationsData?.registrations.length ? (
+            <p className="text-center text-muted-foreground">This player has never been registered for a season.</p>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead>Season</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Fee</TableHead>
+                    <TableHead>Registered</TableHead>
+                    <TableHead>Activated</TableHead>
+                    {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {registrationsData.registrations.map((registration) => (
+                    <TableRow key={registration.id}>
+                      <TableCell>{registration.season?.seasonName}</TableCell>
+                      <TableCell>
+                        <RegistrationStatusBadge status={registration.status} />
+                      </TableCell>
+                      <TableCell className="text-right">{Number(registration.fee).toFixed(2)}</TableCell>
+                      <TableCell>{format(new Date(registration.createdAt), "d MMM yyyy")}</TableCell>
+                      <TableCell>
+                        {registration.activatedAt ? format(new Date(registration.activatedAt), "d MMM yyyy") : "-"}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell className="text-right">
+                          {registration.status === "pending" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => approveMutation.mutate(registration.id)}
+                              disabled={approveMutation.isPending}
+                            >
+                              <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                              Approve
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border border-border">
+        <CardHeader className="text-lg font-bold">
+          Transfers
+          <CardDescription>Transfer requests and moves between clubs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isTransfersLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : !transfersData?.transfers.length ? (
+            <p className="text-center text-muted-foreground">This player has never been transferred.</p>
+          ) : (
+            <div className="rounded-md border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>NOC</TableHead>
+                    <TableHead>Decided</TableHead>
+                    <TableHead>Cooling-off ends</TableHead>
+                    <TableHead>Remarks</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfersData.transfers.map((transfer) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>{transfer.fromClub?.clubName || "Unattached"}</TableCell>
+                      <TableCell>{transfer.toClub?.clubName || "-"}</TableCell>
+                      <TableCell>
+                        <TransferStatusBadge status={transfer.status} />
+                      </TableCell>
+                      <TableCell>{format(new Date(transfer.createdAt), "d MMM yyyy")}</TableCell>
+                      <TableCell>
+                        {transfer.nocDecidedAt ? format(new Date(transfer.nocDecidedAt), "d MMM yyyy") : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {transfer.decidedAt ? format(new Date(transfer.decidedAt), "d MMM yyyy") : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {transfer.coolingOffEndsAt ? format(new Date(transfer.coolingOffEndsAt), "d MMM yyyy") : "-"}
+                      </TableCell>
+                      <TableCell
+                        className="max-w-[220px] truncate"
+                        title={[transfer.reason, transfer.nocRemarks, transfer.remarks].filter(Boolean).join(" / ")}
+                      >
+                        {transfer.remarks || transfer.nocRemarks || transfer.reason || "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PlayerDetail;
@@ -13,6 +13,13 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import {
   Form,
   FormControl,
@@ -23,8 +30,10 @@ import {
 } from "@/components/ui/form";
 
 // Services and utilities
-import { get, post, put, postupload, putupload } from "@/services/apiService";
+import { get, postupload, putupload } from "@/services/apiService";
 import Validate from "@/lib/Handlevalidation";
+import { getGroupIneligibilityReasons, describeAgeRule } from "@/utils/ageEligibility";
+import { openAadharDocument } from "./aadharDocument";
 
 // Define interfaces for API responses
 interface PlayerData {
@@ -35,6 +44,7 @@ interface PlayerData {
   lastName: string;
   profileImage?: string;
   dateOfBirth: string;
+  gender?: string | null;
   position?: string;
   address: string;
   mobile: string;
@@ -42,6 +52,8 @@ interface PlayerData {
   aadharImage?: string;
   aadharVerified: boolean;
   isSuspended: boolean;
+  clubId?: number | null;
+  club?: Club | null;
   groups: Group[];
   createdAt: string;
   updatedAt: string;
@@ -52,8 +64,20 @@ interface Group {
   groupName: string;
   gender: string;
   age: string;
+  maxAge?: number | null;
+  ageCutoffDate?: string | null;
+}
+
+interface Club {
+  id: number;
+  clubName: string;
 }
 
+// Accepted uploads, matching the limits enforced by the player routes
+const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const AADHAR_TYPES = [...PHOTO_TYPES, "application/pdf"];
+const MB = 1024 * 1024;
+
 // Create schema for player form
 const playerFormSchemaBase = z.object({
   firstName: z.string()
@@ -76,6 +100,9 @@ const playerFormSchemaBase = z.object({
     }),
   dateOfBirth: z.string()
     .min(1, "Date of birth is required"),
+  gender: z.enum(["Male", "Female"], {
+    errorMap: () => ({ message: "Gender is required" }),
+  }),
   position: z.string()
     .max(100, "Position must not exceed 100 characters")
     .optional(),
@@ -87,8 +114,27 @@ const playerFormSchemaBase = z.object({
     .refine(val => /^\d+$/.test(val), {
       message: "Mobile number can only contain digits",
     }),
+  clubId: z.string().optional(),
   groupIds: z.array(z.string())
     .min(1, "At least one group must be selected"),
+  profileImage: z.instanceof(File)
+    .refine(file => PHOTO_TYPES.includes(file.type), {
+      message: "Photo must be a JPEG, PNG or WebP image",
+    })
+    .refine(file => file.size <= 2 * MB, {
+      message: "Photo must not exceed 2 MB",
+    })
+    .nullable()
+    .optional(),
+  aadharImage: z.instanceof(File)
+    .refine(file => AADHAR_TYPES.includes(file.type), {
+      message: "Aadhar document must be a JPEG, PNG, WebP image or a PDF",
+    })
+    .refine(file => file.size <= 5 * MB, {
+      message: "Aadhar document must not exceed 5 MB",
+    })
+    .nullable()
+    .optional(),
 });
 
 // Add aadharNumber validation for create mode
@@ -124,6 +170,21 @@ const extractErrorMessage = (error: any): string | undefined => {
   return error?.message;
 };
 
+// Builds the multipart payload; files are only sent when a new one was picked
+const buildPlayerFormData = (
+  payload: Record<string, string | number | number[] | null | undefined>,
+  files: { profileImage?: File | null; aadharImage?: File | null },
+): FormData => {
+  const formData = new FormData();
+  Object.entries(payload).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    formData.append(key, Array.isArray(value) ? JSON.stringify(value) : String(value));
+  });
+  if (files.profileImage) formData.append("profileImage", files.profileImage);
+  if (files.aadharImage) formData.append("aadharImage", files.aadharImage);
+  return formData;
+};
+
 type PlayerFormInputs = z.infer<typeof playerFormSchemaCreate>;
 
 interface PlayerFormProps {
@@ -142,22 +203,63 @@ const PlayerForm = ({
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
+  // Club admins always register players into their own club, so only admins pick one
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
   // Initialize form with Shadcn Form
   const form = useForm<PlayerFormInputs>({
-    resolver: zodResolver(mode === "create" ? playerFormSchemaCreate : playerFormSchemaEdit),
+    resolver: zodResolver(
+      (mode === "create" ? playerFormSchemaCreate : playerFormSchemaEdit).refine(
+        (data) => isClubAdmin || mode === "edit" || !!data.clubId,
+        { message: "Club is required", path: ["clubId"] }
+      )
+    ) as any,
     defaultValues: {
       firstName: "",
       middleName: "",
       lastName: "",
       dateOfBirth: "",
+      gender: undefined,
       position: "",
       address: "",
       mobile: "",
       aadharNumber: "",
+      clubId: "",
       groupIds: [],
+      profileImage: null,
+      aadharImage: null,
     },
   });
 
+  // Groups are greyed out when the player's birth date or gender breaks their rule
+  const dateOfBirth = form.watch("dateOfBirth");
+  const gender = form.watch("gender");
+
+  // Preview the newly picked photo until it is saved
+  const profileImage = form.watch("profileImage");
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  useEffect(() => {
+    if (!profileImage) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(profileImage);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [profileImage]);
+
+  // Query to fetch clubs for the club picker
+  const { data: clubsData, isLoading: isLoadingClubs } = useQuery({
+    queryKey: ["clubs", "all"],
+    queryFn: async (): Promise<Club[]> => {
+      const response = await get("/clubs", { limit: 1000, sortBy: "clubName" });
+      return response.clubs || response;
+    },
+    enabled: !isClubAdmin,
+    refetchOnWindowFocus: false,
+  });
+
   // Query to fetch all available groups
   const { data: groupsData, isLoading: isLoadingGroups } = useQuery({
     queryKey: ["groups"],
@@ -188,10 +290,14 @@ const PlayerForm = ({
       form.setValue("middleName", playerData.middleName || "");
       form.setValue("lastName", playerData.lastName || "");
       form.setValue("dateOfBirth", playerData.dateOfBirth.split('T')[0] || "");
+      if (playerData.gender === "Male" || playerData.gender === "Female") {
+        form.setValue("gender", playerData.gender);
+      }
       form.setValue("position", playerData.position || "");
       form.setValue("address", playerData.address || "");
       form.setValue("mobile", playerData.mobile || "");
       form.setValue("aadharNumber", playerData.aadharNumber || "");
+      form.setValue("clubId", playerData.clubId ? playerData.clubId.toString() : "");
       
       // Set group IDs
       if (playerData.groups && playerData.groups.length > 0) {
@@ -217,20 +323,22 @@ const PlayerForm = ({
   // Mutation for creating a player
   const createPlayerMutation = useMutation({
     mutationFn: (data: PlayerFormInputs) => {
-      // Create JSON payload
+      // Create multipart payload
       const payload = {
         firstName: data.firstName,
         middleName: data.middleName || null,
         lastName: data.lastName,
         dateOfBirth: data.dateOfBirth,
+        gender: data.gender,
         position: data.position || null,
         address: data.address,
         mobile: data.mobile,
         aadharNumber: data.aadharNumber,
+        clubId: !isClubAdmin && data.clubId ? parseInt(data.clubId) : undefined,
         groupIds: data.groupIds.map(id => parseInt(id))
       };
       
-      return post("/players", payload);
+      return postupload("/players", buildPlayerFormData(payload, data));
     },
     onSuccess: () => {
       toast.success("Player created successfully");
@@ -259,20 +367,21 @@ const PlayerForm = ({
   // Mutation for updating a player
   const updatePlayerMutation = useMutation({
     mutationFn: (data: PlayerFormInputs) => {
-      // Create JSON payload
+      // Create multipart payload; empty strings clear optional fields
       const payload = {
         firstName: data.firstName,
-        middleName: data.middleName || null,
+        middleName: data.middleName || "",
         lastName: data.lastName,
         dateOfBirth: data.dateOfBirth,
-        position: data.position || null,
+        gender: data.gender,
+        position: data.position || "",
         address: data.address,
         mobile: data.mobile,
         aadharNumber: data.aadharNumber || null,
         groupIds: data.groupIds.map(id => parseInt(id))
       };
       
-      return put(`/players/${playerId}`, payload);
+      return putupload(`/players/${playerId}`, buildPlayerFormData(payload, data));
     },
     onSuccess: () => {
       toast.success("Player updated successfully");
@@ -387,8 +496,8 @@ const PlayerForm = ({
               />
             </div>
 
-            {/* Date of Birth and Position Fields */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* Date of Birth, Gender and Position Fields */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               {/* Date of Birth Field */}
               <FormField
                 control={form.control}
@@ -409,6 +518,33 @@ const PlayerForm = ({
                 )}
               />
 
+              {/* Gender Field */}
+              <FormField
+                control={form.control}
+                name="gender"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Gender <span className="text-red-500">*</span></FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={isFormLoading}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select gender" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="Male">Male</SelectItem>
+                        <SelectItem value="Female">Female</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* Position Field */}
               <FormField
                 control={form.control}
@@ -500,6 +636,125 @@ const PlayerForm = ({
 
 
 
+          {/* Documents Section */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium">Documents</h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Photo Field */}
+              <FormField
+                control={form.control}
+                name="profileImage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Photo</FormLabel>
+                    <div className="flex items-center gap-3">
+                      {(photoPreview || playerData?.profileImage) && (
+                        <img
+                          src={photoPreview || `/uploads${playerData?.profileImage}`}
+                          alt="Player photo"
+                          className="h-14 w-14 rounded-md object-cover border"
+                        />
+                      )}
+                      <FormControl>
+                        <Input
+                          type="file"
+                          accept={PHOTO_TYPES.join(",")}
+                          name={field.name}
+                          ref={field.ref}
+                          onBlur={field.onBlur}
+                          onChange={(e) => field.onChange(e.target.files?.[0] ?? null)}
+                          disabled={isFormLoading}
+                        />
+                      </FormControl>
+                    </div>
+                    <p className="text-xs text-muted-foreground">JPEG, PNG or WebP, up to 2 MB</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Aadhar Document Field */}
+              <FormField
+                control={form.control}
+                name="aadharImage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Aadhar Document</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept={AADHAR_TYPES.join(",")}
+                        name={field.name}
+                        ref={field.ref}
+                        onBlur={field.onBlur}
+                        onChange={(e) => field.onChange(e.target.files?.[0] ?? null)}
+                        disabled={isFormLoading}
+                      />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      Image or PDF, up to 5 MB
+                      {playerData?.aadharImage && (
+                        <>
+                          {" · "}
+                          <button
+                            type="button"
+                            onClick={() => openAadharDocument(playerData.id)}
+                            className="underline"
+                          >
+                            View current document
+                          </button>
+                        </>
+                      )}
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+
+          {/* Club Section */}
+          {!isClubAdmin && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Club</h3>
+
+              {/* Club Field */}
+              <FormField
+                control={form.control}
+                name="clubId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Club
+                      {mode === "create" && <span className="text-red-500"> *</span>}
+                      {mode === "edit" && <span className="text-sm text-muted-foreground ml-2">(Changed through a transfer)</span>}
+                    </FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={isFormLoading || isLoadingClubs || mode === "edit"}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder={isLoadingClubs ? "Loading clubs..." : "Select club"} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {clubsData?.map((club) => (
+                          <SelectItem key={club.id} value={club.id.toString()}>
+                            {club.clubName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
           {/* Groups Section */}
           <div className="space-y-4">
             <h3 className="text-lg font-medium">Groups</h3>
@@ -548,14 +803,23 @@ const PlayerForm = ({
                           {groupsData?.map((group) => {
                             const groupId = group.id.toString();
                             const isSelected = field.value.includes(groupId);
+                            const reasons = getGroupIneligibilityReasons({ dateOfBirth, gender }, group);
+                            const isEligible = reasons.length === 0;
+                            const ageRule = describeAgeRule(group);
                             return (
                               <div
                                 key={group.id}
                                 className={cn(
-                                  "flex items-center px-2 py-1.5 text-sm cursor-pointer rounded-sm",
-                                  isSelected ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                                  "flex items-center px-2 py-1.5 text-sm rounded-sm",
+                                  isSelected ? "bg-accent text-accent-foreground" : "hover:bg-muted",
+                                  isEligible || isSelected ? "cursor-pointer" : "opacity-50 cursor-not-allowed",
+                                  !isEligible && isSelected && "text-red-500"
                                 )}
+                                title={reasons.join(", ")}
                                 onClick={() => {
+                                  // Ineligible groups can be removed but not added
+                                  if (!isEligible && !isSelected) return;
+
                                   // Toggle the selection
                                   const currentValues = [...field.value];
                                   const newValues = isSelected
@@ -574,7 +838,9 @@ const PlayerForm = ({
                                 </div>
                                 <span className="ml-2">{group.groupName}</span>
                                 <span className="ml-auto text-xs text-muted-foreground">
-                                  {group.gender}, {group.age}
+                                  {isEligible
+                                    ? `${group.gender}, ${group.age}${ageRule ? ` (${ageRule})` : ""}`
+                                    : reasons.join(", ")}
                                 </span>
                               </div>
                             );
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
@@ -30,19 +31,13 @@ import {
   CheckCircle,
   XCircle,
   FileText,
-  Download
+  Download,
+  ExternalLink,
+  Printer,
+  BarChart3,
+  RefreshCw,
+  Upload
 } from "lucide-react";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogTrigger,
-} from "@/components/ui/alert-dialog";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -51,12 +46,28 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import CustomPagination from "@/components/common/custom-pagination";
 import { get, patch } from "@/services/apiService";
 // Import components from current directory
 import CreatePlayer from "./CreatePlayer";
 import EditPlayer from "./EditPlayer";
+import AadharReviewDialog, { AadharStatusBadge, AadharReviewPlayer } from "./AadharReviewDialog";
+import SuspensionDialog, { SuspensionPlayer } from "./SuspensionDialog";
+import IdCardDialog from "./IdCardDialog";
+import ImportPlayersDialog from "./ImportPlayersDialog";
+import { downloadIdCards } from "./downloadIdCards";
+import { openAadharDocument } from "./aadharDocument";
+import RenewRegistrationsDialog, { RegistrationStatusBadge, RenewalPlayer } from "./RenewRegistrationsDialog";
 
 const PlayerList = () => {
   const [page, setPage] = useState(1);
@@ -66,10 +77,36 @@ const PlayerList = () => {
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
   const [isSuspended, setIsSuspended] = useState<boolean | undefined>(undefined);
   const [aadharVerified, setAadharVerified] = useState<boolean | undefined>(undefined);
+  const [clubId, setClubId] = useState<string>("all");
+  const [registrationStatus, setRegistrationStatus] = useState<string | undefined>(undefined);
   const [editPlayerId, setEditPlayerId] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [showPendingQueue, setShowPendingQueue] = useState(false);
+  const [reviewPlayer, setReviewPlayer] = useState<AadharReviewPlayer | null>(null);
+  const [suspensionPlayer, setSuspensionPlayer] = useState<SuspensionPlayer | null>(null);
+  const [isIdCardDialogOpen, setIsIdCardDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  // Players picked for a bulk renewal, kept across pages
+  const [selectedPlayers, setSelectedPlayers] = useState<Map<number, RenewalPlayer>>(new Map());
+  const [isRenewDialogOpen, setIsRenewDialogOpen] = useState(false);
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  // Club admins are limited to their own roster by the API, so the club filter is for admins only
+  const storedUser = localStorage.getItem("user");
+  const isClubAdmin = storedUser ? JSON.parse(storedUser).role === "clubadmin" : false;
+
+  // Fetch clubs for the club filter
+  const { data: clubsData } = useQuery({
+    queryKey: ["clubs", "all"],
+    queryFn: async () => {
+      const response = await get("/clubs", { limit: 1000, sortBy: "clubName" });
+      return response.clubs || response;
+    },
+    enabled: !isClubAdmin,
+    refetchOnWindowFocus: false,
+  });
 
   // Fetch players
   const {
@@ -78,7 +115,7 @@ const PlayerList = () => {
     isError,
     error,
   } = useQuery({
-    queryKey: ["players", page, limit, search, sortBy, sortOrder, isSuspended, aadharVerified],
+    queryKey: ["players", page, limit, search, sortBy, sortOrder, isSuspended, aadharVerified, clubId, registrationStatus, showPendingQueue],
     queryFn: () => get("/players", { 
       page, 
       limit, 
@@ -86,34 +123,30 @@ const PlayerList = () => {
       sortBy, 
       sortOrder,
       isSuspended: isSuspended !== undefined ? isSuspended.toString() : undefined,
-      aadharVerified: aadharVerified !== undefined ? aadharVerified.toString() : undefined
+      aadharVerified: aadharVerified !== undefined ? aadharVerified.toString() : undefined,
+      aadharStatus: showPendingQueue ? "pending" : undefined,
+      clubId: clubId !== "all" ? clubId : undefined,
+      registrationStatus
     }),
   });
 
-  // Toggle suspension mutation
-  const toggleSuspensionMutation = useMutation({
-    mutationFn: ({ id, isSuspended }: { id: number, isSuspended: boolean }) => 
-      patch(`/players/${id}/suspension`, { isSuspended }),
+  // Approve a pending registration for the season shown in the list
+  const approveRegistrationMutation = useMutation({
+    mutationFn: (registrationId: number) => patch(`/registrations/${registrationId}`, { status: "active" }),
     onSuccess: () => {
-      toast.success("Player status updated successfully");
+      toast.success("Registration approved");
       queryClient.invalidateQueries({ queryKey: ["players"] });
     },
     onError: (error: any) => {
-      toast.error(error.errors?.message || error.message || "Failed to update player status");
+      toast.error(error.errors?.message || error.message || "Failed to approve registration");
     },
   });
 
-  // Toggle Aadhar verification mutation
-  const toggleAadharVerificationMutation = useMutation({
-    mutationFn: ({ id, aadharVerified }: { id: number, aadharVerified: boolean }) => 
-      patch(`/players/${id}/aadhar-verification`, { aadharVerified }),
-    onSuccess: () => {
-      toast.success("Aadhar verification status updated successfully");
-      queryClient.invalidateQueries({ queryKey: ["players"] });
-    },
-    onError: (error: any) => {
-      toast.error(error.errors?.message || error.message || "Failed to update Aadhar verification status");
-    },
+  // Count of players waiting for Aadhar review, shown on the queue toggle
+  const { data: pendingData } = useQuery({
+    queryKey: ["players", "aadhar-pending-count"],
+    queryFn: () => get("/players", { aadharStatus: "pending", limit: 1 }),
+    enabled: !isClubAdmin,
   });
 
   // Handle search input
@@ -163,6 +196,32 @@ const PlayerList = () => {
     setPage(1); // Reset to first page when filters change
   };
 
+  // Handle registration filter
+  const handleRegistrationFilterChange = (status: string | undefined) => {
+    setRegistrationStatus(status);
+    setPage(1);
+  };
+
+  // Handle row selection for bulk renewal
+  const togglePlayer = (player: RenewalPlayer, checked: boolean) => {
+    setSelectedPlayers((prev) => {
+      const next = new Map(prev);
+      if (checked) {
+        next.set(player.id, { id: player.id, firstName: player.firstName, lastName: player.lastName });
+      } else {
+        next.delete(player.id);
+      }
+      return next;
+    });
+  };
+
+  const pagePlayers: RenewalPlayer[] = data?.players || [];
+  const isPageSelected = pagePlayers.length > 0 && pagePlayers.every((player) => selectedPlayers.has(player.id));
+
+  const togglePage = (checked: boolean) => {
+    pagePlayers.forEach((player) => togglePlayer(player, checked));
+  };
+
   // Handle edit player
   const handleEdit = (id: string) => {
     setEditPlayerId(id);
@@ -228,6 +287,37 @@ const PlayerList = () => {
         </CardHeader>
 
         <CardContent>
+          {/* Verification queue toggle */}
+          {!isClubAdmin && (
+            <div className="flex gap-2 mb-4">
+              <Button
+                variant={showPendingQueue ? "outline" : "default"}
+                size="sm"
+                onClick={() => {
+                  setShowPendingQueue(false);
+                  setPage(1);
+                }}
+              >
+                All Players
+              </Button>
+              <Button
+                variant={showPendingQueue ? "default" : "outline"}
+                size="sm"
+                onClick={() => {
+                  setShowPendingQueue(true);
+                  setPage(1);
+                }}
+              >
+                Pending Verification
+                {pendingData?.totalPlayers > 0 && (
+                  <Badge variant="secondary" className="ml-2 px-1 py-0 h-5">
+                    {pendingData.totalPlayers}
+                  </Badge>
+                )}
+              </Button>
+            </div>
+          )}
+
           {/* Toolbar */}
           <div className="flex flex-wrap items-center gap-4 mb-4">
             {/* Search Input */}
@@ -241,14 +331,39 @@ const PlayerList = () => {
               />
             </div>
 
+            {/* Club Filter */}
+            {!isClubAdmin && (
+              <Select
+                value={clubId}
+                onValueChange={(value) => {
+                  setClubId(value);
+                  setPage(1); // Reset to first page when club filter changes
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="All clubs" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clubs</SelectItem>
+                  {clubsData?.map((club: { id: number; clubName: string }) => (
+                    <SelectItem key={club.id} value={club.id.toString()}>
+                      {club.clubName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             {/* Filter Dropdown */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" size="sm">
                   Filters
-                  {(isSuspended !== undefined || aadharVerified !== undefined) && (
+                  {(isSuspended !== undefined || aadharVerified !== undefined || registrationStatus !== undefined) && (
                     <Badge variant="secondary" className="ml-2 px-1 py-0 h-5">
-                      {(isSuspended !== undefined ? 1 : 0) + (aadharVerified !== undefined ? 1 : 0)}
+                      {(isSuspended !== undefined ? 1 : 0) +
+                        (aadharVerified !== undefined ? 1 : 0) +
+                        (registrationStatus !== undefined ? 1 : 0)}
                     </Badge>
                   )}
                 </Button>
@@ -279,6 +394,20 @@ const PlayerList = () => {
                   <XCircle className="mr-2 h-4 w-4 text-amber-500" />
                   Unverified
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Registration</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleRegistrationFilterChange("active")}>
+                  <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                  Registered
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleRegistrationFilterChange("pending")}>
+                  <RefreshCw className="mr-2 h-4 w-4 text-amber-500" />
+                  Pending
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleRegistrationFilterChange("lapsed")}>
+                  <XCircle className="mr-2 h-4 w-4 text-red-500" />
+                  Lapsed
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
 
@@ -292,6 +421,37 @@ const PlayerList = () => {
               Export
             </Button> */}
 
+            {/* Bulk Renewal Button */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsRenewDialogOpen(true)}
+              disabled={selectedPlayers.size === 0}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Renew{selectedPlayers.size > 0 ? ` (${selectedPlayers.size})` : ""}
+            </Button>
+
+            {/* Bulk Import Button */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsImportDialogOpen(true)}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+
+            {/* Print ID Cards Button */}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsIdCardDialogOpen(true)}
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Print ID Cards
+            </Button>
+
             {/* Add Button */}
             <Button
               onClick={() => setIsCreateDialogOpen(true)}
@@ -303,7 +463,7 @@ const PlayerList = () => {
           </div>
 
           {/* Active Filters Display */}
-          {(isSuspended !== undefined || aadharVerified !== undefined) && (
+          {(isSuspended !== undefined || aadharVerified !== undefined || registrationStatus !== undefined) && (
             <div className="flex flex-wrap gap-2 mb-4">
               <div className="text-sm text-muted-foreground">Active filters:</div>
               {isSuspended !== undefined && (
@@ -328,6 +488,17 @@ const PlayerList = () => {
                   </button>
                 </Badge>
               )}
+              {registrationStatus !== undefined && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  Registration: {registrationStatus === "active" ? "Registered" : registrationStatus === "pending" ? "Pending" : "Lapsed"}
+                  <button 
+                    onClick={() => handleRegistrationFilterChange(undefined)}
+                    className="ml-1 rounded-full hover:bg-muted p-0.5"
+                  >
+                    <XCircle className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -335,6 +506,7 @@ const PlayerList = () => {
                 onClick={() => {
                   setIsSuspended(undefined);
                   setAadharVerified(undefined);
+                  setRegistrationStatus(undefined);
                 }}
               >
                 Clear all
@@ -347,6 +519,13 @@ const PlayerList = () => {
             <Table>
               <TableHeader>
                 <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={isPageSelected}
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      aria-label="Select all players on this page"
+                    />
+                  </TableHead>
                   <TableHead className="w-auto cursor-pointer" onClick={() => handleSort("uniqueIdNumber")}>
                     ID
                     {sortBy === "uniqueIdNumber" && (
@@ -364,47 +543,70 @@ const PlayerList = () => {
                     )}
                   </TableHead>
                   <TableHead>Age</TableHead>
+                  {!isClubAdmin && <TableHead>Club</TableHead>}
                   <TableHead>Groups</TableHead>
                   <TableHead>Mobile</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Aadhar</TableHead>
+                  <TableHead>Registration</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="h-24 text-center">
+                    <TableCell colSpan={isClubAdmin ? 10 : 11} className="h-24 text-center">
                       <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
                       <p className="mt-2">Loading players...</p>
                     </TableCell>
                   </TableRow>
                 ) : data?.players?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={8} className="h-24 text-center">
+                    <TableCell colSpan={isClubAdmin ? 10 : 11} className="h-24 text-center">
                       No players found.
                     </TableCell>
                   </TableRow>
                 ) : (
                   data?.players?.map((player: any) => (
                     <TableRow key={player.id} className={player.isSuspended ? "bg-red-50" : ""}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedPlayers.has(player.id)}
+                          onCheckedChange={(checked) => togglePlayer(player, checked === true)}
+                          aria-label={`Select ${player.firstName} ${player.lastName}`}
+                        />
+                      </TableCell>
                       <TableCell className="font-mono text-xs">{player.uniqueIdNumber}</TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
-                          {player.profileImage && (
-                            <img 
-                              src={`/uploads${player.profileImage}`} 
-                              alt={`${player.firstName} ${player.lastName}`} 
-                              className="w-8 h-8 rounded-full object-cover"
-                            />
-                          )}
+                          <Avatar className="h-8 w-8">
+                            {player.profileImage && (
+                              <AvatarImage
+                                src={`/uploads${player.profileImage}`}
+                                alt={`${player.firstName} ${player.lastName}`}
+                                className="object-cover"
+                              />
+                            )}
+                            <AvatarFallback className="text-xs">
+                              {player.firstName?.[0]}{player.lastName?.[0]}
+                            </AvatarFallback>
+                          </Avatar>
                           <div>
-                            <div>{player.firstName} {player.lastName}</div>
+                            <button
+                              type="button"
+                              className="hover:underline text-left"
+                              onClick={() => navigate(`/players/${player.id}`)}
+                            >
+                              {player.firstName} {player.lastName}
+                            </button>
                             <div className="text-xs text-muted-foreground">{player.position || 'No position'}</div>
                           </div>
                         </div>
                       </TableCell>
                       <TableCell>{calculateAge(player.dateOfBirth)}</TableCell>
+                      {!isClubAdmin && (
+                        <TableCell>{player.club?.clubName || "-"}</TableCell>
+                      )}
                       <TableCell>
                         <div className="flex flex-wrap gap-1">
                           {player.groups.map((group: any) => (
@@ -417,17 +619,25 @@ const PlayerList = () => {
                       <TableCell>{player.mobile}</TableCell>
                       <TableCell>
                         {player.isSuspended ? (
-                          <Badge variant="destructive">Suspended</Badge>
+                          <div className="space-y-1">
+                            <Badge variant="destructive">Suspended</Badge>
+                            {player.suspensions?.[0] && (
+                              <div className="text-xs text-muted-foreground">
+                                {player.suspensions[0].endDate
+                                  ? `Until ${formatDate(player.suspensions[0].endDate)}`
+                                  : "Indefinite"}
+                              </div>
+                            )}
+                          </div>
                         ) : (
                           <Badge variant="outline" className="bg-green-50">Active</Badge>
                         )}
                       </TableCell>
                       <TableCell>
-                        {player.aadharVerified ? (
-                          <Badge variant="outline" className="bg-green-50 border-green-200 text-green-700">Verified</Badge>
-                        ) : (
-                          <Badge variant="outline" className="bg-amber-50 border-amber-200 text-amber-700">Unverified</Badge>
-                        )}
+                        <AadharStatusBadge status={player.aadharStatus} />
+                      </TableCell>
+                      <TableCell>
+                        <RegistrationStatusBadge status={player.registrations?.[0]?.status} />
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -440,6 +650,16 @@ const PlayerList = () => {
                             <span className="sr-only">Edit</span>
                           </Button>
 
+                          {showPendingQueue && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setReviewPlayer(player)}
+                            >
+                              Review
+                            </Button>
+                          )}
+
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button variant="ghost" size="icon">
@@ -450,108 +670,69 @@ const PlayerList = () => {
                             <DropdownMenuContent align="end">
                               <DropdownMenuLabel>Actions</DropdownMenuLabel>
                               <DropdownMenuSeparator />
+
+                              {/* Details and career statistics */}
+                              <DropdownMenuItem onClick={() => navigate(`/players/${player.id}`)}>
+                                <BarChart3 className="mr-2 h-4 w-4" />
+                                View Details
+                              </DropdownMenuItem>
+
+                              {/* ID card */}
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  downloadIdCards(
+                                    `/players/${player.id}/id-card.pdf`,
+                                    null,
+                                    `id-card-${player.uniqueIdNumber}.pdf`
+                                  )
+                                }
+                              >
+                                <Printer className="mr-2 h-4 w-4" />
+                                Print ID Card
+                              </DropdownMenuItem>
+
+                              {/* Uploaded Aadhar document */}
+                              {player.aadharImage && (
+                                <DropdownMenuItem onClick={() => openAadharDocument(player.id)}>
+                                  <ExternalLink className="mr-2 h-4 w-4" />
+                                  View Aadhar Document
+                                </DropdownMenuItem>
+                              )}
                               
-                              {/* Toggle Suspension */}
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
-                                    {player.isSuspended ? (
-                                      <>
-                                        <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
-                                        Activate Player
-                                      </>
-                                    ) : (
-                                      <>
-                                        <Ban className="mr-2 h-4 w-4 text-red-500" />
-                                        Suspend Player
-                                      </>
-                                    )}
-                                  </DropdownMenuItem>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>
-                                      {player.isSuspended ? "Activate Player" : "Suspend Player"}
-                                    </AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      {player.isSuspended 
-                                        ? `Are you sure you want to activate ${player.firstName} ${player.lastName}?`
-                                        : `Are you sure you want to suspend ${player.firstName} ${player.lastName}? This will prevent them from participating in competitions.`
-                                      }
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={() => toggleSuspensionMutation.mutate({
-                                        id: player.id,
-                                        isSuspended: !player.isSuspended
-                                      })}
-                                      className={player.isSuspended ? "bg-green-500 hover:bg-green-600" : "bg-red-500 hover:bg-red-600"}
-                                    >
-                                      {toggleSuspensionMutation.isPending ? (
-                                        <>
-                                          <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                                          Processing...
-                                        </>
-                                      ) : (
-                                        player.isSuspended ? "Activate" : "Suspend"
-                                      )}
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
-
-                              {/* Toggle Aadhar Verification */}
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <DropdownMenuItem onSelect={(e) => e.preventDefault()}>
-                                    {player.aadharVerified ? (
-                                      <>
-                                        <XCircle className="mr-2 h-4 w-4 text-amber-500" />
-                                        Mark Aadhar as Unverified
-                                      </>
-                                    ) : (
-                                      <>
-                                        <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
-                                        Verify Aadhar
-                                      </>
-                                    )}
-                                  </DropdownMenuItem>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>
-                                      {player.aadharVerified ? "Mark Aadhar as Unverified" : "Verify Aadhar"}
-                                    </AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      {player.aadharVerified 
-                                        ? `Are you sure you want to mark ${player.firstName} ${player.lastName}'s Aadhar as unverified?`
-                                        : `Are you sure you want to verify ${player.firstName} ${player.lastName}'s Aadhar?`
-                                      }
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={() => toggleAadharVerificationMutation.mutate({
-                                        id: player.id,
-                                        aadharVerified: !player.aadharVerified
-                                      })}
-                                      className={player.aadharVerified ? "bg-amber-500 hover:bg-amber-600" : "bg-green-500 hover:bg-green-600"}
-                                    >
-                                      {toggleAadharVerificationMutation.isPending ? (
-                                        <>
-                                          <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                                          Processing...
-                                        </>
-                                      ) : (
-                                        player.aadharVerified ? "Mark as Unverified" : "Verify"
-                                      )}
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
+                              {/* Suspensions */}
+                              {!isClubAdmin && (
+                                <DropdownMenuItem onClick={() => setSuspensionPlayer(player)}>
+                                  {player.isSuspended ? (
+                                    <>
+                                      <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                                      Manage Suspension
+                                    </>
+                                  ) : (
+                                    <>
+                                      <Ban className="mr-2 h-4 w-4 text-red-500" />
+                                      Suspend Player
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
+                              )}
+
+                              {/* Approve registration */}
+                              {!isClubAdmin && player.registrations?.[0]?.status === "pending" && (
+                                <DropdownMenuItem
+                                  onClick={() => approveRegistrationMutation.mutate(player.registrations[0].id)}
+                                >
+                                  <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                                  Approve Registration
+                                </DropdownMenuItem>
+                              )}
+
+                              {/* Review Aadhar */}
+                              {!isClubAdmin && (
+                                <DropdownMenuItem onClick={() => setReviewPlayer(player)}>
+                                  <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
+                                  Review Aadhar
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </div>
@@ -608,6 +789,44 @@ const PlayerList = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Suspension Dialog */}
+      <SuspensionDialog
+        player={suspensionPlayer}
+        open={!!suspensionPlayer}
+        onOpenChange={(open) => !open && setSuspensionPlayer(null)}
+      />
+
+      {/* Aadhar Review Dialog */}
+      <AadharReviewDialog
+        player={reviewPlayer}
+        open={!!reviewPlayer}
+        onOpenChange={(open) => !open && setReviewPlayer(null)}
+      />
+
+      {/* Bulk Renewal Dialog */}
+      <RenewRegistrationsDialog
+        players={[...selectedPlayers.values()]}
+        open={isRenewDialogOpen}
+        onOpenChange={setIsRenewDialogOpen}
+        isClubAdmin={isClubAdmin}
+        onRenewed={() => setSelectedPlayers(new Map())}
+      />
+
+      {/* Bulk Import Dialog */}
+      <ImportPlayersDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        isClubAdmin={isClubAdmin}
+      />
+
+      {/* Print ID Cards Dialog */}
+      <IdCardDialog
+        open={isIdCardDialogOpen}
+        onOpenChange={setIsIdCardDialogOpen}
+        isClubAdmin={isClubAdmin}
+        clubs={clubsData}
+      />
+
       {/* Edit Player Dialog */}
       {editPlayerId && (
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
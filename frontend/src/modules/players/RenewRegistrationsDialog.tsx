@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { get, post } from "@/services/apiService";
+import { SeasonsResponse } from "../season/types";
+
+// Interfaces
+export interface PlayerRegistration {
+  id: number;
+  seasonId: number;
+  status: "pending" | "active" | "lapsed";
+  fee: string;
+  activatedAt?: string | null;
+  createdAt: string;
+  season?: { id: number; seasonName: string; startDate?: string; endDate?: string };
+}
+
+export interface RenewalPlayer {
+  id: number;
+  firstName: string;
+  lastName: string;
+}
+
+interface RenewalResult {
+  created: number;
+  activated: number;
+  unchanged: number;
+  season: { id: number; seasonName: string };
+}
+
+interface RenewRegistrationsDialogProps {
+  players: RenewalPlayer[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isClubAdmin: boolean;
+  onRenewed?: () => void;
+}
+
+// Badge for a player's registration status in a season
+export const RegistrationStatusBadge = ({ status }: { status?: string | null }) => {
+  if (status === "active") {
+    return <Badge variant="outline" className="bg-green-50 border-green-200 text-green-700">Registered</Badge>;
+  }
+  if (status === "pending") {
+    return <Badge variant="outline" className="bg-amber-50 border-amber-200 text-amber-700">Pending</Badge>;
+  }
+  if (status === "lapsed") {
+    return <Badge variant="outline" className="bg-red-50 border-red-200 text-red-700">Lapsed</Badge>;
+  }
+  return <Badge variant="outline" className="text-muted-foreground">Unregistered</Badge>;
+};
+
+const RenewRegistrationsDialog = ({
+  players,
+  open,
+  onOpenChange,
+  isClubAdmin,
+  onRenewed,
+}: RenewRegistrationsDialogProps) => {
+  const queryClient = useQueryClient();
+  const [seasonId, setSeasonId] = useState<string>("");
+  const [status, setStatus] = useState<"pending" | "active">("active");
+
+  // Seasons that have not ended can still take registrations
+  const { data: seasonsData, isLoading: isLoadingSeasons } = useQuery({
+    queryKey: ["seasons"],
+    queryFn: (): Promise<SeasonsResponse> => get("/seasons"),
+    enabled: open,
+  });
+  const openSeasons = (seasonsData?.seasons || []).filter(
+    (season) => new Date(season.endDate) >= new Date()
+  );
+
+  // Until a season is picked, default to the current one while it is still open
+  const defaultSeason =
+    openSeasons.find((season) => season.id === seasonsData?.currentSeasonId) || openSeasons[0];
+  const selectedSeasonId = seasonId || defaultSeason?.id.toString() || "";
+
+  const renewMutation = useMutation({
+    mutationFn: (): Promise<RenewalResult> =>
+      post("/registrations/renew", {
+        seasonId: Number(selectedSeasonId),
+        playerIds: players.map((player) => player.id),
+        status: isClubAdmin ? undefined : status,
+      }),
+    onSuccess: (result) => {
+      const parts = [`${result.created} registered`];
+      if (result.activated > 0) parts.push(`${result.activated} approved`);
+      if (result.unchanged > 0) parts.push(`${result.unchanged} already registered`);
+      toast.success(`${result.season.seasonName}: ${parts.join(", ")}`);
+      queryClient.invalidateQueries({ queryKey: ["players"] });
+      queryClient.invalidateQueries({ queryKey: ["registrations"] });
+      onRenewed?.();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      const firstError = error?.errors && Object.values(error.errors)[0];
+      toast.error((firstError as any)?.message || error.message || "Failed to renew registrations");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Renew Registrations</DialogTitle>
+          <DialogDescription>
+            Register {players.length} selected player{players.length === 1 ? "" : "s"} for a season.
+            Players already registered for it are left as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Season</Label>
+            {isLoadingSeasons ? (
+              <LoaderCircle className="h-4 w-4 animate-spin" />
+            ) : openSeasons.length === 0 ? (
+              <p className="text-sm text-muted-foreground">There is no open season to register for.</p>
+            ) : (
+              <Select value={selectedSeasonId} onValueChange={setSeasonId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a season" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openSeasons.map((season) => (
+                    <SelectItem key={season.id} value={season.id.toString()}>
+                      {season.seasonName} (fee {Number(season.registrationFee).toFixed(2)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {isClubAdmin ? (
+            <p className="text-sm text-muted-foreground">
+              Renewals are confirmed by the association once the registration fee is received.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as "pending" | "active")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active (fee received)</SelectItem>
+                  <SelectItem value="pending">Pending approval</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="max-h-40 overflow-y-auto rounded-md border p-2 text-sm">
+            {players.map((player) => (
+              <div key={player.id}>
+                {player.firstName} {player.lastName}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={renewMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => renewMutation.mutate()}
+            disabled={!selectedSeasonId || players.length === 0 || renewMutation.isPending}
+          >
+            {renewMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            Renew
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RenewRegistrationsDialog;
@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle, Ban, CheckCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { get, post, patch } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+
+// Interfaces
+export interface PlayerSuspension {
+  id: number;
+  reason: string;
+  issuedBy: string;
+  startDate: string;
+  endDate?: string | null;
+  liftedAt?: string | null;
+  liftReason?: string | null;
+  recordedBy?: { id: number; name: string } | null;
+  liftedBy?: { id: number; name: string } | null;
+}
+
+export interface SuspensionPlayer {
+  id: number;
+  firstName: string;
+  lastName: string;
+  isSuspended: boolean;
+}
+
+interface SuspensionDialogProps {
+  player: SuspensionPlayer | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Create schema for the suspension form
+const suspensionFormSchema = z
+  .object({
+    reason: z.string()
+      .min(1, "Reason is required")
+      .max(500, "Reason must not exceed 500 characters"),
+    issuedBy: z.string()
+      .min(1, "Issuing official is required")
+      .max(255, "Issuing official must not exceed 255 characters"),
+    startDate: z.string().min(1, "Start date is required"),
+    endDate: z.string().optional(),
+  })
+  .refine((data) => !data.endDate || data.endDate > data.startDate, {
+    message: "End date must be after the start date",
+    path: ["endDate"],
+  });
+
+type SuspensionFormInputs = z.infer<typeof suspensionFormSchema>;
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString() : "";
+
+// A suspension is in force until it is lifted or its end date passes
+const isInForce = (suspension: PlayerSuspension) =>
+  !suspension.liftedAt &&
+  new Date(suspension.startDate) <= new Date() &&
+  (!suspension.endDate || new Date(suspension.endDate) > new Date());
+
+const SuspensionDialog = ({ player, open, onOpenChange }: SuspensionDialogProps) => {
+  const queryClient = useQueryClient();
+  const [liftReason, setLiftReason] = useState("");
+
+  const form = useForm<SuspensionFormInputs>({
+    resolver: zodResolver(suspensionFormSchema),
+    defaultValues: {
+      reason: "",
+      issuedBy: "",
+      startDate: new Date().toISOString().split("T")[0],
+      endDate: "",
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset();
+      setLiftReason("");
+    }
+  }, [open, player?.id, form]);
+
+  // Fetch the player's suspension history
+  const { data, isLoading } = useQuery({
+    queryKey: ["player", player?.id, "suspensions"],
+    queryFn: (): Promise<{ suspensions: PlayerSuspension[] }> =>
+      get(`/players/${player?.id}/suspensions`),
+    enabled: open && !!player,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["players"] });
+    queryClient.invalidateQueries({ queryKey: ["player", player?.id] });
+  };
+
+  const suspendMutation = useMutation({
+    mutationFn: (values: SuspensionFormInputs) =>
+      post(`/players/${player?.id}/suspensions`, {
+        ...values,
+        endDate: values.endDate || null,
+      }),
+    onSuccess: () => {
+      toast.success("Suspension recorded");
+      refresh();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(error.errors?.message || error.message || "Failed to record suspension");
+    },
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: (suspensionId: number) =>
+      patch(`/players/${player?.id}/suspensions/${suspensionId}/lift`, {
+        reason: liftReason.trim() || undefined,
+      }),
+    onSuccess: () => {
+      toast.success("Suspension lifted");
+      refresh();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to lift suspension");
+    },
+  });
+
+  if (!player) {
+    return null;
+  }
+
+  const suspensions = data?.suspensions || [];
+  const current = suspensions.find(isInForce);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suspensions</DialogTitle>
+          <DialogDescription>
+            {player.firstName} {player.lastName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <LoaderCircle className="h-6 w-6 animate-spin" />
+          </div>
+        ) : current ? (
+          /* Suspension in force */
+          <div className="space-y-3 border border-red-200 bg-red-50 rounded-md p-4">
+            <div className="font-medium text-red-700">
+              Suspended {current.endDate ? `until ${formatDate(current.endDate)}` : "indefinitely"}
+            </div>
+            <div className="text-sm">{current.reason}</div>
+            <div className="text-xs text-muted-foreground">
+              Issued by {current.issuedBy} &middot; from {formatDate(current.startDate)}
+            </div>
+            <Textarea
+              placeholder="Reason for lifting (optional)"
+              value={liftReason}
+              onChange={(e) => setLiftReason(e.target.value)}
+              rows={2}
+              maxLength={500}
+              disabled={liftMutation.isPending}
+            />
+            <div className="flex justify-end">
+              <Button
+                className="bg-green-600 hover:bg-green-700"
+                onClick={() => liftMutation.mutate(current.id)}
+                disabled={liftMutation.isPending}
+              >
+                {liftMutation.isPending ? (
+                  <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                )}
+                Lift Suspension
+              </Button>
+            </div>
+          </div>
+        ) : (
+          /* New suspension */
+          <Form {...form}>
+            {player.isSuspended && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+                This player was suspended before suspension periods were recorded. Record the
+                suspension below so it can be tracked and lifted.
+              </p>
+            )}
+            <form
+              onSubmit={form.handleSubmit((values) => suspendMutation.mutate(values))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason <span className="text-red-500">*</span></FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Enter reason" {...field} rows={3} disabled={suspendMutation.isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="issuedBy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Issuing Official <span className="text-red-500">*</span></FormLabel>
+                    <FormControl>
+                      <Input placeholder="Name of the issuing official" {...field} disabled={suspendMutation.isPending} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date <span className="text-red-500">*</span></FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} disabled={suspendMutation.isPending} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} disabled={suspendMutation.isPending} />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">Leave empty for an indefinite suspension</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                  disabled={suspendMutation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" variant="destructive" disabled={suspendMutation.isPending}>
+                  {suspendMutation.isPending ? (
+                    <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Ban className="mr-2 h-4 w-4" />
+                  )}
+                  Suspend Player
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+
+        {/* History */}
+        {suspensions.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">History</div>
+            <ul className="space-y-2 text-sm">
+              {suspensions.map((suspension) => (
+                <li key={suspension.id} className="border rounded-md p-2">
+                  <div className="flex items-center justify-between">
+                    <span>
+                      {formatDate(suspension.startDate)} &ndash;{" "}
+                      {suspension.endDate ? formatDate(suspension.endDate) : "Indefinite"}
+                    </span>
+                    {isInForce(suspension) ? (
+                      <Badge variant="destructive">In force</Badge>
+                    ) : suspension.liftedAt ? (
+                      <Badge variant="outline">Lifted {formatDate(suspension.liftedAt)}</Badge>
+                    ) : (
+                      <Badge variant="outline">Scheduled</Badge>
+                    )}
+                  </div>
+                  <div>{suspension.reason}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Issued by {suspension.issuedBy}
+                    {suspension.recordedBy && ` · recorded by ${suspension.recordedBy.name}`}
+                    {suspension.liftReason && ` · ${suspension.liftReason}`}
+                    {suspension.liftedBy && ` (${suspension.liftedBy.name})`}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SuspensionDialog;
@@ -0,0 +1,38 @@
+import { toast } from "sonner";
+import { get } from "@/services/apiService";
+
+/**
+ * Fetch a player's Aadhar document. It is not served from /uploads, so it is
+ * loaded through the API with the signed-in user's token.
+ */
+export const fetchAadharDocument = async (playerId: number): Promise<Blob> => {
+  const response = await get(`/players/${playerId}/aadhar-image`, null, { responseType: "blob" });
+  return response.data;
+};
+
+/**
+ * Open a player's Aadhar document in a new tab. The tab is opened before the
+ * download so the browser does not block it as a popup.
+ */
+export const openAadharDocument = async (playerId: number) => {
+  const tab = window.open("", "_blank");
+  try {
+    const url = URL.createObjectURL(await fetchAadharDocument(playerId));
+    if (tab) {
+      tab.location.href = url;
+    }
+    // The tab has loaded the document by then; free the copy held in memory
+    setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+  } catch (error: any) {
+    tab?.close();
+    let message = "Failed to open the Aadhar document";
+    if (error.data instanceof Blob) {
+      try {
+        message = JSON.parse(await error.data.text()).errors?.message || message;
+      } catch {
+        // Not a JSON error body; keep the generic message
+      }
+    }
+    toast.error(message);
+  }
+};
@@ -0,0 +1,31 @@
+import { toast } from "sonner";
+import { saveAs } from "file-saver";
+import { get } from "@/services/apiService";
+
+/**
+ * Download an ID card PDF. Errors come back as a blob because of the
+ * response type, so the message is read out of it for the toast.
+ * Returns true when the file was saved.
+ */
+export const downloadIdCards = async (
+  url: string,
+  params: Record<string, string | undefined> | null,
+  filename: string
+) => {
+  try {
+    const response = await get(url, params, { responseType: "blob" });
+    saveAs(new Blob([response.data], { type: "application/pdf" }), filename);
+    return true;
+  } catch (error: any) {
+    let message = "Failed to generate ID cards";
+    if (error.data instanceof Blob) {
+      try {
+        message = JSON.parse(await error.data.text()).errors?.message || message;
+      } catch {
+        // Not a JSON error body; keep the generic message
+      }
+    }
+    toast.error(message);
+    return false;
+  }
+};
@@ -1,4 +1,5 @@
 export { default as PlayerList } from './PlayerList';
 export { default as CreatePlayer } from './CreatePlayer';
 export { default as EditPlayer } from './EditPlayer';
-export { default as PlayerForm } from './PlayerForm';
\ No newline at end of file
+export { default as PlayerForm } from './PlayerForm';
+export { default as PlayerDetail } from './PlayerDetail';
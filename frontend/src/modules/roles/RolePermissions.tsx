@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle, Save, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { get, put } from "@/services/apiService";
+
+// Interfaces
+interface PermissionItem {
+  key: string;
+  description: string;
+}
+
+interface PermissionMatrixResponse {
+  roles: string[];
+  lockedRoles: string[];
+  permissions: PermissionItem[];
+  matrix: Record<string, string[]>;
+}
+
+// Helper to format role names for display
+const formatRoleName = (role: string) =>
+  role.charAt(0).toUpperCase() + role.slice(1);
+
+// Permission keys are "<module>.<action>"; rows are grouped by module
+const groupByModule = (permissions: PermissionItem[]) => {
+  const groups: Record<string, PermissionItem[]> = {};
+  permissions.forEach((permission) => {
+    const module = permission.key.split(".")[0];
+    if (!groups[module]) {
+      groups[module] = [];
+    }
+    groups[module].push(permission);
+  });
+  return groups;
+};
+
+const RolePermissions = () => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Record<string, string[]>>({});
+
+  // Fetch the permission catalog and current matrix
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["role-permissions"],
+    queryFn: (): Promise<PermissionMatrixResponse> => get("/roles/permissions"),
+  });
+
+  useEffect(() => {
+    if (data) {
+      setDraft(data.matrix);
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (role: string) =>
+      put(`/roles/${role}/permissions`, { permissions: draft[role] || [] }),
+    onSuccess: (_, role) => {
+      toast.success(`Permissions for ${formatRoleName(role)} saved`);
+      queryClient.invalidateQueries({ queryKey: ["role-permissions"] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to save permissions");
+    },
+  });
+
+  const togglePermission = (role: string, key: string, checked: boolean) => {
+    setDraft((prev) => {
+      const current = prev[role] || [];
+      return {
+        ...prev,
+        [role]: checked ? [...current, key] : current.filter((item) => item !== key),
+      };
+    });
+  };
+
+  const isDirty = (role: string) => {
+    const saved = data?.matrix[role] || [];
+    const current = draft[role] || [];
+    return saved.length !== current.length || saved.some((key) => !current.includes(key));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <LoaderCircle className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Loading permissions...</span>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Permissions</h2>
+        <p>Failed to load the permission matrix</p>
+      </div>
+    );
+  }
+
+  const modules = groupByModule(data.permissions);
+
+  return (
+    <div className="mt-2 p-6">
+      <h1 className="text-2xl font-bold mb-6">Roles &amp; Permissions</h1>
+      <Card className="mx-auto mt-6 sm:mt-10">
+        <CardHeader>
+          <CardDescription>
+            Choose what each role can do. Administrators always hold every permission.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  {data.roles.map((role) => (
+                    <TableHead key={role} className="text-center">
+                      <div className="flex flex-col items-center gap-2">
+                        <span className="flex items-center gap-1">
+                          {data.lockedRoles.includes(role) && <Lock className="h-3 w-3" />}
+                          {formatRoleName(role)}
+                        </span>
+                        {!data.lockedRoles.includes(role) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => saveMutation.mutate(role)}
+                            disabled={!isDirty(role) || saveMutation.isPending}
+                          >
+                            {saveMutation.isPending && saveMutation.variables === role ? (
+                              <LoaderCircle className="mr-1 h-3 w-3 animate-spin" />
+                            ) : (
+                              <Save className="mr-1 h-3 w-3" />
+                            )}
+                            Save
+                          </Button>
+                        )}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(modules).map(([module, items]) => (
+                  <React.Fragment key={module}>
+                    <TableRow className="bg-muted/50">
+                      <TableCell
+                        colSpan={data.roles.length + 1}
+                        className="font-semibold capitalize"
+                      >
+                        {module}
+                      </TableCell>
+                    </TableRow>
+                    {items.map((permission) => (
+                      <TableRow key={permission.key}>
+                        <TableCell>
+                          <div>{permission.description}</div>
+                          <div className="text-xs text-muted-foreground">{permission.key}</div>
+                        </TableCell>
+                        {data.roles.map((role) => {
+                          const locked = data.lockedRoles.includes(role);
+                          return (
+                            <TableCell key={role} className="text-center">
+                              <Checkbox
+                                checked={locked || (draft[role] || []).includes(permission.key)}
+                                disabled={locked || saveMutation.isPending}
+                                onCheckedChange={(checked) =>
+                                  togglePermission(role, permission.key, checked === true)
+                                }
+                              />
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RolePermissions;
@@ -0,0 +1,18 @@
+import SeasonForm from "./SeasonForm";
+
+interface CreateSeasonProps {
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const CreateSeason = ({ onSuccess, className }: CreateSeasonProps) => {
+  return (
+    <SeasonForm 
+      mode="create" 
+      onSuccess={onSuccess}
+      className={className}
+    />
+  );
+};
+
+export default CreateSeason;
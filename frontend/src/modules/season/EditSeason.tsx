@@ -0,0 +1,20 @@
+import SeasonForm from "./SeasonForm";
+
+interface EditSeasonProps {
+  seasonId: string;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const EditSeason = ({ seasonId, onSuccess, className }: EditSeasonProps) => {
+  return (
+    <SeasonForm 
+      mode="edit" 
+      seasonId={seasonId}
+      onSuccess={onSuccess}
+      className={className}
+    />
+  );
+};
+
+export default EditSeason;
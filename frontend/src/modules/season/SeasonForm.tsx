@@ -0,0 +1,262 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle } from "lucide-react";
+import { endOfDay, startOfDay } from "date-fns";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+
+// Services and utilities
+import { post, put, get } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import { Season } from "./types";
+
+const seasonFormSchema = z.object({
+  seasonName: z.string()
+    .min(1, "Season name is required")
+    .max(255, "Season name must not exceed 255 characters"),
+  startDate: z.date({ required_error: "Start date is required" }),
+  endDate: z.date({ required_error: "End date is required" }),
+  registrationFee: z.number({ invalid_type_error: "Registration fee must be a number" })
+    .min(0, "Registration fee cannot be negative"),
+}).refine((data) => data.endDate > data.startDate, {
+  message: "End date must be after the start date",
+  path: ["endDate"],
+});
+
+type SeasonFormValues = z.infer<typeof seasonFormSchema>;
+
+const dateFormat: [["days", "months", "years"], []] = [["days", "months", "years"], []];
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+interface SeasonFormProps {
+  mode: "create" | "edit";
+  seasonId?: string;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const SeasonForm = ({
+  mode,
+  seasonId,
+  onSuccess,
+  className,
+}: SeasonFormProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Initialize form with Shadcn Form
+  const form = useForm<SeasonFormValues>({
+    resolver: zodResolver(seasonFormSchema),
+    defaultValues: {
+      seasonName: "",
+      registrationFee: 0,
+    },
+  });
+
+  // Query for fetching season data in edit mode
+  const { data: seasonData, isLoading: isFetchingSeason, error: fetchError } = useQuery({
+    queryKey: ["season", seasonId],
+    queryFn: async (): Promise<Season> => {
+      if (!seasonId) throw new Error("Season ID is required");
+      return get(`/seasons/${seasonId}`);
+    },
+    enabled: mode === "edit" && !!seasonId,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  // Handle successful season fetch
+  useEffect(() => {
+    if (seasonData && mode === "edit") {
+      form.reset({
+        seasonName: seasonData.seasonName,
+        startDate: new Date(seasonData.startDate),
+        endDate: new Date(seasonData.endDate),
+        registrationFee: Number(seasonData.registrationFee),
+      });
+    }
+  }, [seasonData, mode, form]);
+
+  // Handle fetch error
+  useEffect(() => {
+    if (fetchError && mode === "edit") {
+      toast.error(fetchError.message || "Failed to fetch season details");
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/seasons");
+      }
+    }
+  }, [fetchError, mode, onSuccess, navigate]);
+
+  const handleError = (error: any, fallback: string) => {
+    Validate(error, form.setError);
+    toast.error(extractErrorMessage(error) || fallback);
+  };
+
+  const handleSaved = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ["seasons"] });
+    queryClient.invalidateQueries({ queryKey: ["season", seasonId] });
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      navigate("/seasons");
+    }
+  };
+
+  // Mutation for creating a season
+  const createSeasonMutation = useMutation({
+    mutationFn: (data: SeasonFormValues) => post("/seasons", data),
+    onSuccess: () => handleSaved("Season created successfully"),
+    onError: (error: any) => handleError(error, "Failed to create season"),
+  });
+
+  // Mutation for updating a season
+  const updateSeasonMutation = useMutation({
+    mutationFn: (data: SeasonFormValues) => put(`/seasons/${seasonId}`, data),
+    onSuccess: () => handleSaved("Season updated successfully"),
+    onError: (error: any) => handleError(error, "Failed to update season"),
+  });
+
+  // Handle form submission
+  const onSubmit = (data: SeasonFormValues) => {
+    // A season covers its first and last days in full
+    const payload = { ...data, startDate: startOfDay(data.startDate), endDate: endOfDay(data.endDate) };
+    if (mode === "create") {
+      createSeasonMutation.mutate(payload);
+    } else {
+      updateSeasonMutation.mutate(payload);
+    }
+  };
+
+  const handleCancel = () => {
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      navigate("/seasons");
+    }
+  };
+
+  // Combined loading season from fetch and mutations
+  const isFormLoading = isFetchingSeason || createSeasonMutation.isPending || updateSeasonMutation.isPending;
+
+  return (
+    <div className={className}>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-7">
+          <FormField
+            control={form.control}
+            name="seasonName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Season Name <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. 2025-26" {...field} disabled={isFormLoading} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Start and End Date Fields in a grid */}
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start Date <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <DatetimePicker value={field.value} onChange={field.onChange} format={dateFormat} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="endDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>End Date <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <DatetimePicker value={field.value} onChange={field.onChange} format={dateFormat} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="registrationFee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Registration Fee</FormLabel>
+                <FormControl>
+                  <Input
+                    {...field}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    disabled={isFormLoading}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormDescription>Charged for each player registered for the season</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Form Actions */}
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isFormLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isFormLoading}>
+              {isFormLoading && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === "create" ? "Create" : "Update"} Season
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default SeasonForm;
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  LoaderCircle,
+  PenSquare,
+  Trash2,
+  PlusCircle,
+  Star,
+  CopyPlus,
+} from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { get, del, patch } from "@/services/apiService";
+// Import components from current directory
+import CreateSeason from "./CreateSeason";
+import EditSeason from "./EditSeason";
+import SeasonRollover from "./SeasonRollover";
+import { Season, SeasonsResponse } from "./types";
+
+const SeasonList = () => {
+  const [editSeasonId, setEditSeasonId] = useState<string | null>(null);
+  const [rolloverSeason, setRolloverSeason] = useState<Season | null>(null);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch seasons
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["seasons"],
+    queryFn: (): Promise<SeasonsResponse> => get("/seasons"),
+  });
+
+  // Make a season the current one
+  const currentMutation = useMutation({
+    mutationFn: (id: number) => patch(`/seasons/${id}/current`, {}),
+    onSuccess: () => {
+      toast.success("Current season updated");
+      queryClient.invalidateQueries({ queryKey: ["seasons"] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to update the current season");
+    },
+  });
+
+  // Delete season mutation
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => del(`/seasons/${id}`),
+    onSuccess: () => {
+      toast.success("Season deleted successfully");
+      queryClient.invalidateQueries({ queryKey: ["seasons"] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to delete season");
+    },
+  });
+
+  // Handle error season
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Seasons</h2>
+        <p>{(error as any)?.message || "Failed to load seasons"}</p>
+        <Button className="mt-4" onClick={() => queryClient.invalidateQueries({ queryKey: ["seasons"] })}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Seasons
+          <CardDescription>
+            Competitions, groups and player registrations belong to a season
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {/* Toolbar */}
+          <div className="flex justify-end mb-4">
+            <Button onClick={() => setIsCreateDialogOpen(true)} size="sm">
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+
+          {/* Seasons Table */}
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead>Season</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Groups</TableHead>
+                  <TableHead>Competitions</TableHead>
+                  <TableHead>Registrations</TableHead>
+                  <TableHead>Fee</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                      <p className="mt-2">Loading seasons...</p>
+                    </TableCell>
+                  </TableRow>
+                ) : data?.seasons.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      No seasons found.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.seasons.map((season) => (
+                    <TableRow key={season.id}>
+                      <TableCell>
+                        {season.seasonName}
+                        {season.id === data.currentSeasonId && (
+                          <Badge className="ml-2" variant="default">Current</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {format(new Date(season.startDate), "d MMM yyyy")} – {format(new Date(season.endDate), "d MMM yyyy")}
+                      </TableCell>
+                      <TableCell>{season._count.groups}</TableCell>
+                      <TableCell>{season._count.competitions}</TableCell>
+                      <TableCell>{season._count.registrations}</TableCell>
+                      <TableCell>{Number(season.registrationFee).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {!season.isCurrent && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Make current"
+                              onClick={() => currentMutation.mutate(season.id)}
+                              disabled={currentMutation.isPending}
+                            >
+                              <Star className="h-4 w-4" />
+                              <span className="sr-only">Make current</span>
+                            </Button>
+                          )}
+
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Roll over to new season"
+                            onClick={() => setRolloverSeason(season)}
+                          >
+                            <CopyPlus className="h-4 w-4" />
+                            <span className="sr-only">Roll over to new season</span>
+                          </Button>
+
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setEditSeasonId(season.id.toString())}
+                          >
+                            <PenSquare className="h-4 w-4" />
+                            <span className="sr-only">Edit</span>
+                          </Button>
+
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Delete</span>
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Confirm Deletion</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Are you sure you want to delete this season? Only seasons without groups,
+                                  competitions or player registrations can be deleted.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteMutation.mutate(season.id)}
+                                  className="bg-red-500 hover:bg-red-600"
+                                >
+                                  {deleteMutation.isPending ? (
+                                    <>
+                                      <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
+                                      Deleting...
+                                    </>
+                                  ) : (
+                                    "Delete"
+                                  )}
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create Season Dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Add New Season</DialogTitle>
+          </DialogHeader>
+          <CreateSeason onSuccess={() => setIsCreateDialogOpen(false)} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Season Dialog */}
+      {editSeasonId && (
+        <Dialog open onOpenChange={(open) => !open && setEditSeasonId(null)}>
+          <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Edit Season</DialogTitle>
+            </DialogHeader>
+            <EditSeason seasonId={editSeasonId} onSuccess={() => setEditSeasonId(null)} />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Roll Over Dialog */}
+      {rolloverSeason && (
+        <Dialog open onOpenChange={(open) => !open && setRolloverSeason(null)}>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Roll Over {rolloverSeason.seasonName}</DialogTitle>
+            </DialogHeader>
+            <SeasonRollover season={rolloverSeason} onClose={() => setRolloverSeason(null)} />
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default SeasonList;
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { addYears, endOfDay, startOfDay } from "date-fns";
+import { LoaderCircle } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+
+// Services and utilities
+import { post } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+import { RolloverResult, Season } from "./types";
+
+const rolloverFormSchema = z.object({
+  seasonName: z.string()
+    .min(1, "Season name is required")
+    .max(255, "Season name must not exceed 255 characters"),
+  startDate: z.date({ required_error: "Start date is required" }),
+  endDate: z.date({ required_error: "End date is required" }),
+  makeCurrent: z.boolean(),
+}).refine((data) => data.endDate > data.startDate, {
+  message: "End date must be after the start date",
+  path: ["endDate"],
+});
+
+type RolloverFormValues = z.infer<typeof rolloverFormSchema>;
+
+const dateFormat: [["days", "months", "years"], []] = [["days", "months", "years"], []];
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+interface SeasonRolloverProps {
+  season: Season;
+  onClose: () => void;
+}
+
+// Starts the next season from this one, then shows who was carried over
+const SeasonRollover = ({ season, onClose }: SeasonRolloverProps) => {
+  const queryClient = useQueryClient();
+  const [result, setResult] = useState<RolloverResult | null>(null);
+
+  const form = useForm<RolloverFormValues>({
+    resolver: zodResolver(rolloverFormSchema),
+    defaultValues: {
+      seasonName: "",
+      startDate: addYears(new Date(season.startDate), 1),
+      endDate: addYears(new Date(season.endDate), 1),
+      makeCurrent: true,
+    },
+  });
+
+  const rolloverMutation = useMutation({
+    mutationFn: (data: RolloverFormValues): Promise<RolloverResult> =>
+      post(`/seasons/${season.id}/rollover`, data),
+    onSuccess: (data) => {
+      toast.success(`Season ${data.season.seasonName} created`);
+      // New groups, and possibly a new current season, change every list
+      queryClient.invalidateQueries();
+      setResult(data);
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(extractErrorMessage(error) || "Failed to roll over the season");
+    },
+  });
+
+  const onSubmit = (data: RolloverFormValues) => {
+    rolloverMutation.mutate({
+      ...data,
+      startDate: startOfDay(data.startDate),
+      endDate: endOfDay(data.endDate),
+    });
+  };
+
+  if (result) {
+    const carried = result.groups.reduce((total, group) => total + group.carried.length, 0);
+    const dropped = result.groups.reduce((total, group) => total + group.dropped.length, 0);
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {result.groups.length} groups cloned into {result.season.seasonName}. {carried} player
+          registrations carried over, {dropped} no longer eligible.
+        </p>
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-3">
+          {result.groups.map((group) => (
+            <div key={group.id} className="rounded-md border p-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{group.groupName}</span>
+                <div className="flex gap-2">
+                  <Badge variant="default">{group.carried.length} carried</Badge>
+                  {group.dropped.length > 0 && (
+                    <Badge variant="destructive">{group.dropped.length} dropped</Badge>
+                  )}
+                </div>
+              </div>
+              {group.dropped.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {group.dropped.map((player) => (
+                    <li key={player.id}>
+                      {player.name}
+                      <span className="text-muted-foreground"> — {player.reasons?.join(", ")}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isFormLoading = rolloverMutation.isPending;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-7">
+        <p className="text-sm text-muted-foreground">
+          Every group of {season.seasonName} is copied into the new season with its age cut-off
+          moved forward. Players are carried over only if they are still eligible for the group.
+        </p>
+
+        <FormField
+          control={form.control}
+          name="seasonName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Season Name <span className="text-red-500">*</span></FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. 2026-27" {...field} disabled={isFormLoading} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Start and End Date Fields in a grid */}
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Date <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <DatetimePicker value={field.value} onChange={field.onChange} format={dateFormat} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End Date <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <DatetimePicker value={field.value} onChange={field.onChange} format={dateFormat} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="makeCurrent"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                  disabled={isFormLoading}
+                />
+              </FormControl>
+              <FormLabel>Make it the current season</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        {/* Form Actions */}
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isFormLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isFormLoading}>
+            {isFormLoading && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+            Roll Over
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+export default SeasonRollover;
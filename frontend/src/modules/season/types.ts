@@ -0,0 +1,34 @@
+export interface Season {
+  id: number;
+  seasonName: string;
+  startDate: string;
+  endDate: string;
+  isCurrent: boolean;
+  // Prisma serialises decimals as strings
+  registrationFee: string;
+  _count: { groups: number; competitions: number; registrations: number };
+}
+
+export interface SeasonsResponse {
+  seasons: Season[];
+  currentSeasonId: number | null;
+}
+
+export interface RolloverPlayer {
+  id: number;
+  name: string;
+  reasons?: string[];
+}
+
+export interface RolloverResult {
+  season: Season;
+  groups: {
+    id: number;
+    groupName: string;
+    carried: RolloverPlayer[];
+    dropped: RolloverPlayer[];
+  }[];
+}
+
+// localStorage key of the season picked in the navbar switcher; "all" means every season
+export const SEASON_STORAGE_KEY = "seasonId";
@@ -0,0 +1,194 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { get, post } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+
+const requestTransferSchema = z.object({
+  uniqueIdNumber: z.string().trim().min(1, "Player ID is required"),
+  toClubId: z.string().optional(),
+  reason: z.string().max(500, "Reason must not exceed 500 characters").optional(),
+});
+
+type RequestTransferValues = z.infer<typeof requestTransferSchema>;
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+interface RequestTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isClubAdmin: boolean;
+}
+
+const RequestTransferDialog = ({ open, onOpenChange, isClubAdmin }: RequestTransferDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<RequestTransferValues>({
+    resolver: zodResolver(requestTransferSchema),
+    defaultValues: { uniqueIdNumber: "", toClubId: "", reason: "" },
+  });
+
+  useEffect(() => {
+    if (!open) {
+      form.reset();
+    }
+  }, [open, form]);
+
+  // Administrators pick the destination club; clubs always request for themselves
+  const { data: clubsData, isLoading: isLoadingClubs } = useQuery({
+    queryKey: ["clubs", "all"],
+    queryFn: async (): Promise<{ id: number; clubName: string }[]> => {
+      const response = await get("/clubs", { limit: 1000, sortBy: "clubName" });
+      return response.clubs || response;
+    },
+    enabled: open && !isClubAdmin,
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: (data: RequestTransferValues) =>
+      post("/transfers", {
+        uniqueIdNumber: data.uniqueIdNumber,
+        toClubId: isClubAdmin || !data.toClubId ? undefined : Number(data.toClubId),
+        reason: data.reason || null,
+      }),
+    onSuccess: () => {
+      toast.success("Transfer requested");
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      Validate(error, form.setError);
+      toast.error(extractErrorMessage(error) || "Failed to request transfer");
+    },
+  });
+
+  const onSubmit = (data: RequestTransferValues) => {
+    if (!isClubAdmin && !data.toClubId) {
+      form.setError("toClubId", { type: "manual", message: "Club is required" });
+      return;
+    }
+    requestMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Request Transfer</DialogTitle>
+          <DialogDescription>
+            The player's current club is asked for a No-Objection Certificate before the association decides.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="uniqueIdNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Player ID <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input placeholder="Unique player ID" {...field} disabled={requestMutation.isPending} />
+                  </FormControl>
+                  <FormDescription>As printed on the player's ID card</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {!isClubAdmin && (
+              <FormField
+                control={form.control}
+                name="toClubId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Destination Club <span className="text-red-500">*</span></FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={requestMutation.isPending}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder={isLoadingClubs ? "Loading clubs..." : "Select club"} />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {clubsData?.map((club) => (
+                          <SelectItem key={club.id} value={club.id.toString()}>
+                            {club.clubName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Why the player is moving" {...field} disabled={requestMutation.isPending} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={requestMutation.isPending}>
+                {requestMutation.isPending && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+                Request Transfer
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestTransferDialog;
@@ -0,0 +1,454 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Check, LoaderCircle, PlusCircle, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Card, CardContent, CardDescription, CardHeader } from "@/components/ui/card";
+import CustomPagination from "@/components/common/custom-pagination";
+import { get, patch } from "@/services/apiService";
+import RequestTransferDialog from "./RequestTransferDialog";
+import {
+  OPEN_TRANSFER_STATUSES,
+  PlayerTransfer,
+  TRANSFER_STATUS_LABELS,
+  TRANSFER_STATUSES,
+  TransferStatus,
+  TransfersResponse,
+} from "./types";
+
+const STATUS_BADGE_CLASSES: Record<TransferStatus, string> = {
+  requested: "bg-amber-50 border-amber-200 text-amber-700",
+  noc_issued: "bg-blue-50 border-blue-200 text-blue-700",
+  noc_denied: "bg-red-50 border-red-200 text-red-700",
+  approved: "bg-green-50 border-green-200 text-green-700",
+  rejected: "bg-red-50 border-red-200 text-red-700",
+  cancelled: "text-muted-foreground",
+};
+
+// Badge for the stage a transfer has reached
+export const TransferStatusBadge = ({ status }: { status: TransferStatus }) => (
+  <Badge variant="outline" className={STATUS_BADGE_CLASSES[status]}>
+    {TRANSFER_STATUS_LABELS[status] || status}
+  </Badge>
+);
+
+// A denied NOC and a rejected transfer both need a reason
+interface RemarksAction {
+  transfer: PlayerTransfer;
+  kind: "noc" | "decision";
+}
+
+const TransferList = () => {
+  const [tab, setTab] = useState("pending");
+  const [status, setStatus] = useState("all");
+  const [page, setPage] = useState(1);
+  const [limit, setLimit] = useState(10);
+  const [isRequestDialogOpen, setIsRequestDialogOpen] = useState(false);
+  const [remarksAction, setRemarksAction] = useState<RemarksAction | null>(null);
+  const [remarks, setRemarks] = useState("");
+  const queryClient = useQueryClient();
+
+  const storedUser = localStorage.getItem("user");
+  const user = storedUser ? JSON.parse(storedUser) : null;
+  const isAdmin = user?.role === "admin";
+  const clubId: number | null = user?.clubId ?? null;
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["transfers", tab, status, page, limit],
+    queryFn: (): Promise<TransfersResponse> =>
+      get("/transfers", {
+        page,
+        limit,
+        pending: tab === "pending" ? true : undefined,
+        status: tab === "all" && status !== "all" ? status : undefined,
+      }),
+  });
+
+  const handleSuccess = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ["transfers"] });
+    setRemarksAction(null);
+    setRemarks("");
+  };
+
+  const nocMutation = useMutation({
+    mutationFn: ({ id, decision, remarks }: { id: number; decision: "issued" | "denied"; remarks?: string }) =>
+      patch(`/transfers/${id}/noc`, { decision, remarks }),
+    onSuccess: (_data, variables) =>
+      handleSuccess(variables.decision === "issued" ? "NOC issued" : "NOC denied"),
+    onError: (error: any) => {
+      toast.error(error.errors?.remarks?.message || error.errors?.message || error.message || "Failed to record NOC");
+    },
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: ({ id, status, remarks }: { id: number; status: "approved" | "rejected"; remarks?: string }) =>
+      patch(`/transfers/${id}/decision`, { status, remarks }),
+    onSuccess: (_data, variables) => {
+      handleSuccess(variables.status === "approved" ? "Transfer approved" : "Transfer rejected");
+      // The player now belongs to the new club
+      queryClient.invalidateQueries({ queryKey: ["players"] });
+      queryClient.invalidateQueries({ queryKey: ["player"] });
+    },
+    onError: (error: any) => {
+      toast.error(error.errors?.remarks?.message || error.errors?.message || error.message || "Failed to decide transfer");
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: number) => patch(`/transfers/${id}/cancel`, {}),
+    onSuccess: () => handleSuccess("Transfer request withdrawn"),
+    onError: (error: any) => {
+      toast.error(error.errors?.message || error.message || "Failed to withdraw transfer");
+    },
+  });
+
+  const canDecideNoc = (transfer: PlayerTransfer) =>
+    transfer.status === "requested" && (isAdmin || transfer.fromClubId === clubId);
+  const canDecideTransfer = (transfer: PlayerTransfer) => transfer.status === "noc_issued" && isAdmin;
+  const canCancel = (transfer: PlayerTransfer) =>
+    OPEN_TRANSFER_STATUSES.includes(transfer.status) && (isAdmin || transfer.toClubId === clubId);
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage > 0 && (!data || newPage <= data.totalPages)) {
+      setPage(newPage);
+    }
+  };
+
+  const handleRecordsPerPageChange = (newLimit: number) => {
+    setLimit(newLimit);
+    setPage(1);
+  };
+
+  const submitRemarks = () => {
+    if (!remarksAction) return;
+    if (remarksAction.kind === "noc") {
+      nocMutation.mutate({ id: remarksAction.transfer.id, decision: "denied", remarks });
+    } else {
+      decisionMutation.mutate({ id: remarksAction.transfer.id, status: "rejected", remarks });
+    }
+  };
+
+  if (isError) {
+    return (
+      <div className="flex flex-col items-center justify-center h-96">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">Error Loading Transfers</h2>
+        <p>{(error as any)?.errors?.message || (error as any)?.message || "Failed to load transfers"}</p>
+        <Button className="mt-4" onClick={() => queryClient.invalidateQueries({ queryKey: ["transfers"] })}>
+          Try Again
+        </Button>
+      </div>
+    );
+  }
+
+  const isDeciding = nocMutation.isPending || decisionMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <div className="space-y-4 p-6">
+      <Card className="border border-border">
+        <CardHeader className="text-xl font-bold">
+          Player Transfers
+          <CardDescription>
+            {isAdmin
+              ? "Transfers between clubs awaiting a NOC or the association's approval"
+              : "Players moving into and out of your club"}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <Tabs
+              value={tab}
+              onValueChange={(value) => {
+                setTab(value);
+                setPage(1);
+              }}
+            >
+              <TabsList>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="all">History</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {tab === "all" && (
+              <Select
+                value={status}
+                onValueChange={(value) => {
+                  setStatus(value);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="All statuses" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {TRANSFER_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TRANSFER_STATUS_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="flex-1" />
+
+            <Button onClick={() => setIsRequestDialogOpen(true)} size="sm">
+              <PlusCircle className="mr-2 h-4 w-4" />
+              Request Transfer
+            </Button>
+          </div>
+
+          {/* Transfers Table */}
+          <div className="rounded-md border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableHead>Player</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead>Remarks</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      <LoaderCircle className="h-6 w-6 animate-spin mx-auto" />
+                      <p className="mt-2">Loading transfers...</p>
+                    </TableCell>
+                  </TableRow>
+                ) : !data?.transfers.length ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-24 text-center">
+                      {tab === "pending" ? "No transfers awaiting action." : "No transfers found."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data.transfers.map((transfer) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>
+                        <Link to={`/players/${transfer.player.id}`} className="flex items-center gap-3 hover:underline">
+                          <Avatar className="h-8 w-8">
+                            {transfer.player.profileImage && (
+                              <AvatarImage src={`/uploads${transfer.player.profileImage}`} alt={transfer.player.firstName} />
+                            )}
+                            <AvatarFallback>{transfer.player.firstName.charAt(0)}</AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <div>{transfer.player.firstName} {transfer.player.lastName}</div>
+                            <div className="text-xs text-muted-foreground">{transfer.player.uniqueIdNumber}</div>
+                          </div>
+                        </Link>
+                      </TableCell>
+                      <TableCell>{transfer.fromClub?.clubName || "Unattached"}</TableCell>
+                      <TableCell>{transfer.toClub?.clubName || "-"}</TableCell>
+                      <TableCell>
+                        <TransferStatusBadge status={transfer.status} />
+                        {transfer.status === "approved" && transfer.coolingOffEndsAt &&
+                          new Date(transfer.coolingOffEndsAt) > new Date() && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Cooling-off until {format(new Date(transfer.coolingOffEndsAt), "d MMM yyyy")}
+                            </div>
+                          )}
+                      </TableCell>
+                      <TableCell>{format(new Date(transfer.createdAt), "d MMM yyyy")}</TableCell>
+                      <TableCell
+                        className="max-w-[220px] truncate"
+                        title={[transfer.reason, transfer.nocRemarks, transfer.remarks].filter(Boolean).join(" / ")}
+                      >
+                        {transfer.remarks || transfer.nocRemarks || transfer.reason}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {canDecideNoc(transfer) && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isDeciding}
+                                onClick={() => nocMutation.mutate({ id: transfer.id, decision: "issued" })}
+                              >
+                                <Check className="mr-2 h-4 w-4 text-green-500" />
+                                Issue NOC
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isDeciding}
+                                onClick={() => setRemarksAction({ transfer, kind: "noc" })}
+                              >
+                                <X className="mr-2 h-4 w-4 text-red-500" />
+                                Deny
+                              </Button>
+                            </>
+                          )}
+                          {canDecideTransfer(transfer) && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isDeciding}
+                                onClick={() => decisionMutation.mutate({ id: transfer.id, status: "approved" })}
+                              >
+                                <Check className="mr-2 h-4 w-4 text-green-500" />
+                                Approve
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={isDeciding}
+                                onClick={() => setRemarksAction({ transfer, kind: "decision" })}
+                              >
+                                <X className="mr-2 h-4 w-4 text-red-500" />
+                                Reject
+                              </Button>
+                            </>
+                          )}
+                          {canCancel(transfer) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon" disabled={isDeciding}>
+                                  <Undo2 className="h-4 w-4" />
+                                  <span className="sr-only">Withdraw</span>
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Withdraw Transfer Request</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Withdraw the request to transfer {transfer.player.firstName} {transfer.player.lastName}?
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => cancelMutation.mutate(transfer.id)}>
+                                    Withdraw
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pagination */}
+          {data && data.totalPages > 1 && (
+            <div className="flex justify-between items-center mt-4">
+              <CustomPagination
+                currentPage={page}
+                totalPages={data.totalPages}
+                totalRecords={data.totalTransfers}
+                recordsPerPage={limit}
+                onPageChange={handlePageChange}
+                onRecordsPerPageChange={handleRecordsPerPageChange}
+              />
+              <div className="text-sm">
+                Showing {(page - 1) * limit + 1} to {Math.min(page * limit, data.totalTransfers)} of {data.totalTransfers}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <RequestTransferDialog
+        open={isRequestDialogOpen}
+        onOpenChange={setIsRequestDialogOpen}
+        isClubAdmin={!isAdmin}
+      />
+
+      {/* Deny NOC / Reject Transfer Dialog */}
+      <Dialog
+        open={!!remarksAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRemarksAction(null);
+            setRemarks("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {remarksAction?.kind === "noc" ? "Deny NOC" : "Reject Transfer"}
+              {remarksAction ? ` - ${remarksAction.transfer.player.firstName} ${remarksAction.transfer.player.lastName}` : ""}
+            </DialogTitle>
+            <DialogDescription>
+              {remarksAction?.kind === "noc"
+                ? "The requesting club will see this reason."
+                : "Both clubs will see this reason."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason"
+            value={remarks}
+            onChange={(e) => setRemarks(e.target.value)}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRemarksAction(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={!remarks.trim() || isDeciding} onClick={submitRemarks}>
+              {isDeciding && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              {remarksAction?.kind === "noc" ? "Deny NOC" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TransferList;
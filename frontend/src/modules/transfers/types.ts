@@ -0,0 +1,55 @@
+export type TransferStatus =
+  | "requested"
+  | "noc_issued"
+  | "noc_denied"
+  | "approved"
+  | "rejected"
+  | "cancelled";
+
+export interface PlayerTransfer {
+  id: number;
+  playerId: number;
+  fromClubId: number | null;
+  toClubId: number | null;
+  status: TransferStatus;
+  reason: string | null;
+  nocRemarks: string | null;
+  nocDecidedAt: string | null;
+  remarks: string | null;
+  decidedAt: string | null;
+  coolingOffEndsAt: string | null;
+  createdAt: string;
+  player: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    uniqueIdNumber: string;
+    profileImage: string | null;
+  };
+  fromClub: { id: number; clubName: string } | null;
+  toClub: { id: number; clubName: string } | null;
+  requestedBy: { id: number; name: string } | null;
+  nocDecidedBy: { id: number; name: string } | null;
+  decidedBy: { id: number; name: string } | null;
+}
+
+export interface TransfersResponse {
+  transfers: PlayerTransfer[];
+  page: number;
+  totalPages: number;
+  totalTransfers: number;
+}
+
+export const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  requested: "Awaiting NOC",
+  noc_issued: "NOC Issued",
+  noc_denied: "NOC Denied",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+export const TRANSFER_STATUSES = Object.keys(TRANSFER_STATUS_LABELS) as TransferStatus[];
+
+// Transfers still waiting on the releasing club or the association
+export const OPEN_TRANSFER_STATUSES: TransferStatus[] = ["requested", "noc_issued"];
@@ -0,0 +1,19 @@
+
+import VenueForm from "./VenueForm";
+
+interface CreateVenueProps {
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const CreateVenue = ({ onSuccess, className }: CreateVenueProps) => {
+  return (
+    <VenueForm 
+      mode="create" 
+      onSuccess={onSuccess}
+      className={className}
+    />
+  );
+};
+
+export default CreateVenue;
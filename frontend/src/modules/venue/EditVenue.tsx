@@ -0,0 +1,21 @@
+
+import VenueForm from "./VenueForm";
+
+interface EditVenueProps {
+  venueId: string;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const EditVenue = ({ venueId, onSuccess, className }: EditVenueProps) => {
+  return (
+    <VenueForm 
+      mode="edit" 
+      venueId={venueId}
+      onSuccess={onSuccess}
+      className={className}
+    />
+  );
+};
+
+export default EditVenue;
@@ -0,0 +1,451 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { LoaderCircle, PlusCircle, Trash2 } from "lucide-react";
+
+// Shadcn UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DatetimePicker } from "@/components/ui/date-time-picker";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+// Services and utilities
+import { post, put, get } from "@/services/apiService";
+import Validate from "@/lib/Handlevalidation";
+
+// Define interfaces for API responses
+export interface VenueData {
+  id: number;
+  venueName: string;
+  address: string;
+  city: string;
+  capacity: number | null;
+  courts: { id: number; courtName: string }[];
+  availability: { id: number; startTime: string; endTime: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const venueFormSchema = z.object({
+  venueName: z.string()
+    .min(1, "Venue name is required")
+    .max(255, "Venue name must not exceed 255 characters"),
+  address: z.string()
+    .min(1, "Address is required")
+    .max(500, "Address must not exceed 500 characters"),
+  city: z.string()
+    .min(1, "City is required")
+    .max(255, "City must not exceed 255 characters"),
+  capacity: z.string()
+    .regex(/^\d*$/, "Capacity must be a whole number")
+    .optional(),
+  courts: z.array(
+    z.object({
+      id: z.number().optional(),
+      courtName: z.string()
+        .min(1, "Court name is required")
+        .max(255, "Court name must not exceed 255 characters"),
+    })
+  ).min(1, "Add at least one court"),
+  availability: z.array(
+    z.object({
+      startTime: z.date({ required_error: "Start time is required" }),
+      endTime: z.date({ required_error: "End time is required" }),
+    }).refine((window) => window.endTime > window.startTime, {
+      message: "End time must be after the start time",
+      path: ["endTime"],
+    })
+  ),
+});
+
+type VenueFormValues = z.infer<typeof venueFormSchema>;
+type VenuePayload = Omit<VenueFormValues, "capacity" | "availability"> & {
+  capacity: number | null;
+  availability: { startTime: string; endTime: string }[];
+};
+
+const dateTimeFormat: [["days", "months", "years"], ["hours", "minutes", "am/pm"]] = [
+  ["days", "months", "years"],
+  ["hours", "minutes", "am/pm"],
+];
+
+const extractErrorMessage = (error: any): string | undefined => {
+  if (error?.errors && typeof error.errors === "object") {
+    const firstKey = Object.keys(error.errors)[0];
+    if (firstKey) {
+      return error.errors[firstKey]?.message as string | undefined;
+    }
+  }
+  return error?.message;
+};
+
+interface VenueFormProps {
+  mode: "create" | "edit";
+  venueId?: string;
+  onSuccess?: () => void;
+  className?: string;
+}
+
+const VenueForm = ({
+  mode,
+  venueId,
+  onSuccess,
+  className,
+}: VenueFormProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Initialize form with Shadcn Form
+  const form = useForm<VenueFormValues>({
+    resolver: zodResolver(venueFormSchema),
+    defaultValues: {
+      venueName: "",
+      address: "",
+      city: "",
+      capacity: "",
+      courts: [{ courtName: "Court 1" }],
+      availability: [],
+    },
+  });
+
+  const courts = useFieldArray({ control: form.control, name: "courts" });
+  const availability = useFieldArray({ control: form.control, name: "availability" });
+
+  // Query for fetching venue data in edit mode
+  const { data: venueData, isLoading: isFetchingVenue, error: fetchError } = useQuery({
+    queryKey: ["venue", venueId],
+    queryFn: async (): Promise<VenueData> => {
+      if (!venueId) throw new Error("Venue ID is required");
+      return get(`/venues/${venueId}`);
+    },
+    enabled: mode === "edit" && !!venueId,
+    retry: 1,
+    refetchOnWindowFocus: false,
+  });
+
+  // Handle successful venue fetch
+  useEffect(() => {
+    if (venueData && mode === "edit") {
+      form.reset({
+        venueName: venueData.venueName,
+        address: venueData.address,
+        city: venueData.city,
+        capacity: venueData.capacity !== null ? String(venueData.capacity) : "",
+        courts: venueData.courts.map((court) => ({ id: court.id, courtName: court.courtName })),
+        availability: venueData.availability.map((window) => ({
+          startTime: new Date(window.startTime),
+          endTime: new Date(window.endTime),
+        })),
+      });
+    }
+  }, [venueData, mode, form]);
+
+  // Handle fetch error
+  useEffect(() => {
+    if (fetchError && mode === "edit") {
+      toast.error(fetchError.message || "Failed to fetch venue details");
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/venues");
+      }
+    }
+  }, [fetchError, mode, onSuccess, navigate]);
+
+  const handleError = (error: any, fallback: string) => {
+    Validate(error, form.setError);
+    toast.error(extractErrorMessage(error) || fallback);
+  };
+
+  // Mutation for creating a venue
+  const createVenueMutation = useMutation({
+    mutationFn: (data: VenuePayload) => {
+      return post("/venues", data);
+    },
+    onSuccess: () => {
+      toast.success("Venue created successfully");
+      queryClient.invalidateQueries({ queryKey: ["venues"] });
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/venues");
+      }
+    },
+    onError: (error: any) => handleError(error, "Failed to create venue"),
+  });
+
+  // Mutation for updating a venue
+  const updateVenueMutation = useMutation({
+    mutationFn: (data: VenuePayload) => {
+      return put(`/venues/${venueId}`, data);
+    },
+    onSuccess: () => {
+      toast.success("Venue updated successfully");
+      queryClient.invalidateQueries({ queryKey: ["venues"] });
+      queryClient.invalidateQueries({ queryKey: ["venue", venueId] });
+      if (onSuccess) {
+        onSuccess();
+      } else {
+        navigate("/venues");
+      }
+    },
+    onError: (error: any) => handleError(error, "Failed to update venue"),
+  });
+
+  // Handle form submission
+  const onSubmit = (data: VenueFormValues) => {
+    const payload: VenuePayload = {
+      ...data,
+      capacity: data.capacity ? Number(data.capacity) : null,
+      availability: data.availability.map((window) => ({
+        startTime: window.startTime.toISOString(),
+        endTime: window.endTime.toISOString(),
+      })),
+    };
+    if (mode === "create") {
+      createVenueMutation.mutate(payload);
+    } else {
+      updateVenueMutation.mutate(payload);
+    }
+  };
+
+  const handleCancel = () => {
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      navigate("/venues");
+    }
+  };
+
+  // Combined loading venue from fetch and mutations
+  const isFormLoading = isFetchingVenue || createVenueMutation.isPending || updateVenueMutation.isPending;
+
+  return (
+    <div className={className}>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-7">
+          {/* Venue Name Field */}
+          <FormField
+            control={form.control}
+            name="venueName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Venue Name <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Enter venue name"
+                    {...field}
+                    disabled={isFormLoading}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* Address Field */}
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Address <span className="text-red-500">*</span></FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Enter address"
+                    {...field}
+                    disabled={isFormLoading}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {/* City and Capacity Fields in a grid */}
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="city"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>City <span className="text-red-500">*</span></FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Enter city"
+                      {...field}
+                      disabled={isFormLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="capacity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Capacity</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Spectators"
+                      {...field}
+                      disabled={isFormLoading}
+                      inputMode="numeric"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          {/* Courts */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <FormLabel>Courts <span className="text-red-500">*</span></FormLabel>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => courts.append({ courtName: `Court ${courts.fields.length + 1}` })}
+                disabled={isFormLoading}
+              >
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Court
+              </Button>
+            </div>
+            {courts.fields.map((court, index) => (
+              <div key={court.id} className="flex items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`courts.${index}.courtName`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormControl>
+                        <Input placeholder="Court name" {...field} disabled={isFormLoading} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => courts.remove(index)}
+                  disabled={isFormLoading || courts.fields.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove court</span>
+                </Button>
+              </div>
+            ))}
+            {form.formState.errors.courts?.message && (
+              <p className="text-sm text-destructive">{form.formState.errors.courts.message}</p>
+            )}
+          </div>
+
+          {/* Availability Windows */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <FormLabel>Availability</FormLabel>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const start = new Date();
+                  start.setMinutes(0, 0, 0);
+                  availability.append({ startTime: start, endTime: new Date(start.getTime() + 8 * 60 * 60 * 1000) });
+                }}
+                disabled={isFormLoading}
+              >
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Window
+              </Button>
+            </div>
+            {availability.fields.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No windows added, so matches can be scheduled here at any time.
+              </p>
+            )}
+            {availability.fields.map((window, index) => (
+              <div key={window.id} className="flex items-start gap-2 rounded-md border p-2">
+                <div className="grid flex-1 gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`availability.${index}.startTime`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs text-muted-foreground">From</FormLabel>
+                        <FormControl>
+                          <DatetimePicker value={field.value} onChange={field.onChange} format={dateTimeFormat} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`availability.${index}.endTime`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs text-muted-foreground">To</FormLabel>
+                        <FormControl>
+                          <DatetimePicker value={field.value} onChange={field.onChange} format={dateTimeFormat} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => availability.remove(index)}
+                  disabled={isFormLoading}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove window</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Form Actions */}
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isFormLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isFormLoading}>
+              {isFormLoading && <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === "create" ? "Create" : "Update"} Venue
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
+
+export default VenueForm;
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import { Html5Qrcode } from "html5-qrcode";
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+}
+
+const SCANNER_ELEMENT_ID = "player-qr-scanner";
+
+// Camera preview that reports the first QR code it reads, using the rear camera on phones
+const QrScanner = ({ onScan }: QrScannerProps) => {
+  const onScanRef = useRef(onScan);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const scanner = new Html5Qrcode(SCANNER_ELEMENT_ID);
+    let handled = false;
+
+    const started = scanner
+      .start(
+        { facingMode: "environment" },
+        { fps: 10, qrbox: { width: 240, height: 240 } },
+        (decodedText) => {
+          if (!handled) {
+            handled = true;
+            onScanRef.current(decodedText);
+          }
+        },
+        () => {
+          // No QR code in this frame; keep scanning
+        }
+      )
+      .then(() => true)
+      .catch(() => {
+        setCameraError(
+          "Could not open the camera. Allow camera access, or enter the ID printed on the card."
+        );
+        return false;
+      });
+
+    return () => {
+      started.then((running) => {
+        if (running) {
+          scanner.stop().then(() => scanner.clear()).catch(() => undefined);
+        }
+      });
+    };
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div id={SCANNER_ELEMENT_ID} className="w-full overflow-hidden rounded-md bg-black" />
+      {cameraError && <p className="text-sm text-red-600">{cameraError}</p>}
+    </div>
+  );
+};
+
+export default QrScanner;
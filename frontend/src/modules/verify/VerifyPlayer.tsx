@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { LoaderCircle, ScanLine, Search, ShieldCheck, ShieldX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { get } from "@/services/apiService";
+import { appName } from "@/config";
+import QrScanner from "./QrScanner";
+
+// Interfaces
+interface VerificationResult {
+  uniqueIdNumber: string;
+  name: string;
+  profileImage: string | null;
+  club: string | null;
+  eligibility: {
+    eligible: boolean;
+    aadharVerified: boolean;
+    reasons: string[];
+  };
+  suspension: {
+    isSuspended: boolean;
+    startDate: string | null;
+    endDate: string | null;
+  };
+  checkedAt: string;
+}
+
+// ID cards encode the full verification URL; accept that or a bare unique ID
+const extractUniqueId = (text: string) => {
+  const trimmed = text.trim();
+  const match = trimmed.match(/\/verify\/([^/?#]+)/);
+  return match ? decodeURIComponent(match[1]) : trimmed;
+};
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .filter(Boolean)
+    .map((part) => part.charAt(0))
+    .slice(0, 2)
+    .join("")
+    .toUpperCase();
+
+const VerifyPlayer = () => {
+  const { uniqueIdNumber } = useParams<{ uniqueIdNumber: string }>();
+  const navigate = useNavigate();
+  const [isScanning, setIsScanning] = useState(!uniqueIdNumber);
+  const [manualId, setManualId] = useState("");
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["verify", uniqueIdNumber],
+    queryFn: (): Promise<VerificationResult> =>
+      get(`/verify/${encodeURIComponent(uniqueIdNumber || "")}`),
+    enabled: !!uniqueIdNumber,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const showPlayer = (text: string) => {
+    const id = extractUniqueId(text);
+    if (!id) return;
+    setIsScanning(false);
+    setManualId("");
+    navigate(`/verify/${encodeURIComponent(id)}`);
+  };
+
+  const errorMessage =
+    (error as { errors?: { message?: string } } | null)?.errors?.message ||
+    "Could not verify this player.";
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="mx-auto max-w-md space-y-4">
+        <div className="text-center">
+          <h1 className="text-xl font-bold">{appName}</h1>
+          <p className="text-sm text-muted-foreground">Player verification</p>
+        </div>
+
+        {/* Scanner and manual entry */}
+        <Card>
+          <CardContent className="space-y-3 pt-6">
+            {isScanning ? (
+              <>
+                <QrScanner onScan={showPlayer} />
+                <Button variant="outline" className="w-full" onClick={() => setIsScanning(false)}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <Button className="w-full" onClick={() => setIsScanning(true)}>
+                <ScanLine className="mr-2 h-4 w-4" />
+                Scan ID Card
+              </Button>
+            )}
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                showPlayer(manualId);
+              }}
+            >
+              <Input
+                placeholder="Or enter the player's unique ID"
+                value={manualId}
+                onChange={(e) => setManualId(e.target.value)}
+                autoCapitalize="characters"
+              />
+              <Button type="submit" variant="outline" size="icon" disabled={!manualId.trim()}>
+                <Search className="h-4 w-4" />
+                <span className="sr-only">Look up</span>
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Status card */}
+        {uniqueIdNumber && (
+          isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <LoaderCircle className="h-6 w-6 animate-spin" />
+            </div>
+          ) : isError || !data ? (
+            <Card className="border-red-300">
+              <CardContent className="pt-6 text-center space-y-1">
+                <ShieldX className="mx-auto h-10 w-10 text-red-600" />
+                <div className="font-medium text-red-700">{errorMessage}</div>
+                <div className="text-xs text-muted-foreground font-mono">{uniqueIdNumber}</div>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className={data.eligibility.eligible ? "border-green-400" : "border-red-400"}>
+              <CardHeader
+                className={`rounded-t-xl py-4 text-white ${
+                  data.eligibility.eligible ? "bg-green-600" : "bg-red-600"
+                }`}
+              >
+                <CardTitle className="flex items-center justify-center gap-2 text-lg">
+                  {data.eligibility.eligible ? (
+                    <>
+                      <ShieldCheck className="h-6 w-6" />
+                      Eligible to play
+                    </>
+                  ) : (
+                    <>
+                      <ShieldX className="h-6 w-6" />
+                      Not eligible
+                    </>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 pt-6">
+                <div className="flex items-center gap-4">
+                  <Avatar className="h-24 w-24 rounded-md">
+                    {data.profileImage && (
+                      <AvatarImage
+                        src={`/uploads${data.profileImage}`}
+                        alt={data.name}
+                        className="object-cover"
+                      />
+                    )}
+                    <AvatarFallback className="rounded-md text-2xl">
+                      {getInitials(data.name)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="space-y-1">
+                    <div className="text-lg font-semibold">{data.name}</div>
+                    <div className="text-sm">{data.club || "No club"}</div>
+                    <div className="text-xs text-muted-foreground font-mono">
+                      {data.uniqueIdNumber}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="rounded-md border p-2">
+                    <div className="text-xs text-muted-foreground">Aadhar</div>
+                    <div className={data.eligibility.aadharVerified ? "text-green-700" : "text-red-700"}>
+                      {data.eligibility.aadharVerified ? "Verified" : "Not verified"}
+                    </div>
+                  </div>
+                  <div className="rounded-md border p-2">
+                    <div className="text-xs text-muted-foreground">Suspension</div>
+                    <div className={data.suspension.isSuspended ? "text-red-700" : "text-green-700"}>
+                      {!data.suspension.isSuspended
+                        ? "None"
+                        : data.suspension.endDate
+                          ? `Until ${new Date(data.suspension.endDate).toLocaleDateString()}`
+                          : "Indefinite"}
+                    </div>
+                  </div>
+                </div>
+
+                {data.eligibility.reasons.length > 0 && (
+                  <ul className="list-disc pl-5 text-sm text-red-700">
+                    {data.eligibility.reasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="text-center text-xs text-muted-foreground">
+                  Checked {new Date(data.checkedAt).toLocaleString()}
+                </div>
+              </CardContent>
+            </Card>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyPlayer;
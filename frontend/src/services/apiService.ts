@@ -1,5 +1,6 @@
 import axios from "axios";
 import { backendUrl } from "../config";
+import { SEASON_STORAGE_KEY } from "@/modules/season/types";
 
 const api = axios.create({
   baseURL: backendUrl,
@@ -55,6 +56,12 @@ api.interceptors.request.use((config) => {
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
+
+  // Season picked in the navbar switcher; lists are scoped to it
+  const seasonId = localStorage.getItem(SEASON_STORAGE_KEY);
+  if (seasonId && seasonId !== "all") {
+    config.headers["X-Season-Id"] = seasonId;
+  }
   return config;
 });
 
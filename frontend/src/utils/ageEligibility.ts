@@ -0,0 +1,68 @@
+/**
+ * Utility functions for checking players against group age and gender rules.
+ * Mirrors the backend ageEligibilityService so forms can flag problems early.
+ */
+
+export interface GroupRule {
+  gender: string;
+  maxAge?: number | null;
+  ageCutoffDate?: string | null;
+}
+
+/**
+ * Returns a person's age in completed years on the given date
+ */
+export const getAgeOn = (dateOfBirth: string | Date, onDate: string | Date): number => {
+  const dob = new Date(dateOfBirth);
+  const on = new Date(onDate);
+
+  let age = on.getFullYear() - dob.getFullYear();
+  const hadBirthday =
+    on.getMonth() > dob.getMonth() ||
+    (on.getMonth() === dob.getMonth() && on.getDate() >= dob.getDate());
+  if (!hadBirthday) {
+    age -= 1;
+  }
+
+  return age;
+};
+
+/**
+ * Returns the reasons a player does not meet a group's rule; empty when eligible.
+ * Missing player details are not reported, so the form only flags known problems.
+ */
+export const getGroupIneligibilityReasons = (
+  player: { dateOfBirth?: string; gender?: string },
+  group: GroupRule,
+): string[] => {
+  const reasons: string[] = [];
+
+  if (group.gender && group.gender !== "Mix" && player.gender && player.gender !== group.gender) {
+    reasons.push(`${group.gender} only`);
+  }
+
+  if (group.maxAge != null && player.dateOfBirth) {
+    const dob = new Date(player.dateOfBirth);
+    if (!isNaN(dob.getTime())) {
+      const age = getAgeOn(dob, group.ageCutoffDate || new Date());
+      if (age > group.maxAge) {
+        reasons.push(`Over age (max ${group.maxAge})`);
+      }
+    }
+  }
+
+  return reasons;
+};
+
+/**
+ * Returns a short description of a group's age rule, e.g. "Max 13 on 01/01/2025"
+ */
+export const describeAgeRule = (group: GroupRule): string => {
+  if (group.maxAge == null) {
+    return "";
+  }
+  const cutoff = group.ageCutoffDate
+    ? new Date(group.ageCutoffDate).toLocaleDateString()
+    : "today";
+  return `Max ${group.maxAge} on ${cutoff}`;
+};
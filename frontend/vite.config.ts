@@ -16,6 +16,11 @@ export default defineConfig({
       "/api": {
         target: "http://localhost:3000/",
 
+        changeOrigin: true,
+      },
+      "/uploads": {
+        target: "http://localhost:3000/",
+
         changeOrigin: true,
       },
     },